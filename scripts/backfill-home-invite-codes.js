@@ -0,0 +1,161 @@
+/**
+ * Migrasi: Kode Undangan Rumah
+ *
+ * Non-anggota tidak bisa mencari rumah berdasarkan `inviteCode`, sehingga kode utama
+ * rumah hanya bisa dipakai jika tersimpan sebagai dokumen `invites/{kode}`. Rumah baru
+ * dan kode yang dibuat ulang sudah disimpan begitu oleh aplikasi; script ini membuat
+ * dokumen undangan untuk kode rumah lama yang belum memilikinya.
+ *
+ * Sama seperti scripts/backfill-note-visibility.js, script memakai REST API Firestore
+ * dan bisa dijalankan langsung terhadap Firebase Emulator:
+ *
+ *   FIRESTORE_EMULATOR_HOST=localhost:8080 \
+ *   FIREBASE_PROJECT_ID=demo-rumah-kita \
+ *   node scripts/backfill-home-invite-codes.js [--dry-run]
+ *
+ * Untuk project asli, isi FIREBASE_PROJECT_ID dan GOOGLE_OAUTH_ACCESS_TOKEN
+ * (misalnya dari `gcloud auth print-access-token`). Script aman dijalankan ulang:
+ * kode yang sudah memiliki dokumen undangan tidak diubah.
+ */
+
+const MAX_BATCH_WRITES = 500;
+
+const projectId = process.env.FIREBASE_PROJECT_ID || process.env.GCLOUD_PROJECT;
+const firestoreEmulator = process.env.FIRESTORE_EMULATOR_HOST;
+const dryRun = process.argv.includes('--dry-run');
+
+// Emulator menerima token "owner" yang melewati security rules
+const accessToken = firestoreEmulator ? 'owner' : process.env.GOOGLE_OAUTH_ACCESS_TOKEN;
+
+const firestoreBase = firestoreEmulator
+  ? `http://${firestoreEmulator}`
+  : 'https://firestore.googleapis.com';
+const documentsPath = `projects/${projectId}/databases/(default)/documents`;
+
+const request = async (url, options = {}) => {
+  const response = await fetch(url, {
+    ...options,
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${accessToken}`,
+      ...options.headers
+    }
+  });
+
+  if (!response.ok) {
+    throw new Error(`${options.method || 'GET'} ${url} gagal: ${response.status} ${await response.text()}`);
+  }
+
+  return response.status === 204 ? null : response.json();
+};
+
+// Satu halaman rumah, diurutkan menurut nama dokumen dan dilanjutkan dari dokumen terakhir
+const fetchHomesPage = async (lastName) => {
+  const structuredQuery = {
+    from: [{ collectionId: 'homes' }],
+    orderBy: [{ field: { fieldPath: '__name__' }, direction: 'ASCENDING' }],
+    limit: MAX_BATCH_WRITES
+  };
+  if (lastName) {
+    structuredQuery.startAt = { values: [{ referenceValue: lastName }], before: false };
+  }
+
+  const results = await request(`${firestoreBase}/v1/${documentsPath}:runQuery`, {
+    method: 'POST',
+    body: JSON.stringify({ structuredQuery })
+  });
+
+  return results.filter(result => result.document).map(result => result.document);
+};
+
+// Dokumen yang ada, dipetakan menurut nama lengkapnya
+const batchGet = async (names) => {
+  const results = await request(`${firestoreBase}/v1/${documentsPath}:batchGet`, {
+    method: 'POST',
+    body: JSON.stringify({ documents: names })
+  });
+
+  const documents = {};
+  results.filter(result => result.found).forEach(result => {
+    documents[result.found.name] = result.found;
+  });
+  return documents;
+};
+
+const commit = async (writes) => {
+  if (writes.length === 0) return;
+
+  await request(`${firestoreBase}/v1/${documentsPath}:commit`, {
+    method: 'POST',
+    body: JSON.stringify({ writes })
+  });
+};
+
+const main = async () => {
+  if (!projectId) {
+    throw new Error('FIREBASE_PROJECT_ID belum diisi');
+  }
+  if (!accessToken) {
+    throw new Error('GOOGLE_OAUTH_ACCESS_TOKEN belum diisi (atau jalankan terhadap emulator)');
+  }
+
+  let lastName = null;
+  let scanned = 0;
+  let created = 0;
+
+  while (true) {
+    const homes = await fetchHomesPage(lastName);
+    if (homes.length === 0) break;
+
+    const codes = homes
+      .filter(home => home.fields && home.fields.inviteCode && home.fields.inviteCode.stringValue)
+      .map(home => ({
+        home,
+        code: home.fields.inviteCode.stringValue,
+        inviteName: `${documentsPath}/invites/${home.fields.inviteCode.stringValue}`
+      }));
+
+    const existing = codes.length > 0 ? await batchGet(codes.map(code => code.inviteName)) : {};
+    const now = new Date().toISOString();
+
+    const writes = codes
+      .filter(code => !existing[code.inviteName])
+      .map(({ home, code, inviteName }) => ({
+        update: {
+          name: inviteName,
+          fields: {
+            id: { stringValue: code },
+            homeId: { stringValue: home.name.split('/').pop() },
+            homeName: { stringValue: (home.fields.name && home.fields.name.stringValue) || '' },
+            role: { stringValue: 'member' },
+            createdBy: { stringValue: home.fields.createdBy.stringValue },
+            createdAt: { timestampValue: now },
+            expiresAt: { nullValue: null },
+            maxUses: { nullValue: null },
+            uses: { integerValue: '0' },
+            revoked: { booleanValue: false },
+            requireApproval: { booleanValue: !!(home.fields.requireApproval && home.fields.requireApproval.booleanValue) },
+            homeCode: { booleanValue: true }
+          }
+        },
+        currentDocument: { exists: false }
+      }));
+
+    if (!dryRun) {
+      await commit(writes);
+    }
+
+    scanned += homes.length;
+    created += writes.length;
+
+    if (homes.length < MAX_BATCH_WRITES) break;
+    lastName = homes[homes.length - 1].name;
+  }
+
+  console.log(`${dryRun ? '[dry-run] ' : ''}${created} dari ${scanned} rumah dibuatkan dokumen undangan`);
+};
+
+main().catch((error) => {
+  console.error('Migrasi kode undangan rumah gagal:', error.message);
+  process.exit(1);
+});
@@ -0,0 +1,164 @@
+/**
+ * Migrasi: Nama Tampilan Anggota
+ *
+ * Serah terima konten anggota yang dikeluarkan menyimpan nama tampilannya, yang dibaca
+ * dari profil anggota (`homeMembers/{homeId}_{userId}`) karena dokumen `users` hanya
+ * bisa dibaca pemiliknya sendiri. Aplikasi menyalin nama itu setiap kali user login;
+ * script ini mengisinya untuk anggota yang belum login lagi sejak perubahan tersebut.
+ *
+ * Sama seperti scripts/backfill-owner-last-login.js, script memakai REST API Firestore
+ * dan bisa dijalankan langsung terhadap Firebase Emulator:
+ *
+ *   FIRESTORE_EMULATOR_HOST=localhost:8080 \
+ *   FIREBASE_PROJECT_ID=demo-rumah-kita \
+ *   node scripts/backfill-member-display-names.js [--dry-run]
+ *
+ * Untuk project asli, isi FIREBASE_PROJECT_ID dan GOOGLE_OAUTH_ACCESS_TOKEN
+ * (misalnya dari `gcloud auth print-access-token`). Script aman dijalankan ulang:
+ * profil yang sudah memiliki `displayName` tidak diubah.
+ */
+
+const MAX_BATCH_WRITES = 500;
+
+const projectId = process.env.FIREBASE_PROJECT_ID || process.env.GCLOUD_PROJECT;
+const firestoreEmulator = process.env.FIRESTORE_EMULATOR_HOST;
+const dryRun = process.argv.includes('--dry-run');
+
+// Emulator menerima token "owner" yang melewati security rules
+const accessToken = firestoreEmulator ? 'owner' : process.env.GOOGLE_OAUTH_ACCESS_TOKEN;
+
+const firestoreBase = firestoreEmulator
+  ? `http://${firestoreEmulator}`
+  : 'https://firestore.googleapis.com';
+const documentsPath = `projects/${projectId}/databases/(default)/documents`;
+
+const request = async (url, options = {}) => {
+  const response = await fetch(url, {
+    ...options,
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${accessToken}`,
+      ...options.headers
+    }
+  });
+
+  if (!response.ok) {
+    throw new Error(`${options.method || 'GET'} ${url} gagal: ${response.status} ${await response.text()}`);
+  }
+
+  return response.status === 204 ? null : response.json();
+};
+
+// Satu halaman rumah, diurutkan menurut nama dokumen dan dilanjutkan dari dokumen terakhir
+const fetchHomesPage = async (lastName) => {
+  const structuredQuery = {
+    from: [{ collectionId: 'homes' }],
+    orderBy: [{ field: { fieldPath: '__name__' }, direction: 'ASCENDING' }],
+    limit: MAX_BATCH_WRITES
+  };
+  if (lastName) {
+    structuredQuery.startAt = { values: [{ referenceValue: lastName }], before: false };
+  }
+
+  const results = await request(`${firestoreBase}/v1/${documentsPath}:runQuery`, {
+    method: 'POST',
+    body: JSON.stringify({ structuredQuery })
+  });
+
+  return results.filter(result => result.document).map(result => result.document);
+};
+
+// Dokumen yang ada, dipetakan menurut nama lengkapnya
+const batchGet = async (names) => {
+  const results = await request(`${firestoreBase}/v1/${documentsPath}:batchGet`, {
+    method: 'POST',
+    body: JSON.stringify({ documents: names })
+  });
+
+  const documents = {};
+  results.filter(result => result.found).forEach(result => {
+    documents[result.found.name] = result.found;
+  });
+  return documents;
+};
+
+const commit = async (writes) => {
+  for (let i = 0; i < writes.length; i += MAX_BATCH_WRITES) {
+    await request(`${firestoreBase}/v1/${documentsPath}:commit`, {
+      method: 'POST',
+      body: JSON.stringify({ writes: writes.slice(i, i + MAX_BATCH_WRITES) })
+    });
+  }
+};
+
+const main = async () => {
+  if (!projectId) {
+    throw new Error('FIREBASE_PROJECT_ID belum diisi');
+  }
+  if (!accessToken) {
+    throw new Error('GOOGLE_OAUTH_ACCESS_TOKEN belum diisi (atau jalankan terhadap emulator)');
+  }
+
+  let lastName = null;
+  let scanned = 0;
+  let updated = 0;
+
+  while (true) {
+    const homes = await fetchHomesPage(lastName);
+    if (homes.length === 0) break;
+
+    for (const home of homes) {
+      const homeId = home.name.split('/').pop();
+      const members = ((home.fields.members && home.fields.members.arrayValue.values) || []).map(value => {
+        const userId = value.stringValue;
+        const profileId = `${homeId}_${userId}`;
+        return {
+          userId,
+          profileId,
+          userName: `${documentsPath}/users/${userId}`,
+          profileName: `${documentsPath}/homeMembers/${profileId}`
+        };
+      });
+      if (members.length === 0) continue;
+
+      const existing = await batchGet(members.flatMap(member => [member.userName, member.profileName]));
+
+      const writes = members
+        .filter(member => {
+          const user = existing[member.userName];
+          const profile = existing[member.profileName];
+          return user && user.fields && user.fields.displayName && user.fields.displayName.stringValue &&
+            !(profile && profile.fields && profile.fields.displayName);
+        })
+        .map(member => ({
+          update: {
+            name: member.profileName,
+            fields: {
+              id: { stringValue: member.profileId },
+              homeId: { stringValue: homeId },
+              userId: { stringValue: member.userId },
+              displayName: existing[member.userName].fields.displayName
+            }
+          },
+          updateMask: { fieldPaths: ['id', 'homeId', 'userId', 'displayName'] }
+        }));
+
+      if (!dryRun) {
+        await commit(writes);
+      }
+      updated += writes.length;
+    }
+
+    scanned += homes.length;
+
+    if (homes.length < MAX_BATCH_WRITES) break;
+    lastName = homes[homes.length - 1].name;
+  }
+
+  console.log(`${dryRun ? '[dry-run] ' : ''}${updated} profil anggota dari ${scanned} rumah diisi nama tampilan`);
+};
+
+main().catch((error) => {
+  console.error('Migrasi nama tampilan anggota gagal:', error.message);
+  process.exit(1);
+});
@@ -0,0 +1,123 @@
+/**
+ * Migrasi: Visibilitas Note
+ *
+ * Daftar note di aplikasi hanya memuat note dengan `visibility == 'home'` atau
+ * yang `readers`-nya memuat user, sehingga note lama tanpa field tersebut tidak
+ * lagi muncul. Script ini mengisi `visibility: 'home'` dan `readers: []` pada
+ * setiap note yang belum punya field `visibility`.
+ *
+ * Sama seperti scripts/purge-deleted-homes.js, script memakai REST API Firestore
+ * dan bisa dijalankan langsung terhadap Firebase Emulator:
+ *
+ *   FIRESTORE_EMULATOR_HOST=localhost:8080 \
+ *   FIREBASE_PROJECT_ID=demo-rumah-kita \
+ *   node scripts/backfill-note-visibility.js [--dry-run]
+ *
+ * Untuk project asli, isi FIREBASE_PROJECT_ID dan GOOGLE_OAUTH_ACCESS_TOKEN
+ * (misalnya dari `gcloud auth print-access-token`). Script aman dijalankan ulang.
+ */
+
+const MAX_BATCH_WRITES = 500;
+
+const projectId = process.env.FIREBASE_PROJECT_ID || process.env.GCLOUD_PROJECT;
+const firestoreEmulator = process.env.FIRESTORE_EMULATOR_HOST;
+const dryRun = process.argv.includes('--dry-run');
+
+// Emulator menerima token "owner" yang melewati security rules
+const accessToken = firestoreEmulator ? 'owner' : process.env.GOOGLE_OAUTH_ACCESS_TOKEN;
+
+const firestoreBase = firestoreEmulator
+  ? `http://${firestoreEmulator}`
+  : 'https://firestore.googleapis.com';
+const documentsPath = `projects/${projectId}/databases/(default)/documents`;
+
+const request = async (url, options = {}) => {
+  const response = await fetch(url, {
+    ...options,
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${accessToken}`,
+      ...options.headers
+    }
+  });
+
+  if (!response.ok) {
+    throw new Error(`${options.method || 'GET'} ${url} gagal: ${response.status} ${await response.text()}`);
+  }
+
+  return response.status === 204 ? null : response.json();
+};
+
+// Satu halaman note, diurutkan menurut nama dokumen dan dilanjutkan dari dokumen terakhir
+const fetchNotesPage = async (lastName) => {
+  const structuredQuery = {
+    from: [{ collectionId: 'notes' }],
+    orderBy: [{ field: { fieldPath: '__name__' }, direction: 'ASCENDING' }],
+    limit: MAX_BATCH_WRITES
+  };
+  if (lastName) {
+    structuredQuery.startAt = { values: [{ referenceValue: lastName }], before: false };
+  }
+
+  const results = await request(`${firestoreBase}/v1/${documentsPath}:runQuery`, {
+    method: 'POST',
+    body: JSON.stringify({ structuredQuery })
+  });
+
+  return results.filter(result => result.document).map(result => result.document);
+};
+
+const commit = async (writes) => {
+  if (writes.length === 0) return;
+
+  await request(`${firestoreBase}/v1/${documentsPath}:commit`, {
+    method: 'POST',
+    body: JSON.stringify({ writes })
+  });
+};
+
+const main = async () => {
+  if (!projectId) {
+    throw new Error('FIREBASE_PROJECT_ID belum diisi');
+  }
+  if (!accessToken) {
+    throw new Error('GOOGLE_OAUTH_ACCESS_TOKEN belum diisi (atau jalankan terhadap emulator)');
+  }
+
+  let lastName = null;
+  let scanned = 0;
+  let updated = 0;
+
+  while (true) {
+    const notes = await fetchNotesPage(lastName);
+    if (notes.length === 0) break;
+
+    const missing = notes.filter(note => !(note.fields && note.fields.visibility));
+    if (!dryRun) {
+      await commit(missing.map(note => ({
+        update: {
+          name: note.name,
+          fields: {
+            visibility: { stringValue: 'home' },
+            readers: { arrayValue: {} }
+          }
+        },
+        updateMask: { fieldPaths: ['visibility', 'readers'] },
+        currentDocument: { exists: true }
+      })));
+    }
+
+    scanned += notes.length;
+    updated += missing.length;
+
+    if (notes.length < MAX_BATCH_WRITES) break;
+    lastName = notes[notes.length - 1].name;
+  }
+
+  console.log(`${dryRun ? '[dry-run] ' : ''}${updated} dari ${scanned} note diisi visibilitas 'home'`);
+};
+
+main().catch((error) => {
+  console.error('Migrasi visibilitas note gagal:', error.message);
+  process.exit(1);
+});
@@ -0,0 +1,165 @@
+/**
+ * Migrasi: Waktu Login Pemilik
+ *
+ * Klaim kepemilikan membaca waktu login terakhir pemilik dari profil anggotanya
+ * (`homeMembers/{homeId}_{userId}`), karena dokumen `users` hanya bisa dibaca
+ * pemiliknya sendiri. Aplikasi menyalin waktu itu setiap kali user login; script ini
+ * mengisinya untuk pemilik yang belum login lagi sejak fitur tersebut dirilis.
+ *
+ * Sama seperti scripts/backfill-note-visibility.js, script memakai REST API Firestore
+ * dan bisa dijalankan langsung terhadap Firebase Emulator:
+ *
+ *   FIRESTORE_EMULATOR_HOST=localhost:8080 \
+ *   FIREBASE_PROJECT_ID=demo-rumah-kita \
+ *   node scripts/backfill-owner-last-login.js [--dry-run]
+ *
+ * Untuk project asli, isi FIREBASE_PROJECT_ID dan GOOGLE_OAUTH_ACCESS_TOKEN
+ * (misalnya dari `gcloud auth print-access-token`). Script aman dijalankan ulang:
+ * profil yang sudah memiliki `lastLogin` tidak diubah.
+ */
+
+const MAX_BATCH_WRITES = 500;
+
+const projectId = process.env.FIREBASE_PROJECT_ID || process.env.GCLOUD_PROJECT;
+const firestoreEmulator = process.env.FIRESTORE_EMULATOR_HOST;
+const dryRun = process.argv.includes('--dry-run');
+
+// Emulator menerima token "owner" yang melewati security rules
+const accessToken = firestoreEmulator ? 'owner' : process.env.GOOGLE_OAUTH_ACCESS_TOKEN;
+
+const firestoreBase = firestoreEmulator
+  ? `http://${firestoreEmulator}`
+  : 'https://firestore.googleapis.com';
+const documentsPath = `projects/${projectId}/databases/(default)/documents`;
+
+const request = async (url, options = {}) => {
+  const response = await fetch(url, {
+    ...options,
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${accessToken}`,
+      ...options.headers
+    }
+  });
+
+  if (!response.ok) {
+    throw new Error(`${options.method || 'GET'} ${url} gagal: ${response.status} ${await response.text()}`);
+  }
+
+  return response.status === 204 ? null : response.json();
+};
+
+// Satu halaman rumah, diurutkan menurut nama dokumen dan dilanjutkan dari dokumen terakhir
+const fetchHomesPage = async (lastName) => {
+  const structuredQuery = {
+    from: [{ collectionId: 'homes' }],
+    orderBy: [{ field: { fieldPath: '__name__' }, direction: 'ASCENDING' }],
+    limit: MAX_BATCH_WRITES
+  };
+  if (lastName) {
+    structuredQuery.startAt = { values: [{ referenceValue: lastName }], before: false };
+  }
+
+  const results = await request(`${firestoreBase}/v1/${documentsPath}:runQuery`, {
+    method: 'POST',
+    body: JSON.stringify({ structuredQuery })
+  });
+
+  return results.filter(result => result.document).map(result => result.document);
+};
+
+// Dokumen yang ada, dipetakan menurut nama lengkapnya
+const batchGet = async (names) => {
+  const results = await request(`${firestoreBase}/v1/${documentsPath}:batchGet`, {
+    method: 'POST',
+    body: JSON.stringify({ documents: names })
+  });
+
+  const documents = {};
+  results.filter(result => result.found).forEach(result => {
+    documents[result.found.name] = result.found;
+  });
+  return documents;
+};
+
+const commit = async (writes) => {
+  if (writes.length === 0) return;
+
+  await request(`${firestoreBase}/v1/${documentsPath}:commit`, {
+    method: 'POST',
+    body: JSON.stringify({ writes })
+  });
+};
+
+const main = async () => {
+  if (!projectId) {
+    throw new Error('FIREBASE_PROJECT_ID belum diisi');
+  }
+  if (!accessToken) {
+    throw new Error('GOOGLE_OAUTH_ACCESS_TOKEN belum diisi (atau jalankan terhadap emulator)');
+  }
+
+  let lastName = null;
+  let scanned = 0;
+  let updated = 0;
+
+  while (true) {
+    const homes = await fetchHomesPage(lastName);
+    if (homes.length === 0) break;
+
+    const owners = homes
+      .filter(home => home.fields && home.fields.createdBy)
+      .map(home => {
+        const homeId = home.name.split('/').pop();
+        const ownerId = home.fields.createdBy.stringValue;
+        const profileId = `${homeId}_${ownerId}`;
+        return {
+          homeId,
+          ownerId,
+          profileId,
+          userName: `${documentsPath}/users/${ownerId}`,
+          profileName: `${documentsPath}/homeMembers/${profileId}`
+        };
+      });
+
+    const existing = owners.length > 0
+      ? await batchGet(owners.flatMap(owner => [owner.userName, owner.profileName]))
+      : {};
+
+    const writes = owners
+      .filter(owner => {
+        const user = existing[owner.userName];
+        const profile = existing[owner.profileName];
+        return user && user.fields && user.fields.lastLogin && !(profile && profile.fields && profile.fields.lastLogin);
+      })
+      .map(owner => ({
+        update: {
+          name: owner.profileName,
+          fields: {
+            id: { stringValue: owner.profileId },
+            homeId: { stringValue: owner.homeId },
+            userId: { stringValue: owner.ownerId },
+            lastLogin: existing[owner.userName].fields.lastLogin
+          }
+        },
+        updateMask: { fieldPaths: ['id', 'homeId', 'userId', 'lastLogin'] }
+      }));
+
+    if (!dryRun) {
+      await commit(writes);
+    }
+
+    scanned += homes.length;
+    updated += writes.length;
+
+    if (homes.length < MAX_BATCH_WRITES) break;
+    lastName = homes[homes.length - 1].name;
+  }
+
+  console.log(`${dryRun ? '[dry-run] ' : ''}${updated} dari ${scanned} rumah diisi waktu login pemilik`);
+};
+
+main().catch((error) => {
+  console.error('Migrasi waktu login pemilik gagal:', error.message);
+  process.exit(1);
+});
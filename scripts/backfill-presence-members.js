@@ -0,0 +1,126 @@
+/**
+ * Migrasi: Anggota untuk Kehadiran Note
+ *
+ * Security rules Realtime Database tidak bisa membaca Firestore, jadi kehadiran di
+ * note hanya bisa dibaca anggota yang tercantum di homeMembers/{homeId}/{userId}.
+ * Daftar itu hanya diisi pembuat rumah dan disamakan pemiliknya (homeOwners/{homeId})
+ * saat rumah dibuka; script ini mengisi keduanya untuk semua rumah yang sudah ada, agar
+ * rumah lama tidak diklaim orang lain. Jalankan ulang setelah klaim kepemilikan, karena
+ * pemilik baru hasil klaim tidak bisa mengambil alih daftar dari aplikasi.
+ *
+ * Sama seperti scripts/purge-deleted-homes.js, script memakai REST API Firestore dan
+ * Realtime Database, dan bisa dijalankan langsung terhadap Firebase Emulator:
+ *
+ *   FIRESTORE_EMULATOR_HOST=localhost:8080 \
+ *   FIREBASE_DATABASE_EMULATOR_HOST=localhost:9000 \
+ *   FIREBASE_PROJECT_ID=demo-rumah-kita \
+ *   node scripts/backfill-presence-members.js [--dry-run]
+ *
+ * Untuk project asli, isi FIREBASE_PROJECT_ID, FIREBASE_DATABASE_URL dan
+ * GOOGLE_OAUTH_ACCESS_TOKEN (misalnya dari `gcloud auth print-access-token`).
+ * Script aman dijalankan ulang: daftar anggota ditimpa dengan isi `members` rumah.
+ */
+
+const MAX_BATCH_WRITES = 500;
+
+const projectId = process.env.FIREBASE_PROJECT_ID || process.env.GCLOUD_PROJECT;
+const firestoreEmulator = process.env.FIRESTORE_EMULATOR_HOST;
+const databaseEmulator = process.env.FIREBASE_DATABASE_EMULATOR_HOST;
+const dryRun = process.argv.includes('--dry-run');
+
+// Emulator menerima token "owner" yang melewati security rules
+const accessToken = firestoreEmulator ? 'owner' : process.env.GOOGLE_OAUTH_ACCESS_TOKEN;
+
+const firestoreBase = firestoreEmulator
+  ? `http://${firestoreEmulator}`
+  : 'https://firestore.googleapis.com';
+const documentsPath = `projects/${projectId}/databases/(default)/documents`;
+
+// URL REST sebuah path di Realtime Database
+const databaseUrl = (path) => databaseEmulator
+  ? `http://${databaseEmulator}/${path}.json?ns=${projectId}`
+  : `${process.env.FIREBASE_DATABASE_URL}/${path}.json`;
+
+const request = async (url, options = {}) => {
+  const response = await fetch(url, {
+    ...options,
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${accessToken}`,
+      ...options.headers
+    }
+  });
+
+  if (!response.ok) {
+    throw new Error(`${options.method || 'GET'} ${url} gagal: ${response.status} ${await response.text()}`);
+  }
+
+  return response.status === 204 ? null : response.json();
+};
+
+// Satu halaman rumah, diurutkan menurut nama dokumen dan dilanjutkan dari dokumen terakhir
+const fetchHomesPage = async (lastName) => {
+  const structuredQuery = {
+    from: [{ collectionId: 'homes' }],
+    orderBy: [{ field: { fieldPath: '__name__' }, direction: 'ASCENDING' }],
+    limit: MAX_BATCH_WRITES
+  };
+  if (lastName) {
+    structuredQuery.startAt = { values: [{ referenceValue: lastName }], before: false };
+  }
+
+  const results = await request(`${firestoreBase}/v1/${documentsPath}:runQuery`, {
+    method: 'POST',
+    body: JSON.stringify({ structuredQuery })
+  });
+
+  return results.filter(result => result.document).map(result => result.document);
+};
+
+const main = async () => {
+  if (!projectId) {
+    throw new Error('FIREBASE_PROJECT_ID belum diisi');
+  }
+  if (!accessToken) {
+    throw new Error('GOOGLE_OAUTH_ACCESS_TOKEN belum diisi (atau jalankan terhadap emulator)');
+  }
+
+  let lastName = null;
+  let scanned = 0;
+
+  while (true) {
+    const homes = await fetchHomesPage(lastName);
+    if (homes.length === 0) break;
+
+    for (const home of homes) {
+      const members = {};
+      ((home.fields.members && home.fields.members.arrayValue.values) || []).forEach(value => {
+        members[value.stringValue] = true;
+      });
+
+      if (!dryRun) {
+        const homeId = home.name.split('/').pop();
+        await request(databaseUrl(`homeOwners/${homeId}`), {
+          method: 'PUT',
+          body: JSON.stringify(home.fields.createdBy.stringValue)
+        });
+        await request(databaseUrl(`homeMembers/${homeId}`), {
+          method: 'PUT',
+          body: JSON.stringify(members)
+        });
+      }
+    }
+
+    scanned += homes.length;
+
+    if (homes.length < MAX_BATCH_WRITES) break;
+    lastName = homes[homes.length - 1].name;
+  }
+
+  console.log(`${dryRun ? '[dry-run] ' : ''}Anggota ${scanned} rumah disalin ke Realtime Database`);
+};
+
+main().catch((error) => {
+  console.error('Migrasi anggota kehadiran note gagal:', error.message);
+  process.exit(1);
+});
@@ -0,0 +1,392 @@
+/**
+ * Purge Job: Hapus Permanen Rumah di Tempat Sampah
+ *
+ * Rumah yang dihapus dari aplikasi hanya ditandai `deletedAt` dan masih bisa
+ * dipulihkan pemiliknya selama 30 hari (lihat src/utils/homeTrash.ts). Script ini
+ * mencari rumah yang masa retensinya sudah habis lalu menjalankan cascade delete
+ * dengan tahapan yang sama seperti src/services/firebase/homeDeletion.ts, ditambah
+ * menghapus rumah dari `users.homes` anggotanya (aplikasi tidak boleh menulis dokumen
+ * user lain, sehingga tahap ini hanya ada di sini).
+ *
+ * Rumah yang dihapus permanen dari aplikasi meninggalkan penanda `deletedHomes/{homeId}`:
+ * note pribadi/terbatas anggota lain tidak bisa dibaca pelaku sehingga tertinggal. Script
+ * ini memindahkannya ke rumah tujuan penggabungan (`mergedInto`) jika pembuatnya anggota
+ * rumah itu, atau menghapusnya, lalu menghapus penandanya.
+ *
+ * Script memakai REST API Firestore dan Realtime Database (tanpa dependensi tambahan),
+ * sehingga bisa dijalankan langsung terhadap Firebase Emulator:
+ *
+ *   FIRESTORE_EMULATOR_HOST=localhost:8080 \
+ *   FIREBASE_DATABASE_EMULATOR_HOST=localhost:9000 \
+ *   FIREBASE_STORAGE_EMULATOR_HOST=localhost:9199 \
+ *   FIREBASE_PROJECT_ID=demo-rumah-kita \
+ *   node scripts/purge-deleted-homes.js [--dry-run]
+ *
+ * Untuk project asli, isi FIREBASE_PROJECT_ID, FIREBASE_DATABASE_URL,
+ * FIREBASE_STORAGE_BUCKET (wajib, contoh `<project>.firebasestorage.app`) dan
+ * GOOGLE_OAUTH_ACCESS_TOKEN (misalnya dari `gcloud auth print-access-token`).
+ * Script aman dijalankan ulang jika terhenti di tengah jalan.
+ */
+
+const RETENTION_DAYS = 30; // Samakan dengan HOME_TRASH_RETENTION_DAYS
+const MAX_BATCH_WRITES = 500;
+
+const projectId = process.env.FIREBASE_PROJECT_ID || process.env.GCLOUD_PROJECT;
+const firestoreEmulator = process.env.FIRESTORE_EMULATOR_HOST;
+const databaseEmulator = process.env.FIREBASE_DATABASE_EMULATOR_HOST;
+const storageEmulator = process.env.FIREBASE_STORAGE_EMULATOR_HOST;
+// Project baru memakai bucket <project>.firebasestorage.app, jadi nama bucket tidak ditebak
+// (kecuali di emulator, yang menerima nama bucket apa pun)
+const storageBucket = process.env.FIREBASE_STORAGE_BUCKET || (storageEmulator ? `${projectId}.appspot.com` : null);
+const dryRun = process.argv.includes('--dry-run');
+
+// Emulator menerima token "owner" yang melewati security rules
+const accessToken = firestoreEmulator ? 'owner' : process.env.GOOGLE_OAUTH_ACCESS_TOKEN;
+
+const firestoreBase = firestoreEmulator
+  ? `http://${firestoreEmulator}`
+  : 'https://firestore.googleapis.com';
+const documentsPath = `projects/${projectId}/databases/(default)/documents`;
+
+// URL REST sebuah path di Realtime Database
+const databaseUrl = (path) => databaseEmulator
+  ? `http://${databaseEmulator}/${path}.json?ns=${projectId}`
+  : `${process.env.FIREBASE_DATABASE_URL}/${path}.json`;
+
+// URL REST objek di Cloud Storage (lampiran note)
+const storageUrl = (path = '') => `${storageEmulator ? `http://${storageEmulator}` : 'https://firebasestorage.googleapis.com'}` +
+  `/v0/b/${storageBucket}/o${path ? `/${encodeURIComponent(path)}` : ''}`;
+
+const request = async (url, options = {}) => {
+  const response = await fetch(url, {
+    ...options,
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${accessToken}`,
+      ...options.headers
+    }
+  });
+
+  if (!response.ok) {
+    throw new Error(`${options.method || 'GET'} ${url} gagal: ${response.status} ${await response.text()}`);
+  }
+
+  return response.status === 204 ? null : response.json();
+};
+
+// Query satu koleksi; mengembalikan nama lengkap dokumen dan field-nya
+const runQuery = async (structuredQuery) => {
+  const results = await request(`${firestoreBase}/v1/${documentsPath}:runQuery`, {
+    method: 'POST',
+    body: JSON.stringify({ structuredQuery })
+  });
+
+  return results.filter(result => result.document).map(result => result.document);
+};
+
+const commit = async (writes) => {
+  for (let i = 0; i < writes.length; i += MAX_BATCH_WRITES) {
+    await request(`${firestoreBase}/v1/${documentsPath}:commit`, {
+      method: 'POST',
+      body: JSON.stringify({ writes: writes.slice(i, i + MAX_BATCH_WRITES) })
+    });
+  }
+};
+
+const equalsQuery = (collectionId, fieldPath, value) => ({
+  from: [{ collectionId }],
+  where: {
+    fieldFilter: { field: { fieldPath }, op: 'EQUAL', value: { stringValue: value } }
+  },
+  limit: MAX_BATCH_WRITES
+});
+
+// Menghapus semua dokumen yang cocok, satu halaman per batch
+const deleteWhere = async (collectionId, fieldPath, value) => {
+  let deleted = 0;
+
+  while (true) {
+    const docs = await runQuery(equalsQuery(collectionId, fieldPath, value));
+    if (docs.length === 0) break;
+
+    await commit(docs.map(doc => ({ delete: doc.name })));
+    deleted += docs.length;
+
+    if (docs.length < MAX_BATCH_WRITES) break;
+  }
+
+  return deleted;
+};
+
+const docId = (doc) => doc.name.split('/').pop();
+
+// Menghapus seluruh dokumen di sebuah subkoleksi, contoh notes/{id}/revisions
+const deleteSubcollection = async (parentName, collectionId) => {
+  let deleted = 0;
+
+  while (true) {
+    const result = await request(`${firestoreBase}/v1/${parentName}/${collectionId}?pageSize=${MAX_BATCH_WRITES}`);
+    const docs = (result && result.documents) || [];
+    if (docs.length === 0) break;
+
+    await commit(docs.map(doc => ({ delete: doc.name })));
+    deleted += docs.length;
+
+    if (docs.length < MAX_BATCH_WRITES) break;
+  }
+
+  return deleted;
+};
+
+// Menghapus semua berkas di Cloud Storage dengan awalan path tertentu
+const deleteStoragePrefix = async (prefix) => {
+  let deleted = 0;
+
+  while (true) {
+    const result = await request(`${storageUrl()}?prefix=${encodeURIComponent(prefix)}&maxResults=${MAX_BATCH_WRITES}`);
+    const items = (result && result.items) || [];
+    if (items.length === 0) break;
+
+    for (const item of items) {
+      await request(storageUrl(item.name), { method: 'DELETE' });
+    }
+    deleted += items.length;
+
+    if (items.length < MAX_BATCH_WRITES) break;
+  }
+
+  return deleted;
+};
+
+// Menghapus satu note beserta lampiran, revisi dan operasinya
+const deleteNote = async (note) => {
+  let deleted = await deleteStoragePrefix(`notes/${docId(note)}/`);
+  deleted += await deleteSubcollection(note.name, 'attachments');
+  deleted += await deleteSubcollection(note.name, 'revisions');
+  deleted += await deleteSubcollection(note.name, 'operations');
+  await commit([{ delete: note.name }]);
+  return deleted + 1;
+};
+
+const steps = {
+  pets: async (home) => {
+    let deleted = 0;
+
+    while (true) {
+      const pets = await runQuery(equalsQuery('pets', 'homeId', home.id));
+      if (pets.length === 0) break;
+
+      for (const pet of pets) {
+        deleted += await deleteWhere('petInteractions', 'petId', docId(pet));
+      }
+      await commit(pets.map(pet => ({ delete: pet.name })));
+      deleted += pets.length;
+
+      if (pets.length < MAX_BATCH_WRITES) break;
+    }
+
+    return deleted;
+  },
+  notes: async (home) => {
+    let deleted = 0;
+
+    while (true) {
+      const notes = await runQuery(equalsQuery('notes', 'homeId', home.id));
+      if (notes.length === 0) break;
+
+      for (const note of notes) {
+        deleted += await deleteNote(note);
+      }
+
+      if (notes.length < MAX_BATCH_WRITES) break;
+    }
+
+    return deleted;
+  },
+  noteFolders: (home) => deleteWhere('noteFolders', 'homeId', home.id),
+  wishlist: (home) => deleteWhere('wishlist', 'homeId', home.id),
+  messages: (home) => deleteWhere('messages', 'homeId', home.id),
+  invites: (home) => deleteWhere('invites', 'homeId', home.id),
+  inviteUsages: (home) => deleteWhere('inviteUsages', 'homeId', home.id),
+  joinRequests: (home) => deleteWhere('joinRequests', 'homeId', home.id),
+  activity: (home) => deleteWhere('activity', 'homeId', home.id),
+  homeStats: (home) => deleteWhere('homeStats', 'homeId', home.id),
+  homeMembers: (home) => deleteWhere('homeMembers', 'homeId', home.id),
+  ownershipClaims: (home) => deleteWhere('ownershipClaims', 'homeId', home.id),
+  signaling: async (home) => {
+    await request(databaseUrl(`signaling/${home.id}`), { method: 'DELETE' });
+    return 0;
+  },
+  notePresence: async (home) => {
+    await request(databaseUrl(`notePresence/${home.id}`), { method: 'DELETE' });
+    await request(databaseUrl(`homeMembers/${home.id}`), { method: 'DELETE' });
+    await request(databaseUrl(`homeOwners/${home.id}`), { method: 'DELETE' });
+    return 0;
+  },
+  // Hanya lewat kredensial admin; di aplikasi setiap user membersihkan daftarnya sendiri
+  members: async (home) => {
+    await commit(home.members.map(memberId => ({
+      update: { name: `${documentsPath}/users/${memberId}`, fields: {} },
+      updateMask: { fieldPaths: [] },
+      updateTransforms: [{
+        fieldPath: 'homes',
+        removeAllFromArray: { values: [{ stringValue: home.id }] }
+      }]
+    })));
+    return 0;
+  },
+  home: async (home) => {
+    await commit([{ delete: home.name }]);
+    return 1;
+  }
+};
+
+const findExpiredHomes = async () => {
+  const cutoff = new Date(Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000);
+
+  const docs = await runQuery({
+    from: [{ collectionId: 'homes' }],
+    where: {
+      fieldFilter: {
+        field: { fieldPath: 'deletedAt' },
+        op: 'LESS_THAN_OR_EQUAL',
+        value: { timestampValue: cutoff.toISOString() }
+      }
+    }
+  });
+
+  return docs.map(doc => ({
+    id: doc.fields.id.stringValue,
+    name: doc.name,
+    homeName: doc.fields.name ? doc.fields.name.stringValue : docId(doc),
+    members: ((doc.fields.members.arrayValue || {}).values || []).map(value => value.stringValue)
+  }));
+};
+
+const purgeHome = async (home) => {
+  // Tandai seperti penghapusan dari aplikasi agar UI menampilkan statusnya
+  await request(`${firestoreBase}/v1/${home.name}?updateMask.fieldPaths=deletion`, {
+    method: 'PATCH',
+    body: JSON.stringify({
+      fields: {
+        deletion: {
+          mapValue: {
+            fields: {
+              startedBy: { stringValue: 'purge-job' },
+              startedAt: { timestampValue: new Date().toISOString() },
+              step: { stringValue: 'pets' }
+            }
+          }
+        }
+      }
+    })
+  });
+
+  let deleted = 0;
+  for (const [step, run] of Object.entries(steps)) {
+    const count = await run(home);
+    deleted += count;
+    console.log(`  ${step}: ${count} dokumen`);
+  }
+  return deleted;
+};
+
+const findDeletedHomeMarkers = async () => {
+  const docs = await runQuery({ from: [{ collectionId: 'deletedHomes' }] });
+
+  return docs.map(doc => ({
+    id: docId(doc),
+    name: doc.name,
+    mergedInto: doc.fields.mergedInto && doc.fields.mergedInto.stringValue ? doc.fields.mergedInto.stringValue : null
+  }));
+};
+
+const getMergeTarget = async (homeId) => {
+  if (!homeId) return null;
+
+  const [doc] = await runQuery(equalsQuery('homes', 'id', homeId));
+  if (!doc || doc.fields.deletedAt) return null;
+
+  return {
+    id: homeId,
+    members: ((doc.fields.members.arrayValue || {}).values || []).map(value => value.stringValue)
+  };
+};
+
+// Note yang tertinggal di rumah yang dihapus dari aplikasi: dipindahkan ke rumah
+// tujuan penggabungan jika pembuatnya anggota di sana, selain itu dihapus
+const cleanUpDeletedHome = async (marker) => {
+  const target = await getMergeTarget(marker.mergedInto);
+  let moved = 0;
+  let deleted = 0;
+
+  while (true) {
+    const notes = await runQuery(equalsQuery('notes', 'homeId', marker.id));
+    if (notes.length === 0) break;
+
+    const movable = target
+      ? notes.filter(note => note.fields.createdBy && target.members.includes(note.fields.createdBy.stringValue))
+      : [];
+    await commit(movable.map(note => ({
+      update: { name: note.name, fields: { homeId: { stringValue: target.id } } },
+      updateMask: { fieldPaths: ['homeId'] }
+    })));
+    moved += movable.length;
+
+    for (const note of notes.filter(note => !movable.includes(note))) {
+      deleted += await deleteNote(note);
+    }
+
+    if (notes.length < MAX_BATCH_WRITES) break;
+  }
+
+  await steps.notePresence(marker);
+  await commit([{ delete: marker.name }]);
+  return { moved, deleted };
+};
+
+const main = async () => {
+  if (!projectId) {
+    throw new Error('FIREBASE_PROJECT_ID belum diisi');
+  }
+  if (!accessToken) {
+    throw new Error('GOOGLE_OAUTH_ACCESS_TOKEN belum diisi (atau jalankan terhadap emulator)');
+  }
+  if (!storageBucket) {
+    throw new Error('FIREBASE_STORAGE_BUCKET belum diisi (lihat Storage di Firebase Console)');
+  }
+
+  // Bucket yang salah baru ketahuan saat menghapus lampiran, setelah sebagian data rumah
+  // terhapus; jadi bucket dicek lebih dulu sebelum ada yang dihapus
+  await request(`${storageUrl()}?maxResults=1`).catch((error) => {
+    throw new Error(`Bucket Storage "${storageBucket}" tidak bisa dibaca: ${error.message}`);
+  });
+
+  const homes = await findExpiredHomes();
+  console.log(`${homes.length} rumah melewati masa retensi ${RETENTION_DAYS} hari`);
+
+  for (const home of homes) {
+    console.log(`${dryRun ? '[dry-run] ' : ''}Menghapus "${home.homeName}" (${home.id})`);
+    if (dryRun) continue;
+
+    const deleted = await purgeHome(home);
+    console.log(`  selesai, ${deleted} dokumen dihapus`);
+  }
+
+  const markers = await findDeletedHomeMarkers();
+  console.log(`${markers.length} rumah yang dihapus dari aplikasi perlu dibersihkan`);
+
+  for (const marker of markers) {
+    console.log(`${dryRun ? '[dry-run] ' : ''}Membersihkan ${marker.id}` +
+      (marker.mergedInto ? ` (digabung ke ${marker.mergedInto})` : ''));
+    if (dryRun) continue;
+
+    const { moved, deleted } = await cleanUpDeletedHome(marker);
+    console.log(`  selesai, ${moved} note dipindahkan, ${deleted} dokumen dihapus`);
+  }
+};
+
+main().catch((error) => {
+  console.error('Purge job gagal:', error.message);
+  process.exit(1);
+});
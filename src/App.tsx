@@ -6,6 +6,7 @@ import './App.css';
 import Login from './components/auth/Login';
 import Register from './components/auth/Register';
 import HomeSetup from './components/home/HomeSetup';
+import JoinHome from './components/home/JoinHome';
 import Dashboard from './components/dashboard/Dashboard';
 
 // Layout Components
@@ -34,6 +35,7 @@ const AppContent: React.FC = () => {
       <div className={showNavbar ? "pt-0" : ""}> {/* Add padding top if navbar is present */}        <Routes>
           <Route path="/login" element={<Login />} />
           <Route path="/register" element={<Register />} />
+          <Route path="/join/:code" element={<JoinHome />} />
           <Route 
             path="/dashboard/:homeId" 
             element={
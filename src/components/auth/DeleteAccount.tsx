@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '../../contexts/AuthContext';
+import { deleteUserAccount } from '../../services/firebase/account';
+
+const CONFIRM_TEXT = 'HAPUS';
+
+const DeleteAccount: React.FC = () => {
+  const { currentUser } = useAuth();
+  const navigate = useNavigate();
+  const [open, setOpen] = useState(false);
+  const [confirmText, setConfirmText] = useState('');
+  const [deleting, setDeleting] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleDelete = async () => {
+    if (!currentUser || confirmText !== CONFIRM_TEXT) return;
+
+    try {
+      setDeleting(true);
+      setError('');
+
+      const { error } = await deleteUserAccount(currentUser);
+      if (error) {
+        setError(error);
+        return;
+      }
+
+      navigate('/login');
+    } catch (err: any) {
+      setError('Gagal menghapus akun: ' + err.message);
+    } finally {
+      setDeleting(false);
+    }
+  };
+
+  if (!currentUser) return null;
+
+  return (
+    <div className="mt-12 card-modern p-6 border-red-500/20">
+      <h3 className="text-lg font-semibold text-red-300 mb-2">Hapus Akun</h3>
+      <p className="text-sm text-slate-400 mb-4">
+        Anda akan keluar dari semua rumah. Konten Anda tetap ada sebagai milik mantan anggota, kepemilikan rumah
+        berpindah ke penerus, dan rumah tanpa anggota lain masuk tempat sampah.
+      </p>
+
+      {!open ? (
+        <button
+          onClick={() => setOpen(true)}
+          className="px-4 py-2 text-sm rounded-lg bg-red-900/30 border border-red-500/30 text-red-300 transition-smooth hover:bg-red-900/50"
+        >
+          Hapus Akun Saya
+        </button>
+      ) : (
+        <div className="space-y-3">
+          <label htmlFor="delete-account-confirm" className="block text-sm text-slate-300">
+            Ketik <span className="font-mono text-red-300">{CONFIRM_TEXT}</span> untuk melanjutkan
+          </label>
+          <input
+            id="delete-account-confirm"
+            type="text"
+            value={confirmText}
+            onChange={(e) => setConfirmText(e.target.value)}
+            className="input-modern"
+            autoComplete="off"
+          />
+          <div className="flex gap-2">
+            <button
+              onClick={handleDelete}
+              disabled={deleting || confirmText !== CONFIRM_TEXT}
+              className="px-4 py-2 text-sm rounded-lg bg-red-600 text-white font-medium transition-smooth hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {deleting ? 'Menghapus...' : 'Hapus Akun Permanen'}
+            </button>
+            <button
+              onClick={() => {
+                setOpen(false);
+                setConfirmText('');
+                setError('');
+              }}
+              disabled={deleting}
+              className="btn-secondary px-4 py-2 text-sm"
+            >
+              Batal
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <div className="mt-4 p-3 bg-red-900/30 border border-red-500/30 rounded-lg text-red-200 text-sm" role="alert">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DeleteAccount;
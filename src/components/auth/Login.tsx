@@ -2,6 +2,7 @@ import React, { useState } from 'react';
 import { useNavigate, Link } from 'react-router-dom';
 import { loginWithEmail, loginWithGoogle } from '../../services/firebase/auth';
 import { useHomeRedirect } from '../../hooks/useHomeRedirect';
+import { getPostAuthPath } from '../../utils/pendingInvite';
 
 const Login: React.FC = () => {
   const [email, setEmail] = useState('');
@@ -25,7 +26,7 @@ const Login: React.FC = () => {
       }
       
       if (user) {
-        navigate('/dashboard');
+        navigate(getPostAuthPath());
       }
     } catch (err: any) {
       setError('Gagal masuk: ' + err.message);
@@ -46,7 +47,7 @@ const Login: React.FC = () => {
       }
       
       if (user) {
-        navigate('/dashboard');
+        navigate(getPostAuthPath());
       }    } catch (err: any) {
       setError('Gagal masuk dengan Google: ' + err.message);
     } finally {
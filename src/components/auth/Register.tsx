@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { useNavigate, Link } from 'react-router-dom';
 import { registerWithEmail, loginWithGoogle } from '../../services/firebase/auth';
 import { useAuth } from '../../contexts/AuthContext';
+import { getPostAuthPath } from '../../utils/pendingInvite';
 
 const Register: React.FC = () => {
   const [email, setEmail] = useState('');
@@ -14,7 +15,7 @@ const Register: React.FC = () => {
 
   useEffect(() => {
     if (currentUser) {
-      navigate('/dashboard');
+      navigate(getPostAuthPath());
     }
   }, [currentUser, navigate]);
 
@@ -30,7 +31,7 @@ const Register: React.FC = () => {
       if (error) {
         setError(error);
       } else if (user) {
-        navigate('/dashboard');
+        navigate(getPostAuthPath());
       }
     } catch (err: any) {
       setError('Gagal mendaftar: ' + err.message);
@@ -47,7 +48,7 @@ const Register: React.FC = () => {
       if (error) {
         setError(error);
       } else if (user) {
-        navigate('/dashboard');
+        navigate(getPostAuthPath());
       }
     } catch (err: any) {
       setError('Gagal mendaftar dengan Google: ' + err.message);
@@ -1,8 +1,8 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { useAuth } from '../../contexts/AuthContext';
 import { WebRTCService, CallState } from '../../services/webrtc/webrtc';
-import { UserProfile } from '../../types/user';
-import { getHomeMemberProfiles } from '../../services/firebase/user';
+import { useHomeMembers } from '../../hooks/useHomeMembers';
+import { getMemberInitials, getMemberName } from '../../utils/memberProfile';
 import WebRTCDiagnostics from './WebRTCDiagnostics';
 import { DiagnosticResults } from '../../utils/webrtcDiagnostics';
 
@@ -26,8 +26,8 @@ const VideoCallChat: React.FC<VideoCallChatProps> = ({ homeId }) => {
   // Removed unused isMobile state
   
   // Direct call state
-  const [homeMembers, setHomeMembers] = useState<UserProfile[]>([]);
-  const [isLoadingMembers, setIsLoadingMembers] = useState(false);
+  const { members, loading: isLoadingMembers, getName, getColor } = useHomeMembers(homeId);
+  const homeMembers = members.filter(member => member.uid !== currentUser?.uid);
   
   const webrtcServiceRef = useRef<WebRTCService | null>(null);
   const localVideoRef = useRef<HTMLVideoElement>(null);
@@ -126,32 +126,6 @@ const VideoCallChat: React.FC<VideoCallChatProps> = ({ homeId }) => {
       remoteVideoRef.current.srcObject = callState.remoteStream;
     }
   }, [callState.remoteStream]);
-    // Load home members for direct calls
-  useEffect(() => {
-    if (!homeId || !currentUser) return;
-    
-    const loadHomeMembers = async () => {
-      try {
-        setIsLoadingMembers(true);
-        const result = await getHomeMemberProfiles(homeId);
-        
-        if (result.error) {
-          setError('Gagal memuat anggota rumah: ' + result.error);
-          return;
-        }
-        
-        const otherMembers = result.members.filter((member: UserProfile) => member.uid !== currentUser?.uid);
-        setHomeMembers(otherMembers);
-      } catch (err: any) {
-        setError('Gagal memuat anggota rumah: ' + err.message);
-      } finally {
-        setIsLoadingMembers(false);
-      }
-    };
-
-    loadHomeMembers();
-  }, [homeId, currentUser]);
-
   // Handle direct call initiation
   const handleDirectCall = async (targetUserId: string) => {
     try {
@@ -244,6 +218,21 @@ const VideoCallChat: React.FC<VideoCallChatProps> = ({ homeId }) => {
                 className="w-full h-full object-cover"
               />
               
+              {/* Participant names */}
+              {Object.keys(callState.participants).length > 0 && (
+                <div className="absolute top-2 left-2 flex flex-wrap gap-1 z-10">
+                  {Object.values(callState.participants).map(participant => (
+                    <span
+                      key={participant.userId}
+                      className="px-2 py-1 rounded-md text-xs font-medium text-white shadow"
+                      style={{ backgroundColor: getColor(participant.userId) }}
+                    >
+                      {getName(participant.userId, participant.displayName)}
+                    </span>
+                  ))}
+                </div>
+              )}
+              
               {/* Call status overlay */}
               {callState.isConnecting && !callState.isConnected && (
                 <div className="absolute inset-0 flex items-center justify-center bg-black/50">
@@ -312,13 +301,16 @@ const VideoCallChat: React.FC<VideoCallChatProps> = ({ homeId }) => {
                     {homeMembers.map(member => (
                       <div key={member.uid} className="flex items-center justify-between p-3 bg-gray-700 rounded-lg">
                         <div className="flex items-center">
-                          <div className="w-8 h-8 rounded-full mr-3 bg-blue-500 flex items-center justify-center">
+                          <div
+                            className="w-8 h-8 rounded-full mr-3 flex items-center justify-center"
+                            style={{ backgroundColor: getColor(member.uid) }}
+                          >
                             <span className="text-white font-medium">
-                              {(member.displayName || member.email || 'User').charAt(0).toUpperCase()}
+                              {getMemberInitials(getMemberName(member, 'User'))}
                             </span>
                           </div>
                           <p className="text-white">
-                            {member.displayName || member.email || 'User'}
+                            {getMemberName(member, 'User')}
                           </p>
                         </div>
                         <button
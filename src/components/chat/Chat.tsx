@@ -8,23 +8,28 @@ import {
   addEmojiReaction,
   removeEmojiReaction
 } from '../../services/firebase/chat';
-import { format, isToday, isYesterday, isSameDay } from 'date-fns';
+import { format, isSameDay, subDays } from 'date-fns';
 import { id } from 'date-fns/locale';
+import { toHomeTime } from '../../utils/homeProfile';
+import { getMemberInitials } from '../../utils/memberProfile';
+import { useHomeMembers } from '../../hooks/useHomeMembers';
 
 interface ChatProps {
   homeId: string;
+  timezone?: string; // Zona waktu rumah; kosong berarti zona waktu perangkat
 }
 
 // Common emoji set
 const commonEmojis = ['👍', '❤️', '😂', '🎉', '🙏', '👏', '🔥', '😍'];
 
-const Chat: React.FC<ChatProps> = ({ homeId }) => {
+const Chat: React.FC<ChatProps> = ({ homeId, timezone }) => {
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [newMessage, setNewMessage] = useState('');
   const [loading, setLoading] = useState(true);
   const [sending, setSending] = useState(false);
   const [error, setError] = useState('');
-  const { currentUser, userProfile } = useAuth();
+  const { currentUser } = useAuth();
+  const { getName, getColor } = useHomeMembers(homeId);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const chatContainerRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
@@ -160,9 +165,14 @@ const Chat: React.FC<ChatProps> = ({ homeId }) => {
     }
   };
 
+  // Tanggal dan jam dihitung di zona waktu rumah agar semua anggota melihat pengelompokan yang sama
+  const now = toHomeTime(new Date(), timezone);
+  const isToday = (date: Date) => isSameDay(date, now);
+  const isYesterday = (date: Date) => isSameDay(date, subDays(now, 1));
+
   // Enhanced time formatter using date-fns with more human-readable format
   const formatMessageTime = (timestamp: Date) => {
-    const messageDate = new Date(timestamp);
+    const messageDate = toHomeTime(new Date(timestamp), timezone);
     
     if (isToday(messageDate)) {
       return format(messageDate, "HH:mm", { locale: id });
@@ -175,56 +185,34 @@ const Chat: React.FC<ChatProps> = ({ homeId }) => {
   
   // Format date for message groups
   const formatMessageDate = (timestamp: Date) => {
-    const messageDate = new Date(timestamp);
+    const messageDate = toHomeTime(new Date(timestamp), timezone);
     
     if (isToday(messageDate)) {
       return 'Hari Ini';
     } else if (isYesterday(messageDate)) {
       return 'Kemarin';
-    } else if (new Date().getTime() - messageDate.getTime() < 7 * 24 * 60 * 60 * 1000) {
+    } else if (now.getTime() - messageDate.getTime() < 7 * 24 * 60 * 60 * 1000) {
       return format(messageDate, "EEEE", { locale: id });
     } else {
       return format(messageDate, "d MMMM yyyy", { locale: id });
     }
   };
 
-  // Generate user initials for avatar
-  const getUserInitials = (userId: string) => {
-    if (userId === currentUser?.uid && userProfile?.displayName) {
-      const names = userProfile.displayName.split(' ');
-      if (names.length >= 2) {
-        return `${names[0][0]}${names[1][0]}`.toUpperCase();
-      }
-      return userProfile.displayName[0].toUpperCase();
-    }
-    return 'U'; // Default for other users
-  };
-  
-  // Get dynamic background color based on user ID
-  const getAvatarColor = (userId: string) => {
-    const colors = [
-      'from-pink-500 to-purple-500',
-      'from-green-400 to-cyan-500',
-      'from-amber-500 to-orange-500',
-      'from-sky-400 to-blue-500',
-      'from-rose-400 to-red-500'
-    ];
-    const index = userId.split('').reduce((acc, char) => acc + char.charCodeAt(0), 0) % colors.length;
-    return colors[index];
-  };
+  // Inisial avatar dari nama panggilan di rumah ini (atau nama akun); mantan anggota
+  // memakai salinan nama pada pesannya
+  const getUserInitials = (userId: string, senderName?: string) =>
+    getMemberInitials(getName(userId, senderName || 'Pengguna'));
   
   // Determine if we should show a date separator between messages
   const shouldShowDateSeparator = (currentMsg: ChatMessage, prevMsg: ChatMessage | null) => {
     if (!prevMsg) return true; // Always show for first message
     
-    const currentDate = new Date(currentMsg.timestamp);
-    const prevDate = new Date(prevMsg.timestamp);
+    const currentDate = toHomeTime(new Date(currentMsg.timestamp), timezone);
+    const prevDate = toHomeTime(new Date(prevMsg.timestamp), timezone);
     
     return !isSameDay(currentDate, prevDate);
   };  
   
-  // Sender name not displayed currently; remove unused helper
-  
   // Toggle emoji picker for a message
   const toggleEmojiPicker = (messageId: string | null) => {
     setActiveMessage(messageId);
@@ -369,9 +357,13 @@ const Chat: React.FC<ChatProps> = ({ homeId }) => {
                     {/* Small avatar dot for other users - Only show if it's first in sequence */}
                     {!isOwnMessage && showSender && (
                       <div className="flex-shrink-0 mr-1">
-                        <div className={`w-3.5 h-3.5 rounded-full bg-gradient-to-br ${getAvatarColor(message.senderId)} flex items-center justify-center ring-1 ring-indigo-400/30 animate-[scaleIn_0.3s]`}>
+                        <div
+                          className="w-3.5 h-3.5 rounded-full flex items-center justify-center ring-1 ring-indigo-400/30 animate-[scaleIn_0.3s]"
+                          style={{ backgroundColor: getColor(message.senderId) }}
+                          title={getName(message.senderId, message.senderName || 'Pengguna')}
+                        >
                           <span className="text-[7px] font-medium text-white">
-                            {getUserInitials(message.senderId)}
+                            {getUserInitials(message.senderId, message.senderName)}
                           </span>
                         </div>
                       </div>
@@ -399,11 +391,18 @@ const Chat: React.FC<ChatProps> = ({ homeId }) => {
                         </span>
                       )}
                       
+                      {/* Sender nickname for other users - Only show if it's first in sequence */}
+                      {!isOwnMessage && showSender && (
+                        <div className="text-[10px] font-semibold mb-0.5 truncate" style={{ color: getColor(message.senderId) }}>
+                          {getName(message.senderId, message.senderName || 'Pengguna')}
+                        </div>
+                      )}
+                      
                       {/* Display reply reference if this message is a reply */}
                       {message.replyTo && (
                         <div className="mb-1 p-1.5 rounded bg-slate-700/30 border-l-2 border-indigo-400/50 text-[10px] text-slate-300/80 max-w-[200px] truncate">
                           <div className="font-medium text-indigo-300/80">
-                            {message.replyTo.senderId === currentUser?.uid ? 'Anda' : 'Mereka'}:
+                            {message.replyTo.senderId === currentUser?.uid ? 'Anda' : getName(message.replyTo.senderId, 'Mereka')}:
                           </div>
                           <div className="truncate">{message.replyTo.text}</div>
                         </div>
@@ -515,9 +514,13 @@ const Chat: React.FC<ChatProps> = ({ homeId }) => {
                     {/* Small avatar dot for self - Only show if it's first in sequence */}
                     {isOwnMessage && showSender && (
                       <div className="flex-shrink-0 ml-1">
-                        <div className={`w-3.5 h-3.5 rounded-full bg-gradient-to-br ${getAvatarColor(message.senderId)} flex items-center justify-center ring-1 ring-indigo-400/30 animate-[scaleIn_0.3s]`}>
+                        <div
+                          className="w-3.5 h-3.5 rounded-full flex items-center justify-center ring-1 ring-indigo-400/30 animate-[scaleIn_0.3s]"
+                          style={{ backgroundColor: getColor(message.senderId) }}
+                          title={getName(message.senderId, message.senderName || 'Pengguna')}
+                        >
                           <span className="text-[7px] font-medium text-white">
-                            {getUserInitials(message.senderId)}
+                            {getUserInitials(message.senderId, message.senderName)}
                           </span>
                         </div>
                       </div>
@@ -538,7 +541,7 @@ const Chat: React.FC<ChatProps> = ({ homeId }) => {
             <div className="w-1 h-6 bg-indigo-500 rounded-full mr-2"></div>
             <div className="flex-grow">
               <div className="text-[10px] text-indigo-300 font-medium">
-                Membalas {replyingTo.senderId === currentUser?.uid ? 'pesan Anda' : 'pesan mereka'}
+                Membalas {replyingTo.senderId === currentUser?.uid ? 'pesan Anda' : `pesan ${getName(replyingTo.senderId, 'mereka')}`}
               </div>
               <div className="text-xs text-slate-300 truncate pr-2">
                 {replyingTo.text}
@@ -0,0 +1,204 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { subscribeToHomeActivity } from '../../services/firebase/activity';
+import { getUserDisplayName } from '../../services/firebase/user';
+import { getHomeMembers } from '../../services/firebase/homeMembers';
+import { Activity, ActivityCategory, Home } from '../../types';
+import { hasHomePermission } from '../../utils/homePermissions';
+import { ACTIVITY_CATEGORIES, ACTIVITY_CATEGORY_LABELS, describeActivity } from '../../utils/activity';
+import { getMemberName } from '../../utils/memberProfile';
+
+interface ActivityTimelineProps {
+  home: Home;
+}
+
+type CategoryFilter = 'all' | 'audit' | ActivityCategory;
+type GroupBy = 'day' | 'member';
+
+const CATEGORY_COLORS: Record<ActivityCategory, string> = {
+  notes: 'bg-green-500',
+  wishlist: 'bg-purple-500',
+  pets: 'bg-yellow-500',
+  members: 'bg-blue-500',
+  settings: 'bg-red-500',
+};
+
+const formatDay = (date: Date) => {
+  const today = new Date();
+  const yesterday = new Date();
+  yesterday.setDate(today.getDate() - 1);
+
+  if (date.toDateString() === today.toDateString()) return 'Hari ini';
+  if (date.toDateString() === yesterday.toDateString()) return 'Kemarin';
+
+  return date.toLocaleDateString('id-ID', {
+    weekday: 'long',
+    day: 'numeric',
+    month: 'long',
+    year: 'numeric'
+  });
+};
+
+const ActivityTimeline: React.FC<ActivityTimelineProps> = ({ home }) => {
+  const { currentUser } = useAuth();
+  const [activities, setActivities] = useState<Activity[]>([]);
+  const [names, setNames] = useState<{ [userId: string]: string }>({});
+  const [category, setCategory] = useState<CategoryFilter>('all');
+  const [memberFilter, setMemberFilter] = useState('all');
+  const [groupBy, setGroupBy] = useState<GroupBy>('day');
+  const [loading, setLoading] = useState(true);
+
+  const canViewAudit = !!currentUser && hasHomePermission(home, currentUser.uid, 'viewAuditLog');
+
+  useEffect(() => {
+    setLoading(true);
+    const unsubscribe = subscribeToHomeActivity(home.id, (items) => {
+      setActivities(items);
+      setLoading(false);
+    }, { includeAudit: canViewAudit });
+
+    return () => unsubscribe();
+  }, [home.id, canViewAudit]);
+
+  useEffect(() => {
+    const fetchMembers = async () => {
+      const { members } = await getHomeMembers(home.id);
+      const memberNames: { [userId: string]: string } = {};
+      members.forEach(member => {
+        memberNames[member.uid] = getMemberName(member);
+      });
+      setNames(prev => ({ ...prev, ...memberNames }));
+    };
+
+    fetchMembers();
+  }, [home.id]);
+
+  // Nama pelaku yang sudah bukan anggota diambil terpisah
+  useEffect(() => {
+    const unknownIds = Array.from(new Set(activities.map(activity => activity.actorId)))
+      .filter(userId => !(userId in names));
+    if (unknownIds.length === 0) return;
+
+    const fetchNames = async () => {
+      const fetched: { [userId: string]: string } = {};
+      for (const userId of unknownIds) {
+        fetched[userId] = (await getUserDisplayName(userId)) || 'Mantan anggota';
+      }
+      setNames(prev => ({ ...prev, ...fetched }));
+    };
+
+    fetchNames();
+  }, [activities, names]);
+
+  const filtered = useMemo(() => activities.filter(activity => {
+    if (category === 'audit' && !activity.audit) return false;
+    if (category !== 'all' && category !== 'audit' && ACTIVITY_CATEGORIES[activity.type] !== category) return false;
+    if (memberFilter !== 'all' && activity.actorId !== memberFilter) return false;
+    return true;
+  }), [activities, category, memberFilter]);
+
+  const groups = useMemo(() => {
+    const result: { key: string; label: string; items: Activity[] }[] = [];
+    filtered.forEach(activity => {
+      const key = groupBy === 'day' ? activity.createdAt.toDateString() : activity.actorId;
+      let group = result.find(g => g.key === key);
+      if (!group) {
+        group = {
+          key,
+          label: groupBy === 'day' ? formatDay(activity.createdAt) : (names[activity.actorId] || 'Anggota'),
+          items: []
+        };
+        result.push(group);
+      }
+      group.items.push(activity);
+    });
+    return result;
+  }, [filtered, groupBy, names]);
+
+  const actorIds = Array.from(new Set(activities.map(activity => activity.actorId)));
+
+  return (
+    <div className="card-modern p-8">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
+        <h3 className="text-xl font-semibold text-gradient">Aktivitas Rumah</h3>
+        <div className="flex flex-wrap gap-2">
+          <select
+            value={category}
+            onChange={(e) => setCategory(e.target.value as CategoryFilter)}
+            className="bg-slate-800/60 border border-slate-600/30 rounded-lg px-3 py-2 text-sm text-slate-200 focus-ring"
+          >
+            <option value="all">Semua aktivitas</option>
+            {(Object.keys(ACTIVITY_CATEGORY_LABELS) as ActivityCategory[]).map(key => (
+              <option key={key} value={key}>{ACTIVITY_CATEGORY_LABELS[key]}</option>
+            ))}
+            {canViewAudit && <option value="audit">Log audit</option>}
+          </select>
+          <select
+            value={memberFilter}
+            onChange={(e) => setMemberFilter(e.target.value)}
+            className="bg-slate-800/60 border border-slate-600/30 rounded-lg px-3 py-2 text-sm text-slate-200 focus-ring"
+          >
+            <option value="all">Semua anggota</option>
+            {actorIds.map(userId => (
+              <option key={userId} value={userId}>{names[userId] || 'Anggota'}</option>
+            ))}
+          </select>
+          <select
+            value={groupBy}
+            onChange={(e) => setGroupBy(e.target.value as GroupBy)}
+            className="bg-slate-800/60 border border-slate-600/30 rounded-lg px-3 py-2 text-sm text-slate-200 focus-ring"
+          >
+            <option value="day">Per hari</option>
+            <option value="member">Per anggota</option>
+          </select>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-6">
+          <div className="loading-spinner"></div>
+        </div>
+      ) : groups.length === 0 ? (
+        <p className="text-sm text-slate-400 text-center py-6">Belum ada aktivitas.</p>
+      ) : (
+        <div className="space-y-6 max-h-[32rem] overflow-y-auto pr-1">
+          {groups.map(group => (
+            <div key={group.key}>
+              <h4 className="text-sm font-semibold text-slate-300 mb-3">{group.label}</h4>
+              <ul className="space-y-2 border-l border-slate-700/50 ml-1.5">
+                {group.items.map(activity => (
+                  <li key={activity.id} className="relative pl-5">
+                    <span className={`absolute -left-[5px] top-2 w-2.5 h-2.5 rounded-full ${CATEGORY_COLORS[ACTIVITY_CATEGORIES[activity.type]]}`}></span>
+                    <div className="p-3 glassmorphism rounded-lg flex items-start justify-between gap-3">
+                      <p className="text-sm text-slate-200">
+                        <span className="font-medium text-white">{names[activity.actorId] || 'Anggota'}</span>{' '}
+                        {describeActivity(activity)}
+                        {activity.audit && (
+                          <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-red-900/30 text-red-300 border border-red-500/30">
+                            Audit
+                          </span>
+                        )}
+                      </p>
+                      <span className="text-xs text-slate-500 flex-shrink-0">
+                        {groupBy === 'day'
+                          ? activity.createdAt.toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit' })
+                          : activity.createdAt.toLocaleString('id-ID', {
+                              day: 'numeric',
+                              month: 'short',
+                              hour: '2-digit',
+                              minute: '2-digit'
+                            })}
+                      </span>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ActivityTimeline;
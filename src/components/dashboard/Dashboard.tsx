@@ -1,14 +1,26 @@
 import React, { useState, useEffect } from 'react';
 import { useParams, useNavigate, Link } from 'react-router-dom';
 import { useAuth } from '../../contexts/AuthContext';
-import { getHomeById } from '../../services/firebase/home';
-import { Home, TabType } from '../../types'; // Import TabType
+import { getHomeById, subscribeToHome } from '../../services/firebase/home';
+import { subscribeToOwnershipClaim } from '../../services/firebase/ownership';
+import { syncPresenceMembers } from '../../services/firebase/notePresence';
+import { isHomeInTrash } from '../../utils/homeTrash';
+import { Home, OwnershipClaim, TabType } from '../../types'; // Import TabType
+import { Note } from '../../types/user';
 import Notes from '../notes/Notes';
 import Wishlist from '../wishlist/Wishlist';
 import VideoCallChat from '../call/VideoCallChat';
 import PetsList from '../pets/PetsList';
 import Chat from '../chat/Chat';
 import HomeSettings from './HomeSettings';
+import ActivityTimeline from './ActivityTimeline';
+import HomeStatsCharts from './HomeStatsCharts';
+import UpcomingReminders from './UpcomingReminders';
+import ReminderNotifications from './ReminderNotifications';
+import { useNoteReminders } from '../../hooks/useNoteReminders';
+import { hasHomePermission } from '../../utils/homePermissions';
+import { getHomeAccentColor, withAlpha } from '../../utils/homeProfile';
+import HomeAvatar from '../home/HomeAvatar';
 
 const Dashboard: React.FC = () => {
   const { homeId } = useParams<{ homeId?: string }>(); // homeId can be undefined
@@ -16,6 +28,8 @@ const Dashboard: React.FC = () => {
   const [home, setHome] = useState<Home | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
+  const [ownershipClaim, setOwnershipClaim] = useState<OwnershipClaim | null>(null);
+  const [openNoteId, setOpenNoteId] = useState<string | null>(null);
   const { currentUser } = useAuth();
   const navigate = useNavigate();
 
@@ -59,6 +73,12 @@ const Dashboard: React.FC = () => {
             setLoading(false);
             return;
           }
+          if (isHomeInTrash(home)) {
+            setError('Rumah ini sudah dihapus');
+            navigate('/dashboard');
+            setLoading(false);
+            return;
+          }
           setHome(home);
         } else {
           setError('Rumah tidak ditemukan.');
@@ -74,6 +94,41 @@ const Dashboard: React.FC = () => {
     fetchHomeData();
   }, [homeId, currentUser, navigate]);
 
+  // Perubahan profil rumah dari pengaturan langsung tampil tanpa memuat ulang
+  const loadedHomeId = home?.id;
+  useEffect(() => {
+    if (!loadedHomeId || !currentUser) return;
+
+    const unsubscribe = subscribeToHome(loadedHomeId, (updated) => {
+      if (updated && updated.members.includes(currentUser.uid) && !isHomeInTrash(updated)) {
+        setHome(updated);
+        // Daftar anggota untuk kehadiran note hanya boleh diubah pemilik rumah
+        if (updated.createdBy === currentUser.uid) {
+          syncPresenceMembers(updated);
+        }
+      }
+    });
+
+    return () => unsubscribe();
+  }, [loadedHomeId, currentUser]);
+
+  // Pemberitahuan untuk pemilik jika ada anggota yang mengajukan klaim kepemilikan
+  const isHomeOwner = !!home && !!currentUser && home.createdBy === currentUser.uid;
+  useEffect(() => {
+    if (!loadedHomeId || !isHomeOwner) {
+      setOwnershipClaim(null);
+      return;
+    }
+
+    const unsubscribe = subscribeToOwnershipClaim(loadedHomeId, setOwnershipClaim);
+    return () => unsubscribe();
+  }, [loadedHomeId, isHomeOwner]);
+
+  // Pengingat note berbunyi di tab mana pun yang sedang dibuka
+  const noteReminders = useNoteReminders(loadedHomeId, currentUser?.uid);
+
+  const accentColor = getHomeAccentColor(home);
+
   const handleTabChange = (tab: TabType) => {
     setActiveTab(tab);
     // Optionally, if Navbar needs to be informed of Dashboard-initiated tab changes (e.g. mobile tabs)
@@ -83,6 +138,11 @@ const Dashboard: React.FC = () => {
     window.dispatchEvent(tabEvent);
   };
 
+  const handleOpenNote = (note: Note) => {
+    setOpenNoteId(note.id);
+    handleTabChange('notes');
+  };
+
   if (!currentUser) {
     navigate('/login');
     return null;
@@ -155,67 +215,108 @@ const Dashboard: React.FC = () => {
         )}
         {home && (
           <div className="px-4 py-6 sm:px-0">
+            {ownershipClaim?.status === 'pending' && (
+              <div className="mb-6 p-4 bg-yellow-900/30 border border-yellow-500/30 rounded-lg flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+                <p className="text-sm text-yellow-200">
+                  Seorang anggota mengajukan klaim kepemilikan rumah ini karena Anda lama tidak aktif.
+                  Tinjau klaim tersebut di bagian Kepemilikan Rumah pada tab Dashboard.
+                </p>
+                {activeTab !== 'dashboard' && (
+                  <button
+                    onClick={() => handleTabChange('dashboard')}
+                    className="px-3 py-2 text-sm rounded-lg bg-yellow-900/40 border border-yellow-500/30 text-yellow-200 transition-smooth hover:bg-yellow-900/60 flex-shrink-0"
+                  >
+                    Tinjau klaim
+                  </button>
+                )}
+              </div>
+            )}
             {activeTab === 'dashboard' && (
               <div className="mb-8">
-                <div className="bg-gradient-to-r from-purple-600/20 to-blue-600/20 backdrop-blur-sm border border-purple-500/20 rounded-xl p-8 mb-8">
-                  <div className="flex items-center justify-between">
-                    <div className="flex items-center space-x-4">
-                      <div className="w-16 h-16 bg-gradient-to-br from-purple-500 to-blue-500 rounded-full flex items-center justify-center">
-                        <svg className="w-8 h-8 text-white" fill="currentColor" viewBox="0 0 20 20">
-                          <path d="M10.707 2.293a1 1 0 00-1.414 0l-7 7a1 1 0 001.414 1.414L4 10.414V17a1 1 0 001 1h2a1 1 0 001-1v-2a1 1 0 011-1h2a1 1 0 011 1v2a1 1 0 001 1h2a1 1 0 001-1v-6.586l.293.293a1 1 0 001.414-1.414l-7-7z"/>
-                        </svg>
-                      </div>
-                      <div>
-                        <h1 className="text-4xl font-bold bg-gradient-to-r from-purple-400 to-blue-400 bg-clip-text text-transparent">
+                <div
+                  className="relative overflow-hidden backdrop-blur-sm border rounded-xl p-8 mb-8"
+                  style={{
+                    borderColor: withAlpha(accentColor, 0.25),
+                    background: `linear-gradient(to right, ${withAlpha(accentColor, 0.2)}, rgba(37, 99, 235, 0.2))`
+                  }}
+                >
+                  {home.coverUrl && (
+                    <>
+                      <img src={home.coverUrl} alt="" className="absolute inset-0 w-full h-full object-cover" />
+                      <div className="absolute inset-0 bg-gradient-to-r from-slate-900/90 to-slate-900/50"></div>
+                    </>
+                  )}
+                  <div className="relative flex items-center justify-between gap-4">
+                    <div className="flex items-center space-x-4 min-w-0">
+                      <HomeAvatar home={home} className="w-16 h-16 text-3xl" />
+                      <div className="min-w-0">
+                        <h1
+                          className="text-4xl font-bold bg-clip-text text-transparent"
+                          style={{ backgroundImage: `linear-gradient(to right, ${accentColor}, #60a5fa)` }}
+                        >
                           {home.name}
                         </h1>
+                        {home.description && (
+                          <p className="text-slate-300 mt-1">{home.description}</p>
+                        )}
                         <p className="text-slate-400 mt-1">
                           {home.members.length} anggota rumah
                         </p>
                       </div>
                     </div>
-                    <div className="text-right">
-                      <p className="text-sm text-slate-400 mb-2">Kode Undangan</p>
-                      <div className="bg-slate-700/50 border border-purple-500/30 rounded-lg px-4 py-2">
-                        <span className="font-mono text-lg text-purple-300">{home.inviteCode}</span>
+                    {hasHomePermission(home, currentUser.uid, 'invite') && (
+                      <div className="text-right">
+                        <p className="text-sm text-slate-400 mb-2">Kode Undangan</p>
+                        <div
+                          className="bg-slate-700/50 border rounded-lg px-4 py-2"
+                          style={{ borderColor: withAlpha(accentColor, 0.3) }}
+                        >
+                          <span className="font-mono text-lg" style={{ color: accentColor }}>{home.inviteCode}</span>
+                        </div>
                       </div>
-                    </div>
+                    )}
                   </div>
                 </div>
               </div>
             )}            <div className="md:hidden mb-6 flex overflow-x-auto space-x-2">
               <button
                 onClick={() => handleTabChange('dashboard')}
-                className={`px-4 py-2 rounded-lg text-sm font-medium ${activeTab === 'dashboard' ? 'bg-purple-600 text-white' : 'bg-slate-700/50 hover:bg-slate-700'}`}
+                className={`px-4 py-2 rounded-lg text-sm font-medium ${activeTab === 'dashboard' ? 'text-white' : 'bg-slate-700/50 hover:bg-slate-700'}`}
+                style={activeTab === 'dashboard' ? { backgroundColor: accentColor } : undefined}
               >
                 Dashboard
               </button>
               <button
                 onClick={() => handleTabChange('notes')}
-                className={`px-4 py-2 rounded-lg text-sm font-medium ${activeTab === 'notes' ? 'bg-purple-600 text-white' : 'bg-slate-700/50 hover:bg-slate-700'}`}
+                className={`px-4 py-2 rounded-lg text-sm font-medium ${activeTab === 'notes' ? 'text-white' : 'bg-slate-700/50 hover:bg-slate-700'}`}
+                style={activeTab === 'notes' ? { backgroundColor: accentColor } : undefined}
               >
                 Notes
               </button>
               <button
                 onClick={() => handleTabChange('wishlist')}
-                className={`px-4 py-2 rounded-lg text-sm font-medium ${activeTab === 'wishlist' ? 'bg-purple-600 text-white' : 'bg-slate-700/50 hover:bg-slate-700'}`}
+                className={`px-4 py-2 rounded-lg text-sm font-medium ${activeTab === 'wishlist' ? 'text-white' : 'bg-slate-700/50 hover:bg-slate-700'}`}
+                style={activeTab === 'wishlist' ? { backgroundColor: accentColor } : undefined}
               >
                 Wishlist
               </button>
               <button
                 onClick={() => handleTabChange('call')}
-                className={`px-4 py-2 rounded-lg text-sm font-medium ${activeTab === 'call' ? 'bg-purple-600 text-white' : 'bg-slate-700/50 hover:bg-slate-700'}`}
+                className={`px-4 py-2 rounded-lg text-sm font-medium ${activeTab === 'call' ? 'text-white' : 'bg-slate-700/50 hover:bg-slate-700'}`}
+                style={activeTab === 'call' ? { backgroundColor: accentColor } : undefined}
               >
                 Komunikasi
               </button>              <button
                 onClick={() => handleTabChange('pets')}
-                className={`px-4 py-2 rounded-lg text-sm font-medium ${activeTab === 'pets' ? 'bg-purple-600 text-white' : 'bg-slate-700/50 hover:bg-slate-700'}`}
+                className={`px-4 py-2 rounded-lg text-sm font-medium ${activeTab === 'pets' ? 'text-white' : 'bg-slate-700/50 hover:bg-slate-700'}`}
+                style={activeTab === 'pets' ? { backgroundColor: accentColor } : undefined}
               >
                 Pets
               </button>
               <button
                 onClick={() => handleTabChange('chat')}
-                className={`px-4 py-2 rounded-lg text-sm font-medium ${activeTab === 'chat' ? 'bg-purple-600 text-white' : 'bg-slate-700/50 hover:bg-slate-700'}`}
+                className={`px-4 py-2 rounded-lg text-sm font-medium ${activeTab === 'chat' ? 'text-white' : 'bg-slate-700/50 hover:bg-slate-700'}`}
+                style={activeTab === 'chat' ? { backgroundColor: accentColor } : undefined}
               >
                 Chat
               </button>
@@ -234,11 +335,30 @@ const Dashboard: React.FC = () => {
                         </p>
                       </div>
                       
+                      <div className="mb-6">
+                        <UpcomingReminders
+                          reminders={noteReminders.reminders}
+                          permission={noteReminders.permission}
+                          onRequestPermission={noteReminders.requestPermission}
+                          onSnooze={noteReminders.snooze}
+                          onComplete={noteReminders.complete}
+                          onOpen={handleOpenNote}
+                        />
+                      </div>
+
+                      <div className="mb-6">
+                        <HomeStatsCharts home={home} />
+                      </div>
+
+                      <div className="mb-6">
+                        <ActivityTimeline home={home} />
+                      </div>
+
                       <HomeSettings home={home} />
                     </div>
                   )}
                     {activeTab === 'notes' && (
-                    <Notes />
+                    <Notes openNoteId={openNoteId} onNoteOpened={() => setOpenNoteId(null)} />
                   )}
                   
                   {activeTab === 'wishlist' && (
@@ -253,13 +373,25 @@ const Dashboard: React.FC = () => {
                   )}
                   
                   {activeTab === 'chat' && (
-                    <Chat homeId={homeId || ''} />
+                    <Chat homeId={homeId || ''} timezone={home.timezone} />
                   )}
                 </div>
               </div>
             </div>
           </div>
         )}
+        {home && (
+          <ReminderNotifications
+            alerts={noteReminders.alerts}
+            onSnooze={noteReminders.snooze}
+            onComplete={noteReminders.complete}
+            onDismiss={noteReminders.dismiss}
+            onOpen={(note) => {
+              noteReminders.dismiss(note);
+              handleOpenNote(note);
+            }}
+          />
+        )}
         {/* Fallback for when no home is loaded, not loading, and no specific error message shown */}
         {/* This condition might need refinement based on exact states */}
         {!home && !loading && !error && homeId && homeId !== "undefined" && (
@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { exportHome } from '../../services/firebase/homeExport';
+import { Home, HomeExportProgress } from '../../types';
+import { buildHomeArchiveFiles, getArchiveFileName } from '../../utils/homeArchive';
+import { createZip, downloadBlob } from '../../utils/zip';
+import HomeImport from './HomeImport';
+
+interface HomeExportProps {
+  home: Home;
+  canImport?: boolean;
+}
+
+const PROGRESS_LABELS: Record<HomeExportProgress['collection'], string> = {
+  home: 'Membaca data rumah',
+  notes: 'Mengambil catatan',
+  wishlist: 'Mengambil wishlist',
+  messages: 'Mengambil pesan chat',
+  pets: 'Mengambil peliharaan',
+  petInteractions: 'Mengambil interaksi peliharaan',
+  members: 'Mengambil profil anggota',
+};
+
+const HomeExport: React.FC<HomeExportProps> = ({ home, canImport }) => {
+  const { currentUser } = useAuth();
+  const [exporting, setExporting] = useState(false);
+  const [progress, setProgress] = useState<HomeExportProgress | null>(null);
+  const [error, setError] = useState('');
+  const [showImport, setShowImport] = useState(false);
+  const [importMessage, setImportMessage] = useState('');
+
+  const handleExport = async () => {
+    if (!currentUser) return;
+
+    try {
+      setExporting(true);
+      setError('');
+      setProgress(null);
+
+      const { archive, error } = await exportHome(currentUser.uid, home.id, setProgress);
+
+      if (error || !archive) {
+        setError(error || 'Gagal mengekspor rumah');
+        return;
+      }
+
+      const zip = createZip(buildHomeArchiveFiles(archive));
+      downloadBlob(zip, getArchiveFileName(archive));
+    } catch (err: any) {
+      setError('Gagal mengekspor rumah: ' + err.message);
+    } finally {
+      setExporting(false);
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="card-modern p-8">
+      <h3 className="text-xl font-semibold text-gradient mb-2">{canImport ? 'Ekspor & Impor' : 'Ekspor Rumah'}</h3>
+      <p className="text-sm text-slate-400 mb-6">
+        Unduh semua catatan, wishlist, chat dan peliharaan sebagai arsip .zip berisi JSON, Markdown dan CSV.
+        {canImport && ' Arsip dari rumah lain bisa digabungkan ke rumah ini.'}
+      </p>
+
+      {importMessage && (
+        <div className="mb-4 p-3 bg-green-900/30 border border-green-500/30 rounded-lg text-green-200 text-sm">
+          {importMessage}
+        </div>
+      )}
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-900/30 border border-red-500/30 rounded-lg text-red-200 text-sm" role="alert">
+          {error}
+        </div>
+      )}
+
+      <button
+        onClick={handleExport}
+        disabled={exporting}
+        className="w-full btn-secondary p-4 text-center font-medium transition-smooth hover:scale-[1.02] focus-ring disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <div className="flex items-center justify-center space-x-2">
+          {exporting ? (
+            <>
+              <div className="loading-spinner"></div>
+              <span>
+                {progress
+                  ? `${PROGRESS_LABELS[progress.collection]}${progress.collection === 'home' ? '' : ` (${progress.count})`}...`
+                  : 'Menyiapkan ekspor...'}
+              </span>
+            </>
+          ) : (
+            <>
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+              </svg>
+              <span>Ekspor Arsip (.zip)</span>
+            </>
+          )}
+        </div>
+      </button>
+
+      {canImport && (
+        <button
+          onClick={() => setShowImport(true)}
+          disabled={exporting}
+          className="w-full btn-secondary p-4 mt-4 text-center font-medium transition-smooth hover:scale-[1.02] focus-ring disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <div className="flex items-center justify-center space-x-2">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
+            </svg>
+            <span>Impor Arsip ke Rumah Ini</span>
+          </div>
+        </button>
+      )}
+
+      {showImport && (
+        <HomeImport
+          targetHome={home}
+          onClose={() => setShowImport(false)}
+          onImported={() => {
+            setShowImport(false);
+            setImportMessage('Arsip berhasil diimpor ke rumah ini.');
+          }}
+        />
+      )}
+    </div>
+  );
+};
+
+export default HomeExport;
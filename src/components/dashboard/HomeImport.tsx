@@ -0,0 +1,248 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { importHome } from '../../services/firebase/homeImport';
+import { getHomeMemberProfiles } from '../../services/firebase/user';
+import { ArchiveAuthorMapping, ArchiveCollection, Home, HomeArchive, HomeImportProgress } from '../../types';
+import {
+  getArchiveAuthors,
+  parseHomeArchiveFile,
+  previewHomeImport,
+  suggestAuthorMapping
+} from '../../utils/homeArchive';
+
+interface HomeImportProps {
+  targetHome?: Home; // Kosong: impor sebagai rumah baru
+  onClose: () => void;
+  onImported: (home: Home) => void;
+}
+
+const COLLECTION_LABELS: Record<ArchiveCollection, string> = {
+  notes: 'Catatan',
+  wishlist: 'Wishlist',
+  messages: 'Pesan chat',
+  pets: 'Peliharaan',
+  petInteractions: 'Interaksi peliharaan',
+};
+
+const HomeImport: React.FC<HomeImportProps> = ({ targetHome, onClose, onImported }) => {
+  const { currentUser } = useAuth();
+  const [archive, setArchive] = useState<HomeArchive | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [homeName, setHomeName] = useState('');
+  const [members, setMembers] = useState<{ uid: string; name: string; email: string | null }[]>([]);
+  const [mapping, setMapping] = useState<ArchiveAuthorMapping>({});
+  const [importing, setImporting] = useState(false);
+  const [progress, setProgress] = useState<HomeImportProgress | null>(null);
+
+  // Anggota rumah tujuan; rumah baru hanya berisi pengimpor
+  useEffect(() => {
+    if (!currentUser) return;
+
+    if (!targetHome) {
+      setMembers([{
+        uid: currentUser.uid,
+        name: currentUser.displayName || currentUser.email || 'Saya',
+        email: currentUser.email
+      }]);
+      return;
+    }
+
+    const fetchMembers = async () => {
+      const { members } = await getHomeMemberProfiles(targetHome.id);
+      setMembers(members.map(member => ({
+        uid: member.uid,
+        name: member.displayName || member.email || 'Anggota',
+        email: member.email
+      })));
+    };
+
+    fetchMembers();
+  }, [targetHome, currentUser]);
+
+  // Saran awal pemetaan penulis, bisa diubah sebelum impor
+  useEffect(() => {
+    if (!archive || !currentUser) return;
+    setMapping(suggestAuthorMapping(getArchiveAuthors(archive), members, currentUser.uid));
+  }, [archive, members, currentUser]);
+
+  const preview = useMemo(() => (
+    archive ? previewHomeImport(archive, mapping, members.map(member => member.uid)) : null
+  ), [archive, mapping, members]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file || !currentUser) return;
+
+    setArchive(null);
+    setErrors([]);
+
+    const { archive, errors } = parseHomeArchiveFile(file.name, new Uint8Array(await file.arrayBuffer()));
+    if (!archive) {
+      setErrors(errors);
+      return;
+    }
+
+    setArchive(archive);
+    setHomeName(String(archive.home.name || ''));
+  };
+
+  const handleImport = async () => {
+    if (!currentUser || !archive) return;
+
+    try {
+      setImporting(true);
+      setErrors([]);
+
+      const { home, imported, error } = await importHome(
+        currentUser.uid,
+        archive,
+        targetHome ? { mode: 'merge', homeId: targetHome.id } : { mode: 'new', homeName },
+        mapping,
+        setProgress
+      );
+
+      if (error) {
+        const total = Object.values(imported).reduce((sum, count) => sum + count, 0);
+        setErrors([total > 0 ? `${error} (${total} data sudah terimpor sebelum berhenti)` : error]);
+        return;
+      }
+
+      if (home) {
+        onImported(home);
+      }
+    } catch (err: any) {
+      setErrors(['Gagal mengimpor arsip: ' + err.message]);
+    } finally {
+      setImporting(false);
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="card-modern p-8 max-w-lg w-full max-h-[90vh] overflow-y-auto animate-scale-in">
+        <h3 className="text-xl font-semibold text-white mb-2">
+          {targetHome ? `Impor Arsip ke "${targetHome.name}"` : 'Pulihkan Rumah dari Arsip'}
+        </h3>
+        <p className="text-sm text-slate-400 mb-6">
+          Pilih file .zip hasil ekspor atau home.json di dalamnya. Data baru ditulis setelah Anda memeriksa pratinjau.
+        </p>
+
+        <input
+          type="file"
+          accept=".zip,.json,application/zip,application/json"
+          onChange={handleFileChange}
+          disabled={importing}
+          className="block w-full text-sm text-slate-300 file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:bg-slate-700 file:text-slate-200 hover:file:bg-slate-600 mb-6"
+        />
+
+        {errors.length > 0 && (
+          <div className="mb-6 p-3 bg-red-900/30 border border-red-500/30 rounded-lg text-red-200 text-sm" role="alert">
+            <ul className="space-y-1">
+              {errors.map(error => <li key={error}>{error}</li>)}
+            </ul>
+          </div>
+        )}
+
+        {archive && preview && (
+          <div className="space-y-6">
+            {!targetHome && (
+              <div>
+                <label htmlFor="import-home-name" className="block text-sm font-medium text-slate-300 mb-1">
+                  Nama Rumah Baru
+                </label>
+                <input
+                  id="import-home-name"
+                  type="text"
+                  className="input-modern"
+                  value={homeName}
+                  onChange={(e) => setHomeName(e.target.value)}
+                />
+              </div>
+            )}
+
+            <div>
+              <h4 className="text-sm font-semibold text-slate-300 mb-2">Akan diimpor</h4>
+              <div className="grid grid-cols-2 gap-2">
+                {(Object.keys(COLLECTION_LABELS) as ArchiveCollection[]).map(key => (
+                  <div key={key} className="p-3 glassmorphism rounded-lg flex justify-between text-sm">
+                    <span className="text-slate-400">{COLLECTION_LABELS[key]}</span>
+                    <span className="font-medium text-white">{preview.counts[key]}</span>
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-slate-500 mt-2">
+                Diekspor pada {new Date(archive.exportedAt).toLocaleString('id-ID', { dateStyle: 'medium', timeStyle: 'short' })}.
+                Waktu asli setiap data dipertahankan.
+              </p>
+            </div>
+
+            {preview.authors.length > 0 && (
+              <div>
+                <h4 className="text-sm font-semibold text-slate-300 mb-2">Penulis</h4>
+                <div className="space-y-2">
+                  {preview.authors.map(author => (
+                    <div key={author.archiveUserId} className="p-3 glassmorphism rounded-lg flex items-center justify-between gap-3">
+                      <div className="min-w-0">
+                        <p className="text-sm text-white truncate">{author.name}</p>
+                        <p className="text-xs text-slate-400">{author.contentCount} data</p>
+                      </div>
+                      <select
+                        value={mapping[author.archiveUserId] || ''}
+                        onChange={(e) => setMapping(prev => ({ ...prev, [author.archiveUserId]: e.target.value }))}
+                        disabled={importing}
+                        className="bg-slate-800/60 border border-slate-600/30 rounded-lg px-3 py-2 text-sm text-slate-200 focus-ring"
+                      >
+                        {members.map(member => (
+                          <option key={member.uid} value={member.uid}>
+                            {member.name}{member.uid === currentUser?.uid ? ' (Anda)' : ''}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {preview.warnings.length > 0 && (
+              <div className="p-3 bg-yellow-900/30 border border-yellow-500/30 rounded-lg text-yellow-200 text-sm">
+                <ul className="space-y-1">
+                  {preview.warnings.map(warning => <li key={warning}>{warning}</li>)}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-4 mt-8">
+          <button
+            onClick={onClose}
+            disabled={importing}
+            className="btn-secondary px-6 py-3 transition-smooth hover:scale-105 focus-ring"
+          >
+            Batal
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={!archive || importing}
+            className="btn-primary px-6 py-3 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {importing ? (
+              <div className="flex items-center space-x-2">
+                <div className="loading-spinner"></div>
+                <span>
+                  {progress
+                    ? `${COLLECTION_LABELS[progress.collection]} ${progress.done}/${progress.total}`
+                    : 'Menyiapkan...'}
+                </span>
+              </div>
+            ) : 'Impor'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HomeImport;
@@ -0,0 +1,283 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import {
+  createInvite,
+  getHomeInvites,
+  getInviteLink,
+  getInviteStatus,
+  getInviteUsages,
+  revokeInvite,
+  InviteRole
+} from '../../services/firebase/invites';
+import { getUserProfile } from '../../services/firebase/user';
+import { Home, HomeInvite, InviteStatus, InviteUsage } from '../../types/user';
+import { HOME_ROLE_LABELS, hasHomePermission } from '../../utils/homePermissions';
+
+interface HomeInvitesProps {
+  home: Home;
+}
+
+const EXPIRY_OPTIONS: { label: string; hours: number | null }[] = [
+  { label: '1 jam', hours: 1 },
+  { label: '1 hari', hours: 24 },
+  { label: '7 hari', hours: 24 * 7 },
+  { label: '30 hari', hours: 24 * 30 },
+  { label: 'Tidak pernah', hours: null },
+];
+
+const MAX_USES_OPTIONS: { label: string; value: number | null }[] = [
+  { label: '1 kali', value: 1 },
+  { label: '5 kali', value: 5 },
+  { label: '10 kali', value: 10 },
+  { label: 'Tanpa batas', value: null },
+];
+
+const STATUS_LABELS: Record<InviteStatus, { label: string; className: string }> = {
+  active: { label: 'Aktif', className: 'bg-green-900/30 text-green-300 border-green-500/30' },
+  expired: { label: 'Kedaluwarsa', className: 'bg-slate-700/50 text-slate-400 border-slate-600/30' },
+  revoked: { label: 'Dibatalkan', className: 'bg-red-900/30 text-red-300 border-red-500/30' },
+  exhausted: { label: 'Habis', className: 'bg-yellow-900/30 text-yellow-300 border-yellow-500/30' },
+};
+
+const HomeInvites: React.FC<HomeInvitesProps> = ({ home }) => {
+  const { currentUser } = useAuth();
+  const [invites, setInvites] = useState<HomeInvite[]>([]);
+  const [role, setRole] = useState<InviteRole>('member');
+  const [expiryIndex, setExpiryIndex] = useState(2);
+  const [maxUsesIndex, setMaxUsesIndex] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [usages, setUsages] = useState<(InviteUsage & { name: string })[]>([]);
+
+  const canManage = !!currentUser && hasHomePermission(home, currentUser.uid, 'manageSettings');
+  const canInviteAdmin = !!currentUser && hasHomePermission(home, currentUser.uid, 'manageRoles');
+
+  const fetchInvites = useCallback(async () => {
+    const { invites, error } = await getHomeInvites(home.id);
+    if (error) {
+      setError(error);
+      return;
+    }
+    setInvites(invites);
+  }, [home.id]);
+
+  useEffect(() => {
+    fetchInvites();
+  }, [fetchInvites]);
+
+  const handleCreateInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!currentUser) return;
+
+    try {
+      setLoading(true);
+      setError('');
+
+      const { error } = await createInvite(currentUser.uid, home.id, {
+        role,
+        expiresInHours: EXPIRY_OPTIONS[expiryIndex].hours,
+        maxUses: MAX_USES_OPTIONS[maxUsesIndex].value,
+      });
+
+      if (error) {
+        setError(error);
+        return;
+      }
+
+      await fetchInvites();
+    } catch (err: any) {
+      setError('Gagal membuat undangan: ' + err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRevoke = async (inviteId: string) => {
+    if (!currentUser) return;
+    if (!window.confirm('Batalkan undangan ini? Link tidak akan bisa dipakai lagi.')) return;
+
+    try {
+      setLoading(true);
+      setError('');
+
+      const { error } = await revokeInvite(currentUser.uid, inviteId);
+
+      if (error) {
+        setError(error);
+        return;
+      }
+
+      await fetchInvites();
+    } catch (err: any) {
+      setError('Gagal membatalkan undangan: ' + err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCopy = (code: string) => {
+    navigator.clipboard.writeText(getInviteLink(code));
+    setCopiedId(code);
+    setTimeout(() => setCopiedId(null), 2000);
+  };
+
+  const handleToggleUsages = async (inviteId: string) => {
+    if (expandedId === inviteId) {
+      setExpandedId(null);
+      return;
+    }
+
+    setExpandedId(inviteId);
+    setUsages([]);
+
+    const { usages } = await getInviteUsages(inviteId);
+    const withNames = await Promise.all(usages.map(async (usage) => {
+      const { profile } = await getUserProfile(usage.userId);
+      return { ...usage, name: profile?.displayName || profile?.email || 'Pengguna' };
+    }));
+    setUsages(withNames);
+  };
+
+  return (
+    <div className="card-modern p-8">
+      <h3 className="text-xl font-semibold text-gradient mb-6">Link Undangan</h3>
+
+      <form onSubmit={handleCreateInvite} className="grid grid-cols-1 sm:grid-cols-4 gap-3 mb-6">
+        <select
+          value={role}
+          onChange={(e) => setRole(e.target.value as InviteRole)}
+          className="input-modern"
+        >
+          {canInviteAdmin && <option value="admin">{HOME_ROLE_LABELS.admin}</option>}
+          <option value="member">{HOME_ROLE_LABELS.member}</option>
+          <option value="guest">{HOME_ROLE_LABELS.guest}</option>
+        </select>
+        <select
+          value={expiryIndex}
+          onChange={(e) => setExpiryIndex(Number(e.target.value))}
+          className="input-modern"
+        >
+          {EXPIRY_OPTIONS.map((option, index) => (
+            <option key={option.label} value={index}>Berlaku: {option.label}</option>
+          ))}
+        </select>
+        <select
+          value={maxUsesIndex}
+          onChange={(e) => setMaxUsesIndex(Number(e.target.value))}
+          className="input-modern"
+        >
+          {MAX_USES_OPTIONS.map((option, index) => (
+            <option key={option.label} value={index}>Maks: {option.label}</option>
+          ))}
+        </select>
+        <button type="submit" disabled={loading} className="btn-primary disabled:opacity-50">
+          Buat Link
+        </button>
+      </form>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-900/30 border border-red-500/30 rounded-lg text-red-200 text-sm" role="alert">
+          {error}
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {/* Kode lama tetap berlaku sebagai undangan legacy */}
+        {home.inviteCode && (
+          <div className="p-4 glassmorphism rounded-lg flex items-center justify-between gap-3">
+            <div className="min-w-0">
+              <p className="font-mono text-cyan-300 truncate">{home.inviteCode}</p>
+              <p className="text-xs text-slate-400">Kode lama · {HOME_ROLE_LABELS.member} · tanpa batas</p>
+            </div>
+            <button
+              onClick={() => handleCopy(home.inviteCode)}
+              className="btn-secondary text-sm px-3 py-2 flex-shrink-0"
+            >
+              {copiedId === home.inviteCode ? 'Tersalin' : 'Salin Link'}
+            </button>
+          </div>
+        )}
+
+        {invites.map((invite) => {
+          const status = getInviteStatus(invite);
+          const canRevoke = status === 'active' && (canManage || invite.createdBy === currentUser?.uid);
+
+          return (
+            <div key={invite.id} className="p-4 glassmorphism rounded-lg">
+              <div className="flex items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <div className="flex items-center space-x-2">
+                    <p className="font-mono text-cyan-300 truncate">{invite.id}</p>
+                    <span className={`px-2 py-0.5 rounded-full text-xs border ${STATUS_LABELS[status].className}`}>
+                      {STATUS_LABELS[status].label}
+                    </span>
+                  </div>
+                  <p className="text-xs text-slate-400 mt-1">
+                    {HOME_ROLE_LABELS[invite.role]} · dipakai {invite.uses}{invite.maxUses !== null ? `/${invite.maxUses}` : ''} kali
+                    {invite.expiresAt && ` · berlaku sampai ${invite.expiresAt.toLocaleString('id-ID', {
+                      day: 'numeric',
+                      month: 'short',
+                      hour: '2-digit',
+                      minute: '2-digit'
+                    })}`}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-2 flex-shrink-0">
+                  {status === 'active' && (
+                    <button
+                      onClick={() => handleCopy(invite.id)}
+                      className="btn-secondary text-sm px-3 py-2"
+                    >
+                      {copiedId === invite.id ? 'Tersalin' : 'Salin Link'}
+                    </button>
+                  )}
+                  {canManage && invite.uses > 0 && (
+                    <button
+                      onClick={() => handleToggleUsages(invite.id)}
+                      className="btn-secondary text-sm px-3 py-2"
+                    >
+                      Riwayat
+                    </button>
+                  )}
+                  {canRevoke && (
+                    <button
+                      onClick={() => handleRevoke(invite.id)}
+                      disabled={loading}
+                      className="px-3 py-2 text-sm rounded-lg bg-red-900/30 border border-red-500/30 text-red-300 transition-smooth hover:bg-red-900/50 disabled:opacity-50"
+                    >
+                      Batalkan
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              {expandedId === invite.id && (
+                <ul className="mt-3 pt-3 border-t border-slate-700/30 space-y-1 text-sm text-slate-300">
+                  {usages.length === 0 ? (
+                    <li className="text-slate-500">Memuat...</li>
+                  ) : usages.map((usage) => (
+                    <li key={usage.id} className="flex justify-between">
+                      <span>{usage.name}</span>
+                      <span className="text-slate-500">
+                        {usage.usedAt.toLocaleString('id-ID', {
+                          day: 'numeric',
+                          month: 'short',
+                          hour: '2-digit',
+                          minute: '2-digit'
+                        })}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default HomeInvites;
@@ -0,0 +1,279 @@
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import {
+  getOwnerLastLogin,
+  subscribeToOwnershipClaim,
+  setHomeSuccessors,
+  requestOwnershipClaim,
+  rejectOwnershipClaim,
+  cancelOwnershipClaim,
+  completeOwnershipClaim
+} from '../../services/firebase/ownership';
+import { Home, HomeMemberProfile, OwnershipClaim, UserProfile } from '../../types/user';
+import { HOME_ROLE_LABELS, getMemberRole } from '../../utils/homePermissions';
+import { getMemberName } from '../../utils/memberProfile';
+import {
+  OWNER_INACTIVITY_DAYS,
+  OWNERSHIP_CLAIM_WAITING_DAYS,
+  canCompleteClaim,
+  getClaimAvailableAt,
+  getDaysInactive,
+  getSuccessionOrder,
+  isClaimContested,
+  isOwnerInactive
+} from '../../utils/ownership';
+
+interface HomeOwnershipProps {
+  home: Home;
+  members: UserProfile[];
+  memberProfiles: { [userId: string]: HomeMemberProfile };
+}
+
+const formatDate = (date: Date) => date.toLocaleDateString('id-ID', { day: 'numeric', month: 'long', year: 'numeric' });
+
+const HomeOwnership: React.FC<HomeOwnershipProps> = ({ home, members, memberProfiles }) => {
+  const { currentUser } = useAuth();
+  const [claim, setClaim] = useState<OwnershipClaim | null>(null);
+  const [ownerLastLogin, setOwnerLastLogin] = useState<Date | null>(null);
+  const [successors, setSuccessors] = useState<string[]>(home.successors || []);
+  const [candidateId, setCandidateId] = useState('');
+  const [processing, setProcessing] = useState(false);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  const isOwner = currentUser?.uid === home.createdBy;
+  const myRole = currentUser ? getMemberRole(home, currentUser.uid) : null;
+  const canClaim = myRole === 'admin' || myRole === 'member';
+
+  useEffect(() => {
+    const unsubscribe = subscribeToOwnershipClaim(home.id, setClaim);
+    return () => unsubscribe();
+  }, [home.id]);
+
+  useEffect(() => {
+    getOwnerLastLogin(home.id, home.createdBy).then(({ lastLogin }) => setOwnerLastLogin(lastLogin));
+  }, [home.id, home.createdBy, claim?.status]);
+
+  useEffect(() => {
+    setSuccessors(home.successors || []);
+  }, [home.successors]);
+
+  const nameOf = (userId: string) => {
+    const member = members.find(m => m.uid === userId);
+    return getMemberName({
+      displayName: member?.displayName ?? null,
+      email: member?.email ?? null,
+      homeProfile: memberProfiles[userId]
+    });
+  };
+
+  const run = async (action: () => Promise<{ error: string | null }>, successMessage: string) => {
+    try {
+      setProcessing(true);
+      setError('');
+      setMessage('');
+
+      const { error } = await action();
+      if (error) {
+        setError(error);
+        return;
+      }
+
+      setMessage(successMessage);
+    } catch (err: any) {
+      setError('Gagal memproses kepemilikan: ' + err.message);
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  if (!currentUser || (!isOwner && !canClaim)) return null;
+
+  // Pemilik tetap melihat klaim yang gugur karena ia masuk kembali, agar bisa menutupnya
+  const pendingClaim = claim?.status === 'pending' && (isOwner || !isClaimContested(claim, ownerLastLogin)) ? claim : null;
+  const eligible = home.members.filter(userId => {
+    const role = getMemberRole(home, userId);
+    return role === 'admin' || role === 'member';
+  });
+  const candidates = eligible.filter(userId => !successors.includes(userId));
+  const nextOwnerId = getSuccessionOrder({ ...home, successors }, memberProfiles)[0];
+  const successorsChanged = successors.join(',') !== (home.successors || []).join(',');
+
+  const moveSuccessor = (index: number, offset: number) => {
+    const next = [...successors];
+    const [userId] = next.splice(index, 1);
+    next.splice(index + offset, 0, userId);
+    setSuccessors(next);
+  };
+
+  return (
+    <div className="card-modern p-8">
+      <h3 className="text-xl font-semibold text-gradient mb-6">Kepemilikan Rumah</h3>
+
+      {pendingClaim && (
+        <div className="mb-6 p-4 bg-yellow-900/30 border border-yellow-500/30 rounded-lg text-sm text-yellow-200">
+          <p>
+            <span className="font-semibold">{nameOf(pendingClaim.claimantId)}</span> mengajukan klaim kepemilikan pada{' '}
+            {formatDate(pendingClaim.createdAt)}. Kepemilikan dapat diambil alih mulai{' '}
+            {formatDate(getClaimAvailableAt(pendingClaim))}.
+            {isOwner && ' Karena Anda sudah masuk kembali, klaim ini tidak dapat diselesaikan. Tolak untuk menutupnya.'}
+          </p>
+          {isOwner && (
+            <button
+              onClick={() => run(() => rejectOwnershipClaim(currentUser.uid, home.id), 'Klaim kepemilikan ditolak')}
+              disabled={processing}
+              className="mt-3 px-3 py-2 text-sm rounded-lg bg-red-900/30 border border-red-500/30 text-red-300 transition-smooth hover:bg-red-900/50 disabled:opacity-50"
+            >
+              Tolak klaim
+            </button>
+          )}
+        </div>
+      )}
+
+      {isOwner ? (
+        <div className="space-y-4">
+          <p className="text-sm text-slate-400">
+            Jika Anda keluar dari rumah atau menghapus akun, kepemilikan berpindah ke penerus pertama yang masih menjadi
+            anggota. Tanpa penerus pilihan, admin terlama lalu anggota terlama yang menjadi pemilik.
+          </p>
+
+          {successors.length > 0 && (
+            <ol className="space-y-2">
+              {successors.map((userId, index) => (
+                <li key={userId} className="p-3 glassmorphism rounded-lg flex items-center justify-between gap-3">
+                  <span className="text-sm text-white truncate">
+                    {index + 1}. {nameOf(userId)}
+                    <span className="ml-2 text-xs text-slate-400">{HOME_ROLE_LABELS[getMemberRole(home, userId) || 'member']}</span>
+                  </span>
+                  <div className="flex items-center space-x-1 flex-shrink-0">
+                    <button
+                      onClick={() => moveSuccessor(index, -1)}
+                      disabled={index === 0}
+                      aria-label="Naikkan urutan"
+                      className="px-2 py-1 text-sm rounded bg-slate-700/50 text-slate-200 disabled:opacity-30"
+                    >
+                      ↑
+                    </button>
+                    <button
+                      onClick={() => moveSuccessor(index, 1)}
+                      disabled={index === successors.length - 1}
+                      aria-label="Turunkan urutan"
+                      className="px-2 py-1 text-sm rounded bg-slate-700/50 text-slate-200 disabled:opacity-30"
+                    >
+                      ↓
+                    </button>
+                    <button
+                      onClick={() => setSuccessors(successors.filter(id => id !== userId))}
+                      aria-label="Hapus dari penerus"
+                      className="px-2 py-1 text-sm rounded bg-red-900/30 text-red-300"
+                    >
+                      ✕
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ol>
+          )}
+
+          {candidates.length > 0 && (
+            <div className="flex gap-2">
+              <select
+                value={candidateId}
+                onChange={(e) => setCandidateId(e.target.value)}
+                className="flex-1 bg-slate-800/60 border border-slate-600/30 rounded-lg px-3 py-2 text-sm text-slate-200 focus-ring"
+              >
+                <option value="">Pilih penerus...</option>
+                {candidates.map(userId => (
+                  <option key={userId} value={userId}>{nameOf(userId)}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => {
+                  setSuccessors([...successors, candidateId]);
+                  setCandidateId('');
+                }}
+                disabled={!candidateId}
+                className="btn-secondary px-4 py-2 text-sm disabled:opacity-50"
+              >
+                Tambah
+              </button>
+            </div>
+          )}
+
+          {eligible.length === 0 ? (
+            <p className="text-xs text-slate-500">Belum ada admin atau anggota yang bisa menjadi penerus.</p>
+          ) : nextOwnerId && (
+            <p className="text-xs text-slate-500">Pemilik berikutnya: {nameOf(nextOwnerId)}</p>
+          )}
+
+          {successorsChanged && (
+            <button
+              onClick={() => run(() => setHomeSuccessors(currentUser.uid, home.id, successors), 'Penerus disimpan')}
+              disabled={processing}
+              className="btn-primary px-4 py-2 text-sm disabled:opacity-50"
+            >
+              {processing ? 'Menyimpan...' : 'Simpan Penerus'}
+            </button>
+          )}
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <p className="text-sm text-slate-400">
+            Pemilik: <span className="text-white">{nameOf(home.createdBy)}</span>
+            {ownerLastLogin && <> · terakhir aktif {getDaysInactive(ownerLastLogin)} hari lalu</>}
+          </p>
+
+          {!pendingClaim && (
+            isOwnerInactive(ownerLastLogin) ? (
+              <>
+                <p className="text-sm text-slate-300">
+                  Pemilik tidak aktif lebih dari {OWNER_INACTIVITY_DAYS} hari. Anda bisa mengajukan klaim kepemilikan; pemilik
+                  diberi tahu dan punya waktu {OWNERSHIP_CLAIM_WAITING_DAYS} hari untuk menolak atau cukup masuk kembali.
+                </p>
+                <button
+                  onClick={() => run(() => requestOwnershipClaim(currentUser.uid, home.id), 'Klaim kepemilikan diajukan')}
+                  disabled={processing}
+                  className="btn-secondary px-4 py-2 text-sm disabled:opacity-50"
+                >
+                  Ajukan Klaim Kepemilikan
+                </button>
+              </>
+            ) : (
+              <p className="text-xs text-slate-500">
+                Klaim kepemilikan bisa diajukan jika pemilik tidak aktif lebih dari {OWNER_INACTIVITY_DAYS} hari.
+              </p>
+            )
+          )}
+
+          {pendingClaim && pendingClaim.claimantId === currentUser.uid && (
+            <div className="flex flex-wrap gap-2">
+              <button
+                onClick={() => run(() => completeOwnershipClaim(currentUser.uid, home.id), 'Anda sekarang pemilik rumah ini')}
+                disabled={processing || !canCompleteClaim(pendingClaim, ownerLastLogin)}
+                className="btn-primary px-4 py-2 text-sm disabled:opacity-50"
+              >
+                Ambil Alih Kepemilikan
+              </button>
+              <button
+                onClick={() => run(() => cancelOwnershipClaim(currentUser.uid, home.id), 'Klaim kepemilikan dibatalkan')}
+                disabled={processing}
+                className="btn-secondary px-4 py-2 text-sm disabled:opacity-50"
+              >
+                Batalkan Klaim
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {error && (
+        <div className="mt-4 p-3 bg-red-900/30 border border-red-500/30 rounded-lg text-red-200 text-sm" role="alert">
+          {error}
+        </div>
+      )}
+      {message && <p className="mt-4 text-sm text-green-300">{message}</p>}
+    </div>
+  );
+};
+
+export default HomeOwnership;
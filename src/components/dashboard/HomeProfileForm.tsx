@@ -0,0 +1,219 @@
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { updateHomeSettings } from '../../services/firebase/home';
+import { Home, HomeProfile } from '../../types/user';
+import {
+  HOME_ACCENT_COLORS,
+  HOME_AVATAR_EMOJIS,
+  HOME_DESCRIPTION_MAX_LENGTH,
+  HOME_NAME_MAX_LENGTH,
+  HOME_TIMEZONES,
+  getBrowserTimeZone,
+  getHomeAccentColor,
+  validateHomeProfile
+} from '../../utils/homeProfile';
+import HomeAvatar from '../home/HomeAvatar';
+
+interface HomeProfileFormProps {
+  home: Home;
+}
+
+const toProfile = (home: Home): Required<HomeProfile> => ({
+  name: home.name,
+  description: home.description || '',
+  avatar: home.avatar || '',
+  coverUrl: home.coverUrl || '',
+  accentColor: getHomeAccentColor(home),
+  timezone: home.timezone || '',
+});
+
+const HomeProfileForm: React.FC<HomeProfileFormProps> = ({ home }) => {
+  const { currentUser } = useAuth();
+  const [profile, setProfile] = useState(() => toProfile(home));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [saved, setSaved] = useState(false);
+
+  // Sinkronkan jika profil diubah anggota lain
+  useEffect(() => {
+    setProfile(toProfile(home));
+  }, [home]);
+
+  const browserTimeZone = getBrowserTimeZone();
+  const timezoneOptions = HOME_TIMEZONES.some(zone => zone.value === browserTimeZone)
+    ? HOME_TIMEZONES
+    : [...HOME_TIMEZONES, { value: browserTimeZone, label: browserTimeZone }];
+
+  const update = (field: keyof HomeProfile, value: string) => {
+    setProfile(prev => ({ ...prev, [field]: value }));
+    setSaved(false);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!currentUser) return;
+
+    const validationError = validateHomeProfile(profile);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    // Hanya field yang berubah yang dikirim
+    const original = toProfile(home);
+    const changes: Partial<HomeProfile> = {};
+    (Object.keys(profile) as (keyof HomeProfile)[]).forEach(field => {
+      if (profile[field] !== original[field]) changes[field] = profile[field];
+    });
+    if (Object.keys(changes).length === 0) return;
+
+    try {
+      setSaving(true);
+      setError('');
+
+      const { error } = await updateHomeSettings(currentUser.uid, home.id, changes);
+
+      if (error) {
+        setError(error);
+        return;
+      }
+
+      setSaved(true);
+    } catch (err: any) {
+      setError('Gagal menyimpan profil rumah: ' + err.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="p-4 glassmorphism rounded-lg flex items-center space-x-4">
+        <HomeAvatar home={profile} className="w-14 h-14 text-2xl" />
+        <div className="min-w-0">
+          <p className="text-lg font-medium text-white truncate">{profile.name || 'Tanpa nama'}</p>
+          {profile.description && <p className="text-sm text-slate-400 truncate">{profile.description}</p>}
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="home-profile-name" className="block text-sm font-medium text-slate-300 mb-1">Nama Rumah</label>
+        <input
+          id="home-profile-name"
+          type="text"
+          className="input-modern"
+          maxLength={HOME_NAME_MAX_LENGTH}
+          value={profile.name}
+          onChange={(e) => update('name', e.target.value)}
+        />
+      </div>
+
+      <div>
+        <label htmlFor="home-profile-description" className="block text-sm font-medium text-slate-300 mb-1">Deskripsi</label>
+        <textarea
+          id="home-profile-description"
+          className="input-modern min-h-[5rem]"
+          maxLength={HOME_DESCRIPTION_MAX_LENGTH}
+          placeholder="Cerita singkat tentang rumah ini"
+          value={profile.description}
+          onChange={(e) => update('description', e.target.value)}
+        />
+        <p className="text-xs text-slate-500 text-right">{profile.description.length}/{HOME_DESCRIPTION_MAX_LENGTH}</p>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-slate-300 mb-2">Avatar</label>
+        <div className="flex flex-wrap gap-2 mb-2">
+          {HOME_AVATAR_EMOJIS.map(emoji => (
+            <button
+              key={emoji}
+              type="button"
+              onClick={() => update('avatar', profile.avatar === emoji ? '' : emoji)}
+              className={`w-10 h-10 rounded-lg text-xl transition-smooth ${
+                profile.avatar === emoji ? 'bg-slate-600 ring-2 ring-white/60' : 'bg-slate-800/60 hover:bg-slate-700'
+              }`}
+            >
+              {emoji}
+            </button>
+          ))}
+        </div>
+        <input
+          type="text"
+          className="input-modern"
+          placeholder="Emoji lain atau URL gambar (https://...)"
+          value={profile.avatar}
+          onChange={(e) => update('avatar', e.target.value)}
+        />
+      </div>
+
+      <div>
+        <label htmlFor="home-profile-cover" className="block text-sm font-medium text-slate-300 mb-1">Gambar Sampul</label>
+        <input
+          id="home-profile-cover"
+          type="url"
+          className="input-modern"
+          placeholder="https://..."
+          value={profile.coverUrl}
+          onChange={(e) => update('coverUrl', e.target.value)}
+        />
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-slate-300 mb-2">Warna Aksen</label>
+        <div className="flex flex-wrap items-center gap-2">
+          {HOME_ACCENT_COLORS.map(color => (
+            <button
+              key={color.value}
+              type="button"
+              title={color.label}
+              aria-label={color.label}
+              onClick={() => update('accentColor', color.value)}
+              className={`w-8 h-8 rounded-full transition-smooth ${
+                profile.accentColor === color.value ? 'ring-2 ring-offset-2 ring-offset-slate-900 ring-white' : ''
+              }`}
+              style={{ backgroundColor: color.value }}
+            />
+          ))}
+          <input
+            type="color"
+            title="Warna lain"
+            value={profile.accentColor}
+            onChange={(e) => update('accentColor', e.target.value)}
+            className="w-8 h-8 rounded-full bg-transparent border-0 cursor-pointer"
+          />
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="home-profile-timezone" className="block text-sm font-medium text-slate-300 mb-1">Zona Waktu</label>
+        <select
+          id="home-profile-timezone"
+          value={profile.timezone}
+          onChange={(e) => update('timezone', e.target.value)}
+          className="w-full bg-slate-800/60 border border-slate-600/30 rounded-lg px-3 py-2 text-sm text-slate-200 focus-ring"
+        >
+          <option value="">Ikuti perangkat masing-masing</option>
+          {timezoneOptions.map(zone => (
+            <option key={zone.value} value={zone.value}>{zone.label}</option>
+          ))}
+        </select>
+        <p className="text-xs text-slate-500 mt-1">Dipakai untuk mengelompokkan pesan chat per hari.</p>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-900/30 border border-red-500/30 rounded-lg text-red-200 text-sm" role="alert">
+          {error}
+        </div>
+      )}
+
+      <div className="flex items-center justify-end space-x-3">
+        {saved && <span className="text-sm text-green-300">Tersimpan</span>}
+        <button type="submit" disabled={saving} className="btn-primary px-6 py-2 disabled:opacity-50">
+          {saving ? 'Menyimpan...' : 'Simpan Profil'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default HomeProfileForm;
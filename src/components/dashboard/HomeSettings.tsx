@@ -1,8 +1,28 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../../contexts/AuthContext';
-import { leaveHome, deleteHome } from '../../services/firebase/home';
-import { Home } from '../../types/user';
+import { leaveHome, deleteHome, updateMemberRole, removeMemberFromHome, updateHomeSettings } from '../../services/firebase/home';
+import { getHomeMemberProfiles } from '../../services/firebase/user';
+import { subscribeToHomeMemberProfiles } from '../../services/firebase/homeMembers';
+import { Home, HomeMemberProfile, HomeRole, JoinRequest, MemberContentHandover, UserProfile } from '../../types/user';
+import { HOME_ROLE_LABELS, getMemberRole, hasHomePermission, outranks } from '../../utils/homePermissions';
+import { HOME_TRASH_RETENTION_DAYS } from '../../utils/homeTrash';
+import {
+  HOME_RELATIONSHIP_LABELS,
+  formatBirthday,
+  getMemberColor,
+  getMemberInitials,
+  getMemberName,
+  isBirthdayToday
+} from '../../utils/memberProfile';
+import HomeInvites from './HomeInvites';
+import JoinRequests from './JoinRequests';
+import HomeExport from './HomeExport';
+import HomeProfileForm from './HomeProfileForm';
+import MemberProfileForm from './MemberProfileForm';
+import MemberHandoverDialog from './MemberHandoverDialog';
+import HomeOwnership from './HomeOwnership';
+import SaveHomeTemplate from './SaveHomeTemplate';
 
 interface HomeSettingsProps {
   home: Home;
@@ -15,17 +35,121 @@ const HomeSettings: React.FC<HomeSettingsProps> = ({ home }) => {
   const [error, setError] = useState('');
   const [showLeaveConfirm, setShowLeaveConfirm] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [members, setMembers] = useState<UserProfile[]>([]);
+  const [memberProfiles, setMemberProfiles] = useState<{ [userId: string]: HomeMemberProfile }>({});
+  const [editingMemberId, setEditingMemberId] = useState<string | null>(null);
+  const [removingMember, setRemovingMember] = useState<{ uid: string; name: string } | null>(null);
+  const [memberIds, setMemberIds] = useState<string[]>(home.members);
+  const [roles, setRoles] = useState<{ [userId: string]: HomeRole }>(home.roles || {});
+  const [requireApproval, setRequireApproval] = useState(!!home.requireApproval);
 
-  const isOwner = currentUser?.uid === home.createdBy;
+  // Gunakan state lokal agar perubahan peran langsung terlihat
+  const currentHome = { ...home, members: memberIds, roles, requireApproval };
+  const myRole = currentUser ? getMemberRole(currentHome, currentUser.uid) : null;
+  const isOwner = myRole === 'owner';
+  const canManageRoles = !!currentUser && hasHomePermission(currentHome, currentUser.uid, 'manageRoles');
+  const canRemoveMembers = !!currentUser && hasHomePermission(currentHome, currentUser.uid, 'removeMembers');
+  const canManageSettings = !!currentUser && hasHomePermission(currentHome, currentUser.uid, 'manageSettings');
+  const canApproveMembers = !!currentUser && hasHomePermission(currentHome, currentUser.uid, 'approveMembers');
+  const canExport = !!currentUser && hasHomePermission(currentHome, currentUser.uid, 'exportHome');
+  const canImport = !!currentUser && hasHomePermission(currentHome, currentUser.uid, 'importHome');
 
-  const handleLeaveHome = async () => {
+  const fetchMembers = useCallback(async () => {
+    const { members } = await getHomeMemberProfiles(home.id);
+    setMembers(members);
+  }, [home.id]);
+
+  useEffect(() => {
+    fetchMembers();
+  }, [fetchMembers]);
+
+  useEffect(() => {
+    const unsubscribe = subscribeToHomeMemberProfiles(home.id, setMemberProfiles);
+    return () => unsubscribe();
+  }, [home.id]);
+
+  const handleToggleApproval = async () => {
+    if (!currentUser) return;
+
+    try {
+      setLoading(true);
+      setError('');
+
+      const { error } = await updateHomeSettings(currentUser.uid, home.id, { requireApproval: !requireApproval });
+
+      if (error) {
+        setError(error);
+        return;
+      }
+
+      setRequireApproval(!requireApproval);
+    } catch (err: any) {
+      setError('Gagal mengubah pengaturan: ' + err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRequestApproved = (request: JoinRequest) => {
+    setMemberIds(prev => prev.includes(request.userId) ? prev : [...prev, request.userId]);
+    setRoles(prev => ({ ...prev, [request.userId]: request.role }));
+    fetchMembers();
+  };
+
+  const handleRoleChange = async (memberId: string, role: HomeRole) => {
+    if (!currentUser) return;
+
+    try {
+      setLoading(true);
+      setError('');
+
+      const { error } = await updateMemberRole(currentUser.uid, memberId, home.id, role);
+
+      if (error) {
+        setError(error);
+        return;
+      }
+
+      setRoles(prev => ({ ...prev, [memberId]: role }));
+    } catch (err: any) {
+      setError('Gagal mengubah peran: ' + err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRemoveMember = async (memberId: string, handover: MemberContentHandover) => {
+    if (!currentUser) return;
+
+    try {
+      setLoading(true);
+      setError('');
+
+      const { error } = await removeMemberFromHome(currentUser.uid, memberId, home.id, handover);
+
+      if (error) {
+        setError(error);
+        return;
+      }
+
+      setMemberIds(prev => prev.filter(id => id !== memberId));
+      setMembers(prev => prev.filter(m => m.uid !== memberId));
+    } catch (err: any) {
+      setError('Gagal mengeluarkan anggota: ' + err.message);
+    } finally {
+      setLoading(false);
+      setRemovingMember(null);
+    }
+  };
+
+  const handleLeaveHome = async (handover: MemberContentHandover) => {
     if (!currentUser) return;
     
     try {
       setLoading(true);
       setError('');
       
-      const { error } = await leaveHome(currentUser.uid, home.id);
+      const { error } = await leaveHome(currentUser.uid, home.id, handover);
       
       if (error) {
         setError(error);
@@ -67,31 +191,67 @@ const HomeSettings: React.FC<HomeSettingsProps> = ({ home }) => {
   };
   return (
     <div className="space-y-6 p-6">
+      {/* Home Profile */}
+      {canManageSettings && (
+        <div className="card-modern p-8">
+          <h3 className="text-xl font-semibold text-gradient mb-6">Profil Rumah</h3>
+          <HomeProfileForm home={home} />
+        </div>
+      )}
+
       {/* Home Information */}
       <div className="card-modern p-8">
         <h3 className="text-xl font-semibold text-gradient mb-6">Informasi Rumah</h3>
         <div className="space-y-4">
-          <div className="p-4 glassmorphism rounded-lg">
-            <label className="block text-sm font-medium text-slate-300 mb-2">Nama Rumah</label>
-            <p className="text-lg font-medium text-white">{home.name}</p>
-          </div>
-          <div className="p-4 glassmorphism rounded-lg">
-            <label className="block text-sm font-medium text-slate-300 mb-2">Kode Undangan</label>
-            <div className="flex items-center space-x-3">
-              <span className="text-sm font-mono bg-slate-800/60 px-3 py-2 rounded-lg text-cyan-300 border border-slate-600/30">
-                {home.inviteCode}
-              </span>
+          {!canManageSettings && (
+            <div className="p-4 glassmorphism rounded-lg">
+              <label className="block text-sm font-medium text-slate-300 mb-2">Nama Rumah</label>
+              <p className="text-lg font-medium text-white">{home.name}</p>
+              {home.description && <p className="text-sm text-slate-400 mt-1">{home.description}</p>}
+            </div>
+          )}
+          {currentUser && hasHomePermission(currentHome, currentUser.uid, 'invite') && (
+            <div className="p-4 glassmorphism rounded-lg">
+              <label className="block text-sm font-medium text-slate-300 mb-2">Kode Undangan</label>
+              <div className="flex items-center space-x-3">
+                <span className="text-sm font-mono bg-slate-800/60 px-3 py-2 rounded-lg text-cyan-300 border border-slate-600/30">
+                  {home.inviteCode}
+                </span>
+                <button
+                  onClick={() => navigator.clipboard.writeText(home.inviteCode)}
+                  className="btn-secondary text-sm px-3 py-2 transition-smooth hover:bg-blue-600/20 hover:text-blue-300"
+                >
+                  Salin
+                </button>
+              </div>
+            </div>
+          )}
+          {canManageSettings && (
+            <div className="p-4 glassmorphism rounded-lg flex items-center justify-between gap-3">
+              <div>
+                <label className="block text-sm font-medium text-slate-300 mb-1">Persetujuan Anggota Baru</label>
+                <p className="text-xs text-slate-400">
+                  Jika aktif, orang yang memakai kode atau link undangan harus disetujui admin terlebih dahulu.
+                </p>
+              </div>
               <button
-                onClick={() => navigator.clipboard.writeText(home.inviteCode)}
-                className="btn-secondary text-sm px-3 py-2 transition-smooth hover:bg-blue-600/20 hover:text-blue-300"
+                onClick={handleToggleApproval}
+                disabled={loading}
+                role="switch"
+                aria-checked={requireApproval}
+                className={`relative inline-flex h-6 w-11 flex-shrink-0 items-center rounded-full transition-smooth disabled:opacity-50 ${
+                  requireApproval ? 'bg-green-600' : 'bg-slate-600'
+                }`}
               >
-                Salin
+                <span className={`inline-block h-4 w-4 transform rounded-full bg-white transition-smooth ${
+                  requireApproval ? 'translate-x-6' : 'translate-x-1'
+                }`} />
               </button>
             </div>
-          </div>
+          )}
           <div className="p-4 glassmorphism rounded-lg">
             <label className="block text-sm font-medium text-slate-300 mb-2">Jumlah Anggota</label>
-            <p className="text-lg font-medium text-white">{home.members.length} orang</p>
+            <p className="text-lg font-medium text-white">{memberIds.length} orang</p>
           </div>
           <div className="p-4 glassmorphism rounded-lg">
             <label className="block text-sm font-medium text-slate-300 mb-2">Status</label>
@@ -101,12 +261,124 @@ const HomeSettings: React.FC<HomeSettingsProps> = ({ home }) => {
                   ? 'bg-purple-600/20 text-purple-300 border border-purple-500/30' 
                   : 'bg-blue-600/20 text-blue-300 border border-blue-500/30'
               }`}>
-                {isOwner ? '👑 Pemilik' : '👤 Anggota'}
+                {isOwner ? '👑' : '👤'} {myRole ? HOME_ROLE_LABELS[myRole] : HOME_ROLE_LABELS.member}
               </span>
             </p>
           </div>
         </div>
-      </div>      {/* Error Message */}
+      </div>
+
+      {/* Invite Links */}
+      {currentUser && hasHomePermission(currentHome, currentUser.uid, 'invite') && (
+        <HomeInvites home={currentHome} />
+      )}
+
+      {/* Join Requests */}
+      {canApproveMembers && (
+        <JoinRequests homeId={home.id} onApproved={handleRequestApproved} />
+      )}
+
+      {/* Members & Roles */}
+      <div className="card-modern p-8">
+        <h3 className="text-xl font-semibold text-gradient mb-6">Anggota & Peran</h3>
+        <div className="space-y-3">
+          {members.map((member) => {
+            const memberRole = getMemberRole(currentHome, member.uid);
+            if (!memberRole) return null;
+
+            const isSelf = member.uid === currentUser?.uid;
+            const canEditRole = canManageRoles && !isSelf && memberRole !== 'owner';
+            const canRemove = canRemoveMembers && !isSelf && !!myRole && outranks(myRole, memberRole);
+            const canEditProfile = isSelf || canManageSettings;
+            const homeProfile = memberProfiles[member.uid] || null;
+            const name = getMemberName({ ...member, homeProfile });
+            const details = [
+              homeProfile?.nickname ? member.displayName || member.email : member.displayName && member.email,
+              homeProfile?.relationship && HOME_RELATIONSHIP_LABELS[homeProfile.relationship],
+              homeProfile?.birthday && `🎂 ${formatBirthday(homeProfile.birthday)}`,
+              homeProfile?.joinedAt && `Bergabung ${homeProfile.joinedAt.toLocaleDateString('id-ID', { day: 'numeric', month: 'short', year: 'numeric' })}`
+            ].filter(Boolean);
+
+            return (
+              <div key={member.uid} className="p-4 glassmorphism rounded-lg">
+                <div className="flex items-center justify-between gap-3">
+                  <div className="flex items-center space-x-3 min-w-0">
+                    <div
+                      className="h-10 w-10 rounded-full flex items-center justify-center text-white font-semibold flex-shrink-0"
+                      style={{ backgroundColor: getMemberColor(member.uid, homeProfile) }}
+                    >
+                      {getMemberInitials(name)}
+                    </div>
+                    <div className="min-w-0">
+                      <p className="font-medium text-white truncate">
+                        {name}
+                        {isSelf && <span className="ml-2 text-xs text-slate-400">(Anda)</span>}
+                        {isBirthdayToday(homeProfile?.birthday) && <span className="ml-2" title="Ulang tahun hari ini">🎉</span>}
+                      </p>
+                      {details.length > 0 && (
+                        <p className="text-xs text-slate-400 truncate">{details.join(' · ')}</p>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-2 flex-shrink-0">
+                    {canEditRole ? (
+                      <select
+                        value={memberRole}
+                        onChange={(e) => handleRoleChange(member.uid, e.target.value as HomeRole)}
+                        disabled={loading}
+                        className="bg-slate-800/60 border border-slate-600/30 rounded-lg px-3 py-2 text-sm text-slate-200 focus-ring"
+                      >
+                        {(['admin', 'member', 'guest'] as HomeRole[]).map(role => (
+                          <option key={role} value={role}>{HOME_ROLE_LABELS[role]}</option>
+                        ))}
+                      </select>
+                    ) : (
+                      <span className="px-3 py-1 rounded-full text-xs font-medium bg-slate-700/50 text-slate-300 border border-slate-600/30">
+                        {HOME_ROLE_LABELS[memberRole]}
+                      </span>
+                    )}
+                    {canEditProfile && (
+                      <button
+                        onClick={() => setEditingMemberId(editingMemberId === member.uid ? null : member.uid)}
+                        className="px-3 py-2 text-sm rounded-lg bg-slate-700/50 border border-slate-600/30 text-slate-200 transition-smooth hover:bg-slate-700"
+                      >
+                        Ubah profil
+                      </button>
+                    )}
+                    {canRemove && (
+                      <button
+                        onClick={() => setRemovingMember({ uid: member.uid, name })}
+                        disabled={loading}
+                        className="px-3 py-2 text-sm rounded-lg bg-red-900/30 border border-red-500/30 text-red-300 transition-smooth hover:bg-red-900/50 disabled:opacity-50"
+                      >
+                        Keluarkan
+                      </button>
+                    )}
+                  </div>
+                </div>
+                {editingMemberId === member.uid && (
+                  <MemberProfileForm
+                    home={currentHome}
+                    member={{ ...member, homeProfile }}
+                    onClose={() => setEditingMemberId(null)}
+                  />
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Ownership */}
+      <HomeOwnership home={currentHome} members={members} memberProfiles={memberProfiles} />
+
+      {/* Export */}
+      {canExport && <HomeExport home={currentHome} canImport={canImport} />}
+
+      {/* Template */}
+      {canExport && <SaveHomeTemplate home={currentHome} />}
+
+      {/* Error Message */}
       {error && (
         <div className="card-modern bg-red-900/30 border-red-500/30 p-4" role="alert">
           <div className="flex items-center space-x-3">
@@ -136,8 +408,8 @@ const HomeSettings: React.FC<HomeSettingsProps> = ({ home }) => {
             </div>
           </button>
 
-          {/* Leave Home */}
-          {!isOwner && (
+          {/* Leave Home (pemilik digantikan penerusnya) */}
+          {(!isOwner || memberIds.length > 1) && (
             <button
               onClick={() => setShowLeaveConfirm(true)}
               disabled={loading}
@@ -168,47 +440,35 @@ const HomeSettings: React.FC<HomeSettingsProps> = ({ home }) => {
             </button>
           )}
         </div>
-      </div>      {/* Leave Confirmation Modal */}
-      {showLeaveConfirm && (
-        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4">
-          <div className="card-modern p-8 max-w-md w-full animate-scale-in">
-            <div className="text-center mb-6">
-              <div className="mx-auto w-16 h-16 bg-red-600/20 rounded-full flex items-center justify-center mb-4">
-                <svg className="w-8 h-8 text-red-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-2.5L13.732 4c-.77-.833-1.964-.833-2.732 0L4.08 16.5c-.77.833.192 2.5 1.732 2.5z" />
-                </svg>
-              </div>
-              <h3 className="text-xl font-semibold text-white mb-2">Konfirmasi Keluar</h3>
-            </div>
-            <p className="text-slate-300 mb-8 text-center leading-relaxed">
-              Apakah Anda yakin ingin keluar dari rumah <span className="font-semibold text-white">"{home.name}"</span>? 
-              Anda tidak akan dapat mengakses data di rumah ini lagi.
-            </p>
-            <div className="flex justify-end space-x-4">
-              <button
-                onClick={() => setShowLeaveConfirm(false)}
-                className="btn-secondary px-6 py-3 transition-smooth hover:scale-105 focus-ring"
-              >
-                Batal
-              </button>
-              <button
-                onClick={handleLeaveHome}
-                disabled={loading}
-                className="px-6 py-3 bg-red-600 text-white rounded-lg font-medium transition-smooth hover:bg-red-700 hover:scale-105 focus-ring disabled:opacity-50 disabled:cursor-not-allowed"
-              >
-                {loading ? (
-                  <div className="flex items-center space-x-2">
-                    <div className="loading-spinner"></div>
-                    <span>Memproses...</span>
-                  </div>
-                ) : (
-                  'Ya, Keluar'
-                )}
-              </button>
-            </div>
-          </div>
-        </div>
-      )}      {/* Delete Confirmation Modal */}
+      </div>
+
+      {/* Leave Confirmation Modal */}
+      {showLeaveConfirm && currentUser && (
+        <MemberHandoverDialog
+          home={currentHome}
+          memberId={currentUser.uid}
+          memberName="Anda"
+          isSelf
+          busy={loading}
+          onConfirm={handleLeaveHome}
+          onCancel={() => setShowLeaveConfirm(false)}
+        />
+      )}
+
+      {/* Remove Member Modal */}
+      {removingMember && (
+        <MemberHandoverDialog
+          home={currentHome}
+          memberId={removingMember.uid}
+          memberName={removingMember.name}
+          isSelf={false}
+          busy={loading}
+          onConfirm={(handover) => handleRemoveMember(removingMember.uid, handover)}
+          onCancel={() => setRemovingMember(null)}
+        />
+      )}
+
+      {/* Delete Confirmation Modal */}
       {showDeleteConfirm && (
         <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4">
           <div className="card-modern p-8 max-w-md w-full animate-scale-in">
@@ -226,13 +486,14 @@ const HomeSettings: React.FC<HomeSettingsProps> = ({ home }) => {
               </p>
               <div className="card-modern bg-red-900/30 border-red-500/30 p-4">
                 <p className="text-red-200 font-medium text-sm">
-                  ⚠️ Semua data (notes, wishlist, chat) akan terhapus permanen dan tidak dapat dikembalikan.
+                  ⚠️ Rumah akan dipindahkan ke "Baru Dihapus". Pemilik bisa memulihkannya selama {HOME_TRASH_RETENTION_DAYS} hari, setelah itu semua data (notes, wishlist, chat, peliharaan) dihapus permanen.
                 </p>
               </div>
             </div>
             <div className="flex justify-end space-x-4">
               <button
                 onClick={() => setShowDeleteConfirm(false)}
+                disabled={loading}
                 className="btn-secondary px-6 py-3 transition-smooth hover:scale-105 focus-ring"
               >
                 Batal
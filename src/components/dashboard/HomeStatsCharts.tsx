@@ -0,0 +1,186 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { getHomeStatistics } from '../../services/firebase/home';
+import { getHomeWeeklyStats } from '../../services/firebase/homeStats';
+import { getUserDisplayName } from '../../services/firebase/user';
+import { getHomeMembers } from '../../services/firebase/homeMembers';
+import { Home, HomeStatistics, HomeStatMetric, HomeWeeklyStats } from '../../types';
+import {
+  HOME_STAT_METRICS,
+  HOME_STAT_METRIC_LABELS,
+  getRecentWeekStarts,
+  getWeeklySeries,
+  sumStatsByMember
+} from '../../utils/homeStats';
+import { getMemberName } from '../../utils/memberProfile';
+
+interface HomeStatsChartsProps {
+  home: Home;
+}
+
+const WEEKS_SHOWN = 8;
+
+const MEMBER_COLORS = [
+  'bg-purple-500',
+  'bg-blue-500',
+  'bg-green-500',
+  'bg-yellow-500',
+  'bg-pink-500',
+  'bg-cyan-500',
+  'bg-orange-500',
+  'bg-red-500',
+];
+
+const HomeStatsCharts: React.FC<HomeStatsChartsProps> = ({ home }) => {
+  const { currentUser } = useAuth();
+  const [totals, setTotals] = useState<HomeStatistics | null>(null);
+  const [weeks, setWeeks] = useState<HomeWeeklyStats[]>([]);
+  const [names, setNames] = useState<{ [userId: string]: string }>({});
+  const [metric, setMetric] = useState<HomeStatMetric>('messages');
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!currentUser) return;
+
+    const fetchStats = async () => {
+      setLoading(true);
+      const [{ statistics }, { stats }, { members }] = await Promise.all([
+        getHomeStatistics(home.id, currentUser.uid),
+        getHomeWeeklyStats(home.id, WEEKS_SHOWN),
+        getHomeMembers(home.id)
+      ]);
+
+      const memberNames: { [userId: string]: string } = {};
+      members.forEach(member => {
+        memberNames[member.uid] = getMemberName(member);
+      });
+
+      // Mantan anggota tetap punya data statistik
+      const formerIds = Array.from(new Set(stats.flatMap(week => Object.keys(week.members))))
+        .filter(userId => !(userId in memberNames));
+      for (const userId of formerIds) {
+        memberNames[userId] = (await getUserDisplayName(userId)) || 'Mantan anggota';
+      }
+
+      setTotals(statistics);
+      setWeeks(stats);
+      setNames(memberNames);
+      setLoading(false);
+    };
+
+    fetchStats();
+  }, [home.id, currentUser]);
+
+  const memberTotals = useMemo(() => sumStatsByMember(weeks), [weeks]);
+  const memberIds = useMemo(() => Object.keys(memberTotals).sort(), [memberTotals]);
+  const colorOf = (userId: string) => MEMBER_COLORS[memberIds.indexOf(userId) % MEMBER_COLORS.length];
+
+  const series = useMemo(() => getWeeklySeries(weeks, getRecentWeekStarts(WEEKS_SHOWN), metric), [weeks, metric]);
+  const maxWeekly = Math.max(1, ...series.map(week => week.total));
+
+  const ranking = memberIds
+    .map(userId => ({ userId, value: memberTotals[userId][metric] }))
+    .filter(item => item.value > 0)
+    .sort((a, b) => b.value - a.value);
+  const maxMember = Math.max(1, ...ranking.map(item => item.value));
+
+  return (
+    <div className="card-modern p-8">
+      <h3 className="text-xl font-semibold text-gradient mb-6">Statistik Rumah</h3>
+
+      {loading ? (
+        <div className="flex justify-center py-6">
+          <div className="loading-spinner"></div>
+        </div>
+      ) : (
+        <div className="space-y-8">
+          {totals && (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              {[
+                { label: 'Catatan', value: totals.notesCount },
+                { label: 'Wishlist', value: totals.wishlistCount },
+                { label: 'Wishlist selesai', value: totals.completedWishlistCount },
+                { label: 'Pesan', value: totals.messagesCount },
+              ].map(item => (
+                <div key={item.label} className="p-4 glassmorphism rounded-lg">
+                  <p className="text-xs text-slate-400">{item.label}</p>
+                  <p className="text-2xl font-bold text-white">{item.value}</p>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="flex flex-wrap gap-2">
+            {HOME_STAT_METRICS.map(key => (
+              <button
+                key={key}
+                onClick={() => setMetric(key)}
+                className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-smooth ${
+                  metric === key ? 'bg-purple-600 text-white' : 'bg-slate-700/50 text-slate-300 hover:bg-slate-700'
+                }`}
+              >
+                {HOME_STAT_METRIC_LABELS[key]}
+              </button>
+            ))}
+          </div>
+
+          {/* Per minggu, ditumpuk per anggota */}
+          <div>
+            <h4 className="text-sm font-semibold text-slate-300 mb-3">{WEEKS_SHOWN} minggu terakhir</h4>
+            <div className="flex items-end gap-2 h-40">
+              {series.map(week => (
+                <div key={week.weekStart.toISOString()} className="flex-1 flex flex-col items-center h-full">
+                  <div className="flex-1 w-full flex flex-col justify-end">
+                    <div
+                      className="w-full flex flex-col-reverse rounded-t-md overflow-hidden"
+                      style={{ height: `${(week.total / maxWeekly) * 100}%` }}
+                      title={`${week.total}`}
+                    >
+                      {Object.entries(week.byMember).map(([userId, value]) => (
+                        <div
+                          key={userId}
+                          className={colorOf(userId)}
+                          style={{ height: `${(value / week.total) * 100}%` }}
+                          title={`${names[userId] || 'Anggota'}: ${value}`}
+                        />
+                      ))}
+                    </div>
+                  </div>
+                  <span className="text-xs text-slate-400 mt-1">{week.total || ''}</span>
+                  <span className="text-[10px] text-slate-500">
+                    {week.weekStart.toLocaleDateString('id-ID', { day: 'numeric', month: 'short', timeZone: 'UTC' })}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Per anggota */}
+          <div>
+            <h4 className="text-sm font-semibold text-slate-300 mb-3">Per anggota</h4>
+            {ranking.length === 0 ? (
+              <p className="text-sm text-slate-400">Belum ada data untuk periode ini.</p>
+            ) : (
+              <div className="space-y-2">
+                {ranking.map(item => (
+                  <div key={item.userId} className="flex items-center gap-3">
+                    <span className="w-32 text-sm text-slate-300 truncate">{names[item.userId] || 'Anggota'}</span>
+                    <div className="flex-1 h-3 bg-slate-700/50 rounded-full overflow-hidden">
+                      <div
+                        className={`h-full rounded-full ${colorOf(item.userId)}`}
+                        style={{ width: `${(item.value / maxMember) * 100}%` }}
+                      />
+                    </div>
+                    <span className="w-10 text-right text-sm font-medium text-white">{item.value}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HomeStatsCharts;
@@ -0,0 +1,121 @@
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import {
+  subscribeToHomeJoinRequests,
+  approveJoinRequest,
+  declineJoinRequest
+} from '../../services/firebase/joinRequests';
+import { JoinRequest } from '../../types/user';
+import { HOME_ROLE_LABELS } from '../../utils/homePermissions';
+
+interface JoinRequestsProps {
+  homeId: string;
+  onApproved?: (request: JoinRequest) => void;
+}
+
+const JoinRequests: React.FC<JoinRequestsProps> = ({ homeId, onApproved }) => {
+  const { currentUser } = useAuth();
+  const [requests, setRequests] = useState<JoinRequest[]>([]);
+  const [processingId, setProcessingId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const unsubscribe = subscribeToHomeJoinRequests(homeId, setRequests);
+    return () => unsubscribe();
+  }, [homeId]);
+
+  const handleDecision = async (request: JoinRequest, approve: boolean) => {
+    if (!currentUser) return;
+
+    try {
+      setProcessingId(request.id);
+      setError('');
+
+      const { error } = approve
+        ? await approveJoinRequest(currentUser.uid, request.id)
+        : await declineJoinRequest(currentUser.uid, request.id);
+
+      if (error) {
+        setError(error);
+        return;
+      }
+
+      if (approve && onApproved) {
+        onApproved(request);
+      }
+    } catch (err: any) {
+      setError('Gagal memproses permintaan: ' + err.message);
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  return (
+    <div className="card-modern p-8">
+      <h3 className="text-xl font-semibold text-gradient mb-6">
+        Permintaan Bergabung
+        {requests.length > 0 && (
+          <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-yellow-900/50 text-yellow-300 border border-yellow-500/30 align-middle">
+            {requests.length}
+          </span>
+        )}
+      </h3>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-900/30 border border-red-500/30 rounded-lg text-red-200 text-sm" role="alert">
+          {error}
+        </div>
+      )}
+
+      {requests.length === 0 ? (
+        <p className="text-sm text-slate-400">Tidak ada permintaan yang menunggu persetujuan.</p>
+      ) : (
+        <div className="space-y-3">
+          {requests.map((request) => (
+            <div key={request.id} className="p-4 glassmorphism rounded-lg flex items-center justify-between gap-3">
+              <div className="flex items-center space-x-3 min-w-0">
+                {request.photoURL ? (
+                  <img src={request.photoURL} alt="" className="h-10 w-10 rounded-full object-cover flex-shrink-0" />
+                ) : (
+                  <div className="h-10 w-10 rounded-full bg-gradient-to-r from-blue-500 to-purple-600 flex items-center justify-center text-white font-semibold flex-shrink-0">
+                    {(request.displayName || request.email || '?').charAt(0).toUpperCase()}
+                  </div>
+                )}
+                <div className="min-w-0">
+                  <p className="font-medium text-white truncate">{request.displayName || request.email || 'Pengguna'}</p>
+                  <p className="text-xs text-slate-400 truncate">
+                    {request.displayName && request.email ? `${request.email} · ` : ''}
+                    {HOME_ROLE_LABELS[request.role]} · {request.createdAt.toLocaleString('id-ID', {
+                      day: 'numeric',
+                      month: 'short',
+                      hour: '2-digit',
+                      minute: '2-digit'
+                    })}
+                  </p>
+                </div>
+              </div>
+              <div className="flex items-center space-x-2 flex-shrink-0">
+                <button
+                  onClick={() => handleDecision(request, true)}
+                  disabled={processingId === request.id}
+                  className="px-3 py-2 text-sm rounded-lg bg-green-900/30 border border-green-500/30 text-green-300 transition-smooth hover:bg-green-900/50 disabled:opacity-50"
+                >
+                  Setujui
+                </button>
+                <button
+                  onClick={() => handleDecision(request, false)}
+                  disabled={processingId === request.id}
+                  className="px-3 py-2 text-sm rounded-lg bg-red-900/30 border border-red-500/30 text-red-300 transition-smooth hover:bg-red-900/50 disabled:opacity-50"
+                >
+                  Tolak
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default JoinRequests;
@@ -0,0 +1,187 @@
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { getMemberContentCounts } from '../../services/firebase/memberHandover';
+import { getHomeMembers } from '../../services/firebase/homeMembers';
+import { Home, HomeMember, HomeMemberProfile, MemberContentCounts, MemberContentHandover, MemberHandoverMode } from '../../types/user';
+import { MEMBER_HANDOVER_LABELS, getMemberName } from '../../utils/memberProfile';
+import { pickSuccessor } from '../../utils/ownership';
+
+interface MemberHandoverDialogProps {
+  home: Home;
+  memberId: string;
+  memberName: string;
+  isSelf: boolean; // Keluar sendiri atau dikeluarkan oleh admin
+  busy: boolean;
+  onConfirm: (handover: MemberContentHandover) => void;
+  onCancel: () => void;
+}
+
+const MemberHandoverDialog: React.FC<MemberHandoverDialogProps> = ({
+  home,
+  memberId,
+  memberName,
+  isSelf,
+  busy,
+  onConfirm,
+  onCancel
+}) => {
+  const [counts, setCounts] = useState<MemberContentCounts | null>(null);
+  const [recipients, setRecipients] = useState<HomeMember[]>([]);
+  const [mode, setMode] = useState<MemberHandoverMode>('reassign');
+  const [toUserId, setToUserId] = useState('');
+  const [profiles, setProfiles] = useState<{ [userId: string]: HomeMemberProfile }>({});
+  const [error, setError] = useState('');
+  const { currentUser } = useAuth();
+
+  useEffect(() => {
+    if (!currentUser) return;
+
+    const fetchData = async () => {
+      const [{ counts, error }, { members, profiles }] = await Promise.all([
+        getMemberContentCounts(home.id, memberId, currentUser.uid),
+        getHomeMembers(home.id)
+      ]);
+
+      if (error) setError(error);
+      setCounts(counts);
+
+      const others = members.filter(member => member.uid !== memberId);
+      setRecipients(others);
+      // Bawaan: serahkan ke pemilik rumah, atau anggota pertama jika pemilik yang keluar
+      const owner = others.find(member => member.uid === home.createdBy);
+      setToUserId((owner || others[0])?.uid || '');
+      if (others.length === 0) setMode('anonymize');
+      setProfiles(profiles);
+    };
+
+    fetchData();
+  }, [home.id, home.createdBy, memberId, currentUser]);
+
+  // Pemilik yang keluar digantikan oleh penerusnya
+  const successor = isSelf && memberId === home.createdBy
+    ? recipients.find(member => member.uid === pickSuccessor(home, profiles))
+    : undefined;
+
+  const ownedCount = counts ? counts.notes + counts.wishlist + counts.pets : 0;
+
+  const handleConfirm = () => {
+    if (mode === 'reassign') {
+      if (!toUserId) {
+        setError('Pilih anggota penerima konten');
+        return;
+      }
+      onConfirm({ mode, toUserId });
+      return;
+    }
+    onConfirm({ mode });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="card-modern p-8 max-w-md w-full animate-scale-in">
+        <h3 className="text-xl font-semibold text-white mb-2">
+          {isSelf ? 'Keluar dari Rumah' : `Keluarkan ${memberName}`}
+        </h3>
+        <p className="text-slate-300 text-sm mb-6 leading-relaxed">
+          {isSelf
+            ? <>Anda akan keluar dari rumah <span className="font-semibold text-white">"{home.name}"</span> dan tidak bisa mengakses datanya lagi.</>
+            : <>{memberName} tidak akan bisa mengakses rumah <span className="font-semibold text-white">"{home.name}"</span> lagi.</>}
+        </p>
+
+        {successor && (
+          <div className="mb-4 p-3 bg-yellow-900/30 border border-yellow-500/30 rounded-lg text-yellow-200 text-sm">
+            Kepemilikan rumah akan berpindah ke <span className="font-semibold">{getMemberName(successor)}</span>, dan Anda tidak lagi menjadi pemilik.
+          </div>
+        )}
+
+        {!counts && !error ? (
+          <div className="flex justify-center py-4">
+            <div className="loading-spinner"></div>
+          </div>
+        ) : counts && (
+          <div className="space-y-4 mb-6">
+            <div className="p-3 glassmorphism rounded-lg text-sm text-slate-300">
+              {ownedCount === 0 ? (
+                <p>{isSelf ? 'Anda' : memberName} tidak memiliki catatan, wishlist atau peliharaan di rumah ini.</p>
+              ) : (
+                <p>
+                  {isSelf ? 'Milik Anda' : `Milik ${memberName}`}: {counts.notes} catatan, {counts.wishlist} wishlist, {counts.pets} peliharaan.
+                </p>
+              )}
+              {counts.messages > 0 && (
+                <p className="text-xs text-slate-400 mt-1">
+                  {counts.messages} pesan chat tetap tersimpan dengan nama pengirimnya.
+                </p>
+              )}
+            </div>
+
+            {ownedCount > 0 && (
+              <div className="space-y-2">
+                {(Object.keys(MEMBER_HANDOVER_LABELS) as MemberHandoverMode[]).map(option => (
+                  <label
+                    key={option}
+                    className={`flex items-center space-x-3 p-3 rounded-lg cursor-pointer transition-smooth ${
+                      mode === option ? 'bg-slate-700/60 border border-slate-500/40' : 'bg-slate-800/40 border border-transparent'
+                    } ${option === 'reassign' && recipients.length === 0 ? 'opacity-50 pointer-events-none' : ''}`}
+                  >
+                    <input
+                      type="radio"
+                      name="member-handover"
+                      value={option}
+                      checked={mode === option}
+                      onChange={() => setMode(option)}
+                      className="accent-purple-500"
+                    />
+                    <span className="text-sm text-slate-200">{MEMBER_HANDOVER_LABELS[option]}</span>
+                  </label>
+                ))}
+
+                {mode === 'reassign' && recipients.length > 0 && (
+                  <select
+                    value={toUserId}
+                    onChange={(e) => setToUserId(e.target.value)}
+                    className="w-full bg-slate-800/60 border border-slate-600/30 rounded-lg px-3 py-2 text-sm text-slate-200 focus-ring"
+                  >
+                    {recipients.map(member => (
+                      <option key={member.uid} value={member.uid}>{getMemberName(member)}</option>
+                    ))}
+                  </select>
+                )}
+
+                {mode === 'delete' && (
+                  <p className="text-xs text-red-300">Konten yang dihapus tidak dapat dipulihkan.</p>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-900/30 border border-red-500/30 rounded-lg text-red-200 text-sm" role="alert">
+            {error}
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-4">
+          <button onClick={onCancel} className="btn-secondary px-6 py-3 transition-smooth focus-ring">
+            Batal
+          </button>
+          <button
+            onClick={handleConfirm}
+            disabled={busy || !counts}
+            className="px-6 py-3 bg-red-600 text-white rounded-lg font-medium transition-smooth hover:bg-red-700 focus-ring disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {busy ? (
+              <div className="flex items-center space-x-2">
+                <div className="loading-spinner"></div>
+                <span>Memproses...</span>
+              </div>
+            ) : isSelf ? 'Ya, Keluar' : 'Keluarkan'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MemberHandoverDialog;
@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { updateHomeMemberProfile } from '../../services/firebase/homeMembers';
+import { Home, HomeMember, HomeMemberProfileUpdate, HomeRelationship } from '../../types/user';
+import {
+  HOME_RELATIONSHIP_LABELS,
+  MEMBER_COLORS,
+  MEMBER_NICKNAME_MAX_LENGTH,
+  getMemberColor,
+  validateMemberProfile
+} from '../../utils/memberProfile';
+
+interface MemberProfileFormProps {
+  home: Home;
+  member: HomeMember;
+  onClose: () => void;
+}
+
+const MemberProfileForm: React.FC<MemberProfileFormProps> = ({ home, member, onClose }) => {
+  const { currentUser } = useAuth();
+  const [nickname, setNickname] = useState(member.homeProfile?.nickname || '');
+  const [relationship, setRelationship] = useState<HomeRelationship | ''>(member.homeProfile?.relationship || '');
+  const [birthday, setBirthday] = useState(member.homeProfile?.birthday || '');
+  const [color, setColor] = useState(getMemberColor(member.uid, member.homeProfile));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!currentUser) return;
+
+    const changes: HomeMemberProfileUpdate = {
+      nickname,
+      relationship: relationship || undefined,
+      birthday,
+      color
+    };
+
+    const validationError = validateMemberProfile(changes);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError('');
+
+      const { error } = await updateHomeMemberProfile(currentUser.uid, home, member.uid, changes);
+
+      if (error) {
+        setError(error);
+        return;
+      }
+
+      onClose();
+    } catch (err: any) {
+      setError('Gagal menyimpan profil anggota: ' + err.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-3 p-4 bg-slate-900/40 rounded-lg space-y-3">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div>
+          <label htmlFor={`nickname-${member.uid}`} className="block text-xs font-medium text-slate-400 mb-1">Nama panggilan</label>
+          <input
+            id={`nickname-${member.uid}`}
+            type="text"
+            className="input-modern"
+            maxLength={MEMBER_NICKNAME_MAX_LENGTH}
+            placeholder={member.displayName || 'Contoh: Ayah'}
+            value={nickname}
+            onChange={(e) => setNickname(e.target.value)}
+          />
+        </div>
+        <div>
+          <label htmlFor={`relationship-${member.uid}`} className="block text-xs font-medium text-slate-400 mb-1">Hubungan</label>
+          <select
+            id={`relationship-${member.uid}`}
+            value={relationship}
+            onChange={(e) => setRelationship(e.target.value as HomeRelationship | '')}
+            className="w-full bg-slate-800/60 border border-slate-600/30 rounded-lg px-3 py-2 text-sm text-slate-200 focus-ring"
+          >
+            <option value="">Tidak ditampilkan</option>
+            {(Object.keys(HOME_RELATIONSHIP_LABELS) as HomeRelationship[]).map(key => (
+              <option key={key} value={key}>{HOME_RELATIONSHIP_LABELS[key]}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor={`birthday-${member.uid}`} className="block text-xs font-medium text-slate-400 mb-1">Ulang tahun</label>
+          <input
+            id={`birthday-${member.uid}`}
+            type="date"
+            className="input-modern"
+            value={birthday}
+            onChange={(e) => setBirthday(e.target.value)}
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-400 mb-1">Warna</label>
+          <div className="flex flex-wrap items-center gap-2 py-1">
+            {MEMBER_COLORS.map(option => (
+              <button
+                key={option.value}
+                type="button"
+                title={option.label}
+                aria-label={option.label}
+                onClick={() => setColor(option.value)}
+                className={`w-6 h-6 rounded-full transition-smooth ${
+                  color === option.value ? 'ring-2 ring-offset-2 ring-offset-slate-900 ring-white' : ''
+                }`}
+                style={{ backgroundColor: option.value }}
+              />
+            ))}
+            <input
+              type="color"
+              title="Warna lain"
+              value={color}
+              onChange={(e) => setColor(e.target.value)}
+              className="w-6 h-6 rounded-full bg-transparent border-0 cursor-pointer"
+            />
+          </div>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-2 bg-red-900/30 border border-red-500/30 rounded-lg text-red-200 text-sm" role="alert">
+          {error}
+        </div>
+      )}
+
+      <div className="flex justify-end space-x-2">
+        <button type="button" onClick={onClose} className="btn-secondary px-4 py-2 text-sm">
+          Batal
+        </button>
+        <button type="submit" disabled={saving} className="btn-primary px-4 py-2 text-sm disabled:opacity-50">
+          {saving ? 'Menyimpan...' : 'Simpan'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default MemberProfileForm;
@@ -0,0 +1,56 @@
+import React from 'react';
+import { Note } from '../../types/user';
+import { NOTE_REMINDER_SNOOZE_OPTIONS } from '../../utils/noteReminders';
+
+interface ReminderNotificationsProps {
+  alerts: Note[];
+  onSnooze: (note: Note, minutes: number) => void;
+  onComplete: (note: Note) => void;
+  onDismiss: (note: Note) => void;
+  onOpen: (note: Note) => void;
+}
+
+// Notifikasi dalam aplikasi untuk pengingat yang sedang berbunyi
+const ReminderNotifications: React.FC<ReminderNotificationsProps> = ({ alerts, onSnooze, onComplete, onDismiss, onOpen }) => {
+  if (alerts.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-40 w-80 max-w-[calc(100vw-2rem)] space-y-2" role="status" aria-live="polite">
+      {alerts.map(note => (
+        <div key={note.id} className="card-modern p-4 shadow-hard border border-amber-500/30 animate-scale-in">
+          <div className="flex items-start justify-between gap-2">
+            <button onClick={() => onOpen(note)} className="min-w-0 text-left">
+              <p className="text-xs text-amber-300">⏰ Pengingat</p>
+              <p className="text-sm font-medium text-slate-100 truncate">{note.title || 'Tanpa judul'}</p>
+            </button>
+            <button onClick={() => onDismiss(note)} className="text-slate-400 hover:text-white transition-smooth" aria-label="Tutup">
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+          <div className="flex flex-wrap items-center gap-1.5 mt-3">
+            <span className="text-xs text-slate-500">Tunda</span>
+            {NOTE_REMINDER_SNOOZE_OPTIONS.map(option => (
+              <button
+                key={option.minutes}
+                onClick={() => onSnooze(note, option.minutes)}
+                className="px-2 py-1 text-xs rounded-lg bg-slate-700/50 text-slate-300 hover:bg-slate-700"
+              >
+                {option.label}
+              </button>
+            ))}
+            <button
+              onClick={() => onComplete(note)}
+              className="ml-auto px-2 py-1 text-xs rounded-lg bg-green-900/30 border border-green-500/30 text-green-300 hover:bg-green-900/50"
+            >
+              Selesai
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ReminderNotifications;
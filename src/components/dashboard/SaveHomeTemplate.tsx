@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { saveHomeAsTemplate } from '../../services/firebase/homeTemplates';
+import { Home } from '../../types';
+import { HOME_TEMPLATE_DESCRIPTION_MAX_LENGTH, HOME_TEMPLATE_NAME_MAX_LENGTH } from '../../utils/homeTemplates';
+
+interface SaveHomeTemplateProps {
+  home: Home;
+}
+
+const SaveHomeTemplate: React.FC<SaveHomeTemplateProps> = ({ home }) => {
+  const { currentUser } = useAuth();
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!currentUser) return;
+
+    try {
+      setSaving(true);
+      setError('');
+      setSuccess('');
+
+      const { template, error } = await saveHomeAsTemplate(currentUser.uid, home.id, name || home.name, description);
+      if (error || !template) {
+        setError(error || 'Gagal menyimpan template');
+        return;
+      }
+
+      setSuccess(`Template "${template.name}" tersimpan dan bisa dipilih saat membuat rumah baru.`);
+      setName('');
+      setDescription('');
+    } catch (err: any) {
+      setError('Gagal menyimpan template: ' + err.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="card-modern p-8">
+      <h3 className="text-xl font-semibold text-gradient mb-2">Simpan sebagai Template</h3>
+      <p className="text-sm text-slate-400 mb-6">
+        Simpan catatan, wishlist yang belum tercapai, kategori wishlist, peliharaan pertama dan tampilan rumah ini
+        sebagai template untuk rumah berikutnya. Chat dan riwayat tidak ikut disimpan.
+      </p>
+
+      {success && (
+        <div className="mb-4 p-3 bg-green-900/30 border border-green-500/30 rounded-lg text-green-200 text-sm">
+          {success}
+        </div>
+      )}
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-900/30 border border-red-500/30 rounded-lg text-red-200 text-sm" role="alert">
+          {error}
+        </div>
+      )}
+
+      <form className="space-y-4" onSubmit={handleSave}>
+        <div>
+          <label htmlFor="template-name" className="block text-sm font-medium text-slate-300 mb-1">Nama template</label>
+          <input
+            id="template-name"
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder={home.name}
+            maxLength={HOME_TEMPLATE_NAME_MAX_LENGTH}
+            className="input-modern"
+          />
+        </div>
+        <div>
+          <label htmlFor="template-description" className="block text-sm font-medium text-slate-300 mb-1">Deskripsi (opsional)</label>
+          <input
+            id="template-description"
+            type="text"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            maxLength={HOME_TEMPLATE_DESCRIPTION_MAX_LENGTH}
+            className="input-modern"
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={saving}
+          className="w-full btn-secondary p-4 text-center font-medium transition-smooth hover:scale-[1.02] focus-ring disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {saving ? 'Menyimpan...' : 'Simpan Template'}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default SaveHomeTemplate;
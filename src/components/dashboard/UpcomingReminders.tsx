@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { Note } from '../../types/user';
+import {
+  NOTE_REMINDER_RECURRENCE_LABELS,
+  NOTE_REMINDER_SNOOZE_OPTIONS,
+  formatReminderTime,
+  getReminderFireTime
+} from '../../utils/noteReminders';
+
+interface UpcomingRemindersProps {
+  reminders: Note[];
+  permission: NotificationPermission | 'unsupported';
+  onRequestPermission: () => void;
+  onSnooze: (note: Note, minutes: number) => Promise<{ error: string | null }>;
+  onComplete: (note: Note) => Promise<{ error: string | null }>;
+  onOpen: (note: Note) => void;
+}
+
+const UpcomingReminders: React.FC<UpcomingRemindersProps> = ({
+  reminders,
+  permission,
+  onRequestPermission,
+  onSnooze,
+  onComplete,
+  onOpen
+}) => {
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const now = new Date();
+
+  const run = async (note: Note, action: () => Promise<{ error: string | null }>) => {
+    setBusy(note.id);
+    setError('');
+    const { error } = await action();
+    setBusy(null);
+    if (error) setError(error);
+  };
+
+  return (
+    <div className="card-modern p-8">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
+        <h3 className="text-xl font-semibold text-gradient">Pengingat Mendatang</h3>
+        {permission === 'default' && (
+          <button onClick={onRequestPermission} className="btn-secondary px-3 py-2 text-sm">
+            Aktifkan notifikasi browser
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-900/30 border border-red-500/30 rounded-lg text-red-200 text-sm" role="alert">
+          {error}
+        </div>
+      )}
+
+      {reminders.length === 0 ? (
+        <p className="text-sm text-slate-400 text-center py-6">
+          Belum ada pengingat. Pasang pengingat dari tombol ⏰ di note.
+        </p>
+      ) : (
+        <ul className="space-y-2 max-h-[24rem] overflow-y-auto pr-1">
+          {reminders.map(note => {
+            const fireTime = getReminderFireTime(note.reminder)!;
+            const overdue = fireTime <= now;
+            return (
+              <li
+                key={note.id}
+                className={`p-3 rounded-lg border flex flex-col sm:flex-row sm:items-center gap-3 ${
+                  overdue ? 'bg-amber-900/20 border-amber-500/30' : 'bg-slate-800/40 border-slate-700/30'
+                }`}
+              >
+                <button onClick={() => onOpen(note)} className="flex-1 min-w-0 text-left">
+                  <p className="text-sm font-medium text-slate-200 truncate">{note.title || 'Tanpa judul'}</p>
+                  <p className={`text-xs ${overdue ? 'text-amber-300' : 'text-slate-400'}`}>
+                    ⏰ {formatReminderTime(fireTime, now)}
+                    {note.reminder!.recurrence !== 'none' && ` · ${NOTE_REMINDER_RECURRENCE_LABELS[note.reminder!.recurrence]}`}
+                  </p>
+                </button>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  <select
+                    value=""
+                    onChange={(e) => {
+                      const minutes = Number(e.target.value);
+                      if (minutes) run(note, () => onSnooze(note, minutes));
+                    }}
+                    disabled={busy === note.id}
+                    className="bg-slate-800/60 border border-slate-600/30 rounded-lg px-2 py-1 text-xs text-slate-200"
+                    aria-label="Tunda pengingat"
+                  >
+                    <option value="">Tunda</option>
+                    {NOTE_REMINDER_SNOOZE_OPTIONS.map(option => (
+                      <option key={option.minutes} value={option.minutes}>{option.label}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => run(note, () => onComplete(note))}
+                    disabled={busy === note.id}
+                    className="px-2 py-1 text-xs rounded-lg bg-green-900/30 border border-green-500/30 text-green-300 hover:bg-green-900/50 disabled:opacity-50"
+                  >
+                    Selesai
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default UpcomingReminders;
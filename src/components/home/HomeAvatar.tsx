@@ -0,0 +1,28 @@
+import React from 'react';
+import { Home } from '../../types/user';
+import { getHomeAccentColor, isImageAvatar, withAlpha } from '../../utils/homeProfile';
+
+interface HomeAvatarProps {
+  home: Pick<Home, 'name' | 'avatar' | 'accentColor'>;
+  className?: string; // Ukuran, contoh "w-10 h-10 text-xl"
+}
+
+// Avatar rumah: gambar, emoji, atau huruf pertama nama rumah dengan warna aksen
+const HomeAvatar: React.FC<HomeAvatarProps> = ({ home, className = 'w-10 h-10 text-xl' }) => {
+  const accentColor = getHomeAccentColor(home);
+
+  if (isImageAvatar(home.avatar)) {
+    return <img src={home.avatar} alt="" className={`${className} rounded-full object-cover flex-shrink-0`} />;
+  }
+
+  return (
+    <div
+      className={`${className} rounded-full flex items-center justify-center flex-shrink-0 font-semibold text-white`}
+      style={{ background: `linear-gradient(135deg, ${accentColor}, ${withAlpha(accentColor, 0.6)})` }}
+    >
+      {home.avatar || (home.name || '?').charAt(0).toUpperCase()}
+    </div>
+  );
+};
+
+export default HomeAvatar;
@@ -0,0 +1,250 @@
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { getHomeMergePreview, mergeHomes } from '../../services/firebase/homeMerge';
+import { getHomeMembers } from '../../services/firebase/homeMembers';
+import {
+  Home,
+  HomeMergeCollection,
+  HomeMergeConflictStrategy,
+  HomeMergePreview,
+  HomeMergeProgress
+} from '../../types/user';
+import { HOME_MERGE_COLLECTION_LABELS, HOME_MERGE_CONFLICT_LABELS } from '../../utils/homeMerge';
+import { getMemberName } from '../../utils/memberProfile';
+
+interface HomeMergeProps {
+  homes: Home[]; // Rumah yang dimiliki user
+  onClose: () => void;
+  onMerged: (home: Home, sourceName: string) => void;
+}
+
+const CONFLICT_COLLECTION_LABELS = {
+  notes: 'Catatan',
+  wishlist: 'Wishlist',
+  pets: 'Peliharaan',
+};
+
+const HomeMerge: React.FC<HomeMergeProps> = ({ homes, onClose, onMerged }) => {
+  const { currentUser } = useAuth();
+  const [sourceId, setSourceId] = useState(homes[1]?.id || '');
+  const [targetId, setTargetId] = useState(homes[0]?.id || '');
+  const [preview, setPreview] = useState<HomeMergePreview | null>(null);
+  const [memberNames, setMemberNames] = useState<{ [userId: string]: string }>({});
+  const [strategy, setStrategy] = useState<HomeMergeConflictStrategy>('rename');
+  const [loadingPreview, setLoadingPreview] = useState(false);
+  const [merging, setMerging] = useState(false);
+  const [progress, setProgress] = useState<HomeMergeProgress | null>(null);
+  const [error, setError] = useState('');
+
+  const source = homes.find(home => home.id === sourceId);
+  const target = homes.find(home => home.id === targetId);
+
+  useEffect(() => {
+    if (!currentUser || !sourceId || !targetId || sourceId === targetId) {
+      setPreview(null);
+      return;
+    }
+
+    let active = true;
+    const fetchPreview = async () => {
+      setLoadingPreview(true);
+      setError('');
+
+      const [{ preview, error }, { members }] = await Promise.all([
+        getHomeMergePreview(currentUser.uid, sourceId, targetId),
+        getHomeMembers(sourceId)
+      ]);
+      if (!active) return;
+
+      if (error) setError(error);
+      setPreview(preview);
+      const names: { [userId: string]: string } = {};
+      members.forEach(member => {
+        names[member.uid] = getMemberName(member);
+      });
+      setMemberNames(names);
+      setLoadingPreview(false);
+    };
+
+    fetchPreview();
+    return () => {
+      active = false;
+    };
+  }, [currentUser, sourceId, targetId]);
+
+  const handleMerge = async () => {
+    if (!currentUser || !source || !preview) return;
+
+    try {
+      setMerging(true);
+      setError('');
+
+      const { home, error } = await mergeHomes(currentUser.uid, source.id, targetId, strategy, setProgress);
+      if (error) {
+        setError(error);
+        return;
+      }
+
+      if (home) {
+        onMerged(home, source.name);
+      }
+    } catch (err: any) {
+      setError('Gagal menggabungkan rumah: ' + err.message);
+    } finally {
+      setMerging(false);
+      setProgress(null);
+    }
+  };
+
+  const selectClass = 'w-full bg-slate-800/60 border border-slate-600/30 rounded-lg px-3 py-2 text-sm text-slate-200 focus-ring';
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="card-modern p-8 max-w-lg w-full max-h-[90vh] overflow-y-auto animate-scale-in">
+        <h3 className="text-xl font-semibold text-white mb-2">Gabungkan Rumah</h3>
+        <p className="text-sm text-slate-400 mb-6">
+          Anggota dan seluruh isi rumah asal dipindahkan ke rumah tujuan, lalu rumah asal dihapus permanen.
+        </p>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-6">
+          <div>
+            <label htmlFor="merge-source" className="block text-sm font-medium text-slate-300 mb-1">Rumah asal</label>
+            <select
+              id="merge-source"
+              value={sourceId}
+              onChange={(e) => setSourceId(e.target.value)}
+              disabled={merging}
+              className={selectClass}
+            >
+              {homes.map(home => <option key={home.id} value={home.id}>{home.name}</option>)}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="merge-target" className="block text-sm font-medium text-slate-300 mb-1">Gabungkan ke</label>
+            <select
+              id="merge-target"
+              value={targetId}
+              onChange={(e) => setTargetId(e.target.value)}
+              disabled={merging}
+              className={selectClass}
+            >
+              {homes.map(home => <option key={home.id} value={home.id}>{home.name}</option>)}
+            </select>
+          </div>
+        </div>
+
+        {sourceId === targetId && (
+          <p className="text-sm text-yellow-300 mb-6">Pilih dua rumah yang berbeda.</p>
+        )}
+
+        {error && (
+          <div className="mb-6 p-3 bg-red-900/30 border border-red-500/30 rounded-lg text-red-200 text-sm" role="alert">
+            {error}
+          </div>
+        )}
+
+        {loadingPreview ? (
+          <div className="flex justify-center py-4">
+            <div className="loading-spinner"></div>
+          </div>
+        ) : preview && source && target && (
+          <div className="space-y-6">
+            <div>
+              <h4 className="text-sm font-semibold text-slate-300 mb-2">Akan dipindahkan</h4>
+              <div className="grid grid-cols-2 gap-2">
+                {(Object.keys(HOME_MERGE_COLLECTION_LABELS) as HomeMergeCollection[]).map(key => (
+                  <div key={key} className="p-3 glassmorphism rounded-lg flex justify-between text-sm">
+                    <span className="text-slate-400">{HOME_MERGE_COLLECTION_LABELS[key]}</span>
+                    <span className="font-medium text-white">{preview.counts[key]}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <h4 className="text-sm font-semibold text-slate-300 mb-2">Anggota baru di "{target.name}"</h4>
+              {preview.newMembers.length === 0 ? (
+                <p className="text-sm text-slate-400">Semua anggota sudah ada di rumah tujuan.</p>
+              ) : (
+                <p className="text-sm text-slate-200">
+                  {preview.newMembers.map(userId => memberNames[userId] || 'Anggota').join(', ')}
+                </p>
+              )}
+            </div>
+
+            {preview.conflicts.length > 0 && (
+              <div>
+                <h4 className="text-sm font-semibold text-slate-300 mb-2">
+                  Nama yang sudah ada ({preview.conflicts.length})
+                </h4>
+                <ul className="mb-3 max-h-32 overflow-y-auto space-y-1 text-sm text-slate-300">
+                  {preview.conflicts.map(conflict => (
+                    <li key={`${conflict.collection}_${conflict.id}`}>
+                      <span className="text-slate-500">{CONFLICT_COLLECTION_LABELS[conflict.collection]}:</span> {conflict.name}
+                    </li>
+                  ))}
+                </ul>
+                <div className="space-y-2">
+                  {(Object.keys(HOME_MERGE_CONFLICT_LABELS) as HomeMergeConflictStrategy[]).map(option => (
+                    <label
+                      key={option}
+                      className={`flex items-center space-x-3 p-3 rounded-lg cursor-pointer transition-smooth ${
+                        strategy === option ? 'bg-slate-700/60 border border-slate-500/40' : 'bg-slate-800/40 border border-transparent'
+                      }`}
+                    >
+                      <input
+                        type="radio"
+                        name="merge-conflict"
+                        value={option}
+                        checked={strategy === option}
+                        onChange={() => setStrategy(option)}
+                        disabled={merging}
+                        className="accent-purple-500"
+                      />
+                      <span className="text-sm text-slate-200">{HOME_MERGE_CONFLICT_LABELS[option]}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="p-3 bg-red-900/30 border border-red-500/30 rounded-lg text-red-200 text-sm">
+              Rumah "{source.name}" beserta kode undangannya akan dihapus permanen setelah penggabungan.
+              Note pribadi anggota lain yang tidak dibagikan ke Anda dipindahkan menyusul oleh sistem.
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-4 mt-8">
+          <button
+            onClick={onClose}
+            disabled={merging}
+            className="btn-secondary px-6 py-3 transition-smooth hover:scale-105 focus-ring"
+          >
+            Batal
+          </button>
+          <button
+            onClick={handleMerge}
+            disabled={!preview || merging || sourceId === targetId}
+            className="btn-primary px-6 py-3 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {merging ? (
+              <div className="flex items-center space-x-2">
+                <div className="loading-spinner"></div>
+                <span>
+                  {!progress
+                    ? 'Menyiapkan...'
+                    : progress.collection === 'cleanup'
+                      ? `Menghapus rumah asal ${progress.done + 1}/${progress.total}`
+                      : `${HOME_MERGE_COLLECTION_LABELS[progress.collection]} ${progress.done}/${progress.total}`}
+                </span>
+              </div>
+            ) : 'Gabungkan'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HomeMerge;
@@ -3,28 +3,58 @@ import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../../contexts/AuthContext';
 import { 
   createHome, 
-  joinHomeByInviteCode, 
   getUserHomes, 
   leaveHome, 
   deleteHome, 
+  getDeletedHomes,
+  restoreHome,
+  purgeHome,
   regenerateInviteCode,
   getHomeStatistics 
 } from '../../services/firebase/home';
-import { Home } from '../../types/user';
+import { redeemInviteCode } from '../../services/firebase/invites';
+import { createHomeFromTemplate, deleteHomeTemplate, getUserHomeTemplates } from '../../services/firebase/homeTemplates';
+import { 
+  subscribeToUserJoinRequests, 
+  acknowledgeJoinRequest, 
+  cancelJoinRequest 
+} from '../../services/firebase/joinRequests';
+import { HOME_DELETION_STEP_LABELS, isHomeBeingDeleted } from '../../services/firebase/homeDeletion';
+import { HOME_TRASH_RETENTION_DAYS, getDaysUntilPurge } from '../../utils/homeTrash';
+import { getHomeAccentColor } from '../../utils/homeProfile';
+import { Home, HomeDeletionProgress, JoinRequest, MemberContentHandover } from '../../types/user';
+import { HomeStatistics } from '../../types/stats';
+import { HomeTemplate } from '../../types/template';
+import { BUILT_IN_HOME_TEMPLATES } from '../../utils/homeTemplates';
+import { HOME_ROLE_LABELS, getMemberRole, hasHomePermission } from '../../utils/homePermissions';
+import HomeImport from '../dashboard/HomeImport';
+import HomeMerge from './HomeMerge';
+import DeleteAccount from '../auth/DeleteAccount';
+import MemberHandoverDialog from '../dashboard/MemberHandoverDialog';
+import HomeAvatar from './HomeAvatar';
+import HomeTemplatePicker from './HomeTemplatePicker';
 
 const HomeSetup: React.FC = () => {
   const [homeName, setHomeName] = useState('');
   const [inviteCode, setInviteCode] = useState('');
   const [homes, setHomes] = useState<Home[]>([]);
+  const [deletedHomes, setDeletedHomes] = useState<Home[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
   const [success, setSuccess] = useState('');
   const [showConfirmDialog, setShowConfirmDialog] = useState<{
-    type: 'leave' | 'delete' | 'regenerate';
+    type: 'leave' | 'delete' | 'purge' | 'regenerate';
     homeId: string;
     homeName: string;
   } | null>(null);
-  const [homeStats, setHomeStats] = useState<{[key: string]: any}>({});
+  const [homeStats, setHomeStats] = useState<{[homeId: string]: HomeStatistics}>({});
+  const [joinRequests, setJoinRequests] = useState<JoinRequest[]>([]);
+  const [deletionProgress, setDeletionProgress] = useState<{[homeId: string]: HomeDeletionProgress}>({});
+  const [showImport, setShowImport] = useState(false);
+  const [showMerge, setShowMerge] = useState(false);
+  const [customTemplates, setCustomTemplates] = useState<HomeTemplate[]>([]);
+  const [templateId, setTemplateId] = useState('');
+  const [includePet, setIncludePet] = useState(true);
   const { currentUser } = useAuth();
   const navigate = useNavigate();
   
@@ -37,16 +67,19 @@ const HomeSetup: React.FC = () => {
       } else {
         setHomes(homes);
         
-        // Fetch statistics for each home
-        const stats: {[key: string]: any} = {};
-        for (const home of homes) {
-          const { statistics } = await getHomeStatistics(home.id);
+        // Statistik tiap rumah memakai agregasi count, jadi bisa dimuat bersamaan
+        const results = await Promise.all(homes.map(home => getHomeStatistics(home.id, currentUser.uid)));
+        const stats: {[homeId: string]: HomeStatistics} = {};
+        results.forEach(({ statistics }, index) => {
           if (statistics) {
-            stats[home.id] = statistics;
+            stats[homes[index].id] = statistics;
           }
-        }
+        });
         setHomeStats(stats);
       }
+
+      const { homes: trashedHomes } = await getDeletedHomes(currentUser.uid);
+      setDeletedHomes(trashedHomes);
       setLoading(false);
     }
   }, [currentUser]);
@@ -55,6 +88,33 @@ const HomeSetup: React.FC = () => {
     fetchUserHomes();
   }, [fetchUserHomes]);
 
+  useEffect(() => {
+    if (!currentUser) return;
+
+    getUserHomeTemplates(currentUser.uid).then(({ templates }) => setCustomTemplates(templates));
+  }, [currentUser]);
+
+  // Pantau status permintaan bergabung milik user
+  useEffect(() => {
+    if (!currentUser) return;
+
+    const unsubscribe = subscribeToUserJoinRequests(currentUser.uid, async (requests) => {
+      setJoinRequests(requests.filter(request => request.status !== 'approved'));
+
+      // Permintaan yang disetujui langsung diselesaikan dan rumahnya dimuat ulang
+      const approved = requests.filter(request => request.status === 'approved');
+      for (const request of approved) {
+        await acknowledgeJoinRequest(currentUser.uid, request);
+        setSuccess(`Permintaan bergabung ke rumah "${request.homeName}" disetujui`);
+      }
+      if (approved.length > 0) {
+        fetchUserHomes();
+      }
+    });
+
+    return () => unsubscribe();
+  }, [currentUser, fetchUserHomes]);
+
   const handleCreateHome = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!currentUser) return;
@@ -63,16 +123,20 @@ const HomeSetup: React.FC = () => {
       setLoading(true);
       setError('');
       
-      const { home, error } = await createHome(currentUser.uid, homeName || 'Rumah Kita');
+      const template = [...BUILT_IN_HOME_TEMPLATES, ...customTemplates].find(t => t.id === templateId);
+      const { home, error } = template
+        ? await createHomeFromTemplate(currentUser.uid, homeName || 'Rumah Kita', template, { includePet })
+        : await createHome(currentUser.uid, homeName || 'Rumah Kita');
       
+      // Rumah dari template tetap dibuat walaupun sebagian isi awal gagal
       if (error) {
         setError(error);
-        return;
       }
       
       if (home) {
         setSuccess(`Rumah "${home.name}" berhasil dibuat! Kode undangan: ${home.inviteCode}`);
         setHomeName('');
+        setTemplateId('');
         fetchUserHomes();
       }
     } catch (err: any) {
@@ -82,6 +146,31 @@ const HomeSetup: React.FC = () => {
     }
   };
 
+  const handleDeleteTemplate = async (template: HomeTemplate) => {
+    if (!window.confirm(`Hapus template "${template.name}"?`)) return;
+
+    const { error } = await deleteHomeTemplate(template.id);
+    if (error) {
+      setError('Gagal menghapus template: ' + error);
+      return;
+    }
+
+    setCustomTemplates(prev => prev.filter(t => t.id !== template.id));
+    if (templateId === template.id) setTemplateId('');
+  };
+
+  const handleHomeImported = (home: Home) => {
+    setShowImport(false);
+    setSuccess(`Rumah "${home.name}" berhasil dipulihkan dari arsip! Kode undangan: ${home.inviteCode}`);
+    fetchUserHomes();
+  };
+
+  const handleHomesMerged = (home: Home, sourceName: string) => {
+    setShowMerge(false);
+    setSuccess(`Rumah "${sourceName}" berhasil digabungkan ke "${home.name}"`);
+    fetchUserHomes();
+  };
+
   const handleJoinHome = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!currentUser) return;
@@ -90,12 +179,18 @@ const HomeSetup: React.FC = () => {
       setLoading(true);
       setError('');
       
-      const { success, home, error } = await joinHomeByInviteCode(currentUser.uid, inviteCode);
+      const { success, home, pending, error } = await redeemInviteCode(currentUser.uid, inviteCode);
       
       if (error) {
         setError(error);
         return;
       }
+
+      if (success && pending) {
+        setSuccess('Permintaan bergabung terkirim. Tunggu persetujuan admin rumah.');
+        setInviteCode('');
+        return;
+      }
       
       if (success && home) {
         setSuccess(`Berhasil bergabung ke rumah "${home.name}"`);
@@ -109,14 +204,14 @@ const HomeSetup: React.FC = () => {
     }
   };
 
-  const handleLeaveHome = async (homeId: string) => {
+  const handleLeaveHome = async (homeId: string, handover: MemberContentHandover) => {
     if (!currentUser) return;
     
     try {
       setLoading(true);
       setError('');
       
-      const { success, error } = await leaveHome(currentUser.uid, homeId);
+      const { success, error } = await leaveHome(currentUser.uid, homeId, handover);
       
       if (error) {
         setError(error);
@@ -150,7 +245,7 @@ const HomeSetup: React.FC = () => {
       }
       
       if (success) {
-        setSuccess('Rumah berhasil dihapus');
+        setSuccess(`Rumah dipindahkan ke "Baru Dihapus" dan bisa dipulihkan selama ${HOME_TRASH_RETENTION_DAYS} hari`);
         fetchUserHomes();
       }
     } catch (err: any) {
@@ -161,6 +256,63 @@ const HomeSetup: React.FC = () => {
     }
   };
 
+  const handleRestoreHome = async (homeId: string) => {
+    if (!currentUser) return;
+
+    try {
+      setLoading(true);
+      setError('');
+
+      const { success, error } = await restoreHome(currentUser.uid, homeId);
+
+      if (error) {
+        setError(error);
+        return;
+      }
+
+      if (success) {
+        setSuccess('Rumah berhasil dipulihkan');
+        fetchUserHomes();
+      }
+    } catch (err: any) {
+      setError('Gagal memulihkan rumah: ' + err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Penghapusan permanen bisa memakan waktu untuk rumah besar, jadi progresnya ditampilkan.
+  // Jika tab tertutup di tengah jalan, rumah tetap tampil dengan tombol untuk melanjutkan.
+  const handlePurgeHome = async (homeId: string) => {
+    if (!currentUser) return;
+    
+    try {
+      setShowConfirmDialog(null);
+      setError('');
+      
+      const { success, error } = await purgeHome(currentUser.uid, homeId, (progress) => {
+        setDeletionProgress(prev => ({ ...prev, [homeId]: progress }));
+      });
+      
+      if (error) {
+        setError('Penghapusan rumah terhenti: ' + error + '. Anda bisa melanjutkannya nanti.');
+        return;
+      }
+      
+      if (success) {
+        setSuccess('Rumah berhasil dihapus permanen');
+      }
+    } catch (err: any) {
+      setError('Gagal menghapus rumah: ' + err.message);
+    } finally {
+      setDeletionProgress(prev => {
+        const { [homeId]: _finished, ...rest } = prev;
+        return rest;
+      });
+      fetchUserHomes();
+    }
+  };
+
   const handleRegenerateCode = async (homeId: string) => {
     if (!currentUser) return;
     
@@ -187,6 +339,60 @@ const HomeSetup: React.FC = () => {
     }
   };
 
+  const handleDismissRequest = async (request: JoinRequest) => {
+    if (!currentUser) return;
+
+    const { error } = request.status === 'pending'
+      ? await cancelJoinRequest(currentUser.uid, request.id)
+      : await acknowledgeJoinRequest(currentUser.uid, request);
+
+    if (error) {
+      setError(error);
+    }
+  };
+
+  const DeletionStatus = ({ progress, canResume, onResume }: {
+    progress?: HomeDeletionProgress;
+    canResume: boolean;
+    onResume: () => void;
+  }) => {
+    if (!progress) {
+      return (
+        <div className="flex flex-col items-end space-y-2.5 w-full sm:w-48">
+          <span className="px-3 py-1 text-xs bg-red-900/50 text-red-300 border border-red-500/30 rounded-full shadow-soft">
+            Penghapusan belum selesai
+          </span>
+          {canResume && (
+            <button
+              onClick={onResume}
+              className="px-4 py-2 rounded-xl text-sm font-medium bg-gradient-to-r from-red-500 to-rose-600 text-white hover:from-red-600 hover:to-rose-700 shadow-medium transition-all hover:shadow-hard hover:-translate-y-0.5"
+            >
+              Lanjutkan Hapus
+            </button>
+          )}
+        </div>
+      );
+    }
+
+    const percent = Math.round(((progress.stepIndex + 1) / progress.totalSteps) * 100);
+
+    return (
+      <div className="w-full sm:w-48">
+        <div className="flex items-center text-xs text-red-300 mb-2">
+          <div className="loading-spinner mr-2"></div>
+          <span>{HOME_DELETION_STEP_LABELS[progress.step]}</span>
+        </div>
+        <div className="h-2 bg-slate-800/80 rounded-full overflow-hidden">
+          <div
+            className="h-full bg-gradient-to-r from-red-500 to-rose-600 transition-all"
+            style={{ width: `${percent}%` }}
+          />
+        </div>
+        <p className="mt-1 text-xs text-gray-400">{progress.deletedCount} data terhapus</p>
+      </div>
+    );
+  };
+
   const ConfirmDialog = () => {
     if (!showConfirmDialog) return null;
 
@@ -194,22 +400,22 @@ const HomeSetup: React.FC = () => {
     
     const getDialogContent = () => {
       switch (type) {
-        case 'leave':
-          return {
-            title: 'Keluar dari Rumah',
-            message: `Apakah Anda yakin ingin keluar dari rumah "${homeName}"?`,
-            confirmText: 'Keluar',
-            confirmAction: () => handleLeaveHome(homeId),
-            confirmClass: 'bg-red-500 hover:bg-red-600 transition-smooth'
-          };
         case 'delete':
           return {
             title: 'Hapus Rumah',
-            message: `Apakah Anda yakin ingin menghapus rumah "${homeName}"? Tindakan ini tidak dapat dibatalkan.`,
+            message: `Rumah "${homeName}" akan dipindahkan ke "Baru Dihapus" dan bisa dipulihkan selama ${HOME_TRASH_RETENTION_DAYS} hari sebelum dihapus permanen.`,
             confirmText: 'Hapus',
             confirmAction: () => handleDeleteHome(homeId),
             confirmClass: 'bg-red-500 hover:bg-red-600 transition-smooth'
           };
+        case 'purge':
+          return {
+            title: 'Hapus Permanen',
+            message: `Semua data rumah "${homeName}" (catatan, wishlist, chat, peliharaan) akan dihapus permanen. Tindakan ini tidak dapat dibatalkan.`,
+            confirmText: 'Hapus Permanen',
+            confirmAction: () => handlePurgeHome(homeId),
+            confirmClass: 'bg-red-500 hover:bg-red-600 transition-smooth'
+          };
         case 'regenerate':
           return {
             title: 'Buat Kode Undangan Baru',
@@ -260,6 +466,14 @@ const HomeSetup: React.FC = () => {
     );
   };
 
+  const leavingHome = showConfirmDialog?.type === 'leave'
+    ? homes.find(home => home.id === showConfirmDialog.homeId)
+    : undefined;
+
+  const mergeableHomes = currentUser
+    ? homes.filter(home => !isHomeBeingDeleted(home) && hasHomePermission(home, currentUser.uid, 'mergeHomes'))
+    : [];
+
   if (!currentUser) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -285,32 +499,55 @@ const HomeSetup: React.FC = () => {
         
         {homes.length > 0 && (
           <div className="mb-10 card-modern p-1 shadow-hard animate-slide-up">
-            <div className="glassmorphism rounded-t-xl px-6 py-4">
+            <div className="glassmorphism rounded-t-xl px-6 py-4 flex items-center justify-between gap-4">
               <h3 className="text-xl font-semibold text-gradient">
                 Rumah Anda
               </h3>
+              {mergeableHomes.length >= 2 && (
+                <button
+                  onClick={() => setShowMerge(true)}
+                  className="text-sm text-slate-400 hover:text-blue-300 transition-smooth"
+                >
+                  Gabungkan rumah duplikat
+                </button>
+              )}
             </div>
             
             <div className="divide-y divide-gray-700">
               <ul>
                 {homes.map((home) => {
                   const stats = homeStats[home.id];
+                  const role = getMemberRole(home, currentUser.uid);
                   return (
-                    <li key={home.id} className="transition-smooth hover:bg-slate-800/30 rounded-xl">
+                    <li
+                      key={home.id}
+                      className="transition-smooth hover:bg-slate-800/30 rounded-xl border-l-4"
+                      style={{ borderLeftColor: getHomeAccentColor(home) }}
+                    >
                       <div className="px-6 py-4">
                         <div className="flex items-center justify-between flex-wrap sm:flex-nowrap gap-4">
                           <div className="flex-1">
-                            <p className="text-lg font-semibold text-gradient">
-                              {home.name}
-                            </p>
-                            <div className="mt-2 flex items-center text-sm text-gray-300">
-                              <div className="flex items-center bg-slate-800/80 px-3 py-1 rounded-full shadow-soft">
-                                <span>Kode: </span>
-                                <span className="ml-1 font-medium text-blue-400">{home.inviteCode}</span>
+                            <div className="flex items-center space-x-3">
+                              <HomeAvatar home={home} className="w-10 h-10 text-lg" />
+                              <div className="min-w-0">
+                                <p className="text-lg font-semibold text-gradient">
+                                  {home.name}
+                                </p>
+                                {home.description && (
+                                  <p className="text-sm text-slate-400 line-clamp-2">{home.description}</p>
+                                )}
                               </div>
-                              {home.createdBy === currentUser?.uid && (
+                            </div>
+                            <div className="mt-2 flex items-center text-sm text-gray-300">
+                              {hasHomePermission(home, currentUser.uid, 'invite') && (
+                                <div className="flex items-center bg-slate-800/80 px-3 py-1 rounded-full shadow-soft">
+                                  <span>Kode: </span>
+                                  <span className="ml-1 font-medium text-blue-400">{home.inviteCode}</span>
+                                </div>
+                              )}
+                              {role && role !== 'member' && (
                                 <span className="ml-2 px-3 py-1 text-xs bg-blue-900/50 text-blue-300 border border-blue-500/30 rounded-full shadow-soft">
-                                  Owner
+                                  {HOME_ROLE_LABELS[role]}
                                 </span>
                               )}
                             </div>
@@ -341,38 +578,42 @@ const HomeSetup: React.FC = () => {
                             </div>
                           </div>
                           
-                          <div className="flex flex-col space-y-2.5">
+                            <div className="flex flex-col space-y-2.5">
                             <button
                               onClick={() => navigate(`/dashboard/${home.id}`)}
                               className="px-4 py-2 rounded-xl text-sm font-medium bg-gradient-to-r from-blue-600 to-purple-600 text-white hover:from-blue-700 hover:to-purple-700 shadow-medium transition-all hover:shadow-hard hover:-translate-y-0.5"
                             >
                               Masuk
                             </button>
-                            
-                            {home.createdBy === currentUser?.uid ? (
-                              <>
-                                <button
-                                  onClick={() => setShowConfirmDialog({
-                                    type: 'regenerate',
-                                    homeId: home.id,
-                                    homeName: home.name
-                                  })}
-                                  className="px-4 py-2 rounded-xl text-sm font-medium bg-gradient-to-r from-yellow-500 to-amber-600 text-white hover:from-yellow-600 hover:to-amber-700 shadow-medium transition-all hover:shadow-hard hover:-translate-y-0.5"
-                                >
-                                  Kode Baru
-                                </button>
-                                <button
-                                  onClick={() => setShowConfirmDialog({
-                                    type: 'delete',
-                                    homeId: home.id,
-                                    homeName: home.name
-                                  })}
-                                  className="px-4 py-2 rounded-xl text-sm font-medium bg-gradient-to-r from-red-500 to-rose-600 text-white hover:from-red-600 hover:to-rose-700 shadow-medium transition-all hover:shadow-hard hover:-translate-y-0.5"
-                                >
-                                  Hapus
-                                </button>
-                              </>
-                            ) : (
+                          
+                            {hasHomePermission(home, currentUser.uid, 'manageSettings') && (
+                              <button
+                                onClick={() => setShowConfirmDialog({
+                                  type: 'regenerate',
+                                  homeId: home.id,
+                                  homeName: home.name
+                                })}
+                                className="px-4 py-2 rounded-xl text-sm font-medium bg-gradient-to-r from-yellow-500 to-amber-600 text-white hover:from-yellow-600 hover:to-amber-700 shadow-medium transition-all hover:shadow-hard hover:-translate-y-0.5"
+                              >
+                                Kode Baru
+                              </button>
+                            )}
+
+                            {hasHomePermission(home, currentUser.uid, 'deleteHome') && (
+                              <button
+                                onClick={() => setShowConfirmDialog({
+                                  type: 'delete',
+                                  homeId: home.id,
+                                  homeName: home.name
+                                })}
+                                className="px-4 py-2 rounded-xl text-sm font-medium bg-gradient-to-r from-red-500 to-rose-600 text-white hover:from-red-600 hover:to-rose-700 shadow-medium transition-all hover:shadow-hard hover:-translate-y-0.5"
+                              >
+                                Hapus
+                              </button>
+                            )}
+
+                            {/* Pemilik boleh keluar jika ada anggota lain yang menggantikannya */}
+                            {(!hasHomePermission(home, currentUser.uid, 'deleteHome') || home.members.length > 1) && (
                               <button
                                 onClick={() => setShowConfirmDialog({
                                   type: 'leave',
@@ -395,6 +636,98 @@ const HomeSetup: React.FC = () => {
           </div>
         )}
 
+        {deletedHomes.length > 0 && (
+          <div className="mb-10 card-modern p-1 shadow-hard animate-slide-up">
+            <div className="glassmorphism rounded-t-xl px-6 py-4">
+              <h3 className="text-xl font-semibold text-gradient">
+                Baru Dihapus
+              </h3>
+              <p className="text-sm text-gray-400 mt-1">
+                Rumah yang dihapus bisa dipulihkan selama {HOME_TRASH_RETENTION_DAYS} hari, setelah itu dihapus permanen.
+              </p>
+            </div>
+            <ul className="divide-y divide-gray-700">
+              {deletedHomes.map((home) => (
+                <li key={home.id} className="px-6 py-4 flex items-center justify-between flex-wrap sm:flex-nowrap gap-4">
+                  <div className="flex-1">
+                    <p className="text-lg font-semibold text-gray-300">{home.name}</p>
+                    {home.deletedAt && (
+                      <p className="mt-1 text-sm text-gray-400">
+                        Dihapus {home.deletedAt.toLocaleDateString('id-ID', {
+                          day: 'numeric',
+                          month: 'long',
+                          year: 'numeric'
+                        })} · dihapus permanen dalam {getDaysUntilPurge(home)} hari
+                      </p>
+                    )}
+                  </div>
+                  {isHomeBeingDeleted(home) || deletionProgress[home.id] ? (
+                    <DeletionStatus
+                      progress={deletionProgress[home.id]}
+                      canResume={true}
+                      onResume={() => handlePurgeHome(home.id)}
+                    />
+                  ) : (
+                    <div className="flex flex-col space-y-2.5">
+                      <button
+                        onClick={() => handleRestoreHome(home.id)}
+                        disabled={loading}
+                        className="px-4 py-2 rounded-xl text-sm font-medium bg-gradient-to-r from-green-500 to-emerald-600 text-white hover:from-green-600 hover:to-emerald-700 shadow-medium transition-all hover:shadow-hard hover:-translate-y-0.5 disabled:opacity-50"
+                      >
+                        Pulihkan
+                      </button>
+                      <button
+                        onClick={() => setShowConfirmDialog({
+                          type: 'purge',
+                          homeId: home.id,
+                          homeName: home.name
+                        })}
+                        className="px-4 py-2 rounded-xl text-sm font-medium bg-gradient-to-r from-red-500 to-rose-600 text-white hover:from-red-600 hover:to-rose-700 shadow-medium transition-all hover:shadow-hard hover:-translate-y-0.5"
+                      >
+                        Hapus Permanen
+                      </button>
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {joinRequests.length > 0 && (
+          <div className="mb-10 card-modern p-1 shadow-hard animate-slide-up">
+            <div className="glassmorphism rounded-t-xl px-6 py-4">
+              <h3 className="text-xl font-semibold text-gradient">
+                Permintaan Bergabung
+              </h3>
+            </div>
+            <ul className="divide-y divide-gray-700">
+              {joinRequests.map((request) => (
+                <li key={request.id} className="px-6 py-4 flex items-center justify-between gap-4">
+                  <div>
+                    <p className="text-lg font-semibold text-gradient">{request.homeName}</p>
+                    {request.status === 'pending' ? (
+                      <span className="mt-2 inline-flex items-center px-3 py-1 text-xs bg-yellow-900/50 text-yellow-300 border border-yellow-500/30 rounded-full shadow-soft">
+                        Menunggu persetujuan admin
+                      </span>
+                    ) : (
+                      <span className="mt-2 inline-flex items-center px-3 py-1 text-xs bg-red-900/50 text-red-300 border border-red-500/30 rounded-full shadow-soft">
+                        Permintaan ditolak
+                      </span>
+                    )}
+                  </div>
+                  <button
+                    onClick={() => handleDismissRequest(request)}
+                    className="btn-secondary px-4 py-2 text-sm"
+                  >
+                    {request.status === 'pending' ? 'Batalkan' : 'Tutup'}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {error && (
           <div className="mb-6 glassmorphism border border-red-500/30 text-red-300 px-4 py-3 rounded-xl shadow-medium relative animate-scale-in" role="alert">
             <div className="flex items-center">
@@ -444,6 +777,15 @@ const HomeSetup: React.FC = () => {
                   onChange={(e) => setHomeName(e.target.value)}
                 />
               </div>
+              <HomeTemplatePicker
+                customTemplates={customTemplates}
+                selectedId={templateId}
+                onSelect={setTemplateId}
+                includePet={includePet}
+                onIncludePetChange={setIncludePet}
+                onDeleteTemplate={handleDeleteTemplate}
+                disabled={loading}
+              />
               <div>
                 <button
                   type="submit"
@@ -457,6 +799,14 @@ const HomeSetup: React.FC = () => {
                     </>
                   ) : 'Buat Rumah Baru'}
                 </button>
+                <button
+                  type="button"
+                  onClick={() => setShowImport(true)}
+                  disabled={loading}
+                  className="w-full mt-3 text-sm text-slate-400 hover:text-blue-300 transition-smooth"
+                >
+                  atau pulihkan dari arsip ekspor
+                </button>
               </div>
             </form>
           </div>
@@ -475,7 +825,7 @@ const HomeSetup: React.FC = () => {
             <form className="space-y-4" onSubmit={handleJoinHome}>
               <div>
                 <label htmlFor="invite-code" className="block text-sm font-medium text-gray-300 mb-1">
-                  Kode Undangan
+                  Kode atau Link Undangan
                 </label>
                 <input
                   id="invite-code"
@@ -483,7 +833,7 @@ const HomeSetup: React.FC = () => {
                   type="text"
                   required
                   className="input-modern"
-                  placeholder="XXX-XXX-XXX"
+                  placeholder="XXX-XXX-XXX atau link undangan"
                   value={inviteCode}
                   onChange={(e) => setInviteCode(e.target.value)}
                 />
@@ -529,7 +879,30 @@ const HomeSetup: React.FC = () => {
           </div>
         )}
 
+        <DeleteAccount />
+
         <ConfirmDialog />
+
+        {/* Keluar dari rumah memerlukan pilihan serah terima konten */}
+        {leavingHome && (
+          <MemberHandoverDialog
+            home={leavingHome}
+            memberId={currentUser.uid}
+            memberName="Anda"
+            isSelf
+            busy={loading}
+            onConfirm={(handover) => handleLeaveHome(leavingHome.id, handover)}
+            onCancel={() => setShowConfirmDialog(null)}
+          />
+        )}
+
+        {showMerge && (
+          <HomeMerge homes={mergeableHomes} onClose={() => setShowMerge(false)} onMerged={handleHomesMerged} />
+        )}
+
+        {showImport && (
+          <HomeImport onClose={() => setShowImport(false)} onImported={handleHomeImported} />
+        )}
       </div>
     </div>
   );
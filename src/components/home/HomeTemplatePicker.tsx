@@ -0,0 +1,116 @@
+import React from 'react';
+import { HomeTemplate } from '../../types/template';
+import { BUILT_IN_HOME_TEMPLATES } from '../../utils/homeTemplates';
+import HomeAvatar from './HomeAvatar';
+
+interface HomeTemplatePickerProps {
+  customTemplates: HomeTemplate[];
+  selectedId: string; // '' berarti rumah kosong tanpa template
+  onSelect: (templateId: string) => void;
+  includePet: boolean;
+  onIncludePetChange: (includePet: boolean) => void;
+  onDeleteTemplate: (template: HomeTemplate) => void;
+  disabled?: boolean;
+}
+
+// Ringkasan isi template, contoh "2 catatan · 4 kategori · 1 peliharaan"
+const describeContents = (template: HomeTemplate) => [
+  template.notes.length > 0 && `${template.notes.length} catatan`,
+  template.wishlist.length > 0 && `${template.wishlist.length} wishlist`,
+  template.wishlistCategories.length > 0 && `${template.wishlistCategories.length} kategori`,
+  template.pet && '1 peliharaan',
+].filter(Boolean).join(' · ');
+
+const HomeTemplatePicker: React.FC<HomeTemplatePickerProps> = ({
+  customTemplates,
+  selectedId,
+  onSelect,
+  includePet,
+  onIncludePetChange,
+  onDeleteTemplate,
+  disabled
+}) => {
+  const templates = [...BUILT_IN_HOME_TEMPLATES, ...customTemplates];
+  const selected = templates.find(template => template.id === selectedId);
+
+  const optionClass = (active: boolean) =>
+    `w-full flex items-center space-x-3 p-3 rounded-lg text-left transition-smooth ${
+      active ? 'bg-slate-700/60 border border-slate-500/40' : 'bg-slate-800/40 border border-transparent hover:bg-slate-700/40'
+    }`;
+
+  return (
+    <div>
+      <span className="block text-sm font-medium text-gray-300 mb-1">Template</span>
+      <div className="space-y-2 max-h-64 overflow-y-auto" role="radiogroup" aria-label="Template rumah">
+        <button
+          type="button"
+          role="radio"
+          aria-checked={!selectedId}
+          onClick={() => onSelect('')}
+          disabled={disabled}
+          className={optionClass(!selectedId)}
+        >
+          <div className="w-9 h-9 rounded-full bg-slate-700 flex items-center justify-center text-slate-300 flex-shrink-0">+</div>
+          <div className="min-w-0">
+            <p className="text-sm font-medium text-white">Rumah kosong</p>
+            <p className="text-xs text-slate-400">Mulai tanpa isi awal</p>
+          </div>
+        </button>
+
+        {templates.map(template => (
+          <div key={template.id} className="relative">
+            <button
+              type="button"
+              role="radio"
+              aria-checked={selectedId === template.id}
+              onClick={() => onSelect(template.id)}
+              disabled={disabled}
+              className={optionClass(selectedId === template.id)}
+            >
+              <HomeAvatar home={template} className="w-9 h-9 text-lg" />
+              <div className="min-w-0 pr-6">
+                <p className="text-sm font-medium text-white">
+                  {template.name}
+                  {!template.builtIn && <span className="ml-2 text-xs text-slate-400">(milik Anda)</span>}
+                </p>
+                <p className="text-xs text-slate-400 truncate">{template.description || describeContents(template)}</p>
+              </div>
+            </button>
+            {!template.builtIn && (
+              <button
+                type="button"
+                onClick={() => onDeleteTemplate(template)}
+                disabled={disabled}
+                className="absolute top-3 right-3 text-slate-500 hover:text-red-400 transition-smooth"
+                aria-label={`Hapus template ${template.name}`}
+                title="Hapus template"
+              >
+                ×
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {selected && (
+        <div className="mt-3 space-y-2">
+          <p className="text-xs text-slate-400">Isi awal: {describeContents(selected) || 'tampilan rumah saja'}</p>
+          {selected.pet && (
+            <label className="flex items-center space-x-2 text-sm text-slate-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={includePet}
+                onChange={(e) => onIncludePetChange(e.target.checked)}
+                disabled={disabled}
+                className="accent-purple-500"
+              />
+              <span>Sertakan peliharaan awal ({selected.pet.name})</span>
+            </label>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HomeTemplatePicker;
@@ -0,0 +1,175 @@
+import React, { useState, useEffect } from 'react';
+import { useParams, useNavigate, Link } from 'react-router-dom';
+import { useAuth } from '../../contexts/AuthContext';
+import { getInviteByCode, getInviteStatus, redeemInviteCode } from '../../services/firebase/invites';
+import { HomeInvite } from '../../types/user';
+import { HOME_ROLE_LABELS } from '../../utils/homePermissions';
+import { setPendingInvite, clearPendingInvite } from '../../utils/pendingInvite';
+
+const STATUS_MESSAGES = {
+  expired: 'Undangan ini sudah kedaluwarsa. Minta link baru ke anggota rumah.',
+  revoked: 'Undangan ini sudah dibatalkan oleh pemilik rumah.',
+  exhausted: 'Undangan ini sudah mencapai batas penggunaan.',
+};
+
+const JoinHome: React.FC = () => {
+  const { code = '' } = useParams<{ code: string }>();
+  const { currentUser } = useAuth();
+  const navigate = useNavigate();
+  const [invite, setInvite] = useState<HomeInvite | null>(null);
+  const [loadingInvite, setLoadingInvite] = useState(true);
+  const [joining, setJoining] = useState(false);
+  const [pendingApproval, setPendingApproval] = useState(false);
+  const [error, setError] = useState('');
+
+  // Simpan kode agar tetap ada setelah login/daftar
+  useEffect(() => {
+    if (!currentUser && code) {
+      setPendingInvite(code);
+    }
+  }, [currentUser, code]);
+
+  useEffect(() => {
+    const fetchInvite = async () => {
+      if (!currentUser) {
+        setLoadingInvite(false);
+        return;
+      }
+
+      setLoadingInvite(true);
+      // Kode legacy tidak memiliki dokumen undangan, jadi error di sini tidak fatal
+      const { invite } = await getInviteByCode(code);
+      setInvite(invite);
+      setLoadingInvite(false);
+    };
+
+    fetchInvite();
+  }, [code, currentUser]);
+
+  const handleJoin = async () => {
+    if (!currentUser) return;
+
+    try {
+      setJoining(true);
+      setError('');
+
+      const { success, home, pending, error } = await redeemInviteCode(currentUser.uid, code);
+
+      if (error) {
+        setError(error);
+        return;
+      }
+
+      if (success && pending) {
+        clearPendingInvite();
+        setPendingApproval(true);
+        return;
+      }
+
+      if (success && home) {
+        clearPendingInvite();
+        navigate(`/dashboard/${home.id}`);
+      }
+    } catch (err: any) {
+      setError('Gagal bergabung ke rumah: ' + err.message);
+    } finally {
+      setJoining(false);
+    }
+  };
+
+  const handleCancel = () => {
+    clearPendingInvite();
+    navigate(currentUser ? '/dashboard' : '/login');
+  };
+
+  const status = invite ? getInviteStatus(invite) : 'active';
+
+  return (
+    <div className="min-h-screen flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8 animate-fade-in">
+      <div className="card-modern p-8 max-w-md w-full shadow-hard animate-scale-in">
+        <div className="text-center mb-6">
+          <div className="mx-auto h-16 w-16 rounded-full bg-gradient-to-r from-green-500 to-emerald-600 flex items-center justify-center mb-4 shadow-medium">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-8 w-8 text-white" viewBox="0 0 20 20" fill="currentColor">
+              <path fillRule="evenodd" d="M3.172 5.172a4 4 0 015.656 0L10 6.343l1.172-1.171a4 4 0 115.656 5.656L10 17.657l-6.828-6.829a4 4 0 010-5.656z" clipRule="evenodd" />
+            </svg>
+          </div>
+          <h2 className="text-2xl font-bold text-gradient mb-2">Undangan Rumah Kita</h2>
+          {invite ? (
+            <p className="text-slate-300">
+              Anda diundang bergabung ke rumah <span className="font-semibold text-white">"{invite.homeName}"</span> sebagai{' '}
+              <span className="font-semibold text-white">{HOME_ROLE_LABELS[invite.role]}</span>.
+            </p>
+          ) : (
+            <p className="text-slate-300">
+              Kode undangan: <span className="font-mono text-cyan-300">{code}</span>
+            </p>
+          )}
+        </div>
+
+        {error && (
+          <div className="mb-6 glassmorphism border border-red-500/30 text-red-300 px-4 py-3 rounded-xl shadow-medium animate-scale-in" role="alert">
+            <span className="block">{error}</span>
+          </div>
+        )}
+
+        {pendingApproval ? (
+          <div className="space-y-4">
+            <div className="card-modern bg-yellow-900/30 border-yellow-500/30 p-4">
+              <p className="text-yellow-200 font-medium text-sm text-center">
+                Permintaan bergabung terkirim. Anda akan menjadi anggota setelah admin rumah menyetujuinya.
+              </p>
+            </div>
+            <button onClick={() => navigate('/dashboard')} className="btn-primary w-full">
+              Lihat Status di Rumah Saya
+            </button>
+          </div>
+        ) : !currentUser ? (
+          <div className="space-y-3">
+            <p className="text-sm text-slate-400 text-center mb-4">
+              Masuk atau daftar terlebih dahulu. Setelah itu Anda akan langsung diarahkan kembali ke undangan ini.
+            </p>
+            <Link to="/login" className="btn-primary w-full flex justify-center items-center">
+              Masuk
+            </Link>
+            <Link to="/register" className="btn-secondary w-full flex justify-center items-center">
+              Daftar Akun Baru
+            </Link>
+          </div>
+        ) : loadingInvite ? (
+          <div className="flex justify-center py-4">
+            <div className="loading-spinner"></div>
+          </div>
+        ) : status !== 'active' ? (
+          <div className="space-y-4">
+            <div className="card-modern bg-red-900/30 border-red-500/30 p-4">
+              <p className="text-red-200 font-medium text-sm text-center">{STATUS_MESSAGES[status]}</p>
+            </div>
+            <button onClick={handleCancel} className="btn-secondary w-full">
+              Kembali
+            </button>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <button
+              onClick={handleJoin}
+              disabled={joining}
+              className="w-full flex justify-center items-center bg-gradient-to-r from-green-500 to-emerald-600 hover:from-green-600 hover:to-emerald-700 text-white px-4 py-3 rounded-xl font-medium shadow-medium transition-all hover:shadow-hard hover:-translate-y-0.5 disabled:opacity-50"
+            >
+              {joining ? (
+                <>
+                  <div className="loading-spinner mr-2"></div>
+                  <span>Bergabung...</span>
+                </>
+              ) : 'Gabung ke Rumah'}
+            </button>
+            <button onClick={handleCancel} className="btn-secondary w-full">
+              Batal
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default JoinHome;
@@ -3,7 +3,10 @@ import { useNavigate, Link, useParams } from 'react-router-dom';
 import { logout } from '../../services/firebase/auth';
 import { Bars3Icon, XMarkIcon } from '@heroicons/react/24/outline';
 import { useAuth } from '../../contexts/AuthContext';
-import { TabType } from '../../types'; // Import TabType
+import { Home, TabType } from '../../types'; // Import TabType
+import { subscribeToHome } from '../../services/firebase/home';
+import { getHomeAccentColor } from '../../utils/homeProfile';
+import HomeAvatar from '../home/HomeAvatar';
 
 const Logo = () => (
   // A simple placeholder SVG logo. Replace with your actual logo.
@@ -30,6 +33,20 @@ const Navbar: React.FC<NavbarProps> = ({ showHomeTabs }) => {
   // Using the prop directly since this logic is now centralized in App.tsx
   const isValidHomeId = showHomeTabs;
 
+  // Profil rumah aktif untuk nama, avatar dan warna aksen
+  const [home, setHome] = useState<Home | null>(null);
+  useEffect(() => {
+    if (!isValidHomeId || !homeId) {
+      setHome(null);
+      return;
+    }
+
+    const unsubscribe = subscribeToHome(homeId, setHome);
+    return () => unsubscribe();
+  }, [isValidHomeId, homeId]);
+
+  const accentColor = home ? getHomeAccentColor(home) : null;
+
   // Effect to listen to tab changes from Dashboard (e.g., mobile tab clicks)
   // to keep Navbar's active state in sync with the Dashboard
   useEffect(() => {
@@ -63,6 +80,11 @@ const Navbar: React.FC<NavbarProps> = ({ showHomeTabs }) => {
     
     return `${baseClass} ${activeTab === tabName ? activeClass : inactiveClass}`;
   };
+
+  // Tab aktif memakai warna aksen rumah jika sedang berada di dalam rumah
+  const getNavLinkStyle = (tabName: TabType): React.CSSProperties | undefined =>
+    accentColor && activeTab === tabName ? { backgroundColor: accentColor } : undefined;
+
   // Handle tab click - updates active tab and dispatches event
   const handleTabClick = (tab: TabType, event?: React.MouseEvent) => {
     event?.preventDefault();
@@ -90,7 +112,10 @@ const Navbar: React.FC<NavbarProps> = ({ showHomeTabs }) => {
   };
 
   return (
-    <nav className="bg-gray-900 text-white shadow-lg sticky top-0 z-50">
+    <nav
+      className="bg-gray-900 text-white shadow-lg sticky top-0 z-50"
+      style={accentColor ? { boxShadow: `inset 0 -2px 0 ${accentColor}` } : undefined}
+    >
       <div className="max-w-full mx-auto px-4 sm:px-6 lg:px-8">
         <div className="flex items-center justify-between h-16">
           {/* Branding */}
@@ -109,6 +134,12 @@ const Navbar: React.FC<NavbarProps> = ({ showHomeTabs }) => {
               <Logo />
               <span className="ml-3 text-2xl font-bold tracking-tight">Rumah Kita</span>
             </Link>
+            {home && (
+              <div className="hidden lg:flex items-center ml-4 pl-4 border-l border-gray-700 space-x-2 min-w-0">
+                <HomeAvatar home={home} className="w-7 h-7 text-sm" />
+                <span className="text-sm font-medium text-gray-200 truncate max-w-[10rem]">{home.name}</span>
+              </div>
+            )}
           </div>
             {/* Navigation Links - Centered */}
           <div className="hidden md:flex flex-grow items-center justify-center space-x-1 lg:space-x-2 xl:space-x-4">
@@ -117,14 +148,14 @@ const Navbar: React.FC<NavbarProps> = ({ showHomeTabs }) => {
               <button
                 type="button"
                 onClick={(e) => handleTabClick('dashboard', e)}
-                className={getNavLinkClass('dashboard')}
+                className={getNavLinkClass('dashboard')} style={getNavLinkStyle('dashboard')}
               >
                 Dashboard
               </button>
             ) : (
               <Link 
                 to="/dashboard" 
-                className={getNavLinkClass('dashboard')}
+                className={getNavLinkClass('dashboard')} style={getNavLinkStyle('dashboard')}
                 onClick={() => setActiveTab('dashboard')} // Set active tab for styling on direct nav
               >
                 Dashboard
@@ -133,11 +164,11 @@ const Navbar: React.FC<NavbarProps> = ({ showHomeTabs }) => {
 
             {showHomeTabs && (
               <>
-                <button type="button" onClick={(e) => handleTabClick('notes', e)} className={getNavLinkClass('notes')}>Notes</button>
-                <button type="button" onClick={(e) => handleTabClick('wishlist', e)} className={getNavLinkClass('wishlist')}>Wishlist</button>
-                <button type="button" onClick={(e) => handleTabClick('call', e)} className={getNavLinkClass('call')}>Komunikasi</button>
-                <button type="button" onClick={(e) => handleTabClick('pets', e)} className={getNavLinkClass('pets')}>Pets</button>
-                <button type="button" onClick={(e) => handleTabClick('chat', e)} className={getNavLinkClass('chat')}>Chat</button>
+                <button type="button" onClick={(e) => handleTabClick('notes', e)} className={getNavLinkClass('notes')} style={getNavLinkStyle('notes')}>Notes</button>
+                <button type="button" onClick={(e) => handleTabClick('wishlist', e)} className={getNavLinkClass('wishlist')} style={getNavLinkStyle('wishlist')}>Wishlist</button>
+                <button type="button" onClick={(e) => handleTabClick('call', e)} className={getNavLinkClass('call')} style={getNavLinkStyle('call')}>Komunikasi</button>
+                <button type="button" onClick={(e) => handleTabClick('pets', e)} className={getNavLinkClass('pets')} style={getNavLinkStyle('pets')}>Pets</button>
+                <button type="button" onClick={(e) => handleTabClick('chat', e)} className={getNavLinkClass('chat')} style={getNavLinkStyle('chat')}>Chat</button>
               </>
             )}
           </div>
@@ -193,14 +224,14 @@ const Navbar: React.FC<NavbarProps> = ({ showHomeTabs }) => {
               <button
                 type="button"
                 onClick={(e) => handleTabClick('dashboard', e)}
-                className={getMobileNavLinkClass('dashboard')}
+                className={getMobileNavLinkClass('dashboard')} style={getNavLinkStyle('dashboard')}
               >
                 Dashboard
               </button>
             ) : (
               <Link
                 to="/dashboard"
-                className={getMobileNavLinkClass('dashboard')}
+                className={getMobileNavLinkClass('dashboard')} style={getNavLinkStyle('dashboard')}
                 onClick={() => {
                   setActiveTab('dashboard');
                   setIsMobileMenuOpen(false);
@@ -211,11 +242,11 @@ const Navbar: React.FC<NavbarProps> = ({ showHomeTabs }) => {
             )}
               {showHomeTabs && (
                 <>
-                  <button type="button" onClick={(e) => handleTabClick('notes', e)} className={getMobileNavLinkClass('notes')}>Notes</button>
-                  <button type="button" onClick={(e) => handleTabClick('wishlist', e)} className={getMobileNavLinkClass('wishlist')}>Wishlist</button>
-                  <button type="button" onClick={(e) => handleTabClick('call', e)} className={getMobileNavLinkClass('call')}>Komunikasi</button>
-                  <button type="button" onClick={(e) => handleTabClick('pets', e)} className={getMobileNavLinkClass('pets')}>Pets</button>
-                  <button type="button" onClick={(e) => handleTabClick('chat', e)} className={getMobileNavLinkClass('chat')}>Chat</button>
+                  <button type="button" onClick={(e) => handleTabClick('notes', e)} className={getMobileNavLinkClass('notes')} style={getNavLinkStyle('notes')}>Notes</button>
+                  <button type="button" onClick={(e) => handleTabClick('wishlist', e)} className={getMobileNavLinkClass('wishlist')} style={getNavLinkStyle('wishlist')}>Wishlist</button>
+                  <button type="button" onClick={(e) => handleTabClick('call', e)} className={getMobileNavLinkClass('call')} style={getNavLinkStyle('call')}>Komunikasi</button>
+                  <button type="button" onClick={(e) => handleTabClick('pets', e)} className={getMobileNavLinkClass('pets')} style={getNavLinkStyle('pets')}>Pets</button>
+                  <button type="button" onClick={(e) => handleTabClick('chat', e)} className={getMobileNavLinkClass('chat')} style={getNavLinkStyle('chat')}>Chat</button>
                 </>
               )}
             {/* Mobile Auth Links */}
@@ -0,0 +1,222 @@
+import React, { useMemo } from 'react';
+import { MarkdownBlock, MarkdownInline, MarkdownListItem } from '../../types/markdown';
+import { NoteAttachment } from '../../types/user';
+import { parseMarkdown, sanitizeUrl } from '../../utils/markdown';
+import NoteAttachmentChip from './NoteAttachmentChip';
+
+interface MarkdownPreviewProps {
+  content: string;
+  // Tanpa handler, checklist hanya ditampilkan (misalnya sebelum editor siap)
+  onToggleChecklist?: (line: number) => void;
+  attachments?: { [attachmentId: string]: NoteAttachment };
+  // Tanpa handler, link [[Judul]] hanya ditampilkan sebagai teks
+  onOpenNoteLink?: (title: string) => void;
+  hasNoteLink?: (title: string) => boolean; // false = note tujuan tidak ditemukan
+}
+
+type AttachmentMap = NonNullable<MarkdownPreviewProps['attachments']>;
+
+interface InlineContext extends Pick<MarkdownPreviewProps, 'onOpenNoteLink' | 'hasNoteLink'> {
+  attachments: AttachmentMap;
+}
+
+const HEADING_CLASSES = [
+  'text-2xl font-bold text-white',
+  'text-xl font-semibold text-white',
+  'text-lg font-semibold text-slate-100',
+  'text-base font-semibold text-slate-100',
+  'text-sm font-semibold text-slate-200',
+  'text-sm font-medium text-slate-300',
+];
+
+const renderInline = (nodes: MarkdownInline[], context: InlineContext): React.ReactNode[] =>
+  nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return <React.Fragment key={index}>{node.text}</React.Fragment>;
+      case 'strong':
+        return <strong key={index} className="font-semibold text-white">{renderInline(node.children, context)}</strong>;
+      case 'em':
+        return <em key={index}>{renderInline(node.children, context)}</em>;
+      case 'del':
+        return <del key={index} className="text-slate-500">{renderInline(node.children, context)}</del>;
+      case 'code':
+        return (
+          <code key={index} className="px-1.5 py-0.5 rounded bg-slate-900/60 text-pink-300 text-[0.9em] font-mono">
+            {node.text}
+          </code>
+        );
+      case 'link':
+        return (
+          <a
+            key={index}
+            href={node.href}
+            target="_blank"
+            rel="noopener noreferrer nofollow"
+            className="text-blue-400 underline underline-offset-2 hover:text-blue-300"
+          >
+            {renderInline(node.children, context)}
+          </a>
+        );
+      case 'attachment': {
+        const attachment = context.attachments[node.id];
+        if (!attachment) {
+          return (
+            <span key={index} className="text-xs text-slate-500 italic" title="Lampiran sudah dihapus atau belum selesai diunggah">
+              [Lampiran tidak ditemukan: {node.label}]
+            </span>
+          );
+        }
+        const url = sanitizeUrl(attachment.url);
+        if (node.image && attachment.kind === 'image' && url) {
+          return (
+            <a key={index} href={url} target="_blank" rel="noopener noreferrer" className="inline-block my-1">
+              <img
+                src={url}
+                alt={node.label}
+                width={attachment.width || undefined}
+                height={attachment.height || undefined}
+                loading="lazy"
+                className="max-w-full h-auto max-h-96 rounded-lg border border-slate-700/40"
+              />
+            </a>
+          );
+        }
+        return <NoteAttachmentChip key={index} attachment={attachment} />;
+      }
+      case 'noteLink': {
+        if (!context.onOpenNoteLink) {
+          return <span key={index} className="text-emerald-300">{node.title}</span>;
+        }
+        const exists = !context.hasNoteLink || context.hasNoteLink(node.title);
+        return (
+          <button
+            key={index}
+            type="button"
+            onClick={() => context.onOpenNoteLink?.(node.title)}
+            className={exists
+              ? 'text-emerald-400 underline underline-offset-2 hover:text-emerald-300'
+              : 'text-slate-500 underline decoration-dashed underline-offset-2 hover:text-slate-400'}
+            title={exists ? `Buka note "${node.title}"` : `Note "${node.title}" belum ada`}
+          >
+            {node.title}
+          </button>
+        );
+      }
+      case 'break':
+        return <br key={index} />;
+    }
+    return null;
+  });
+
+const NO_ATTACHMENTS: AttachmentMap = {};
+
+const MarkdownPreview: React.FC<MarkdownPreviewProps> = ({
+  content,
+  onToggleChecklist,
+  attachments = NO_ATTACHMENTS,
+  onOpenNoteLink,
+  hasNoteLink
+}) => {
+  const blocks = useMemo(() => parseMarkdown(content), [content]);
+  const context: InlineContext = { attachments, onOpenNoteLink, hasNoteLink };
+
+  const renderItem = (item: MarkdownListItem, index: number) => (
+    <li key={index} className={item.checked !== null ? 'list-none -ml-5' : ''}>
+      {item.checked !== null ? (
+        <label className={`inline-flex items-start ${onToggleChecklist ? 'cursor-pointer' : ''}`}>
+          <input
+            type="checkbox"
+            checked={item.checked}
+            onChange={() => onToggleChecklist?.(item.line)}
+            disabled={!onToggleChecklist}
+            className="mt-1.5 mr-2 accent-blue-500"
+          />
+          <span className={item.checked ? 'line-through text-slate-500' : ''}>{renderInline(item.children, context)}</span>
+        </label>
+      ) : (
+        renderInline(item.children, context)
+      )}
+      {item.blocks.length > 0 && <div className="mt-1 space-y-2">{item.blocks.map(renderBlock)}</div>}
+    </li>
+  );
+
+  const renderBlock = (block: MarkdownBlock, index: number): React.ReactNode => {
+    switch (block.type) {
+      case 'heading': {
+        const Tag = `h${block.level}` as keyof JSX.IntrinsicElements;
+        return <Tag key={index} className={`${HEADING_CLASSES[block.level - 1]} mt-2`}>{renderInline(block.children, context)}</Tag>;
+      }
+      case 'paragraph':
+        return <p key={index}>{renderInline(block.children, context)}</p>;
+      case 'code':
+        return (
+          <pre key={index} className="p-3 rounded-lg bg-slate-900/70 border border-slate-700/40 overflow-x-auto text-sm">
+            <code className="font-mono text-slate-200">{block.text}</code>
+          </pre>
+        );
+      case 'quote':
+        return (
+          <blockquote key={index} className="pl-4 border-l-4 border-slate-600 text-slate-400 space-y-2">
+            {block.children.map(renderBlock)}
+          </blockquote>
+        );
+      case 'list':
+        return block.ordered ? (
+          <ol key={index} start={block.start} className="list-decimal pl-6 space-y-1">{block.items.map(renderItem)}</ol>
+        ) : (
+          <ul key={index} className="list-disc pl-6 space-y-1">{block.items.map(renderItem)}</ul>
+        );
+      case 'table':
+        return (
+          <div key={index} className="overflow-x-auto">
+            <table className="min-w-full text-sm border-collapse">
+              <thead>
+                <tr>
+                  {block.header.map((cell, column) => (
+                    <th
+                      key={column}
+                      className="px-3 py-2 border border-slate-700/50 bg-slate-800/60 font-semibold text-slate-200"
+                      style={{ textAlign: block.align[column] || 'left' }}
+                    >
+                      {renderInline(cell, context)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {block.rows.map((row, rowIndex) => (
+                  <tr key={rowIndex}>
+                    {row.map((cell, column) => (
+                      <td
+                        key={column}
+                        className="px-3 py-2 border border-slate-700/50"
+                        style={{ textAlign: block.align[column] || 'left' }}
+                      >
+                        {renderInline(cell, context)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        );
+      case 'rule':
+        return <hr key={index} className="border-slate-700/60" />;
+    }
+    return null;
+  };
+
+  if (!content.trim()) {
+    return <p className="text-slate-500 italic">Belum ada isi</p>;
+  }
+
+  return (
+    <div className="text-slate-300 text-base leading-relaxed space-y-3 break-words">
+      {blocks.map(renderBlock)}
+    </div>
+  );
+};
+
+export default MarkdownPreview;
@@ -0,0 +1,57 @@
+import React from 'react';
+import { MarkdownFormat } from '../../types/markdown';
+
+interface MarkdownToolbarProps {
+  onFormat: (format: MarkdownFormat) => void;
+  disabled?: boolean;
+}
+
+const TOOLBAR_GROUPS: { format: MarkdownFormat; label: React.ReactNode; title: string }[][] = [
+  [
+    { format: 'heading', label: 'H', title: 'Judul bagian' },
+    { format: 'bold', label: <span className="font-bold">B</span>, title: 'Tebal (Ctrl+B)' },
+    { format: 'italic', label: <span className="italic font-serif">I</span>, title: 'Miring (Ctrl+I)' },
+    { format: 'strike', label: <span className="line-through">S</span>, title: 'Coret' },
+  ],
+  [
+    { format: 'bulletList', label: '•', title: 'Daftar' },
+    { format: 'orderedList', label: '1.', title: 'Daftar bernomor' },
+    { format: 'checklist', label: '☑', title: 'Checklist' },
+    { format: 'quote', label: '❝', title: 'Kutipan' },
+  ],
+  [
+    { format: 'link', label: '🔗', title: 'Link (Ctrl+K)' },
+    { format: 'code', label: <span className="font-mono">{'<>'}</span>, title: 'Kode' },
+    { format: 'codeBlock', label: <span className="font-mono">{'{ }'}</span>, title: 'Blok kode' },
+    { format: 'table', label: '▦', title: 'Tabel' },
+  ],
+];
+
+const MarkdownToolbar: React.FC<MarkdownToolbarProps> = ({ onFormat, disabled }) => (
+  <div className="flex flex-wrap items-center gap-1" role="toolbar" aria-label="Format teks">
+    {TOOLBAR_GROUPS.map((group, groupIndex) => (
+      <div
+        key={groupIndex}
+        className="flex items-center gap-0.5 pr-1 mr-1 border-r border-slate-700/40 last:border-r-0"
+      >
+        {group.map(({ format, label, title }) => (
+          <button
+            key={format}
+            type="button"
+            // Fokus dan seleksi textarea dipertahankan saat tombol diklik
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={() => onFormat(format)}
+            disabled={disabled}
+            title={title}
+            aria-label={title}
+            className="min-w-[28px] h-7 px-1.5 rounded-md text-sm text-slate-300 hover:text-white hover:bg-slate-700/60 transition-smooth disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+    ))}
+  </div>
+);
+
+export default MarkdownToolbar;
@@ -0,0 +1,50 @@
+import React from 'react';
+import { NoteAttachment } from '../../types/user';
+import { formatFileSize, getAttachmentTypeLabel } from '../../utils/noteAttachments';
+import { sanitizeUrl } from '../../utils/markdown';
+
+interface NoteAttachmentChipProps {
+  attachment: NoteAttachment;
+  onRemove?: () => void; // Tanpa handler, tombol hapus tidak ditampilkan
+}
+
+const NoteAttachmentChip: React.FC<NoteAttachmentChipProps> = ({ attachment, onRemove }) => {
+  // URL berasal dari dokumen Firestore, jadi tetap disaring seperti link di markdown
+  const href = sanitizeUrl(attachment.url) || undefined;
+  const thumbnailUrl = attachment.thumbnailUrl ? sanitizeUrl(attachment.thumbnailUrl) : null;
+
+  return (
+    <span className="inline-flex items-center max-w-full align-middle rounded-lg bg-slate-800/70 border border-slate-700/40 text-xs">
+      <a
+        href={href}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="inline-flex items-center min-w-0 px-2 py-1 text-slate-200 hover:text-blue-300 transition-smooth no-underline"
+        title={`${attachment.name} (${attachment.contentType})`}
+      >
+        {thumbnailUrl ? (
+          <img src={thumbnailUrl} alt="" className="w-5 h-5 mr-1.5 rounded object-cover flex-shrink-0" />
+        ) : (
+          <svg className="w-4 h-4 mr-1.5 text-slate-400 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.172 7l-6.586 6.586a2 2 0 102.828 2.828l6.414-6.586a4 4 0 00-5.656-5.656l-6.415 6.585a6 6 0 108.486 8.486L20.5 13" />
+          </svg>
+        )}
+        <span className="truncate">{attachment.name}</span>
+        <span className="ml-1.5 text-slate-500 flex-shrink-0">
+          {getAttachmentTypeLabel(attachment)} · {formatFileSize(attachment.size)}
+        </span>
+      </a>
+      {onRemove && (
+        <button
+          onClick={onRemove}
+          className="pr-2 pl-0.5 text-slate-500 hover:text-red-400 transition-smooth"
+          aria-label={`Hapus lampiran ${attachment.name}`}
+        >
+          ×
+        </button>
+      )}
+    </span>
+  );
+};
+
+export default NoteAttachmentChip;
@@ -1,41 +1,226 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useLayoutEffect, useRef, useCallback, useMemo } from 'react';
 import { useAuth } from '../../contexts/AuthContext';
-import { updateNote, subscribeToNote } from '../../services/firebase/notes';
-import { Note } from '../../types/user';
+import { updateLinksToNote, updateNote, updateNoteOrganization, subscribeToNote } from '../../services/firebase/notes';
+import { useCollaborativeNote } from '../../hooks/useCollaborativeNote';
+import { useNotePresence } from '../../hooks/useNotePresence';
+import { useHomeMembers } from '../../hooks/useHomeMembers';
+import { useNoteAttachments } from '../../hooks/useNoteAttachments';
+import { Note, NoteAttachment, NoteFolder, NoteOrganization, NoteReminder, TextOperation } from '../../types/user';
+import { MarkdownEdit, MarkdownFormat, NoteViewMode } from '../../types/markdown';
+import { TextRange } from '../../types/search';
+import { insertAttachmentMarkdown } from '../../utils/noteAttachments';
+import {
+  completeNoteLink,
+  getNoteBacklinks,
+  getNoteLinkQuery,
+  getNoteLinkSuggestions,
+  normalizeNoteLinkTitle
+} from '../../utils/noteLinks';
+import { NOTE_REMINDER_RECURRENCE_LABELS, formatReminderTime, getReminderFireTime } from '../../utils/noteReminders';
+import { NOTE_VISIBILITY_ICONS, NOTE_VISIBILITY_OPTIONS, getNoteVisibility } from '../../utils/noteVisibility';
+import { transformIndex } from '../../utils/textOperation';
+import { toggleChecklistItem } from '../../utils/markdown';
+import { applyMarkdownFormat, continueMarkdownList, MARKDOWN_SHORTCUTS } from '../../utils/markdownFormat';
+import NoteAttachmentChip from './NoteAttachmentChip';
+import NoteHistory from './NoteHistory';
+import NoteOrganizationBar from './NoteOrganizationBar';
+import NoteReminderDialog from './NoteReminderDialog';
+import NoteShareDialog from './NoteShareDialog';
+import MarkdownPreview from './MarkdownPreview';
+import MarkdownToolbar from './MarkdownToolbar';
+import NotePresenceAvatars from './NotePresenceAvatars';
+import RemoteCursors from './RemoteCursors';
+
+const VIEW_MODES: { mode: NoteViewMode; label: string }[] = [
+  { mode: 'edit', label: 'Edit' },
+  { mode: 'preview', label: 'Pratinjau' },
+  { mode: 'split', label: 'Bagi' },
+];
 
 interface NoteEditorProps {
   note: Note;
+  folders: NoteFolder[];
+  jumpTo?: TextRange | null; // Posisi di isi note yang dituju dari hasil pencarian
+  notes: Note[]; // Note lain di rumah, untuk saran link [[Judul]] dan backlink
+  onSelectNote: (note: Note) => void;
+  onOpenNoteLink: (title: string) => void;
+}
+
+const pickOrganization = (note: Note): NoteOrganization => ({
+  folderId: note.folderId || null,
+  tags: note.tags || [],
+  pinned: !!note.pinned,
+  color: note.color || null,
+});
+
+const pickSharing = (note: Note): Pick<Note, 'visibility' | 'readers'> => ({
+  visibility: getNoteVisibility(note),
+  readers: note.readers || [],
+});
+
+// Suntingan judul yang sedang berjalan, dari fokus sampai blur atau editor ditutup
+interface TitleEdit {
+  noteId: string;
+  homeId: string;
+  userId: string;
+  startTitle: string; // Judul saat mulai menyunting
+  savedTitle: string; // Judul terakhir yang berhasil disimpan auto-save
 }
 
-const NoteEditor: React.FC<NoteEditorProps> = ({ note }) => {
+// Link [[judul]] di note lain diganti sekali per suntingan judul, sehingga judul
+// sementara (misalnya kosong saat diketik ulang) tidak memutus link
+const renameLinksAfterTitleEdit = async (titleEdit: TitleEdit | null) => {
+  if (!titleEdit || titleEdit.startTitle === titleEdit.savedTitle) return;
+
+  const { error } = await updateLinksToNote(
+    titleEdit.noteId, titleEdit.homeId, titleEdit.startTitle, titleEdit.savedTitle, titleEdit.userId
+  );
+  if (error) console.warn('Gagal memperbarui link ke note:', error);
+};
+
+const NoteEditor: React.FC<NoteEditorProps> = ({ note, folders, jumpTo, notes, onSelectNote, onOpenNoteLink }) => {
   const { currentUser } = useAuth();
   const [title, setTitle] = useState(note.title);
-  const [content, setContent] = useState(note.content);
   const [isEditing, setIsEditing] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [lastSaved, setLastSaved] = useState<Date | null>(null);
   const [error, setError] = useState('');
+  const [showHistory, setShowHistory] = useState(false);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewMode, setViewMode] = useState<NoteViewMode>('edit');
+  const [organization, setOrganization] = useState<NoteOrganization>(() => pickOrganization(note));
+  const [sharing, setSharing] = useState(() => pickSharing(note));
+  const [showShare, setShowShare] = useState(false);
+  const [reminder, setReminder] = useState<NoteReminder | null>(note.reminder || null);
+  const [showReminder, setShowReminder] = useState(false);
+  const [isDraggingFile, setIsDraggingFile] = useState(false);
+  const [linkQuery, setLinkQuery] = useState<{ start: number; query: string } | null>(null);
+  const [linkIndex, setLinkIndex] = useState(0);
   
   // Refs for tracking changes
   const titleRef = useRef<HTMLInputElement>(null);
   const contentRef = useRef<HTMLTextAreaElement>(null);
   const saveTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const titleEditRef = useRef<TitleEdit | null>(null);
+  const titleSaveRef = useRef<Promise<void>>(Promise.resolve()); // Simpan judul yang sedang berjalan
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const selectionRef = useRef<{ start: number; end: number } | null>(null);
+
+  // Kursor digeser mengikuti suntingan penyunting lain agar tidak melompat
+  const handleRemoteOperation = useCallback((operation: TextOperation) => {
+    const textarea = contentRef.current;
+    if (!textarea || document.activeElement !== textarea) return;
+
+    selectionRef.current = {
+      start: transformIndex(operation, textarea.selectionStart),
+      end: transformIndex(operation, textarea.selectionEnd)
+    };
+  }, []);
+
+  // Isi note disunting bersama lewat operasi; judul tetap disimpan utuh
+  const {
+    content,
+    ready,
+    pending,
+    error: syncError,
+    handleChange
+  } = useCollaborativeNote(note, currentUser?.uid, { onRemoteOperation: handleRemoteOperation });
+
+  // Unggahan selesai setelah isi mungkin berubah, jadi rujukan lampiran disisipkan ke isi terbaru
+  const latestContentRef = useRef(content);
+  latestContentRef.current = content;
+
+  useLayoutEffect(() => {
+    const textarea = contentRef.current;
+    if (textarea && selectionRef.current) {
+      textarea.setSelectionRange(selectionRef.current.start, selectionRef.current.end);
+      selectionRef.current = null;
+    }
+  }, [content]);
+
+  // Lompatan dari hasil pencarian menunggu isi note yang baru dipilih selesai dimuat
+  const jumpRef = useRef<TextRange | null>(null);
+  const jumpNoteIdRef = useRef(note.id);
+  useEffect(() => {
+    jumpRef.current = jumpTo || null;
+  }, [jumpTo]);
+
+  useEffect(() => {
+    const switched = jumpNoteIdRef.current !== note.id;
+    jumpNoteIdRef.current = note.id;
+    const target = jumpRef.current;
+    if (!target || !ready || switched) return;
+
+    if (viewMode === 'preview') {
+      setViewMode('edit');
+      return;
+    }
+
+    const textarea = contentRef.current;
+    if (!textarea) return;
+    jumpRef.current = null;
+
+    const start = Math.min(target.start, textarea.value.length);
+    const end = Math.min(target.end, textarea.value.length);
+
+    // Tinggi teks sebelum kecocokan diukur dengan mengisi sementara textarea
+    const value = textarea.value;
+    textarea.value = value.slice(0, start);
+    const offset = textarea.scrollHeight;
+    textarea.value = value;
+
+    textarea.focus();
+    textarea.setSelectionRange(start, end);
+    textarea.scrollTop = Math.max(0, offset - textarea.clientHeight / 2);
+  }, [jumpTo, ready, note.id, viewMode]);
+
+  // Anggota lain yang sedang membuka note ini beserta kursornya
+  const { getName, getColor } = useHomeMembers(note.homeId);
+  const { presences, reportSelection, reportTyping } = useNotePresence(note.homeId, note.id, currentUser?.uid);
+
+  const { attachments, attachmentsById, uploads, upload, remove } = useNoteAttachments(note.id, currentUser?.uid);
+
+  const reportCurrentSelection = useCallback(() => {
+    const textarea = contentRef.current;
+    if (textarea && document.activeElement === textarea) {
+      reportSelection(textarea.selectionStart, textarea.selectionEnd);
+    }
+  }, [reportSelection]);
+
+  // Posisi kursor dikirim ulang setelah isi berubah, termasuk karena suntingan anggota lain
+  useEffect(() => {
+    reportCurrentSelection();
+  }, [content, reportCurrentSelection]);
+
+  const isSyncing = isSaving || pending;
+  const displayedError = error || syncError;
+
+  const reminderFireTime = getReminderFireTime(reminder);
+
+  const linkSuggestions = useMemo(
+    () => (linkQuery ? getNoteLinkSuggestions(notes, linkQuery.query, note.id) : []),
+    [linkQuery, notes, note.id]
+  );
+  const activeLinkIndex = Math.min(linkIndex, linkSuggestions.length - 1);
+  const backlinks = useMemo(() => getNoteBacklinks(notes, { id: note.id, title }), [notes, note.id, title]);
+  const noteLinkTitles = useMemo(() => new Set(notes.map(item => normalizeNoteLinkTitle(item.title))), [notes]);
+  const hasNoteLink = useCallback((linkTitle: string) => noteLinkTitles.has(normalizeNoteLinkTitle(linkTitle)), [noteLinkTitles]);
 
   // Stats tracking
-  const [charCount, setCharCount] = useState(content.length);
-  const [wordCount, setWordCount] = useState(content.trim() ? content.trim().split(/\s+/).length : 0);
+  const charCount = content.length;
+  const wordCount = content.trim() ? content.trim().split(/\s+/).length : 0;
 
-  // Subscribe to real-time changes
+  // Subscribe to real-time title changes
   useEffect(() => {
     const unsubscribe = subscribeToNote(note.id, (updatedNote) => {
       if (updatedNote && updatedNote.id === note.id) {
-        // Only update if user is not currently editing
+        // Only update if user is not currently editing the title
         if (!isEditing) {
           setTitle(updatedNote.title);
-          setContent(updatedNote.content);
-          setCharCount(updatedNote.content.length);
-          setWordCount(updatedNote.content.trim() ? updatedNote.content.trim().split(/\s+/).length : 0);
         }
+        setOrganization(pickOrganization(updatedNote));
+        setSharing(pickSharing(updatedNote));
+        setReminder(updatedNote.reminder || null);
       }
     });
 
@@ -45,15 +230,48 @@ const NoteEditor: React.FC<NoteEditorProps> = ({ note }) => {
   // Reset state when note changes
   useEffect(() => {
     setTitle(note.title);
-    setContent(note.content);
     setIsEditing(false);
     setError('');
-    setCharCount(note.content.length);
-    setWordCount(note.content.trim() ? note.content.trim().split(/\s+/).length : 0);
-  }, [note.id, note.title, note.content]);
+    setLastSaved(null);
+  }, [note.id, note.title]);
+
+  // Perubahan isi dianggap tersimpan setelah semua operasi dikonfirmasi
+  const wasPendingRef = useRef(false);
+  useEffect(() => {
+    if (wasPendingRef.current && !pending && !syncError) {
+      setLastSaved(new Date());
+    }
+    wasPendingRef.current = pending;
+  }, [pending, syncError]);
 
-  // Auto-save with debounce
-  const autoSave = async (newTitle: string, newContent: string) => {
+  const saveTitle = async (noteId: string, newTitle: string, titleEdit: TitleEdit | null) => {
+    if (!currentUser) return;
+
+    try {
+      setIsSaving(true);
+      setError('');
+
+      const { success, error } = await updateNote(noteId, {
+        title: newTitle,
+      }, currentUser.uid);
+
+      if (error) {
+        setError(error);
+      } else if (success) {
+        setLastSaved(new Date());
+        if (titleEdit?.noteId === noteId) {
+          titleEdit.savedTitle = newTitle;
+        }
+      }
+    } catch (err: any) {
+      setError('Gagal menyimpan: ' + err.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Auto-save judul with debounce
+  const autoSave = async (newTitle: string) => {
     if (!currentUser) return;
     
     // Clear previous timeout
@@ -62,26 +280,10 @@ const NoteEditor: React.FC<NoteEditorProps> = ({ note }) => {
     }
 
     // Set new timeout for auto-save
-    saveTimeoutRef.current = setTimeout(async () => {
-      try {
-        setIsSaving(true);
-        setError('');
-        
-        const { success, error } = await updateNote(note.id, {
-          title: newTitle,
-          content: newContent,
-        });
-
-        if (error) {
-          setError(error);
-        } else if (success) {
-          setLastSaved(new Date());
-        }
-      } catch (err: any) {
-        setError('Gagal menyimpan: ' + err.message);
-      } finally {
-        setIsSaving(false);
-      }
+    const noteId = note.id;
+    saveTimeoutRef.current = setTimeout(() => {
+      saveTimeoutRef.current = null;
+      titleSaveRef.current = saveTitle(noteId, newTitle, titleEditRef.current);
     }, 1000); // Auto-save after 1 second of inactivity
   };
 
@@ -89,20 +291,214 @@ const NoteEditor: React.FC<NoteEditorProps> = ({ note }) => {
     const newTitle = e.target.value;
     setTitle(newTitle);
     setIsEditing(true);
-    autoSave(newTitle, content);
+    autoSave(newTitle);
+  };
+
+  // Saran judul note muncul saat kursor berada di dalam [[ yang belum ditutup
+  const updateLinkQuery = () => {
+    const textarea = contentRef.current;
+    if (!textarea || textarea.selectionStart !== textarea.selectionEnd) {
+      setLinkQuery(null);
+      return;
+    }
+    setLinkQuery(getNoteLinkQuery(textarea.value, textarea.selectionStart));
   };
 
   const handleContentChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
-    const newContent = e.target.value;
-    setContent(newContent);
-    setCharCount(newContent.length);
-    setWordCount(newContent.trim() ? newContent.trim().split(/\s+/).length : 0);
+    handleChange(e.target.value);
+    reportTyping();
+    setLinkIndex(0);
+    updateLinkQuery();
+  };
+
+  const handleContentSelect = () => {
+    reportCurrentSelection();
+    updateLinkQuery();
+  };
+
+  // Suntingan dari toolbar/pintasan dikirim seperti ketikan, lalu seleksinya dipulihkan
+  const applyEdit = (edit: MarkdownEdit) => {
+    const textarea = contentRef.current;
+    if (!textarea || !ready) return;
+
+    selectionRef.current = { start: edit.selectionStart, end: edit.selectionEnd };
+    textarea.focus();
+    handleChange(edit.text);
+    reportTyping();
+  };
+
+  const handleFormat = (format: MarkdownFormat) => {
+    const textarea = contentRef.current;
+    if (!textarea) return;
+    applyEdit(applyMarkdownFormat(content, textarea.selectionStart, textarea.selectionEnd, format));
+  };
+
+  const handleLinkSuggestion = (suggestion: Note) => {
+    const textarea = contentRef.current;
+    if (!textarea || !linkQuery) return;
+
+    applyEdit(completeNoteLink(content, linkQuery.start, textarea.selectionStart, suggestion.title));
+    setLinkQuery(null);
+  };
+
+  const handleContentKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    const textarea = e.currentTarget;
+
+    if (linkSuggestions.length > 0 && !e.nativeEvent.isComposing) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setLinkIndex((activeLinkIndex + step + linkSuggestions.length) % linkSuggestions.length);
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        handleLinkSuggestion(linkSuggestions[activeLinkIndex]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setLinkQuery(null);
+        return;
+      }
+    }
+
+    if ((e.ctrlKey || e.metaKey) && !e.altKey && MARKDOWN_SHORTCUTS[e.key.toLowerCase()]) {
+      e.preventDefault();
+      handleFormat(MARKDOWN_SHORTCUTS[e.key.toLowerCase()]);
+      return;
+    }
+
+    if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) {
+      const edit = continueMarkdownList(content, textarea.selectionStart, textarea.selectionEnd);
+      if (edit) {
+        e.preventDefault();
+        applyEdit(edit);
+      }
+    }
+  };
+
+  // Berkas dari drag-and-drop, tempel atau tombol lampiran. Rujukannya disisipkan di
+  // posisi kursor saat unggahan selesai, atau di akhir note jika editor tidak aktif.
+  const handleFiles = async (files: File[]) => {
+    if (files.length === 0 || !ready) return;
+
+    setError('');
+    const { uploaded, errors } = await upload(files);
+    if (errors.length > 0) {
+      setError('Gagal melampirkan berkas: ' + errors.join('; '));
+    }
+    if (uploaded.length === 0) return;
+
+    const textarea = contentRef.current;
+    const latest = latestContentRef.current;
+    const position = textarea && document.activeElement === textarea ? textarea.selectionEnd : latest.length;
+    const edit = insertAttachmentMarkdown(latest, position, uploaded);
+    if (textarea) {
+      applyEdit(edit);
+    } else {
+      handleChange(edit.text);
+    }
+  };
+
+  const handleContentPaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    const files = Array.from(e.clipboardData.files);
+    if (files.length === 0) return;
+
+    e.preventDefault();
+    handleFiles(files);
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!Array.from(e.dataTransfer.types).includes('Files')) return;
+    e.preventDefault();
+    setIsDraggingFile(true);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    setIsDraggingFile(false);
+    const files = Array.from(e.dataTransfer.files);
+    if (files.length === 0) return;
+
+    e.preventDefault();
+    contentRef.current?.focus();
+    handleFiles(files);
+  };
+
+  const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
+    handleFiles(Array.from(e.target.files || []));
+    e.target.value = '';
+  };
+
+  const handleRemoveAttachment = async (attachment: NoteAttachment) => {
+    if (!window.confirm(`Hapus lampiran "${attachment.name}"? Rujukannya di isi note tidak lagi bisa dibuka.`)) return;
+
+    const { error } = await remove(attachment);
+    if (error) setError('Gagal menghapus lampiran: ' + error);
+  };
+
+  // Checklist dicentang langsung dari pratinjau tanpa masuk mode edit
+  const handleToggleChecklist = (line: number) => {
+    handleChange(toggleChecklistItem(content, line));
+  };
+
+  const handleViewModeChange = (mode: NoteViewMode) => {
+    // Textarea tidak tampil di pratinjau, jadi kursor tidak lagi ditampilkan ke anggota lain
+    if (mode === 'preview') reportSelection(null, null);
+    setViewMode(mode);
+  };
+
+  const handleTitleFocus = () => {
     setIsEditing(true);
-    autoSave(title, newContent);
+    if (currentUser && !titleEditRef.current) {
+      titleEditRef.current = {
+        noteId: note.id,
+        homeId: note.homeId,
+        userId: currentUser.uid,
+        startTitle: title,
+        savedTitle: title
+      };
+    }
   };
 
-  const handleBlur = () => {
+  // Judul yang belum tersimpan disimpan dulu agar link diganti ke judul akhirnya
+  const handleBlur = async () => {
     setIsEditing(false);
+    const titleEdit = titleEditRef.current;
+    titleEditRef.current = null;
+
+    if (saveTimeoutRef.current) {
+      clearTimeout(saveTimeoutRef.current);
+      saveTimeoutRef.current = null;
+      titleSaveRef.current = saveTitle(note.id, title, titleEdit);
+    }
+
+    await titleSaveRef.current;
+    renameLinksAfterTitleEdit(titleEdit);
+  };
+
+  // Auto-save judul yang tertunda dibatalkan agar tidak menimpa versi yang dipulihkan.
+  // Isi yang dipulihkan datang sebagai operasi biasa lewat sinkronisasi.
+  const handleRestored = (restoredTitle: string) => {
+    if (saveTimeoutRef.current) {
+      clearTimeout(saveTimeoutRef.current);
+    }
+    setTitle(restoredTitle);
+    setIsEditing(false);
+    setLastSaved(new Date());
+    setShowHistory(false);
+  };
+
+  // Folder, tag, pin dan warna langsung ditampilkan lalu disimpan tanpa debounce
+  const handleOrganizationChange = async (changes: NoteOrganization) => {
+    const previous = organization;
+    setOrganization({ ...organization, ...changes });
+
+    const { error } = await updateNoteOrganization(note.id, changes);
+    if (error) {
+      setOrganization(previous);
+      setError('Gagal menyimpan pengaturan note: ' + error);
+    }
   };
 
   // Cleanup timeout when component unmounts
@@ -114,16 +510,27 @@ const NoteEditor: React.FC<NoteEditorProps> = ({ note }) => {
     };
   }, []);
 
+  // Editor ditutup atau berpindah note di tengah suntingan judul: link diganti ke judul
+  // terakhir yang tersimpan (auto-save yang tertunda dibatalkan di atas)
+  useEffect(() => {
+    return () => {
+      const titleEdit = titleEditRef.current;
+      titleEditRef.current = null;
+      titleSaveRef.current.then(() => renameLinksAfterTitleEdit(titleEdit));
+    };
+  }, [note.id]);
+
   return (
     <div className="flex flex-col h-full animate-fade-in">
       {/* Header */}
       <div className="p-6 border-b border-slate-700/30 bg-slate-900/30">
+        <NoteOrganizationBar organization={organization} folders={folders} onChange={handleOrganizationChange} />
         <input
           ref={titleRef}
           type="text"
           value={title}
           onChange={handleTitleChange}
-          onFocus={() => setIsEditing(true)}
+          onFocus={handleTitleFocus}
           onBlur={handleBlur}
           className="w-full text-xl font-semibold border-none outline-none bg-transparent text-white resize-none focus:ring-0 focus:outline-none focus:text-blue-300 transition-smooth"
           placeholder="Judul note..."
@@ -159,14 +566,73 @@ const NoteEditor: React.FC<NoteEditorProps> = ({ note }) => {
           </div>
           
           <div className="flex items-center space-x-2">
-            {isSaving && (
+            <NotePresenceAvatars presences={presences} getName={getName} getColor={getColor} />
+
+            <div className="flex items-center bg-slate-800/50 rounded-md border border-slate-700/30 p-0.5">
+              {VIEW_MODES.map(({ mode, label }) => (
+                <button
+                  key={mode}
+                  onClick={() => handleViewModeChange(mode)}
+                  className={`px-2 py-0.5 rounded transition-smooth ${
+                    viewMode === mode ? 'bg-blue-600/40 text-blue-200' : 'text-slate-400 hover:text-slate-200'
+                  } ${mode === 'split' ? 'hidden md:block' : ''}`}
+                  aria-pressed={viewMode === mode}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+
+            {note.createdBy === currentUser?.uid ? (
+              <button
+                onClick={() => setShowShare(true)}
+                className="text-slate-400 hover:text-blue-300 bg-slate-800/50 px-2.5 py-1 rounded-md border border-slate-700/30 flex items-center transition-smooth"
+                title="Atur siapa yang bisa melihat note ini"
+              >
+                <span className="mr-1.5">{NOTE_VISIBILITY_ICONS[sharing.visibility || 'home']}</span>
+                Bagikan
+              </button>
+            ) : sharing.visibility !== 'home' && (
+              <span
+                className="text-slate-400 bg-slate-800/50 px-2.5 py-1 rounded-md border border-slate-700/30"
+                title={NOTE_VISIBILITY_OPTIONS.find(option => option.value === sharing.visibility)?.description}
+              >
+                {NOTE_VISIBILITY_ICONS[sharing.visibility || 'home']} Dibagikan ke Anda
+              </span>
+            )}
+
+            <button
+              onClick={() => setShowReminder(true)}
+              className={`bg-slate-800/50 px-2.5 py-1 rounded-md border border-slate-700/30 flex items-center transition-smooth ${
+                reminderFireTime ? 'text-amber-300 hover:text-amber-200' : 'text-slate-400 hover:text-blue-300'
+              }`}
+              title={reminderFireTime && reminder
+                ? `${NOTE_REMINDER_RECURRENCE_LABELS[reminder.recurrence]}, berikutnya ${reminderFireTime.toLocaleString('id-ID')}`
+                : 'Pasang pengingat'}
+            >
+              <span className="mr-1.5">⏰</span>
+              {reminderFireTime ? formatReminderTime(reminderFireTime, new Date()) : 'Pengingat'}
+            </button>
+
+            <button
+              onClick={() => setShowHistory(true)}
+              className="text-slate-400 hover:text-blue-300 bg-slate-800/50 px-2.5 py-1 rounded-md border border-slate-700/30 flex items-center transition-smooth"
+              title="Riwayat revisi"
+            >
+              <svg className="w-3 h-3 mr-1.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+              </svg>
+              Riwayat
+            </button>
+
+            {isSyncing && (
               <div className="flex items-center bg-blue-900/30 px-2.5 py-1 rounded-md border border-blue-500/30">
                 <div className="animate-spin rounded-full h-3 w-3 border-b-2 border-blue-400 mr-1.5"></div>
                 <span className="text-blue-400">Menyimpan...</span>
               </div>
             )}
             
-            {isEditing && !isSaving && (
+            {isEditing && !isSyncing && (
               <span className="text-orange-400 bg-orange-900/30 px-2.5 py-1 rounded-md border border-orange-500/30 flex items-center">
                 <svg className="w-3 h-3 mr-1.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" />
@@ -175,7 +641,7 @@ const NoteEditor: React.FC<NoteEditorProps> = ({ note }) => {
               </span>
             )}
             
-            {!isEditing && !isSaving && lastSaved && (
+            {!isEditing && !isSyncing && lastSaved && (
               <span className="text-green-400 bg-green-900/30 px-2.5 py-1 rounded-md border border-green-500/30 flex items-center">
                 <svg className="w-3 h-3 mr-1.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
@@ -187,12 +653,12 @@ const NoteEditor: React.FC<NoteEditorProps> = ({ note }) => {
         </div>
 
         {/* Error Message */}
-        {error && (
+        {displayedError && (
           <div className="mt-3 p-3 bg-red-900/30 border border-red-500/30 rounded-lg flex items-center animate-fade-in" role="alert">
             <svg className="w-4 h-4 text-red-400 mr-2" fill="currentColor" viewBox="0 0 20 20">
               <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z" clipRule="evenodd" />
             </svg>
-            <span className="text-red-200 text-sm">{error}</span>
+            <span className="text-red-200 text-sm">{displayedError}</span>
             <button 
               onClick={() => setError('')}
               className="ml-auto text-red-400 hover:text-red-300"
@@ -205,23 +671,140 @@ const NoteEditor: React.FC<NoteEditorProps> = ({ note }) => {
         )}
       </div>
 
+      {viewMode !== 'preview' && (
+        <div className="px-6 py-2 border-b border-slate-700/30 bg-slate-900/20">
+          <MarkdownToolbar onFormat={handleFormat} disabled={!ready} />
+        </div>
+      )}
+
       {/* Content Editor */}
-      <div className="flex-1 p-6 glassmorphism bg-slate-800/20 overflow-auto">
-        <textarea
-          ref={contentRef}
-          value={content}
-          onChange={handleContentChange}
-          onFocus={() => setIsEditing(true)}
-          onBlur={handleBlur}
-          className="w-full h-full border-none outline-none bg-transparent resize-none text-slate-300 leading-relaxed focus:ring-0 focus:outline-none text-base"
-          placeholder="Mulai menulis..."
-          style={{
-            minHeight: '300px', // Ensure minimum height
-            lineHeight: '1.8'
-          }}
-        />
+      <div
+        className={`flex-1 flex flex-col md:flex-row glassmorphism bg-slate-800/20 overflow-hidden transition-smooth ${
+          isDraggingFile ? 'ring-2 ring-inset ring-blue-500/60' : ''
+        }`}
+        onDragOver={handleDragOver}
+        onDragLeave={() => setIsDraggingFile(false)}
+        onDrop={handleDrop}
+      >
+        {viewMode !== 'preview' && (
+          <div className={`flex-1 p-6 overflow-auto ${viewMode === 'split' ? 'md:border-r border-slate-700/30' : ''}`}>
+            <div className="relative h-full min-h-[300px]">
+              <textarea
+                ref={contentRef}
+                value={content}
+                onChange={handleContentChange}
+                onKeyDown={handleContentKeyDown}
+                onPaste={handleContentPaste}
+                onSelect={handleContentSelect}
+                onFocus={reportCurrentSelection}
+                onBlur={() => {
+                  reportSelection(null, null);
+                  setLinkQuery(null);
+                }}
+                onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+                readOnly={!ready}
+                className="w-full h-full border-none outline-none bg-transparent resize-none text-slate-300 leading-relaxed focus:ring-0 focus:outline-none text-base"
+                placeholder={ready ? 'Mulai menulis... (mendukung Markdown)' : 'Memuat...'}
+                style={{
+                  minHeight: '300px', // Ensure minimum height
+                  lineHeight: '1.8'
+                }}
+              />
+              <RemoteCursors
+                content={content}
+                presences={presences}
+                getName={getName}
+                getColor={getColor}
+                scrollTop={scrollTop}
+              />
+              {linkSuggestions.length > 0 && (
+                <ul
+                  className="absolute left-0 bottom-0 z-20 w-72 max-w-full card-modern shadow-hard border border-slate-600/40 py-1 animate-fade-in"
+                  role="listbox"
+                  aria-label="Saran link note"
+                >
+                  {linkSuggestions.map((suggestion, index) => (
+                    <li key={suggestion.id} role="option" aria-selected={index === activeLinkIndex}>
+                      <button
+                        type="button"
+                        onMouseDown={(e) => {
+                          // Textarea tetap fokus agar posisi kursor tidak hilang
+                          e.preventDefault();
+                          handleLinkSuggestion(suggestion);
+                        }}
+                        className={`w-full text-left px-3 py-1.5 text-sm truncate ${
+                          index === activeLinkIndex ? 'bg-blue-600/30 text-blue-100' : 'text-slate-300 hover:bg-slate-700/50'
+                        }`}
+                      >
+                        {suggestion.title}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        )}
+
+        {viewMode !== 'edit' && (
+          <div className="flex-1 p-6 overflow-auto">
+            <MarkdownPreview
+              content={content}
+              onToggleChecklist={ready ? handleToggleChecklist : undefined}
+              attachments={attachmentsById}
+              onOpenNoteLink={onOpenNoteLink}
+              hasNoteLink={hasNoteLink}
+            />
+          </div>
+        )}
       </div>
 
+      {/* Lampiran */}
+      <div className="px-6 py-2 border-t border-slate-700/30 bg-slate-900/20 flex flex-wrap items-center gap-2">
+        {attachments.map(attachment => (
+          <NoteAttachmentChip
+            key={attachment.id}
+            attachment={attachment}
+            onRemove={() => handleRemoveAttachment(attachment)}
+          />
+        ))}
+        {uploads.map(item => (
+          <span
+            key={item.id}
+            className="inline-flex items-center px-2 py-1 rounded-lg bg-blue-900/30 border border-blue-500/30 text-xs text-blue-300"
+          >
+            <div className="animate-spin rounded-full h-3 w-3 border-b-2 border-blue-400 mr-1.5"></div>
+            <span className="truncate max-w-[10rem]">{item.name}</span>
+            <span className="ml-1.5">{Math.round(item.progress * 100)}%</span>
+          </span>
+        ))}
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={!ready}
+          className="text-xs text-slate-400 hover:text-blue-300 px-2 py-1 rounded-md border border-dashed border-slate-600/50 transition-smooth disabled:opacity-50"
+          title="Lampirkan gambar atau berkas (bisa juga seret atau tempel ke editor)"
+        >
+          📎 Lampirkan
+        </button>
+        <input ref={fileInputRef} type="file" multiple onChange={handleFileInput} className="hidden" />
+      </div>
+
+      {/* Backlink */}
+      {backlinks.length > 0 && (
+        <div className="px-6 py-2 border-t border-slate-700/30 bg-slate-900/20 flex flex-wrap items-center gap-2 text-xs">
+          <span className="text-slate-500">Ditautkan dari</span>
+          {backlinks.map(backlink => (
+            <button
+              key={backlink.id}
+              onClick={() => onSelectNote(backlink)}
+              className="px-2 py-1 rounded-lg bg-emerald-900/20 border border-emerald-500/30 text-emerald-300 hover:bg-emerald-900/40 truncate max-w-[12rem] transition-smooth"
+            >
+              {backlink.title || 'Tanpa judul'}
+            </button>
+          ))}
+        </div>
+      )}
+
       {/* Footer */}
       <div className="p-4 border-t border-slate-700/30 bg-slate-800/50">
         <div className="flex flex-wrap items-center justify-between text-xs text-slate-400">
@@ -254,6 +837,30 @@ const NoteEditor: React.FC<NoteEditorProps> = ({ note }) => {
           </span>
         </div>
       </div>
+
+      {showShare && (
+        <NoteShareDialog
+          note={{ ...note, ...sharing, title }}
+          onClose={() => setShowShare(false)}
+        />
+      )}
+
+      {showReminder && (
+        <NoteReminderDialog
+          note={{ ...note, ...sharing, title, reminder }}
+          onClose={() => setShowReminder(false)}
+        />
+      )}
+
+      {showHistory && (
+        <NoteHistory
+          note={note}
+          currentTitle={title}
+          currentContent={content}
+          onClose={() => setShowHistory(false)}
+          onRestored={handleRestored}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,234 @@
+import React, { useState } from 'react';
+import {
+  createNoteFolder,
+  deleteNoteFolder,
+  moveNoteFolder,
+  renameNoteFolder
+} from '../../services/firebase/noteFolders';
+import { Note, NoteFolder } from '../../types/user';
+import {
+  NOTE_FOLDER_NAME_MAX_LENGTH,
+  UNFILED_FOLDER,
+  canMoveFolder,
+  flattenFolderTree,
+  getFolderPath,
+  getNoteFolderId
+} from '../../utils/noteOrganization';
+
+interface NoteFolderTreeProps {
+  homeId: string;
+  userId: string;
+  folders: NoteFolder[];
+  notes: Note[];
+  selected: string | null; // null = semua note, UNFILED_FOLDER = di luar folder
+  onSelect: (folderId: string | null) => void;
+}
+
+type FolderForm =
+  | { mode: 'create'; parentId: string | null; name: string }
+  | { mode: 'rename'; folderId: string; name: string }
+  | { mode: 'move'; folderId: string; parentId: string };
+
+const NoteFolderTree: React.FC<NoteFolderTreeProps> = ({
+  homeId,
+  userId,
+  folders,
+  notes,
+  selected,
+  onSelect
+}) => {
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [form, setForm] = useState<FolderForm | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const counts: { [folderId: string]: number } = {};
+  notes.forEach(note => {
+    const folderId = getNoteFolderId(note, folders) || UNFILED_FOLDER;
+    counts[folderId] = (counts[folderId] || 0) + 1;
+  });
+
+  // Folder disembunyikan jika salah satu induknya diciutkan
+  const isHidden = (folder: NoteFolder) => {
+    const visited = new Set<string>();
+    let parentId = folder.parentId;
+    while (parentId && !visited.has(parentId)) {
+      if (collapsed.has(parentId)) return true;
+      visited.add(parentId);
+      const currentId: string = parentId;
+      parentId = folders.find(candidate => candidate.id === currentId)?.parentId || null;
+    }
+    return false;
+  };
+
+  const tree = flattenFolderTree(folders).filter(({ folder }) => !isHidden(folder));
+  const hasChildren = (folderId: string) => folders.some(folder => folder.parentId === folderId);
+
+  const toggleCollapsed = (folderId: string) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(folderId)) {
+        next.delete(folderId);
+      } else {
+        next.add(folderId);
+      }
+      return next;
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form) return;
+
+    try {
+      setSaving(true);
+      setError('');
+
+      let result: { error: string | null };
+      if (form.mode === 'create') {
+        result = await createNoteFolder(homeId, userId, form.name, form.parentId);
+        if (form.parentId) {
+          setCollapsed(prev => {
+            const next = new Set(prev);
+            next.delete(form.parentId as string);
+            return next;
+          });
+        }
+      } else if (form.mode === 'rename') {
+        result = await renameNoteFolder(form.folderId, form.name);
+      } else {
+        result = await moveNoteFolder(form.folderId, form.parentId || null);
+      }
+
+      if (result.error) {
+        setError(result.error);
+        return;
+      }
+      setForm(null);
+    } catch (err: any) {
+      setError('Gagal menyimpan folder: ' + err.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (folder: NoteFolder) => {
+    if (!window.confirm(`Hapus folder "${folder.name}"? Note dan subfolder di dalamnya dipindahkan ke folder induk.`)) return;
+
+    setError('');
+    const { error } = await deleteNoteFolder(folder.id, userId);
+    if (error) {
+      setError(error);
+      return;
+    }
+    if (selected === folder.id) onSelect(folder.parentId);
+  };
+
+  const rowClass = (active: boolean) =>
+    `group flex items-center w-full px-2 py-1.5 rounded-md text-sm cursor-pointer transition-smooth ${
+      active ? 'bg-blue-600/20 text-blue-200' : 'text-slate-300 hover:bg-slate-700/40'
+    }`;
+
+  const renderForm = (depth: number) => form && (
+    <form onSubmit={handleSubmit} className="flex items-center gap-1 py-1" style={{ paddingLeft: depth * 12 + 8 }}>
+      {form.mode === 'move' ? (
+        <select
+          value={form.parentId}
+          onChange={(e) => setForm({ ...form, parentId: e.target.value })}
+          className="flex-1 min-w-0 bg-slate-800/60 border border-slate-600/30 rounded-md px-2 py-1 text-xs text-slate-200"
+          autoFocus
+        >
+          <option value="">(Tingkat teratas)</option>
+          {folders
+            .filter(folder => canMoveFolder(form.folderId, folder.id, folders))
+            .map(folder => (
+              <option key={folder.id} value={folder.id}>{getFolderPath(folder.id, folders)}</option>
+            ))}
+        </select>
+      ) : (
+        <input
+          type="text"
+          value={form.name}
+          onChange={(e) => setForm({ ...form, name: e.target.value })}
+          maxLength={NOTE_FOLDER_NAME_MAX_LENGTH}
+          placeholder="Nama folder..."
+          className="flex-1 min-w-0 bg-slate-800/60 border border-slate-600/30 rounded-md px-2 py-1 text-xs text-slate-200"
+          autoFocus
+        />
+      )}
+      <button type="submit" disabled={saving} className="px-2 py-1 text-xs rounded-md bg-blue-600/60 text-white disabled:opacity-50">
+        {form.mode === 'move' ? 'Pindah' : 'Simpan'}
+      </button>
+      <button type="button" onClick={() => setForm(null)} className="px-1.5 py-1 text-xs text-slate-400 hover:text-slate-200">
+        ✕
+      </button>
+    </form>
+  );
+
+  const actionClass = 'p-0.5 text-slate-500 hover:text-slate-200';
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-1">
+        <h3 className="text-xs font-semibold uppercase tracking-wide text-slate-500">Folder</h3>
+        <button
+          onClick={() => setForm({ mode: 'create', parentId: null, name: '' })}
+          className="text-xs text-blue-400 hover:text-blue-300"
+        >
+          + Folder
+        </button>
+      </div>
+
+      <div className={rowClass(selected === null)} onClick={() => onSelect(null)}>
+        <span className="flex-1 truncate">Semua note</span>
+        <span className="text-xs text-slate-500">{notes.length}</span>
+      </div>
+      <div className={rowClass(selected === UNFILED_FOLDER)} onClick={() => onSelect(UNFILED_FOLDER)}>
+        <span className="flex-1 truncate">Tanpa folder</span>
+        <span className="text-xs text-slate-500">{counts[UNFILED_FOLDER] || 0}</span>
+      </div>
+
+      {form?.mode === 'create' && form.parentId === null && renderForm(0)}
+
+      {tree.map(({ folder, depth }) => (
+        <React.Fragment key={folder.id}>
+          <div
+            className={rowClass(selected === folder.id)}
+            style={{ paddingLeft: depth * 12 + 8 }}
+            onClick={() => onSelect(folder.id)}
+          >
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                toggleCollapsed(folder.id);
+              }}
+              className={`w-4 mr-1 text-xs text-slate-500 ${hasChildren(folder.id) ? '' : 'invisible'}`}
+              aria-label={collapsed.has(folder.id) ? 'Buka folder' : 'Ciutkan folder'}
+            >
+              {collapsed.has(folder.id) ? '▸' : '▾'}
+            </button>
+            <span className="mr-1.5">📁</span>
+            <span className="flex-1 truncate">{folder.name}</span>
+            <span className="hidden group-hover:flex items-center mr-1" onClick={(e) => e.stopPropagation()}>
+              <button onClick={() => setForm({ mode: 'create', parentId: folder.id, name: '' })} className={actionClass} title="Subfolder baru">+</button>
+              <button onClick={() => setForm({ mode: 'rename', folderId: folder.id, name: folder.name })} className={actionClass} title="Ganti nama">✎</button>
+              <button onClick={() => setForm({ mode: 'move', folderId: folder.id, parentId: folder.parentId || '' })} className={actionClass} title="Pindahkan">⇄</button>
+              <button onClick={() => handleDelete(folder)} className={`${actionClass} hover:text-red-400`} title="Hapus folder">🗑</button>
+            </span>
+            <span className="text-xs text-slate-500">{counts[folder.id] || 0}</span>
+          </div>
+          {form && (
+            (form.mode === 'create' && form.parentId === folder.id) ||
+            (form.mode !== 'create' && form.folderId === folder.id)
+          ) && renderForm(form.mode === 'create' ? depth + 1 : depth)}
+        </React.Fragment>
+      ))}
+
+      {error && (
+        <p className="mt-1 text-xs text-red-300" role="alert">{error}</p>
+      )}
+    </div>
+  );
+};
+
+export default NoteFolderTree;
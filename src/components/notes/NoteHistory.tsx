@@ -0,0 +1,225 @@
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { getNoteRevisions, restoreNoteRevision } from '../../services/firebase/notes';
+import { getHomeById } from '../../services/firebase/home';
+import { useHomeMembers } from '../../hooks/useHomeMembers';
+import { Note, NoteRevision } from '../../types/user';
+import { getMemberRole } from '../../utils/homePermissions';
+import { FORMER_MEMBER_NAME } from '../../utils/memberProfile';
+import { NOTE_REVISION_REASON_LABELS, diffLines } from '../../utils/noteRevisions';
+
+interface NoteHistoryProps {
+  note: Note;
+  currentTitle: string;
+  currentContent: string;
+  onClose: () => void;
+  onRestored: (title: string, content: string) => void;
+}
+
+type CompareTarget = 'current' | 'previous';
+
+const DIFF_LINE_STYLES = {
+  same: 'text-slate-400',
+  added: 'bg-green-900/30 text-green-200',
+  removed: 'bg-red-900/30 text-red-200 line-through decoration-red-400/60',
+};
+
+const DIFF_LINE_PREFIX = { same: ' ', added: '+', removed: '-' };
+
+const formatTime = (date: Date) => date.toLocaleString('id-ID', {
+  day: 'numeric',
+  month: 'short',
+  hour: '2-digit',
+  minute: '2-digit'
+});
+
+const NoteHistory: React.FC<NoteHistoryProps> = ({
+  note,
+  currentTitle,
+  currentContent,
+  onClose,
+  onRestored
+}) => {
+  const { currentUser } = useAuth();
+  const { getName } = useHomeMembers(note.homeId);
+  const [revisions, setRevisions] = useState<NoteRevision[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareTo, setCompareTo] = useState<CompareTarget>('current');
+  const [loading, setLoading] = useState(true);
+  const [restoring, setRestoring] = useState(false);
+  const [canRestore, setCanRestore] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let active = true;
+    setLoading(true);
+
+    getNoteRevisions(note.id).then(({ revisions, error }) => {
+      if (!active) return;
+      if (error) setError(error);
+      setRevisions(revisions);
+      setSelectedId(revisions[0]?.id || null);
+      setLoading(false);
+    });
+
+    return () => {
+      active = false;
+    };
+  }, [note.id]);
+
+  // Tamu hanya bisa melihat riwayat
+  useEffect(() => {
+    if (!currentUser) return;
+
+    getHomeById(note.homeId).then(({ home }) => {
+      const role = home ? getMemberRole(home, currentUser.uid) : null;
+      setCanRestore(!!role && role !== 'guest');
+    });
+  }, [note.homeId, currentUser]);
+
+  const selectedIndex = revisions.findIndex(revision => revision.id === selectedId);
+  const selected = selectedIndex >= 0 ? revisions[selectedIndex] : null;
+  const previous = selectedIndex >= 0 ? revisions[selectedIndex + 1] : undefined;
+
+  // "Versi saat ini": apa yang berubah jika revisi dipulihkan.
+  // "Versi sebelumnya": apa yang diubah pada revisi ini dibanding revisi sebelumnya.
+  const diff = !selected
+    ? []
+    : compareTo === 'current'
+      ? diffLines(currentContent, selected.content)
+      : diffLines(previous?.content || '', selected.content);
+  const titleChanged = !!selected && (compareTo === 'current'
+    ? selected.title !== currentTitle
+    : !!previous && selected.title !== previous.title);
+  const hasChanges = titleChanged || diff.some(line => line.type !== 'same');
+
+  const handleRestore = async () => {
+    if (!currentUser || !selected) return;
+    if (!window.confirm(`Pulihkan catatan ke versi ${formatTime(selected.savedAt)}? Versi saat ini tetap tersimpan di riwayat.`)) return;
+
+    try {
+      setRestoring(true);
+      setError('');
+
+      const { error } = await restoreNoteRevision(note.id, selected.id, currentUser.uid);
+      if (error) {
+        setError(error);
+        return;
+      }
+
+      onRestored(selected.title, selected.content);
+    } catch (err: any) {
+      setError('Gagal memulihkan catatan: ' + err.message);
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="card-modern w-full max-w-4xl max-h-[90vh] flex flex-col animate-scale-in">
+        <div className="flex items-center justify-between p-6 border-b border-slate-700/30">
+          <div>
+            <h3 className="text-xl font-semibold text-white">Riwayat Catatan</h3>
+            <p className="text-sm text-slate-400">{currentTitle || 'Tanpa judul'}</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-smooth" aria-label="Tutup riwayat">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {error && (
+          <div className="mx-6 mt-4 p-3 bg-red-900/30 border border-red-500/30 rounded-lg text-red-200 text-sm" role="alert">
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <div className="loading-spinner"></div>
+          </div>
+        ) : revisions.length === 0 ? (
+          <p className="p-6 text-sm text-slate-400">
+            Belum ada revisi. Revisi disimpan otomatis setiap kali sesi edit baru dimulai.
+          </p>
+        ) : (
+          <div className="flex-1 min-h-0 flex flex-col md:flex-row">
+            <ul className="md:w-64 flex-shrink-0 overflow-y-auto border-b md:border-b-0 md:border-r border-slate-700/30 max-h-48 md:max-h-none">
+              {revisions.map(revision => (
+                <li key={revision.id}>
+                  <button
+                    onClick={() => setSelectedId(revision.id)}
+                    className={`w-full text-left px-4 py-3 transition-smooth ${
+                      revision.id === selectedId ? 'bg-slate-700/60' : 'hover:bg-slate-800/60'
+                    }`}
+                  >
+                    <p className="text-sm font-medium text-white">{formatTime(revision.savedAt)}</p>
+                    <p className="text-xs text-slate-400 truncate">{getName(revision.authorId, FORMER_MEMBER_NAME)}</p>
+                    <p className="text-xs text-slate-500">{NOTE_REVISION_REASON_LABELS[revision.reason]}</p>
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            {selected && (
+              <div className="flex-1 min-w-0 flex flex-col">
+                <div className="flex flex-wrap items-center justify-between gap-2 px-6 py-3 border-b border-slate-700/30">
+                  <div className="flex items-center space-x-2 text-xs">
+                    <span className="text-slate-400">Bandingkan dengan</span>
+                    {(['current', 'previous'] as CompareTarget[]).map(target => (
+                      <button
+                        key={target}
+                        onClick={() => setCompareTo(target)}
+                        className={`px-3 py-1 rounded-full transition-smooth ${
+                          compareTo === target ? 'bg-indigo-600/80 text-white' : 'bg-slate-800/60 text-slate-300 hover:bg-slate-700/60'
+                        }`}
+                      >
+                        {target === 'current' ? 'Versi saat ini' : 'Versi sebelumnya'}
+                      </button>
+                    ))}
+                  </div>
+                  {canRestore && (
+                    <button
+                      onClick={handleRestore}
+                      disabled={restoring}
+                      className="btn-primary text-sm px-4 py-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {restoring ? 'Memulihkan...' : 'Pulihkan versi ini'}
+                    </button>
+                  )}
+                </div>
+
+                <div className="flex-1 overflow-auto p-6">
+                  {titleChanged && (
+                    <p className="mb-4 text-sm text-slate-300">
+                      Judul: <span className="text-red-300 line-through">
+                        {compareTo === 'current' ? currentTitle : previous?.title}
+                      </span>{' '}
+                      <span className="text-green-300">{selected.title}</span>
+                    </p>
+                  )}
+                  {!hasChanges ? (
+                    <p className="text-sm text-slate-400">Tidak ada perbedaan.</p>
+                  ) : (
+                    <pre className="text-sm font-mono whitespace-pre-wrap break-words">
+                      {diff.map((line, index) => (
+                        <div key={index} className={`px-2 ${DIFF_LINE_STYLES[line.type]}`}>
+                          <span className="select-none opacity-60 mr-2">{DIFF_LINE_PREFIX[line.type]}</span>
+                          {line.text || ' '}
+                        </div>
+                      ))}
+                    </pre>
+                  )}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default NoteHistory;
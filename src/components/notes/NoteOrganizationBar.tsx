@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { NoteFolder, NoteOrganization } from '../../types/user';
+import {
+  NOTE_COLORS,
+  NOTE_MAX_TAGS,
+  NOTE_TAG_MAX_LENGTH,
+  flattenFolderTree,
+  getNoteFolderId,
+  normalizeNoteTag
+} from '../../utils/noteOrganization';
+
+interface NoteOrganizationBarProps {
+  organization: NoteOrganization;
+  folders: NoteFolder[];
+  onChange: (changes: NoteOrganization) => void;
+}
+
+const NoteOrganizationBar: React.FC<NoteOrganizationBarProps> = ({ organization, folders, onChange }) => {
+  const [tagInput, setTagInput] = useState('');
+  const tags = organization.tags || [];
+  const folderId = getNoteFolderId(organization, folders);
+
+  const addTag = () => {
+    const tag = normalizeNoteTag(tagInput);
+    setTagInput('');
+    if (!tag || tags.includes(tag) || tags.length >= NOTE_MAX_TAGS) return;
+    onChange({ tags: [...tags, tag] });
+  };
+
+  const handleTagKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      addTag();
+    } else if (e.key === 'Backspace' && !tagInput && tags.length > 0) {
+      onChange({ tags: tags.slice(0, -1) });
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mb-3 text-xs">
+      <button
+        onClick={() => onChange({ pinned: !organization.pinned })}
+        className={`px-2 py-1 rounded-md border transition-smooth ${
+          organization.pinned
+            ? 'bg-amber-900/30 border-amber-500/40 text-amber-300'
+            : 'bg-slate-800/50 border-slate-700/30 text-slate-400 hover:text-slate-200'
+        }`}
+        aria-pressed={!!organization.pinned}
+        title={organization.pinned ? 'Lepas sematan' : 'Sematkan di atas daftar'}
+      >
+        📌 {organization.pinned ? 'Disematkan' : 'Sematkan'}
+      </button>
+
+      <select
+        value={folderId || ''}
+        onChange={(e) => onChange({ folderId: e.target.value || null })}
+        className="bg-slate-800/50 border border-slate-700/30 rounded-md px-2 py-1 text-slate-300"
+        aria-label="Folder"
+      >
+        <option value="">Tanpa folder</option>
+        {flattenFolderTree(folders).map(({ folder, depth }) => (
+          <option key={folder.id} value={folder.id}>
+            {'  '.repeat(depth)}{folder.name}
+          </option>
+        ))}
+      </select>
+
+      <div className="flex items-center gap-1" role="radiogroup" aria-label="Warna note">
+        <button
+          onClick={() => onChange({ color: null })}
+          className={`w-4 h-4 rounded-full border ${
+            organization.color ? 'border-slate-600' : 'border-white'
+          } bg-slate-800 text-[9px] leading-none text-slate-500`}
+          role="radio"
+          aria-checked={!organization.color}
+          title="Tanpa warna"
+        >
+          ✕
+        </button>
+        {NOTE_COLORS.map(({ value, label }) => (
+          <button
+            key={value}
+            onClick={() => onChange({ color: value })}
+            className={`w-4 h-4 rounded-full border ${
+              organization.color === value ? 'border-white' : 'border-transparent'
+            }`}
+            style={{ backgroundColor: value }}
+            role="radio"
+            aria-checked={organization.color === value}
+            title={label}
+          />
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-1 flex-1 min-w-[160px] bg-slate-800/50 border border-slate-700/30 rounded-md px-1.5 py-0.5">
+        {tags.map(tag => (
+          <span key={tag} className="flex items-center px-1.5 rounded-full bg-slate-700/60 text-slate-300">
+            #{tag}
+            <button
+              onClick={() => onChange({ tags: tags.filter(t => t !== tag) })}
+              className="ml-1 text-slate-500 hover:text-slate-200"
+              aria-label={`Hapus tag ${tag}`}
+            >
+              ×
+            </button>
+          </span>
+        ))}
+        {tags.length < NOTE_MAX_TAGS && (
+          <input
+            type="text"
+            value={tagInput}
+            onChange={(e) => setTagInput(e.target.value)}
+            onKeyDown={handleTagKeyDown}
+            onBlur={addTag}
+            maxLength={NOTE_TAG_MAX_LENGTH + 1}
+            placeholder={tags.length === 0 ? 'Tambah tag...' : ''}
+            className="flex-1 min-w-[60px] bg-transparent py-0.5 text-slate-300 placeholder-slate-500 focus:outline-none"
+          />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default NoteOrganizationBar;
@@ -0,0 +1,59 @@
+import React from 'react';
+import { NotePresence } from '../../types/user';
+import { getMemberInitials } from '../../utils/memberProfile';
+
+interface NotePresenceAvatarsProps {
+  presences: NotePresence[];
+  getName: (userId: string, fallback?: string) => string;
+  getColor: (userId: string) => string;
+  size?: 'sm' | 'md';
+  max?: number;
+}
+
+// Satu avatar per anggota walaupun note dibuka di beberapa tab
+const NotePresenceAvatars: React.FC<NotePresenceAvatarsProps> = ({ presences, getName, getColor, size = 'md', max = 4 }) => {
+  const users: { userId: string; typing: boolean }[] = [];
+  presences.forEach(presence => {
+    const existing = users.find(user => user.userId === presence.userId);
+    if (existing) {
+      existing.typing = existing.typing || presence.state === 'typing';
+    } else {
+      users.push({ userId: presence.userId, typing: presence.state === 'typing' });
+    }
+  });
+
+  if (users.length === 0) return null;
+
+  const shown = users.slice(0, max);
+  const sizeClass = size === 'sm' ? 'w-5 h-5 text-[9px]' : 'w-7 h-7 text-xs';
+
+  return (
+    <div className="flex items-center -space-x-1.5">
+      {shown.map(({ userId, typing }) => {
+        const name = getName(userId);
+        return (
+          <div
+            key={userId}
+            className={`${sizeClass} rounded-full flex items-center justify-center font-semibold text-white border-2 border-slate-900 ${
+              typing ? 'animate-pulse' : ''
+            }`}
+            style={{ backgroundColor: getColor(userId) }}
+            title={`${name} sedang ${typing ? 'mengetik' : 'melihat'}`}
+          >
+            {getMemberInitials(name)}
+          </div>
+        );
+      })}
+      {users.length > shown.length && (
+        <div
+          className={`${sizeClass} rounded-full flex items-center justify-center font-semibold text-slate-200 bg-slate-700 border-2 border-slate-900`}
+          title={users.slice(shown.length).map(({ userId }) => getName(userId)).join(', ')}
+        >
+          +{users.length - shown.length}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NotePresenceAvatars;
@@ -0,0 +1,173 @@
+import React, { useState } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { updateNoteReminder } from '../../services/firebase/notes';
+import { useHomeMembers } from '../../hooks/useHomeMembers';
+import { Note, NoteReminderRecurrence } from '../../types/user';
+import { NOTE_REMINDER_RECURRENCE_LABELS, createReminder, toDateTimeLocalValue } from '../../utils/noteReminders';
+import { canViewNote } from '../../utils/noteVisibility';
+
+interface NoteReminderDialogProps {
+  note: Pick<Note, 'id' | 'homeId' | 'title' | 'visibility' | 'readers' | 'reminder'>;
+  onClose: () => void;
+}
+
+// Pengingat baru default satu jam dari sekarang, dibulatkan ke menit
+const getDefaultDueAt = () => {
+  const date = new Date(Date.now() + 60 * 60 * 1000);
+  date.setSeconds(0, 0);
+  return date;
+};
+
+const NoteReminderDialog: React.FC<NoteReminderDialogProps> = ({ note, onClose }) => {
+  const { currentUser } = useAuth();
+  const { members, getName } = useHomeMembers(note.homeId);
+  const existing = note.reminder && !note.reminder.doneAt ? note.reminder : null;
+  const [dueAt, setDueAt] = useState(() => toDateTimeLocalValue(existing ? existing.dueAt : getDefaultDueAt()));
+  const [recurrence, setRecurrence] = useState<NoteReminderRecurrence>(existing?.recurrence || 'none');
+  const [recipients, setRecipients] = useState<string[]>(existing?.recipients || []);
+  const [everyone, setEveryone] = useState(!existing || existing.recipients.length === 0);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  // Pengingat note terbatas hanya bisa dikirim ke anggota yang bisa membukanya
+  const candidates = members.filter(member => canViewNote(note, member.uid));
+
+  const toggleRecipient = (memberId: string) => {
+    setRecipients(current => current.includes(memberId)
+      ? current.filter(id => id !== memberId)
+      : [...current, memberId]);
+  };
+
+  const save = async (remove: boolean) => {
+    if (!currentUser) return;
+
+    const date = new Date(dueAt);
+    if (!remove && isNaN(date.getTime())) {
+      setError('Waktu pengingat tidak valid');
+      return;
+    }
+
+    setSaving(true);
+    setError('');
+    const reminder = remove ? null : createReminder(date, recurrence, everyone ? [] : recipients, currentUser.uid);
+    const { error } = await updateNoteReminder(note.id, reminder);
+    setSaving(false);
+
+    if (error) {
+      setError(error);
+      return;
+    }
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="card-modern w-full max-w-md max-h-[90vh] flex flex-col animate-scale-in">
+        <div className="flex items-center justify-between p-6 border-b border-slate-700/30">
+          <div>
+            <h3 className="text-xl font-semibold text-white">Pengingat</h3>
+            <p className="text-sm text-slate-400">{note.title || 'Tanpa judul'}</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-smooth" aria-label="Tutup">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          {error && (
+            <div className="p-3 bg-red-900/30 border border-red-500/30 rounded-lg text-red-200 text-sm" role="alert">
+              {error}
+            </div>
+          )}
+
+          <label className="block">
+            <span className="block text-sm font-semibold text-slate-300 mb-1">Waktu</span>
+            <input
+              type="datetime-local"
+              value={dueAt}
+              onChange={(e) => setDueAt(e.target.value)}
+              disabled={saving}
+              className="input-modern w-full"
+            />
+          </label>
+
+          <label className="block">
+            <span className="block text-sm font-semibold text-slate-300 mb-1">Ulangi</span>
+            <select
+              value={recurrence}
+              onChange={(e) => setRecurrence(e.target.value as NoteReminderRecurrence)}
+              disabled={saving}
+              className="input-modern w-full"
+            >
+              {(Object.keys(NOTE_REMINDER_RECURRENCE_LABELS) as NoteReminderRecurrence[]).map(value => (
+                <option key={value} value={value}>{NOTE_REMINDER_RECURRENCE_LABELS[value]}</option>
+              ))}
+            </select>
+          </label>
+
+          <div>
+            <h4 className="text-sm font-semibold text-slate-300 mb-2">Ingatkan</h4>
+            <label className="flex items-center space-x-3 px-3 py-2 rounded-lg hover:bg-slate-800/40 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={everyone}
+                onChange={() => setEveryone(!everyone)}
+                disabled={saving}
+                className="accent-blue-500"
+              />
+              <span className="text-sm text-slate-200">Semua anggota yang bisa membuka note</span>
+            </label>
+            {!everyone && (
+              <ul className="space-y-1 max-h-48 overflow-y-auto mt-1">
+                {candidates.map(member => (
+                  <li key={member.uid}>
+                    <label className="flex items-center space-x-3 px-3 py-2 rounded-lg hover:bg-slate-800/40 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={recipients.includes(member.uid)}
+                        onChange={() => toggleRecipient(member.uid)}
+                        disabled={saving}
+                        className="accent-blue-500"
+                      />
+                      <span className="text-sm text-slate-200">
+                        {getName(member.uid)}{member.uid === currentUser?.uid ? ' (Anda)' : ''}
+                      </span>
+                    </label>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+
+        <div className="flex justify-between space-x-4 p-6 border-t border-slate-700/30">
+          {existing ? (
+            <button
+              onClick={() => save(true)}
+              disabled={saving}
+              className="px-4 py-3 text-sm text-red-300 hover:text-red-200 disabled:opacity-50"
+            >
+              Hapus Pengingat
+            </button>
+          ) : <span />}
+          <div className="flex space-x-4">
+            <button onClick={onClose} disabled={saving} className="btn-secondary px-6 py-3 transition-smooth focus-ring">
+              Batal
+            </button>
+            <button
+              onClick={() => save(false)}
+              disabled={saving || !dueAt || (!everyone && recipients.length === 0)}
+              className="btn-primary px-6 py-3 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving ? 'Menyimpan...' : 'Simpan'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default NoteReminderDialog;
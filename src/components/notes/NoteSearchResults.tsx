@@ -0,0 +1,73 @@
+import React from 'react';
+import { Note } from '../../types/user';
+import { NoteSearchResult, TextRange } from '../../types/search';
+
+interface NoteSearchResultsProps {
+  results: NoteSearchResult[];
+  notes: Note[];
+  selectedNoteId: string | null;
+  onSelect: (note: Note, result: NoteSearchResult) => void;
+}
+
+// Teks dengan bagian yang cocok ditandai <mark>
+const Highlighted: React.FC<{ text: string; ranges: TextRange[] }> = ({ text, ranges }) => {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  ranges.forEach(({ start, end }, index) => {
+    if (start < cursor) return;
+    if (start > cursor) parts.push(text.slice(cursor, start));
+    parts.push(
+      <mark key={index} className="bg-yellow-400/30 text-yellow-100 rounded-sm px-0.5">
+        {text.slice(start, end)}
+      </mark>
+    );
+    cursor = end;
+  });
+  if (cursor < text.length) parts.push(text.slice(cursor));
+  return <>{parts}</>;
+};
+
+const NoteSearchResults: React.FC<NoteSearchResultsProps> = ({ results, notes, selectedNoteId, onSelect }) => {
+  if (results.length === 0) {
+    return (
+      <div className="text-center p-6 text-slate-400">
+        <p>Tidak ada note yang cocok</p>
+        <p className="text-sm mt-2">Coba kata lain atau periksa ejaannya</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {results.map(result => {
+        const note = notes.find(candidate => candidate.id === result.noteId);
+        if (!note) return null;
+
+        return (
+          <button
+            key={result.noteId}
+            onClick={() => onSelect(note, result)}
+            className={`block w-full text-left p-3 rounded-lg glassmorphism transition-smooth ${
+              selectedNoteId === note.id
+                ? 'bg-blue-600/20 border border-blue-500/30'
+                : 'bg-slate-800/40 hover:bg-slate-700/40 border border-slate-700/30'
+            }`}
+          >
+            <h3 className="font-medium text-slate-200 truncate">
+              <Highlighted text={note.title} ranges={result.titleHighlights} />
+            </h3>
+            {result.snippet && (
+              <p className="mt-1 text-xs text-slate-400 line-clamp-2">
+                {result.snippet.leading && '… '}
+                <Highlighted text={result.snippet.text} ranges={result.snippet.highlights} />
+                {result.snippet.trailing && ' …'}
+              </p>
+            )}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default NoteSearchResults;
@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { updateNoteVisibility } from '../../services/firebase/notes';
+import { useHomeMembers } from '../../hooks/useHomeMembers';
+import { Note, NoteVisibility } from '../../types/user';
+import { NOTE_VISIBILITY_ICONS, NOTE_VISIBILITY_OPTIONS, getNoteSharedMembers, getNoteVisibility } from '../../utils/noteVisibility';
+
+interface NoteShareDialogProps {
+  note: Pick<Note, 'id' | 'homeId' | 'title' | 'createdBy' | 'visibility' | 'readers'>;
+  onClose: () => void;
+}
+
+const NoteShareDialog: React.FC<NoteShareDialogProps> = ({ note, onClose }) => {
+  const { currentUser } = useAuth();
+  const { members, getName } = useHomeMembers(note.homeId);
+  const [visibility, setVisibility] = useState<NoteVisibility>(getNoteVisibility(note));
+  const [sharedWith, setSharedWith] = useState<string[]>(getNoteSharedMembers(note));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const others = members.filter(member => member.uid !== currentUser?.uid);
+
+  const toggleMember = (memberId: string) => {
+    setSharedWith(current => current.includes(memberId)
+      ? current.filter(id => id !== memberId)
+      : [...current, memberId]);
+  };
+
+  const handleSave = async () => {
+    if (!currentUser) return;
+
+    setSaving(true);
+    setError('');
+    const { error } = await updateNoteVisibility(note.id, currentUser.uid, visibility, sharedWith);
+    setSaving(false);
+
+    if (error) {
+      setError(error);
+      return;
+    }
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="card-modern w-full max-w-md max-h-[90vh] flex flex-col animate-scale-in">
+        <div className="flex items-center justify-between p-6 border-b border-slate-700/30">
+          <div>
+            <h3 className="text-xl font-semibold text-white">Bagikan Note</h3>
+            <p className="text-sm text-slate-400">{note.title || 'Tanpa judul'}</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-smooth" aria-label="Tutup">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          {error && (
+            <div className="p-3 bg-red-900/30 border border-red-500/30 rounded-lg text-red-200 text-sm" role="alert">
+              {error}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            {NOTE_VISIBILITY_OPTIONS.map(option => (
+              <label
+                key={option.value}
+                className={`flex items-start space-x-3 p-3 rounded-lg cursor-pointer transition-smooth ${
+                  visibility === option.value ? 'bg-slate-700/60 border border-slate-500/40' : 'bg-slate-800/40 border border-transparent'
+                }`}
+              >
+                <input
+                  type="radio"
+                  name="note-visibility"
+                  value={option.value}
+                  checked={visibility === option.value}
+                  onChange={() => setVisibility(option.value)}
+                  disabled={saving}
+                  className="mt-1 accent-blue-500"
+                />
+                <span>
+                  <span className="block text-sm text-slate-200">
+                    {NOTE_VISIBILITY_ICONS[option.value]} {option.label}
+                  </span>
+                  <span className="block text-xs text-slate-400">{option.description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+
+          {visibility === 'members' && (
+            <div>
+              <h4 className="text-sm font-semibold text-slate-300 mb-2">Bagikan ke</h4>
+              {others.length === 0 ? (
+                <p className="text-sm text-slate-400">Belum ada anggota lain di rumah ini.</p>
+              ) : (
+                <ul className="space-y-1 max-h-48 overflow-y-auto">
+                  {others.map(member => (
+                    <li key={member.uid}>
+                      <label className="flex items-center space-x-3 px-3 py-2 rounded-lg hover:bg-slate-800/40 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={sharedWith.includes(member.uid)}
+                          onChange={() => toggleMember(member.uid)}
+                          disabled={saving}
+                          className="accent-blue-500"
+                        />
+                        <span className="text-sm text-slate-200">{getName(member.uid)}</span>
+                      </label>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end space-x-4 p-6 border-t border-slate-700/30">
+          <button onClick={onClose} disabled={saving} className="btn-secondary px-6 py-3 transition-smooth focus-ring">
+            Batal
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving || (visibility === 'members' && sharedWith.length === 0)}
+            className="btn-primary px-6 py-3 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {saving ? 'Menyimpan...' : 'Simpan'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default NoteShareDialog;
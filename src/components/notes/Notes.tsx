@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useLayoutEffect } from 'react';
+import React, { useState, useEffect, useLayoutEffect, useMemo } from 'react';
 import { useParams } from 'react-router-dom';
 import { useAuth } from '../../contexts/AuthContext';
 import { 
@@ -6,10 +6,33 @@ import {
   subscribeToHomeNotes, 
   deleteNote 
 } from '../../services/firebase/notes';
-import { Note } from '../../types/user';
+import { subscribeToNoteFolders } from '../../services/firebase/noteFolders';
+import { subscribeToHomeNotePresence } from '../../services/firebase/notePresence';
+import { useHomeMembers } from '../../hooks/useHomeMembers';
+import { useNoteSearch } from '../../hooks/useNoteSearch';
+import { Note, NoteFolder, NotePresence, NoteSortOrder } from '../../types/user';
+import { NoteSearchResult, TextRange } from '../../types/search';
+import {
+  NOTE_SORT_LABELS,
+  UNFILED_FOLDER,
+  getFolderPath,
+  getNoteFolderId,
+  getNoteTagCounts,
+  sortNotes
+} from '../../utils/noteOrganization';
+import { NOTE_VISIBILITY_ICONS, getNoteVisibility, isRestrictedNote } from '../../utils/noteVisibility';
+import { findNoteByLinkTitle } from '../../utils/noteLinks';
 import NoteEditor from './NoteEditor';
+import NoteFolderTree from './NoteFolderTree';
+import NotePresenceAvatars from './NotePresenceAvatars';
+import NoteSearchResults from './NoteSearchResults';
 
-const Notes: React.FC = () => {
+interface NotesProps {
+  openNoteId?: string | null; // Note yang dibuka dari luar, mis. dari pengingat di dashboard
+  onNoteOpened?: () => void;
+}
+
+const Notes: React.FC<NotesProps> = ({ openNoteId, onNoteOpened }) => {
   const { homeId } = useParams<{ homeId: string }>();
   const { currentUser } = useAuth();
   const [notes, setNotes] = useState<Note[]>([]);
@@ -20,6 +43,14 @@ const Notes: React.FC = () => {
   const [error, setError] = useState('');
   const [showSidebar, setShowSidebar] = useState(true);
   const [isMobile, setIsMobile] = useState(false);
+  const [presence, setPresence] = useState<{ [noteId: string]: NotePresence[] }>({});
+  const [folders, setFolders] = useState<NoteFolder[]>([]);
+  const [selectedFolder, setSelectedFolder] = useState<string | null>(null);
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [sortOrder, setSortOrder] = useState<NoteSortOrder>('updated');
+  const [searchQuery, setSearchQuery] = useState('');
+  const [jumpTo, setJumpTo] = useState<TextRange | null>(null);
+  const { getName, getColor } = useHomeMembers(homeId);
 
   // Check window size to determine mobile view
   useLayoutEffect(() => {
@@ -37,16 +68,86 @@ const Notes: React.FC = () => {
   }, []);
 
   useEffect(() => {
-    if (!homeId) return;
+    if (!homeId || !currentUser) return;
 
-    const unsubscribe = subscribeToHomeNotes(homeId, (updatedNotes) => {
+    const unsubscribe = subscribeToHomeNotes(homeId, currentUser.uid, (updatedNotes) => {
       setNotes(updatedNotes);
       setLoading(false);
-    });
+    }, sortOrder);
+
+    return () => unsubscribe();
+  }, [homeId, currentUser, sortOrder]);
+
+  // Note yang terbuka dihapus atau tidak lagi dibagikan ke user ini
+  useEffect(() => {
+    if (!loading && selectedNote && !notes.some(note => note.id === selectedNote.id)) {
+      setSelectedNote(null);
+    }
+  }, [notes, loading, selectedNote]);
+
+  useEffect(() => {
+    if (loading || !openNoteId) return;
+
+    const note = notes.find(item => item.id === openNoteId);
+    if (note) {
+      setSelectedNote(note);
+      setJumpTo(null);
+    }
+    onNoteOpened?.();
+  }, [openNoteId, notes, loading, onNoteOpened]);
+
+  useEffect(() => {
+    if (!homeId) return;
 
+    const unsubscribe = subscribeToNoteFolders(homeId, setFolders);
     return () => unsubscribe();
   }, [homeId]);
 
+  // Folder yang dipilih sudah dihapus anggota lain
+  useEffect(() => {
+    if (selectedFolder && selectedFolder !== UNFILED_FOLDER && !folders.some(folder => folder.id === selectedFolder)) {
+      setSelectedFolder(null);
+    }
+  }, [folders, selectedFolder]);
+
+  // Pencarian selalu mencakup semua note, tanpa filter folder dan tag
+  const { results: searchResults, indexing, searching } = useNoteSearch(homeId, notes, loading, searchQuery);
+  const isSearching = searchQuery.trim().length > 0;
+
+  const tagCounts = useMemo(() => getNoteTagCounts(notes), [notes]);
+
+  // Filter tag bersifat "dan": note harus memiliki semua tag yang dipilih
+  const visibleNotes = useMemo(() => {
+    const filtered = notes.filter(note => {
+      if (selectedFolder !== null) {
+        const folderId = getNoteFolderId(note, folders);
+        if ((folderId || UNFILED_FOLDER) !== selectedFolder) return false;
+      }
+      return selectedTags.every(tag => (note.tags || []).includes(tag));
+    });
+    return sortNotes(filtered, sortOrder, currentUser?.uid);
+  }, [notes, folders, selectedFolder, selectedTags, sortOrder, currentUser]);
+
+  const toggleTag = (tag: string) => {
+    setSelectedTags(prev => prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag]);
+  };
+
+  // Anggota lain yang sedang membuka tiap note
+  useEffect(() => {
+    if (!homeId || !currentUser) return;
+
+    const unsubscribe = subscribeToHomeNotePresence(homeId, (updated) => {
+      const others: { [noteId: string]: NotePresence[] } = {};
+      Object.keys(updated).forEach(noteId => {
+        const presences = updated[noteId].filter(presence => presence.userId !== currentUser.uid);
+        if (presences.length > 0) others[noteId] = presences;
+      });
+      setPresence(others);
+    });
+
+    return () => unsubscribe();
+  }, [homeId, currentUser]);
+
   // If on mobile, and there's a selected note, hide sidebar by default
   useEffect(() => {
     if (isMobile && selectedNote) {
@@ -60,7 +161,12 @@ const Notes: React.FC = () => {
 
     try {
       setError('');
-      const { note, error } = await createNote(homeId, currentUser.uid, newNoteTitle.trim());
+      // Note baru masuk ke folder yang sedang dibuka
+      const folderId = selectedFolder && selectedFolder !== UNFILED_FOLDER ? selectedFolder : null;
+      const { note, error } = await createNote(homeId, currentUser.uid, newNoteTitle.trim(), '', undefined, {
+        folderId,
+        tags: selectedTags
+      });
       
       if (error) {
         setError(error);
@@ -82,11 +188,12 @@ const Notes: React.FC = () => {
   };
 
   const handleDeleteNote = async (noteId: string) => {
+    if (!currentUser) return;
     if (!window.confirm('Apakah Anda yakin ingin menghapus note ini?')) return;
     
     try {
       setError('');
-      const { success, error } = await deleteNote(noteId);
+      const { success, error } = await deleteNote(noteId, currentUser.uid);
       
       if (error) {
         setError(error);
@@ -108,12 +215,37 @@ const Notes: React.FC = () => {
   // Function to handle selecting a note - especially for mobile view
   const handleNoteSelect = (note: Note) => {
     setSelectedNote(note);
+    setJumpTo(null);
     // On mobile, switch to note view
     if (isMobile) {
       setShowSidebar(false);
     }
   };
 
+  // Link [[Judul]] membuka note tujuan, atau menawarkan membuat note baru jika belum ada
+  const handleOpenNoteLink = async (title: string) => {
+    const target = findNoteByLinkTitle(notes, title);
+    if (target) {
+      handleNoteSelect(target);
+      return;
+    }
+    if (!currentUser || !homeId || !window.confirm(`Note "${title}" belum ada. Buat sekarang?`)) return;
+
+    setError('');
+    const { note, error } = await createNote(homeId, currentUser.uid, title);
+    if (error) {
+      setError(error);
+      return;
+    }
+    if (note) handleNoteSelect(note);
+  };
+
+  // Membuka note dari hasil pencarian dan melompat ke kecocokan pertama di isinya
+  const handleSearchResultSelect = (note: Note, result: NoteSearchResult) => {
+    handleNoteSelect(note);
+    setJumpTo(result.match ? { ...result.match } : null);
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -201,6 +333,82 @@ const Notes: React.FC = () => {
               </div>
             </form>
           )}
+
+          {/* Pencarian */}
+          <div className="relative">
+            <svg className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-slate-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+            </svg>
+            <input
+              type="search"
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Escape') setSearchQuery('');
+              }}
+              placeholder="Cari judul atau isi note..."
+              className="input-modern w-full pl-9 text-sm"
+              aria-label="Cari note"
+            />
+            {isSearching && (searching || indexing) && (
+              <div className="absolute right-3 top-1/2 -translate-y-1/2 animate-spin rounded-full h-3 w-3 border-b-2 border-blue-400"></div>
+            )}
+          </div>
+        </div>
+
+        {/* Folder, tag dan urutan */}
+        <div className={`${isSearching ? 'hidden' : ''} px-4 py-3 border-b border-slate-700/30 space-y-3 max-h-[40%] overflow-y-auto`}>
+          {currentUser && homeId && (
+            <NoteFolderTree
+              homeId={homeId}
+              userId={currentUser.uid}
+              folders={folders}
+              notes={notes}
+              selected={selectedFolder}
+              onSelect={setSelectedFolder}
+            />
+          )}
+
+          {tagCounts.length > 0 && (
+            <div>
+              <div className="flex items-center justify-between mb-1">
+                <h3 className="text-xs font-semibold uppercase tracking-wide text-slate-500">Tag</h3>
+                {selectedTags.length > 0 && (
+                  <button onClick={() => setSelectedTags([])} className="text-xs text-slate-400 hover:text-slate-200">
+                    Hapus filter
+                  </button>
+                )}
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {tagCounts.map(({ tag, count }) => (
+                  <button
+                    key={tag}
+                    onClick={() => toggleTag(tag)}
+                    className={`px-2 py-0.5 rounded-full text-xs border transition-smooth ${
+                      selectedTags.includes(tag)
+                        ? 'bg-blue-600/30 border-blue-500/50 text-blue-200'
+                        : 'bg-slate-800/40 border-slate-600/30 text-slate-400 hover:text-slate-200'
+                    }`}
+                  >
+                    #{tag} <span className="opacity-60">{count}</span>
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <label className="flex items-center justify-between text-xs text-slate-400">
+            <span>Urutkan</span>
+            <select
+              value={sortOrder}
+              onChange={(e) => setSortOrder(e.target.value as NoteSortOrder)}
+              className="bg-slate-800/60 border border-slate-600/30 rounded-md px-2 py-1 text-xs text-slate-200"
+            >
+              {(Object.keys(NOTE_SORT_LABELS) as NoteSortOrder[]).map(order => (
+                <option key={order} value={order}>{NOTE_SORT_LABELS[order]}</option>
+              ))}
+            </select>
+          </label>
         </div>
 
         {/* Error Message */}
@@ -225,17 +433,29 @@ const Notes: React.FC = () => {
 
         {/* Daftar Notes */}
         <div className="flex-1 overflow-y-auto p-2 bg-gradient-to-b from-transparent to-slate-800/40">
-          {notes.length === 0 ? (
+          {isSearching ? (
+            <NoteSearchResults
+              results={searchResults}
+              notes={notes}
+              selectedNoteId={selectedNote?.id || null}
+              onSelect={handleSearchResultSelect}
+            />
+          ) : notes.length === 0 ? (
             <div className="text-center p-6 text-slate-400">
               <div className="text-5xl mb-3 opacity-50">📝</div>
               <p>Belum ada notes</p>
               <p className="text-sm mt-2">Buat note pertama Anda untuk berbagi dengan anggota rumah</p>
             </div>
+          ) : visibleNotes.length === 0 ? (
+            <div className="text-center p-6 text-slate-400">
+              <p>Tidak ada note yang cocok</p>
+              <p className="text-sm mt-2">Pilih folder lain atau hapus filter tag</p>
+            </div>
           ) : (
             <div className="space-y-2">
-              {notes
-                .sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime())
-                .map(note => (
+              {visibleNotes.map(note => {
+                const folderId = selectedFolder === null ? getNoteFolderId(note, folders) : null;
+                return (
                   <div 
                     key={note.id}
                     onClick={() => handleNoteSelect(note)}
@@ -244,9 +464,18 @@ const Notes: React.FC = () => {
                         ? "bg-blue-600/20 border border-blue-500/30"
                         : "bg-slate-800/40 hover:bg-slate-700/40 border border-slate-700/30"
                     }`}
+                    style={note.color ? { borderLeft: `3px solid ${note.color}` } : undefined}
                   >
                     <div className="flex justify-between items-center mb-1">
-                      <h3 className="font-medium text-slate-200 truncate">{note.title}</h3>
+                      <h3 className="font-medium text-slate-200 truncate">
+                        {note.pinned && <span className="mr-1" title="Disematkan">📌</span>}
+                        {isRestrictedNote(note) && (
+                          <span className="mr-1" title={note.visibility === 'private' ? 'Hanya Anda' : 'Anggota tertentu'}>
+                            {NOTE_VISIBILITY_ICONS[getNoteVisibility(note)]}
+                          </span>
+                        )}
+                        {note.title}
+                      </h3>
                       <button
                         onClick={(e) => {
                           e.stopPropagation();
@@ -260,14 +489,40 @@ const Notes: React.FC = () => {
                       </button>
                     </div>
                     <p className="text-xs text-slate-400 truncate">{note.content || "No content"}</p>
+                    {(folderId || (note.tags && note.tags.length > 0)) && (
+                      <div className="flex flex-wrap items-center gap-1 mt-1.5 text-[11px]">
+                        {folderId && (
+                          <span className="text-slate-500 truncate max-w-full">📁 {getFolderPath(folderId, folders)}</span>
+                        )}
+                        {(note.tags || []).map(tag => (
+                          <span key={tag} className="px-1.5 rounded-full bg-slate-700/50 text-slate-400">#{tag}</span>
+                        ))}
+                      </div>
+                    )}
                     <div className="flex items-center mt-2 text-xs text-slate-500">
                       <svg className="w-3 h-3 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
                       </svg>
                       {new Date(note.updatedAt).toLocaleDateString('id-ID', { day: 'numeric', month: 'short' })}
+                      {presence[note.id] && (
+                        <span
+                          className="ml-auto flex items-center space-x-1.5"
+                          title={`Sedang dibuka oleh ${Array.from(new Set(presence[note.id].map(p => p.userId))).map(userId => getName(userId)).join(', ')}`}
+                        >
+                          <span className="text-slate-400">Sedang dibuka</span>
+                          <NotePresenceAvatars
+                            presences={presence[note.id]}
+                            getName={getName}
+                            getColor={getColor}
+                            size="sm"
+                            max={3}
+                          />
+                        </span>
+                      )}
                     </div>
                   </div>
-                ))}
+                );
+              })}
             </div>
           )}
         </div>
@@ -276,7 +531,14 @@ const Notes: React.FC = () => {
       {/* Note Editor - main content */}
       <div className={`${(!isMobile || !showSidebar) ? 'block' : 'hidden'} md:block flex-1 h-full flex flex-col overflow-hidden`}>
         {selectedNote ? (
-          <NoteEditor note={selectedNote} />
+          <NoteEditor
+            note={selectedNote}
+            folders={folders}
+            jumpTo={jumpTo}
+            notes={notes}
+            onSelectNote={handleNoteSelect}
+            onOpenNoteLink={handleOpenNoteLink}
+          />
         ) : (
           <div className="flex items-center justify-center h-full flex-col p-4 text-center">
             <div className="w-24 h-24 rounded-full bg-slate-800/50 flex items-center justify-center mb-4 animate-float">
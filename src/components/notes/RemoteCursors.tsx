@@ -0,0 +1,55 @@
+import React from 'react';
+import { NotePresence } from '../../types/user';
+import { withAlpha } from '../../utils/homeProfile';
+
+interface RemoteCursorsProps {
+  content: string;
+  presences: NotePresence[];
+  getName: (userId: string, fallback?: string) => string;
+  getColor: (userId: string) => string;
+  scrollTop: number;
+}
+
+/**
+ * Kursor dan seleksi anggota lain di atas textarea. Setiap kursor digambar pada salinan
+ * teks yang transparan dengan tipografi dan pembungkusan baris yang sama dengan
+ * textarea, sehingga posisinya mengikuti teks tanpa perlu menghitung koordinat.
+ */
+const RemoteCursors: React.FC<RemoteCursorsProps> = ({ content, presences, getName, getColor, scrollTop }) => {
+  const cursors = presences.filter(presence => presence.selectionStart !== null && presence.selectionEnd !== null);
+  if (cursors.length === 0) return null;
+
+  return (
+    <div className="absolute inset-0 overflow-hidden pointer-events-none" aria-hidden="true">
+      {cursors.map(presence => {
+        const color = getColor(presence.userId);
+        // Posisi dari tab lain bisa tertinggal satu operasi; dibatasi panjang isi saat ini
+        const start = Math.min(presence.selectionStart as number, presence.selectionEnd as number, content.length);
+        const end = Math.min(Math.max(presence.selectionStart as number, presence.selectionEnd as number), content.length);
+
+        return (
+          <div
+            key={presence.sessionId}
+            className="absolute inset-x-0 top-0 whitespace-pre-wrap break-words text-base text-transparent"
+            style={{ lineHeight: '1.8', transform: `translateY(${-scrollTop}px)` }}
+          >
+            {content.slice(0, start)}
+            <span style={{ backgroundColor: withAlpha(color, 0.3) }}>{content.slice(start, end)}</span>
+            <span className="relative">
+              <span className="absolute top-0 bottom-0 -left-px w-0.5" style={{ backgroundColor: color }} />
+              <span
+                className="absolute bottom-full -left-px px-1 rounded-sm text-[10px] leading-4 text-white whitespace-nowrap"
+                style={{ backgroundColor: color }}
+              >
+                {getName(presence.userId)}
+              </span>
+            </span>
+            {content.slice(end)}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default RemoteCursors;
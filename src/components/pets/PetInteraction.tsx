@@ -7,6 +7,7 @@ import {
   subscribeToPetInteractions,
   deletePet
 } from '../../services/firebase/pets';
+import { useHomeMembers } from '../../hooks/useHomeMembers';
 
 interface PetInteractionProps {
   pet: Pet;
@@ -23,6 +24,7 @@ const PetInteractionComponent: React.FC<PetInteractionProps> = ({ pet, onClose }
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
   const { currentUser } = useAuth();
+  const { getName, getColor } = useHomeMembers(pet.homeId);
   
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
@@ -85,7 +87,7 @@ const PetInteractionComponent: React.FC<PetInteractionProps> = ({ pet, onClose }
     setError('');
     
     try {
-      const { success, error: deleteError } = await deletePet(pet.id);
+      const { success, error: deleteError } = await deletePet(pet.id, currentUser.uid);
       
       if (!success || deleteError) {
         setError(deleteError || 'Terjadi kesalahan saat menghapus peliharaan');
@@ -306,6 +308,10 @@ const PetInteractionComponent: React.FC<PetInteractionProps> = ({ pet, onClose }
                     <div className="flex-1">
                       <div className="flex justify-between items-center mb-1">
                         <span className="text-xs text-slate-400">
+                          <span className="font-semibold" style={{ color: getColor(interaction.userId) }}>
+                            {interaction.userId === currentUser?.uid ? 'Anda' : getName(interaction.userId)}
+                          </span>
+                          {' · '}
                           {new Date(interaction.timestamp).toLocaleDateString('id-ID')} {formatTime(new Date(interaction.timestamp))}
                         </span>
                         <span className="capitalize text-xs px-2 py-0.5 rounded-full bg-slate-700/60 text-slate-200 font-semibold">
@@ -1,14 +1,17 @@
 import React, { useState, useEffect } from 'react';
 
 interface AddWishlistItemProps {
-  onAdd: (title: string, description?: string, url?: string) => Promise<void>;
+  onAdd: (title: string, description?: string, url?: string, category?: string) => Promise<void>;
   onCancel: () => void;
+  categories?: string[];
+  defaultCategory?: string;
 }
 
-const AddWishlistItem: React.FC<AddWishlistItemProps> = ({ onAdd, onCancel }) => {
+const AddWishlistItem: React.FC<AddWishlistItemProps> = ({ onAdd, onCancel, categories = [], defaultCategory = '' }) => {
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
   const [url, setUrl] = useState('');
+  const [category, setCategory] = useState(defaultCategory);
   const [isSubmitting, setIsSubmitting] = useState(false);
 
   // Add effect to prevent scrolling when modal is open
@@ -34,7 +37,8 @@ const AddWishlistItem: React.FC<AddWishlistItemProps> = ({ onAdd, onCancel }) =>
       await onAdd(
         title.trim(), 
         description.trim() || undefined, 
-        url.trim() || undefined
+        url.trim() || undefined,
+        category || undefined
       );
     } finally {
       setIsSubmitting(false);
@@ -96,6 +100,26 @@ const AddWishlistItem: React.FC<AddWishlistItemProps> = ({ onAdd, onCancel }) =>
                 disabled={isSubmitting}
               />
             </div>
+
+            {categories.length > 0 && (
+              <div>
+                <label htmlFor="category" className="block text-sm font-medium text-slate-300 mb-1.5">
+                  Kategori
+                </label>
+                <select
+                  id="category"
+                  value={category}
+                  onChange={(e) => setCategory(e.target.value)}
+                  className="input-modern w-full shadow-soft focus:shadow-medium"
+                  disabled={isSubmitting}
+                >
+                  <option value="">Tanpa kategori</option>
+                  {categories.map(option => (
+                    <option key={option} value={option}>{option}</option>
+                  ))}
+                </select>
+              </div>
+            )}
             
             <div className="flex justify-end space-x-3 pt-5">
               <button
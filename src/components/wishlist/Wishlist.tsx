@@ -9,6 +9,9 @@ import {
   uncompleteWishlistItem,
   subscribeToHomeWishlist 
 } from '../../services/firebase/wishlist';
+import { getHomeById, updateHomeSettings } from '../../services/firebase/home';
+import { hasHomePermission } from '../../utils/homePermissions';
+import { useHomeMembers } from '../../hooks/useHomeMembers';
 import WishlistItemComponent from './WishlistItemComponent';
 import AddWishlistItem from './AddWishlistItem';
 
@@ -23,7 +26,25 @@ const Wishlist: React.FC<WishlistProps> = ({ homeId }) => {
   const [showAddForm, setShowAddForm] = useState(false);
   const [showCompleted, setShowCompleted] = useState(false);
   const [activeTab, setActiveTab] = useState<'pending' | 'completed'>('pending');
+  const [canModerate, setCanModerate] = useState(false);
+  const [categories, setCategories] = useState<string[]>([]);
+  const [categoryFilter, setCategoryFilter] = useState<string | null>(null);
+  const [canManageCategories, setCanManageCategories] = useState(false);
+  const [editingCategories, setEditingCategories] = useState(false);
+  const [categoryDraft, setCategoryDraft] = useState('');
   const { currentUser } = useAuth();
+  const { getName, getColor } = useHomeMembers(homeId);
+
+  // Cek apakah user boleh menghapus item milik anggota lain, dan ambil kategori rumah
+  useEffect(() => {
+    if (!homeId || !currentUser) return;
+
+    getHomeById(homeId).then(({ home }) => {
+      setCanModerate(!!home && hasHomePermission(home, currentUser.uid, 'deleteWishlist'));
+      setCanManageCategories(!!home && hasHomePermission(home, currentUser.uid, 'manageSettings'));
+      setCategories(home?.wishlistCategories || []);
+    });
+  }, [homeId, currentUser]);
 
   useEffect(() => {
     if (!homeId || !currentUser) return;
@@ -37,9 +58,9 @@ const Wishlist: React.FC<WishlistProps> = ({ homeId }) => {
     return () => unsubscribe && unsubscribe();
   }, [homeId, currentUser]);
 
-  const handleAddItem = async (title: string, description?: string, url?: string) => {
+  const handleAddItem = async (title: string, description?: string, url?: string, category?: string) => {
     if (!currentUser) return;
-  const { error } = await createWishlistItem(homeId, currentUser.uid, title, description, url);
+  const { error } = await createWishlistItem(homeId, currentUser.uid, title, description, url, category);
     
     if (error) {
       setError('Gagal menambah item: ' + error);
@@ -58,7 +79,7 @@ const Wishlist: React.FC<WishlistProps> = ({ homeId }) => {
           setError('Gagal menandai item selesai: ' + error);
         }
       } else {
-        const { error } = await uncompleteWishlistItem(itemId);
+        const { error } = await uncompleteWishlistItem(itemId, currentUser.uid);
         if (error) {
           setError('Gagal menandai item belum selesai: ' + error);
         }
@@ -69,13 +90,33 @@ const Wishlist: React.FC<WishlistProps> = ({ homeId }) => {
   };
 
   const handleDeleteItem = async (itemId: string) => {
-    const { error } = await deleteWishlistItem(itemId);
+    if (!currentUser) return;
+    const { error } = await deleteWishlistItem(itemId, currentUser.uid);
     
     if (error) {
       setError('Gagal menghapus item: ' + error);
     }
   };
 
+  const handleSaveCategories = async () => {
+    if (!currentUser) return;
+
+    const updated = categoryDraft.split(',');
+    const { error } = await updateHomeSettings(currentUser.uid, homeId, { wishlistCategories: updated });
+
+    if (error) {
+      setError('Gagal menyimpan kategori: ' + error);
+      return;
+    }
+
+    const { home } = await getHomeById(homeId);
+    setCategories(home?.wishlistCategories || []);
+    if (categoryFilter && !home?.wishlistCategories?.includes(categoryFilter)) {
+      setCategoryFilter(null);
+    }
+    setEditingCategories(false);
+  };
+
   const handleUpdateItem = async (itemId: string, updates: Partial<WishlistItem>) => {
     const { error } = await updateWishlistItem(itemId, updates);
     
@@ -95,8 +136,9 @@ const Wishlist: React.FC<WishlistProps> = ({ homeId }) => {
     );
   }
 
-  const completedItems = items.filter(i => i.completed);
-  const pendingItems = items.filter(i => !i.completed);
+  const visibleItems = categoryFilter ? items.filter(i => i.category === categoryFilter) : items;
+  const completedItems = visibleItems.filter(i => i.completed);
+  const pendingItems = visibleItems.filter(i => !i.completed);
 
   return (
     <div className="flex flex-col h-full">
@@ -162,6 +204,62 @@ const Wishlist: React.FC<WishlistProps> = ({ homeId }) => {
         </div>
       </div>
 
+      {(categories.length > 0 || canManageCategories) && (
+        <div className="px-4 sm:px-6 py-3 border-b border-slate-700/30 bg-slate-900/20">
+          {editingCategories ? (
+            <div className="flex flex-col sm:flex-row gap-2">
+              <input
+                type="text"
+                value={categoryDraft}
+                onChange={(e) => setCategoryDraft(e.target.value)}
+                className="input-modern flex-1 text-sm"
+                placeholder="Pisahkan dengan koma, contoh: Liburan, Rumah, Hadiah"
+                autoFocus
+              />
+              <div className="flex gap-2">
+                <button onClick={handleSaveCategories} className="btn-primary text-sm px-4 py-2">Simpan</button>
+                <button onClick={() => setEditingCategories(false)} className="btn-secondary text-sm px-4 py-2">Batal</button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex flex-wrap items-center gap-2">
+              {categories.length > 0 && (
+                <button
+                  onClick={() => setCategoryFilter(null)}
+                  className={`px-3 py-1 rounded-full text-xs font-medium transition-smooth ${
+                    !categoryFilter ? 'bg-indigo-600/80 text-white' : 'bg-slate-800/60 text-slate-300 hover:bg-slate-700/60'
+                  }`}
+                >
+                  Semua
+                </button>
+              )}
+              {categories.map(category => (
+                <button
+                  key={category}
+                  onClick={() => setCategoryFilter(category)}
+                  className={`px-3 py-1 rounded-full text-xs font-medium transition-smooth ${
+                    categoryFilter === category ? 'bg-indigo-600/80 text-white' : 'bg-slate-800/60 text-slate-300 hover:bg-slate-700/60'
+                  }`}
+                >
+                  {category}
+                </button>
+              ))}
+              {canManageCategories && (
+                <button
+                  onClick={() => {
+                    setCategoryDraft(categories.join(', '));
+                    setEditingCategories(true);
+                  }}
+                  className="text-xs text-slate-400 hover:text-blue-300 transition-smooth"
+                >
+                  {categories.length > 0 ? 'Ubah kategori' : 'Tambah kategori'}
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
       <div className="flex-1 overflow-y-auto p-4 bg-gradient-to-b from-transparent to-slate-800/30" style={{ minHeight: '500px' }}>
         {/* Desktop view toggle for completed items */}
         <div className="hidden sm:flex justify-between items-center mb-6">
@@ -208,6 +306,8 @@ const Wishlist: React.FC<WishlistProps> = ({ homeId }) => {
                     onToggleComplete={handleToggleComplete}
                     onDelete={handleDeleteItem}
                     onUpdate={handleUpdateItem}
+                    canModerate={canModerate}
+                    completedBy={item.completedBy ? { name: getName(item.completedBy), color: getColor(item.completedBy) } : undefined}
                   />
                 ))}
               </div>
@@ -228,6 +328,8 @@ const Wishlist: React.FC<WishlistProps> = ({ homeId }) => {
                     onToggleComplete={handleToggleComplete}
                     onDelete={handleDeleteItem}
                     onUpdate={handleUpdateItem}
+                    canModerate={canModerate}
+                    completedBy={item.completedBy ? { name: getName(item.completedBy), color: getColor(item.completedBy) } : undefined}
                   />
                 ))}
               </div>
@@ -253,6 +355,8 @@ const Wishlist: React.FC<WishlistProps> = ({ homeId }) => {
                     onToggleComplete={handleToggleComplete}
                     onDelete={handleDeleteItem}
                     onUpdate={handleUpdateItem}
+                    canModerate={canModerate}
+                    completedBy={item.completedBy ? { name: getName(item.completedBy), color: getColor(item.completedBy) } : undefined}
                   />
                 ))}
               </div>
@@ -273,6 +377,8 @@ const Wishlist: React.FC<WishlistProps> = ({ homeId }) => {
                     onToggleComplete={handleToggleComplete}
                     onDelete={handleDeleteItem}
                     onUpdate={handleUpdateItem}
+                    canModerate={canModerate}
+                    completedBy={item.completedBy ? { name: getName(item.completedBy), color: getColor(item.completedBy) } : undefined}
                   />
                 ))}
               </div>
@@ -287,6 +393,8 @@ const Wishlist: React.FC<WishlistProps> = ({ homeId }) => {
           <AddWishlistItem
             onAdd={handleAddItem}
             onCancel={() => setShowAddForm(false)}
+            categories={categories}
+            defaultCategory={categoryFilter || ''}
           />
         </div>
       )}
@@ -8,13 +8,17 @@ interface WishlistItemComponentProps {
   onToggleComplete: (itemId: string, completed: boolean) => void;
   onDelete: (itemId: string) => void;
   onUpdate: (itemId: string, updates: Partial<WishlistItem>) => void;
+  canModerate?: boolean; // Admin/pemilik rumah boleh menghapus item anggota lain
+  completedBy?: { name: string; color: string }; // Nama panggilan anggota yang menyelesaikan
 }
 
 const WishlistItemComponent: React.FC<WishlistItemComponentProps> = ({
   item,
   onToggleComplete,
   onDelete,
-  onUpdate
+  onUpdate,
+  canModerate = false,
+  completedBy
 }) => {
   const [isEditing, setIsEditing] = useState(false);
   const [editTitle, setEditTitle] = useState(item.title);
@@ -291,6 +295,11 @@ const WishlistItemComponent: React.FC<WishlistItemComponentProps> = ({
                   item.completed ? 'text-slate-400 line-through' : 'text-white'
                 }`}>
                   {item.title}
+                  {item.category && (
+                    <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-normal bg-indigo-900/40 text-indigo-300 border border-indigo-500/30">
+                      {item.category}
+                    </span>
+                  )}
                 </h4>
                 
                 {item.description && (
@@ -328,6 +337,11 @@ const WishlistItemComponent: React.FC<WishlistItemComponentProps> = ({
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
                       </svg>
                       {new Date(item.completedAt).toLocaleDateString('id-ID')}
+                      {completedBy && (
+                        <span className="ml-1">
+                          oleh <span className="font-medium" style={{ color: completedBy.color }}>{completedBy.name}</span>
+                        </span>
+                      )}
                     </span>
                   )}
                 </div>
@@ -340,17 +354,19 @@ const WishlistItemComponent: React.FC<WishlistItemComponentProps> = ({
             </div>
             
             {/* Action buttons */}
-            {isOwner && (
+            {(isOwner || canModerate) && (
               <div className="flex items-center space-x-2 ml-4">
-                <button
-                  onClick={() => setIsEditing(true)}
-                  className="text-slate-400 hover:text-blue-400 transition-smooth p-1 rounded-full hover:bg-blue-900/20"
-                  title="Edit"
-                >
-                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
-                  </svg>
-                </button>
+                {isOwner && (
+                  <button
+                    onClick={() => setIsEditing(true)}
+                    className="text-slate-400 hover:text-blue-400 transition-smooth p-1 rounded-full hover:bg-blue-900/20"
+                    title="Edit"
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+                    </svg>
+                  </button>
+                )}
                 <button
                   onClick={() => {
                     if (window.confirm('Apakah Anda yakin ingin menghapus item ini?')) {
@@ -2,6 +2,7 @@ import React, { createContext, useContext, useEffect, useState } from 'react';
 import { User } from 'firebase/auth';
 import { observeAuthState } from '../services/firebase/auth';
 import { createOrUpdateUserProfile } from '../services/firebase/user';
+import { recordMemberLogin } from '../services/firebase/homeMembers';
 import { UserProfile } from '../types/user';
 
 interface AuthContextType {
@@ -27,6 +28,9 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         // Jika user login, ambil atau buat profile
         const { profile } = await createOrUpdateUserProfile(user);
         setUserProfile(profile);
+        if (profile) {
+          recordMemberLogin(user.uid, profile.homes || [], profile.displayName || null);
+        }
       } else {
         setUserProfile(null);
       }
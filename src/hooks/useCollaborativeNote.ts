@@ -0,0 +1,271 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { submitNoteOperation, subscribeToNote, subscribeToNoteOperations } from '../services/firebase/notes';
+import { Note, NoteOperation, PendingNoteOperation, TextOperation } from '../types/user';
+import {
+  applyOperation,
+  composeOperations,
+  isNoopOperation,
+  operationFromDiff,
+  transformOperations
+} from '../utils/textOperation';
+
+/**
+ * Isi note yang disunting bersama secara real-time. Setiap perubahan lokal menjadi
+ * operasi teks; hanya satu operasi yang dikirim sekaligus (sisanya ditampung), dan
+ * operasi dari penyunting lain ditransformasi terhadap keduanya sebelum diterapkan,
+ * sehingga suntingan serentak digabung per karakter tanpa saling menimpa.
+ */
+
+// Jeda sebelum perubahan lokal dikirim, agar ketikan beruntun menjadi satu operasi
+const SEND_DELAY_MS = 300;
+// Jeda sebelum mencoba lagi setelah pengiriman gagal (misalnya koneksi terputus)
+const RETRY_DELAY_MS = 3000;
+// Batas tunggu operasi yang sudah tercatat di note tetapi belum diterima
+const MISSING_OPERATIONS_MS = 5000;
+
+interface CollaborativeNoteOptions {
+  // Dipanggil dengan operasi yang diterapkan ke teks lokal, untuk menggeser kursor
+  onRemoteOperation?: (operation: TextOperation) => void;
+}
+
+interface SyncState {
+  serverVersion: number;
+  serverText: string; // Isi pada serverVersion
+  inflight: PendingNoteOperation | null; // Sudah dikirim, menunggu versi
+  buffer: TextOperation | null; // Perubahan lokal yang belum dikirim
+  localText: string;
+  received: { [version: number]: NoteOperation };
+  resendWhenSynced: boolean;
+}
+
+export const useCollaborativeNote = (
+  note: Pick<Note, 'id' | 'content'>,
+  userId: string | undefined,
+  options: CollaborativeNoteOptions = {}
+) => {
+  const [content, setContent] = useState(note.content);
+  const [ready, setReady] = useState(false);
+  const [pending, setPending] = useState(false);
+  const [error, setError] = useState('');
+
+  const changeRef = useRef<((text: string) => void) | null>(null);
+  const onRemoteOperationRef = useRef(options.onRemoteOperation);
+  onRemoteOperationRef.current = options.onRemoteOperation;
+  // Isi awal saat note dibuka; perubahan berikutnya datang lewat listener, bukan prop
+  const initialContentRef = useRef(note.content);
+  initialContentRef.current = note.content;
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const clientId = uuidv4();
+    let active = true;
+    let state: SyncState | null = null;
+    let latestNote: Note | null = null;
+    let sendTimeout: NodeJS.Timeout | null = null;
+    let missingTimeout: NodeJS.Timeout | null = null;
+    let unsubscribeOperations: (() => void) | null = null;
+
+    setReady(false);
+    setContent(initialContentRef.current);
+
+    const updatePending = () => setPending(!!state && (!!state.inflight || !!state.buffer));
+
+    const scheduleSend = (delay: number) => {
+      if (sendTimeout) clearTimeout(sendTimeout);
+      sendTimeout = setTimeout(send, delay);
+    };
+
+    const send = async () => {
+      if (!active || !state) return;
+
+      if (!state.inflight) {
+        if (!state.buffer) return;
+        state.inflight = { id: uuidv4(), ops: state.buffer, clientId };
+        state.buffer = null;
+      }
+
+      const current = state;
+      const sent = current.inflight;
+      if (!sent) return;
+      const baseVersion = current.serverVersion;
+      current.resendWhenSynced = false;
+
+      const { version, conflict, error } = await submitNoteOperation(note.id, baseVersion, sent, userId);
+      // Diabaikan jika editor ditutup, dimuat ulang, atau operasinya sudah dikonfirmasi listener
+      if (!active || state !== current || current.inflight?.id !== sent.id) return;
+
+      if (conflict) {
+        // Operasi yang lebih dulu tersimpan datang lewat listener; operasi ini dikirim
+        // ulang setelah ditransformasi terhadapnya
+        if (current.serverVersion > baseVersion) {
+          send();
+        } else {
+          current.resendWhenSynced = true;
+        }
+        return;
+      }
+
+      if (error || version === null) {
+        setError(error || 'Gagal menyimpan perubahan');
+        scheduleSend(RETRY_DELAY_MS);
+        return;
+      }
+
+      setError('');
+      // Belum dikonfirmasi listener: tidak ada operasi lain di antaranya, jadi
+      // operasi yang dikirim bisa langsung diterapkan ke isi server
+      current.serverText = applyOperation(current.serverText, sent.ops);
+      current.serverVersion = version;
+      current.inflight = null;
+      processReceived();
+    };
+
+    // Menerapkan operasi yang diterima secara berurutan per versi
+    const processReceived = () => {
+      if (!state) return;
+
+      let remote: TextOperation | null = null;
+      let next = state.received[state.serverVersion + 1];
+      while (next) {
+        delete state.received[next.version];
+
+        if (state.inflight && next.id === state.inflight.id) {
+          // Operasi sendiri sudah tersimpan
+          state.inflight = null;
+        } else {
+          let operation = next.ops;
+          if (state.inflight) {
+            const [inflight, transformed] = transformOperations(state.inflight.ops, operation);
+            state.inflight = { ...state.inflight, ops: inflight };
+            operation = transformed;
+          }
+          if (state.buffer) {
+            const [buffer, transformed] = transformOperations(state.buffer, operation);
+            state.buffer = buffer;
+            operation = transformed;
+          }
+          state.localText = applyOperation(state.localText, operation);
+          remote = remote ? composeOperations(remote, operation) : operation;
+        }
+
+        state.serverText = applyOperation(state.serverText, next.ops);
+        state.serverVersion = next.version;
+        next = state.received[state.serverVersion + 1];
+      }
+
+      if (remote) {
+        onRemoteOperationRef.current?.(remote);
+        setContent(state.localText);
+      }
+      updatePending();
+
+      if (state.inflight ? state.resendWhenSynced : !!state.buffer) {
+        send();
+      }
+    };
+
+    // Mulai dari isi note terbaru. Perubahan lokal yang belum tersimpan dipertahankan
+    // sebagai selisih terhadap isi tersebut.
+    const resync = (latest: Note) => {
+      const hasLocalChanges = !!state && (!!state.inflight || !!state.buffer);
+      const localText = state && hasLocalChanges ? state.localText : latest.content;
+      const buffer = hasLocalChanges ? operationFromDiff(latest.content, localText) : null;
+
+      state = {
+        serverVersion: latest.contentVersion || 0,
+        serverText: latest.content,
+        inflight: null,
+        buffer: buffer && !isNoopOperation(buffer) ? buffer : null,
+        localText,
+        received: {},
+        resendWhenSynced: false,
+      };
+      setContent(localText);
+      updatePending();
+      if (state.buffer) send();
+    };
+
+    const handleOperations = (operations: NoteOperation[]) => {
+      if (!state) return;
+
+      operations.forEach(operation => {
+        if (state && operation.version > state.serverVersion) {
+          state.received[operation.version] = operation;
+        }
+      });
+      try {
+        processReceived();
+      } catch (err) {
+        console.warn('Gagal menerapkan operasi note, memuat ulang isi:', err);
+        if (latestNote) resync(latestNote);
+      }
+    };
+
+    const unsubscribeNote = subscribeToNote(note.id, (latest) => {
+      if (!latest || !active) return;
+      latestNote = latest;
+
+      if (!state) {
+        resync(latest);
+        setReady(true);
+        unsubscribeOperations = subscribeToNoteOperations(
+          note.id,
+          latest.contentVersion || 0,
+          handleOperations,
+          (err) => setError('Sinkronisasi terputus: ' + err.message)
+        );
+        return;
+      }
+
+      // Isi ditimpa tanpa operasi (editor versi lama): muat ulang dari isi note
+      const version = latest.contentVersion || 0;
+      if (version === state.serverVersion && latest.content !== state.serverText && !state.inflight) {
+        resync(latest);
+        return;
+      }
+
+      // Operasi yang dibutuhkan tidak kunjung datang (misalnya sudah dipangkas dari log)
+      if (missingTimeout) clearTimeout(missingTimeout);
+      if (version > state.serverVersion) {
+        missingTimeout = setTimeout(() => {
+          if (active && state && latestNote && (latestNote.contentVersion || 0) > state.serverVersion) {
+            resync(latestNote);
+          }
+        }, MISSING_OPERATIONS_MS);
+      }
+    });
+
+    changeRef.current = (newText: string) => {
+      if (!state) return;
+
+      const operation = operationFromDiff(state.localText, newText);
+      if (isNoopOperation(operation)) return;
+
+      state.buffer = state.buffer ? composeOperations(state.buffer, operation) : operation;
+      state.localText = newText;
+      setContent(newText);
+      setPending(true);
+
+      if (!state.inflight) {
+        scheduleSend(SEND_DELAY_MS);
+      }
+    };
+
+    return () => {
+      active = false;
+      changeRef.current = null;
+      unsubscribeNote();
+      unsubscribeOperations?.();
+      if (sendTimeout) clearTimeout(sendTimeout);
+      if (missingTimeout) clearTimeout(missingTimeout);
+    };
+  }, [note.id, userId]);
+
+  const handleChange = useCallback((newText: string) => {
+    changeRef.current?.(newText);
+  }, []);
+
+  return { content, ready, pending, error, handleChange };
+};
@@ -0,0 +1,52 @@
+import { useState, useEffect, useCallback } from 'react';
+import { getHomeMemberProfiles } from '../services/firebase/user';
+import { subscribeToHomeMemberProfiles } from '../services/firebase/homeMembers';
+import { HomeMember, HomeMemberProfile, UserProfile } from '../types/user';
+import { FORMER_MEMBER_ID, FORMER_MEMBER_NAME, getMemberColor, getMemberName } from '../utils/memberProfile';
+
+/**
+ * Anggota rumah beserta nama panggilan dan warnanya, untuk komponen yang
+ * menampilkan nama anggota (chat, panggilan video, wishlist, peliharaan).
+ * Profil per rumah di-subscribe agar perubahan nama panggilan langsung terlihat.
+ */
+export const useHomeMembers = (homeId: string | undefined) => {
+  const [users, setUsers] = useState<UserProfile[]>([]);
+  const [profiles, setProfiles] = useState<{ [userId: string]: HomeMemberProfile }>({});
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!homeId) return;
+
+    let active = true;
+    setLoading(true);
+
+    getHomeMemberProfiles(homeId).then(({ members }) => {
+      if (!active) return;
+      setUsers(members);
+      setLoading(false);
+    });
+
+    const unsubscribe = subscribeToHomeMemberProfiles(homeId, setProfiles);
+
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, [homeId]);
+
+  const members: HomeMember[] = users.map(user => ({ ...user, homeProfile: profiles[user.uid] || null }));
+
+  // Mantan anggota tetap memakai nama panggilan dari profil rumahnya jika ada
+  const getName = useCallback((userId: string, fallback?: string) => {
+    if (userId === FORMER_MEMBER_ID) return FORMER_MEMBER_NAME;
+    const user = users.find(member => member.uid === userId);
+    return getMemberName(
+      { displayName: user?.displayName ?? null, email: user?.email ?? null, homeProfile: profiles[userId] },
+      fallback
+    );
+  }, [users, profiles]);
+
+  const getColor = useCallback((userId: string) => getMemberColor(userId, profiles[userId]), [profiles]);
+
+  return { members, profiles, loading, getName, getColor };
+};
@@ -2,6 +2,7 @@ import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import { getUserHomes } from '../services/firebase/home';
+import { getPendingInvite } from '../utils/pendingInvite';
 
 /**
  * A custom hook to handle redirecting users to their first home
@@ -21,6 +22,13 @@ export const useHomeRedirect = () => {
       const shouldCheckForRedirect = ['/', '/login', '/register', '/dashboard'].includes(currentPath);
       
       if (!shouldCheckForRedirect) return;
+
+      // Undangan yang tertunda (dari link /join/:code) didahulukan
+      const pendingInvite = getPendingInvite();
+      if (pendingInvite) {
+        navigate(`/join/${encodeURIComponent(pendingInvite)}`);
+        return;
+      }
       
       try {
         setLoading(true);
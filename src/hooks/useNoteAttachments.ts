@@ -0,0 +1,53 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { deleteNoteAttachment, subscribeToNoteAttachments, uploadNoteAttachment } from '../services/firebase/noteAttachments';
+import { NoteAttachment, NoteAttachmentUpload } from '../types/user';
+
+/**
+ * Lampiran sebuah note beserta unggahan yang sedang berjalan di tab ini.
+ * `upload` mengembalikan lampiran yang berhasil agar editor bisa menyisipkan
+ * rujukannya ke isi note.
+ */
+export const useNoteAttachments = (noteId: string, userId: string | undefined) => {
+  const [attachments, setAttachments] = useState<NoteAttachment[]>([]);
+  const [uploads, setUploads] = useState<NoteAttachmentUpload[]>([]);
+
+  useEffect(() => {
+    setAttachments([]);
+    setUploads([]);
+    return subscribeToNoteAttachments(noteId, setAttachments);
+  }, [noteId]);
+
+  const attachmentsById = useMemo(() => {
+    const byId: { [attachmentId: string]: NoteAttachment } = {};
+    attachments.forEach(attachment => {
+      byId[attachment.id] = attachment;
+    });
+    return byId;
+  }, [attachments]);
+
+  const upload = useCallback(async (files: File[]) => {
+    if (!userId) return { uploaded: [] as NoteAttachment[], errors: [] as string[] };
+
+    const results = await Promise.all(files.map(async file => {
+      const uploadId = uuidv4();
+      setUploads(current => [...current, { id: uploadId, name: file.name, progress: 0 }]);
+
+      const result = await uploadNoteAttachment(noteId, userId, file, progress => {
+        setUploads(current => current.map(item => item.id === uploadId ? { ...item, progress } : item));
+      });
+
+      setUploads(current => current.filter(item => item.id !== uploadId));
+      return result;
+    }));
+
+    return {
+      uploaded: results.map(result => result.attachment).filter((attachment): attachment is NoteAttachment => !!attachment),
+      errors: results.map(result => result.error).filter((error): error is string => !!error)
+    };
+  }, [noteId, userId]);
+
+  const remove = useCallback((attachment: NoteAttachment) => deleteNoteAttachment(attachment), []);
+
+  return { attachments, attachmentsById, uploads, upload, remove };
+};
@@ -0,0 +1,78 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { joinNotePresence, subscribeToNotePresence, NotePresenceSession } from '../services/firebase/notePresence';
+import { NotePresence, NotePresenceUpdate } from '../types/user';
+
+/**
+ * Kehadiran di editor note: mendaftarkan tab ini selama note terbuka dan
+ * mengembalikan anggota lain yang sedang membuka note yang sama.
+ */
+
+// Perubahan kursor dikirim paling sering sekali per jeda ini
+const SELECTION_THROTTLE_MS = 200;
+// Status kembali menjadi "melihat" setelah berhenti mengetik selama jeda ini
+const TYPING_IDLE_MS = 3000;
+
+export const useNotePresence = (homeId: string | undefined, noteId: string, userId: string | undefined) => {
+  const [presences, setPresences] = useState<NotePresence[]>([]);
+
+  const sessionRef = useRef<NotePresenceSession | null>(null);
+  const queuedRef = useRef<NotePresenceUpdate>({});
+  const throttleRef = useRef<NodeJS.Timeout | null>(null);
+  const typingRef = useRef<NodeJS.Timeout | null>(null);
+
+  useEffect(() => {
+    if (!homeId || !userId) return;
+
+    const sessionId = uuidv4();
+    const session = joinNotePresence(homeId, noteId, userId, sessionId);
+    sessionRef.current = session;
+
+    const unsubscribe = subscribeToNotePresence(homeId, noteId, (all) => {
+      setPresences(all.filter(presence => presence.userId !== userId));
+    });
+
+    return () => {
+      if (throttleRef.current) clearTimeout(throttleRef.current);
+      if (typingRef.current) clearTimeout(typingRef.current);
+      throttleRef.current = null;
+      typingRef.current = null;
+      queuedRef.current = {};
+      sessionRef.current = null;
+      unsubscribe();
+      session.leave();
+      setPresences([]);
+    };
+  }, [homeId, noteId, userId]);
+
+  const queueUpdate = useCallback((changes: NotePresenceUpdate) => {
+    queuedRef.current = { ...queuedRef.current, ...changes };
+    if (throttleRef.current) return;
+
+    throttleRef.current = setTimeout(() => {
+      throttleRef.current = null;
+      sessionRef.current?.update(queuedRef.current);
+      queuedRef.current = {};
+    }, SELECTION_THROTTLE_MS);
+  }, []);
+
+  // null = editor tidak fokus, kursor tidak ditampilkan ke anggota lain
+  const reportSelection = useCallback((selectionStart: number | null, selectionEnd: number | null) => {
+    queueUpdate({ selectionStart, selectionEnd });
+  }, [queueUpdate]);
+
+  const reportTyping = useCallback(() => {
+    if (!typingRef.current) {
+      queueUpdate({ state: 'typing' });
+    } else {
+      clearTimeout(typingRef.current);
+    }
+
+    typingRef.current = setTimeout(() => {
+      typingRef.current = null;
+      queueUpdate({ state: 'viewing' });
+    }, TYPING_IDLE_MS);
+  }, [queueUpdate]);
+
+  return { presences, reportSelection, reportTyping };
+};
@@ -0,0 +1,104 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { completeNoteReminder, snoozeNoteReminder, subscribeToNoteReminders } from '../services/firebase/notes';
+import { Note } from '../types/user';
+import { getUpcomingReminders } from '../utils/noteReminders';
+import { ReminderClock, getReminderOccurrenceKey, scheduleReminders, systemClock } from '../utils/reminderScheduler';
+
+// Kemunculan yang sudah dikirim sebagai notifikasi browser, dibagi antar tab agar
+// satu pengingat tidak muncul berkali-kali saat rumah dibuka di beberapa tab
+const NOTIFIED_REMINDERS_KEY = 'RUMAH_KITA_NOTIFIED_REMINDERS';
+const MAX_NOTIFIED_REMINDERS = 200;
+
+const getNotifiedReminders = (): string[] => {
+  try {
+    return JSON.parse(localStorage.getItem(NOTIFIED_REMINDERS_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+const supportsNotifications = () => typeof window !== 'undefined' && 'Notification' in window;
+
+const showBrowserNotification = (note: Note, key: string) => {
+  if (!supportsNotifications() || Notification.permission !== 'granted') return;
+
+  const notification = new Notification(`⏰ ${note.title || 'Tanpa judul'}`, {
+    body: 'Pengingat note di Rumah Kita',
+    tag: key,
+  });
+  notification.onclick = () => window.focus();
+};
+
+/**
+ * Pengingat note yang ditujukan ke user di sebuah rumah. `alerts` berisi pengingat
+ * yang sedang berbunyi dan belum ditutup di tab ini; menunda atau menandai selesai
+ * berlaku untuk semua penerima.
+ */
+export const useNoteReminders = (
+  homeId: string | undefined,
+  userId: string | undefined,
+  clock: ReminderClock = systemClock
+) => {
+  const [notes, setNotes] = useState<Note[]>([]);
+  const [due, setDue] = useState<Note[]>([]);
+  const [dismissed, setDismissed] = useState<string[]>([]);
+  const [permission, setPermission] = useState<NotificationPermission | 'unsupported'>(
+    supportsNotifications() ? Notification.permission : 'unsupported'
+  );
+
+  useEffect(() => {
+    setNotes([]);
+    if (!homeId || !userId) return;
+
+    return subscribeToNoteReminders(homeId, userId, setNotes);
+  }, [homeId, userId]);
+
+  const reminders = useMemo(() => (userId ? getUpcomingReminders(notes, userId) : []), [notes, userId]);
+
+  useEffect(() => {
+    setDue([]);
+    return scheduleReminders(reminders, clock, setDue);
+  }, [reminders, clock]);
+
+  const alerts = useMemo(
+    () => due.filter(note => !dismissed.includes(getReminderOccurrenceKey(note) || '')),
+    [due, dismissed]
+  );
+
+  useEffect(() => {
+    if (due.length === 0) return;
+
+    const notified = getNotifiedReminders();
+    const fresh = due.filter(note => {
+      const key = getReminderOccurrenceKey(note);
+      return key && !notified.includes(key);
+    });
+    if (fresh.length === 0) return;
+
+    fresh.forEach(note => showBrowserNotification(note, getReminderOccurrenceKey(note)!));
+    const updated = [...notified, ...fresh.map(note => getReminderOccurrenceKey(note)!)];
+    localStorage.setItem(NOTIFIED_REMINDERS_KEY, JSON.stringify(updated.slice(-MAX_NOTIFIED_REMINDERS)));
+  }, [due]);
+
+  const requestPermission = useCallback(async () => {
+    if (!supportsNotifications()) return;
+    setPermission(await Notification.requestPermission());
+  }, []);
+
+  const snooze = useCallback(
+    (note: Note, minutes: number) => snoozeNoteReminder(note.id, minutes, new Date(clock.now())),
+    [clock]
+  );
+
+  const complete = useCallback(
+    (note: Note) => completeNoteReminder(note.id, new Date(clock.now())),
+    [clock]
+  );
+
+  const dismiss = useCallback((note: Note) => {
+    const key = getReminderOccurrenceKey(note);
+    if (key) setDismissed(current => [...current, key]);
+  }, []);
+
+  return { reminders, alerts, permission, requestPermission, snooze, complete, dismiss };
+};
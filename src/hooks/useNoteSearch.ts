@@ -0,0 +1,84 @@
+import { useState, useEffect, useMemo, useRef, useDeferredValue } from 'react';
+import { loadNoteSearchEntries, saveNoteSearchEntries } from '../services/search/noteSearchIndex';
+import { Note } from '../types/user';
+import { NoteSearchEntry, NoteSearchResult } from '../types/search';
+import {
+  NoteSearchVocabulary,
+  buildNoteSearchEntry,
+  buildNoteSearchVocabulary,
+  isNoteSearchEntryCurrent,
+  searchNotes
+} from '../utils/noteSearch';
+
+/**
+ * Pencarian note di sebuah rumah. Indeks dimuat dari IndexedDB lalu diperbarui
+ * setiap kali daftar note dari Firestore berubah: hanya note yang judul atau
+ * isinya berubah yang diindeks ulang, dan note yang dihapus dibuang dari indeks.
+ * Selama `notesLoading`, `notes` belum berisi snapshot pertama sehingga indeks
+ * tidak disinkronkan (jika tidak, seluruh indeks tersimpan akan terhapus).
+ */
+export const useNoteSearch = (homeId: string | undefined, notes: Note[], notesLoading: boolean, query: string) => {
+  const entriesRef = useRef<Map<string, NoteSearchEntry>>(new Map());
+  const [loaded, setLoaded] = useState(false);
+  // Kosakata dihitung ulang hanya saat indeks berubah, bukan setiap ketikan
+  const [vocabulary, setVocabulary] = useState<NoteSearchVocabulary>(() => buildNoteSearchVocabulary([]));
+  const deferredQuery = useDeferredValue(query);
+
+  useEffect(() => {
+    if (!homeId) return;
+
+    let active = true;
+    entriesRef.current = new Map();
+    setLoaded(false);
+
+    loadNoteSearchEntries(homeId).then(({ entries }) => {
+      if (!active) return;
+      entries.forEach(entry => entriesRef.current.set(entry.noteId, entry));
+      setVocabulary(buildNoteSearchVocabulary(entries));
+      setLoaded(true);
+    });
+
+    return () => {
+      active = false;
+    };
+  }, [homeId]);
+
+  useEffect(() => {
+    if (!homeId || !loaded || notesLoading) return;
+
+    const entries = entriesRef.current;
+    const changed: NoteSearchEntry[] = [];
+    notes.forEach(note => {
+      if (!isNoteSearchEntryCurrent(entries.get(note.id), note)) {
+        const entry = buildNoteSearchEntry(note);
+        entries.set(note.id, entry);
+        changed.push(entry);
+      }
+    });
+
+    const noteIds = new Set(notes.map(note => note.id));
+    const removedKeys: string[] = [];
+    entries.forEach((entry, noteId) => {
+      if (!noteIds.has(noteId)) {
+        entries.delete(noteId);
+        removedKeys.push(entry.key);
+      }
+    });
+
+    if (changed.length > 0 || removedKeys.length > 0) {
+      saveNoteSearchEntries(changed, removedKeys);
+      setVocabulary(buildNoteSearchVocabulary(Array.from(entries.values())));
+    }
+  }, [homeId, notes, notesLoading, loaded]);
+
+  const results = useMemo<NoteSearchResult[]>(
+    () => (deferredQuery.trim() ? searchNotes(deferredQuery, notes, entriesRef.current, vocabulary) : []),
+    [deferredQuery, notes, vocabulary]
+  );
+
+  return {
+    results,
+    indexing: !loaded,
+    searching: query !== deferredQuery
+  };
+};
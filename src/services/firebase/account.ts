@@ -0,0 +1,47 @@
+import { collection, deleteDoc, doc, getDocs, query, where } from "firebase/firestore";
+import { deleteUser, User } from "firebase/auth";
+import { firestore } from "./config";
+import { getUserHomes, leaveHome } from "./home";
+import { clearNoteSearchIndex } from "../search/noteSearchIndex";
+
+// Firebase hanya mengizinkan penghapusan akun tak lama setelah login
+const RECENT_LOGIN_MINUTES = 5;
+
+const hasRecentLogin = (user: User) => {
+  const lastSignIn = user.metadata.lastSignInTime ? new Date(user.metadata.lastSignInTime) : null;
+  return !!lastSignIn && Date.now() - lastSignIn.getTime() < RECENT_LOGIN_MINUTES * 60 * 1000;
+};
+
+// Menghapus akun: keluar dari semua rumah (konten dianonimkan, pemilik digantikan
+// penerusnya, rumah tanpa anggota lain masuk tempat sampah), lalu hapus profil dan akun
+export const deleteUserAccount = async (user: User) => {
+  try {
+    if (!hasRecentLogin(user)) {
+      return { success: false, error: "Demi keamanan, keluar lalu masuk kembali sebelum menghapus akun." };
+    }
+
+    const { homes, error } = await getUserHomes(user.uid);
+    if (error) {
+      return { success: false, error };
+    }
+
+    for (const home of homes) {
+      const { error: leaveError } = await leaveHome(user.uid, home.id, { mode: 'anonymize' });
+      if (leaveError) {
+        return { success: false, error: `Gagal keluar dari rumah "${home.name}": ${leaveError}` };
+      }
+    }
+
+    // Template rumah buatan user hanya bisa dilihat pemiliknya, jadi ikut dihapus
+    const templates = await getDocs(query(collection(firestore, "homeTemplates"), where("createdBy", "==", user.uid)));
+    await Promise.all(templates.docs.map(templateDoc => deleteDoc(templateDoc.ref)));
+
+    await deleteDoc(doc(firestore, "users", user.uid));
+    await deleteUser(user);
+    await clearNoteSearchIndex();
+
+    return { success: true, error: null };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+};
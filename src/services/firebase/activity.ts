@@ -0,0 +1,98 @@
+import {
+  collection,
+  doc,
+  setDoc,
+  query,
+  where,
+  orderBy,
+  onSnapshot,
+  limit as firestoreLimit,
+  Timestamp
+} from "firebase/firestore";
+import { firestore } from "./config";
+import { v4 as uuidv4 } from 'uuid';
+import { Activity, ActivityType } from "../../types/activity";
+import { isAuditActivity } from "../../utils/activity";
+
+export interface LogActivityParams {
+  homeId: string;
+  actorId: string;
+  type: ActivityType;
+  targetId?: string | null;
+  targetName?: string | null;
+  details?: Activity['details'];
+  // Aktivitas dengan kunci yang sama dalam satu jendela waktu digabung jadi satu entri
+  // (misalnya auto-save note yang terjadi setiap detik)
+  coalesceMinutes?: number;
+}
+
+const toActivity = (data: any): Activity => ({
+  ...data,
+  createdAt: data.createdAt.toDate(),
+} as Activity);
+
+// Mencatat aktivitas rumah. Kegagalan mencatat tidak boleh menggagalkan aksi utamanya.
+export const logActivity = async (params: LogActivityParams) => {
+  try {
+    const now = new Date();
+    const id = params.coalesceMinutes
+      ? [
+          params.homeId,
+          params.type,
+          params.actorId,
+          params.targetId || 'none',
+          Math.floor(now.getTime() / (params.coalesceMinutes * 60 * 1000))
+        ].join('_')
+      : uuidv4();
+
+    const activity: Activity = {
+      id,
+      homeId: params.homeId,
+      type: params.type,
+      actorId: params.actorId,
+      targetId: params.targetId ?? null,
+      targetName: params.targetName ?? null,
+      details: params.details || {},
+      audit: isAuditActivity(params.type),
+      createdAt: now,
+    };
+
+    await setDoc(doc(firestore, "activity", id), {
+      ...activity,
+      createdAt: Timestamp.fromDate(now),
+    });
+
+    return { activity, error: null };
+  } catch (error: any) {
+    console.warn('Gagal mencatat aktivitas:', error);
+    return { activity: null, error: error.message };
+  }
+};
+
+export interface ActivitySubscriptionOptions {
+  includeAudit: boolean; // Hanya owner/admin yang boleh membaca entri audit
+  limitCount?: number;
+}
+
+// Real-time listener untuk feed aktivitas rumah (terbaru lebih dulu)
+export const subscribeToHomeActivity = (
+  homeId: string,
+  callback: (activities: Activity[]) => void,
+  options: ActivitySubscriptionOptions
+) => {
+  const activityRef = collection(firestore, "activity");
+  const constraints = [
+    where("homeId", "==", homeId),
+    ...(options.includeAudit ? [] : [where("audit", "==", false)]),
+    orderBy("createdAt", "desc"),
+    firestoreLimit(options.limitCount || 200)
+  ];
+
+  return onSnapshot(query(activityRef, ...constraints), (querySnapshot) => {
+    const activities: Activity[] = [];
+    querySnapshot.forEach((doc) => {
+      activities.push(toActivity(doc.data()));
+    });
+    callback(activities);
+  });
+};
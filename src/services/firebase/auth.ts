@@ -8,6 +8,7 @@ import {
   onAuthStateChanged
 } from "firebase/auth";
 import { auth } from "./config";
+import { clearNoteSearchIndex } from "../search/noteSearchIndex";
 
 // Register dengan email dan password
 export const registerWithEmail = async (email: string, password: string) => {
@@ -44,6 +45,8 @@ export const loginWithGoogle = async () => {
 export const logout = async () => {
   try {
     await signOut(auth);
+    // Indeks pencarian berisi kata-kata dari note; gagal menghapusnya tidak membatalkan logout
+    await clearNoteSearchIndex();
     return { success: true, error: null };
   } catch (error: any) {
     return { success: false, error: error.message };
@@ -14,8 +14,10 @@ import {
 import { firestore } from "./config";
 import { v4 as uuidv4 } from 'uuid';
 import { ChatMessage } from "../../types/user";
+import { ImportedMetadata } from "../../types/archive";
+import { incrementHomeStat } from "./homeStats";
 
-// Mengirim pesan chat
+// Mengirim pesan chat. `imported` membawa waktu kirim, status baca dan reaksi dari arsip ekspor
 export const sendChatMessage = async (
   homeId: string, 
   senderId: string, 
@@ -24,7 +26,8 @@ export const sendChatMessage = async (
     id: string;
     text: string;
     senderId: string;
-  }
+  },
+  imported?: ImportedMetadata & Partial<Pick<ChatMessage, 'read' | 'readAt' | 'emoji'>>
 ) => {
   try {
     // Create base message data without optional fields
@@ -33,9 +36,9 @@ export const sendChatMessage = async (
       homeId,
       text,
       senderId,
-      timestamp: new Date(),
-      read: false,
-      emoji: []
+      timestamp: imported?.createdAt || new Date(),
+      read: !!imported?.read,
+      emoji: imported?.emoji || []
     };
 
     // Add replyTo field only if it's provided and not undefined
@@ -44,13 +47,22 @@ export const sendChatMessage = async (
     }
 
     // Convert to Firestore-compatible object
-    const firestoreData = {
+    const firestoreData: any = {
       ...messageData,
       timestamp: Timestamp.fromDate(messageData.timestamp),
     };
 
+    if (imported) {
+      firestoreData.importedBy = imported.importedBy;
+      if (imported.readAt) {
+        messageData.readAt = imported.readAt;
+        firestoreData.readAt = Timestamp.fromDate(imported.readAt);
+      }
+    }
+
     const messageRef = doc(firestore, "messages", messageData.id);
     await setDoc(messageRef, firestoreData);
+    await incrementHomeStat(homeId, senderId, 'messages', messageData.timestamp);
 
     return { message: messageData, error: null };
   } catch (error: any) {
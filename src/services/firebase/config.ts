@@ -3,6 +3,7 @@ import { initializeApp } from "firebase/app";
 import { getAuth } from "firebase/auth";
 import { getFirestore, enableNetwork, disableNetwork } from "firebase/firestore";
 import { getDatabase, Database } from "firebase/database";
+import { getStorage, connectStorageEmulator } from "firebase/storage";
 
 // Your web app's Firebase configuration
 // For Firebase JS SDK v7.20.0 and later, measurementId is optional
@@ -59,4 +60,13 @@ const database: Database = (() => {
   }
 })();
 
-export { app, auth, firestore, database };
+// Lampiran note disimpan di Cloud Storage; isi REACT_APP_FIREBASE_STORAGE_EMULATOR_HOST
+// (misalnya localhost:9199) untuk mencobanya terhadap Storage Emulator
+const storage = getStorage(app);
+const storageEmulatorHost = process.env.REACT_APP_FIREBASE_STORAGE_EMULATOR_HOST;
+if (storageEmulatorHost) {
+  const [host, port] = storageEmulatorHost.split(':');
+  connectStorageEmulator(storage, host, Number(port));
+}
+
+export { app, auth, firestore, database, storage };
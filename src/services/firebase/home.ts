@@ -9,40 +9,68 @@ import {
   updateDoc, 
   arrayUnion,
   arrayRemove,
-  writeBatch 
+  deleteField,
+  writeBatch,
+  getCountFromServer,
+  onSnapshot,
+  QueryConstraint,
+  Timestamp
 } from "firebase/firestore";
 import { firestore } from "./config";
 import { v4 as uuidv4 } from 'uuid';
+import { Home, HomeProfile, HomeRole, MemberContentHandover } from "../../types/user";
+import { HomeStatistics } from "../../types/stats";
+import { getMemberRole, hasHomePermission, outranks } from "../../utils/homePermissions";
+import { isHomeInTrash, isHomePurgeDue } from "../../utils/homeTrash";
+import { validateHomeProfile } from "../../utils/homeProfile";
+import { pickSuccessor } from "../../utils/ownership";
+import { normalizeWishlistCategories, validateWishlistCategories } from "../../utils/wishlist";
+import { cascadeDeleteHome, HomeDeletionProgressCallback } from "./homeDeletion";
+import { logActivity } from "./activity";
+import { getUserDisplayName } from "./user";
+import { getHomeMemberProfilesMap, recordMemberJoined } from "./homeMembers";
+import { handOverMemberContent, validateMemberHandover } from "./memberHandover";
+import { visibleNotesQuery } from "./notes";
+import { leavePresenceMembers, seedPresenceMembers, transferPresenceMembers } from "./notePresence";
+
+// Generate kode undangan (format: XXX-XXX-XXX)
+export const generateInviteCode = () => {
+  const segments = [];
+  for (let i = 0; i < 3; i++) {
+    segments.push(uuidv4().substring(0, 3).toUpperCase());
+  }
+  return segments.join("-");
+};
 
-// Tipe data untuk Home
-interface Home {
-  id: string;
-  name: string;
-  createdBy: string;
-  members: string[];
-  inviteCode: string;
-  createdAt: Date;
-}
+// Kode undangan utama rumah juga disimpan sebagai undangan biasa (peran 'member', tanpa
+// batas), karena non-anggota tidak bisa mencari rumah berdasarkan kodenya
+const saveHomeInviteCode = (home: Pick<Home, 'id' | 'name' | 'requireApproval'>, userId: string, inviteCode: string) =>
+  setDoc(doc(firestore, "invites", inviteCode), {
+    id: inviteCode,
+    homeId: home.id,
+    homeName: home.name,
+    role: 'member',
+    createdBy: userId,
+    createdAt: Timestamp.fromDate(new Date()),
+    expiresAt: null,
+    maxUses: null,
+    uses: 0,
+    revoked: false,
+    requireApproval: !!home.requireApproval,
+    homeCode: true,
+  });
 
 // Membuat rumah baru
 export const createHome = async (userId: string, homeName: string = "Rumah Kita") => {
   try {
-    // Generate invite code (format: XXX-XXX-XXX)
-    const generateCode = () => {
-      const segments = [];
-      for (let i = 0; i < 3; i++) {
-        segments.push(uuidv4().substring(0, 3).toUpperCase());
-      }
-      return segments.join("-");
-    };
-
-    const inviteCode = generateCode();
+    const inviteCode = generateInviteCode();
     
     const homeData: Home = {
       id: uuidv4(),
       name: homeName,
       createdBy: userId,
       members: [userId],
+      roles: { [userId]: 'owner' },
       inviteCode,
       createdAt: new Date(),
     };
@@ -50,6 +78,7 @@ export const createHome = async (userId: string, homeName: string = "Rumah Kita"
     // Simpan data rumah di Firestore
     const homeRef = doc(firestore, "homes", homeData.id);
     await setDoc(homeRef, homeData);
+    await saveHomeInviteCode(homeData, userId, inviteCode);
 
     // Tambahkan referensi ke user
     const userRef = doc(firestore, "users", userId);
@@ -57,98 +86,105 @@ export const createHome = async (userId: string, homeName: string = "Rumah Kita"
       homes: arrayUnion(homeData.id)
     });
 
+    await recordMemberJoined(homeData.id, userId, homeData.createdAt);
+    await seedPresenceMembers(homeData.id, userId);
+
     return { home: homeData, error: null };
   } catch (error: any) {
     return { home: null, error: error.message };
   }
 };
 
-// Mencari rumah dengan kode undangan
-export const findHomeByInviteCode = async (inviteCode: string) => {
+// Tanggal hapus disimpan sebagai Timestamp, ubah ke Date agar bisa dihitung
+const toHome = (data: any): Home => ({
+  ...data,
+  deletedAt: data.deletedAt ? data.deletedAt.toDate() : null,
+} as Home);
+
+// Mendapatkan detail rumah berdasarkan ID
+export const getHomeById = async (homeId: string) => {
   try {
-    const homesRef = collection(firestore, "homes");
-    const q = query(homesRef, where("inviteCode", "==", inviteCode));
-    const querySnapshot = await getDocs(q);
+    const homeRef = doc(firestore, "homes", homeId);
+    const homeDoc = await getDoc(homeRef);
     
-    if (querySnapshot.empty) {
+    if (!homeDoc.exists()) {
       return { home: null, error: "Rumah tidak ditemukan" };
     }
-
-    const homeData = querySnapshot.docs[0].data() as Home;
+    
+    const homeData = toHome(homeDoc.data());
     return { home: homeData, error: null };
   } catch (error: any) {
     return { home: null, error: error.message };
   }
 };
 
-// Bergabung ke rumah dengan kode undangan
-export const joinHomeByInviteCode = async (userId: string, inviteCode: string) => {
-  try {
-    const { home, error } = await findHomeByInviteCode(inviteCode);
-    if (error || !home) {
-      return { success: false, error: error || "Rumah tidak ditemukan" };
-    }
+// Real-time listener untuk satu rumah, agar perubahan profil langsung terlihat
+export const subscribeToHome = (homeId: string, callback: (home: Home | null) => void) => {
+  const homeRef = doc(firestore, "homes", homeId);
 
-    // Cek apakah user sudah menjadi anggota
-    if (home.members.includes(userId)) {
-      return { success: true, home, error: null };
-    }
+  return onSnapshot(homeRef, (homeDoc) => {
+    callback(homeDoc.exists() ? toHome(homeDoc.data()) : null);
+  });
+};
 
-    // Update anggota rumah
-    const homeRef = doc(firestore, "homes", home.id);
-    await updateDoc(homeRef, {
-      members: arrayUnion(userId)
-    });
+const getMemberHomes = async (userId: string) => {
+  const homesRef = collection(firestore, "homes");
+  const q = query(homesRef, where("members", "array-contains", userId));
+  const querySnapshot = await getDocs(q);
+
+  const homes: Home[] = [];
+  querySnapshot.forEach((doc) => {
+    homes.push(toHome(doc.data()));
+  });
+  return homes;
+};
 
-    // Update daftar rumah pada user
+// User hanya boleh mengubah dokumennya sendiri, jadi rumah yang dihapus atau ditinggalkan
+// lewat perangkat anggota lain dibersihkan dari `users.homes` saat daftar rumah dimuat
+const pruneUserHomes = async (userId: string, homes: Home[]) => {
+  try {
     const userRef = doc(firestore, "users", userId);
-    await updateDoc(userRef, {
-      homes: arrayUnion(home.id)
-    });
+    const userDoc = await getDoc(userRef);
+    const homeIds: string[] = (userDoc.exists() && userDoc.data().homes) || [];
+    const staleIds = homeIds.filter(homeId => !homes.some(home => home.id === homeId));
 
-    return { success: true, home, error: null };
+    if (staleIds.length > 0) {
+      await updateDoc(userRef, {
+        homes: arrayRemove(...staleIds)
+      });
+    }
   } catch (error: any) {
-    return { success: false, error: error.message };
+    console.warn("Gagal membersihkan daftar rumah:", error.message);
   }
 };
 
-// Mendapatkan detail rumah berdasarkan ID
-export const getHomeById = async (homeId: string) => {
+// Mendapatkan semua rumah yang dimiliki user (rumah di tempat sampah tidak ikut)
+export const getUserHomes = async (userId: string) => {
   try {
-    const homeRef = doc(firestore, "homes", homeId);
-    const homeDoc = await getDoc(homeRef);
-    
-    if (!homeDoc.exists()) {
-      return { home: null, error: "Rumah tidak ditemukan" };
-    }
-    
-    const homeData = homeDoc.data() as Home;
-    return { home: homeData, error: null };
+    const homes = await getMemberHomes(userId);
+    await pruneUserHomes(userId, homes);
+    return { homes: homes.filter(home => !isHomeInTrash(home)), error: null };
   } catch (error: any) {
-    return { home: null, error: error.message };
+    return { homes: [], error: error.message };
   }
 };
 
-// Mendapatkan semua rumah yang dimiliki user
-export const getUserHomes = async (userId: string) => {
+// Rumah di tempat sampah yang bisa dipulihkan atau dihapus permanen oleh user
+export const getDeletedHomes = async (userId: string) => {
   try {
-    const homesRef = collection(firestore, "homes");
-    const q = query(homesRef, where("members", "array-contains", userId));
-    const querySnapshot = await getDocs(q);
-    
-    const homes: Home[] = [];
-    querySnapshot.forEach((doc) => {
-      homes.push(doc.data() as Home);
-    });
-    
-    return { homes, error: null };
+    const homes = await getMemberHomes(userId);
+    const deletedHomes = homes.filter(home =>
+      isHomeInTrash(home) && hasHomePermission(home, userId, 'deleteHome')
+    );
+    return { homes: deletedHomes, error: null };
   } catch (error: any) {
     return { homes: [], error: error.message };
   }
 };
 
 // Keluar dari rumah (leave home)
-export const leaveHome = async (userId: string, homeId: string) => {
+// `handover` menentukan nasib catatan, wishlist dan peliharaan milik user
+export const leaveHome = async (userId: string, homeId: string, handover: MemberContentHandover) => {
   try {
     // Mendapatkan data rumah terlebih dahulu
     const { home, error } = await getHomeById(homeId);
@@ -161,23 +197,52 @@ export const leaveHome = async (userId: string, homeId: string) => {
       return { success: false, error: "Anda bukan anggota rumah ini" };
     }
 
-    // Cek apakah user adalah creator dan masih ada anggota lain
-    if (home.createdBy === userId && home.members.length > 1) {
-      return { 
-        success: false, 
-        error: "Sebagai pembuat rumah, Anda tidak dapat keluar jika masih ada anggota lain. Hapus rumah atau transfer kepemilikan terlebih dahulu." 
-      };
-    }
-
     // Jika user adalah creator dan satu-satunya anggota, hapus rumah
     if (home.createdBy === userId && home.members.length === 1) {
       return await deleteHome(userId, homeId);
     }
 
+    const handoverError = validateMemberHandover(home, userId, handover);
+    if (handoverError) {
+      return { success: false, error: handoverError };
+    }
+
+    // Pemilik yang keluar digantikan penerusnya (pilihan pemilik, admin terlama, lalu anggota terlama)
+    if (home.createdBy === userId) {
+      const successorId = pickSuccessor(home, await getHomeMemberProfilesMap(homeId));
+      if (!successorId) {
+        return {
+          success: false,
+          error: "Tidak ada anggota yang bisa menjadi pemilik baru. Jadikan salah satu tamu anggota atau hapus rumah."
+        };
+      }
+
+      const { error: transferError } = await transferHomeOwnership(userId, successorId, homeId, 'succession');
+      if (transferError) {
+        return { success: false, error: transferError };
+      }
+    }
+
+    // Serah terima dan pencatatan dilakukan sebelum keluar, karena setelahnya
+    // user tidak lagi bisa menulis ke rumah ini
+    const { handedOver } = await handOverMemberContent(home, userId, userId, handover);
+
+    await logActivity({
+      homeId,
+      actorId: userId,
+      type: 'member_left',
+      details: {
+        handover: handover.mode,
+        handoverTo: handover.mode === 'reassign' ? handover.toUserId : null,
+        handedOver
+      }
+    });
+
     // Remove user dari members rumah
     const homeRef = doc(firestore, "homes", homeId);
     await updateDoc(homeRef, {
-      members: arrayRemove(userId)
+      members: arrayRemove(userId),
+      [`roles.${userId}`]: deleteField()
     });
 
     // Remove rumah dari daftar homes user
@@ -186,64 +251,105 @@ export const leaveHome = async (userId: string, homeId: string) => {
       homes: arrayRemove(homeId)
     });
 
+    await leavePresenceMembers(homeId, userId);
+
     return { success: true, error: null };
   } catch (error: any) {
     return { success: false, error: error.message };
   }
 };
 
-// Hapus rumah (hanya creator yang bisa menghapus)
+// Hapus rumah (hanya pemilik yang bisa menghapus). Rumah dipindahkan ke tempat sampah
+// dan baru dihapus permanen oleh purge job setelah masa retensi.
 export const deleteHome = async (userId: string, homeId: string) => {
   try {
-    // Mendapatkan data rumah terlebih dahulu
     const { home, error } = await getHomeById(homeId);
     if (error || !home) {
       return { success: false, error: error || "Rumah tidak ditemukan" };
     }
 
-    // Cek apakah user adalah creator
-    if (home.createdBy !== userId) {
-      return { success: false, error: "Hanya pembuat rumah yang dapat menghapus rumah" };
+    if (!hasHomePermission(home, userId, 'deleteHome')) {
+      return { success: false, error: "Hanya pemilik rumah yang dapat menghapus rumah" };
     }
 
-    // Create a batch for atomic operations
-    const batch = writeBatch(firestore);
-
-    // Remove rumah dari semua anggota
-    for (const memberId of home.members) {
-      const userRef = doc(firestore, "users", memberId);
-      batch.update(userRef, {
-        homes: arrayRemove(homeId)
-      });
+    if (isHomeInTrash(home)) {
+      return { success: false, error: "Rumah sudah dihapus" };
     }
 
-    // Get and delete all notes in this home
-    const notesQuery = query(collection(firestore, "notes"), where("homeId", "==", homeId));
-    const notesSnapshot = await getDocs(notesQuery);
-    notesSnapshot.forEach((noteDoc) => {
-      batch.delete(noteDoc.ref);
+    await updateDoc(doc(firestore, "homes", homeId), {
+      deletedAt: Timestamp.fromDate(new Date()),
+      deletedBy: userId
     });
 
-    // Get and delete all wishlist items in this home
-    const wishlistQuery = query(collection(firestore, "wishlist"), where("homeId", "==", homeId));
-    const wishlistSnapshot = await getDocs(wishlistQuery);
-    wishlistSnapshot.forEach((wishlistDoc) => {
-      batch.delete(wishlistDoc.ref);
-    });
+    await logActivity({ homeId, actorId: userId, type: 'home_deleted' });
+
+    return { success: true, error: null };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+};
+
+// Memulihkan rumah dari tempat sampah sebelum masa retensi habis
+export const restoreHome = async (userId: string, homeId: string) => {
+  try {
+    const { home, error } = await getHomeById(homeId);
+    if (error || !home) {
+      return { success: false, error: error || "Rumah tidak ditemukan" };
+    }
+
+    if (!hasHomePermission(home, userId, 'deleteHome')) {
+      return { success: false, error: "Hanya pemilik rumah yang dapat memulihkan rumah" };
+    }
+
+    if (home.deletion) {
+      return { success: false, error: "Rumah sedang dihapus permanen dan tidak bisa dipulihkan" };
+    }
 
-    // Get and delete all chat messages in this home
-    const messagesQuery = query(collection(firestore, "messages"), where("homeId", "==", homeId));
-    const messagesSnapshot = await getDocs(messagesQuery);
-    messagesSnapshot.forEach((messageDoc) => {
-      batch.delete(messageDoc.ref);
+    if (!home.deletedAt) {
+      return { success: false, error: "Rumah ini tidak berada di tempat sampah" };
+    }
+
+    if (isHomePurgeDue(home)) {
+      return { success: false, error: "Masa pemulihan rumah ini sudah habis" };
+    }
+
+    await updateDoc(doc(firestore, "homes", homeId), {
+      deletedAt: deleteField(),
+      deletedBy: deleteField()
     });
 
-    // Delete the home document
-    const homeRef = doc(firestore, "homes", homeId);
-    batch.delete(homeRef);
+    await logActivity({ homeId, actorId: userId, type: 'home_restored' });
 
-    // Commit all operations
-    await batch.commit();
+    return { success: true, error: null };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+};
+
+// Hapus permanen rumah beserta seluruh datanya (tidak bisa dibatalkan)
+export const purgeHome = async (
+  userId: string,
+  homeId: string,
+  onProgress?: HomeDeletionProgressCallback
+) => {
+  try {
+    // Mendapatkan data rumah terlebih dahulu
+    const { home, error } = await getHomeById(homeId);
+    if (error || !home) {
+      return { success: false, error: error || "Rumah tidak ditemukan" };
+    }
+
+    // Cek apakah user boleh menghapus rumah
+    if (!hasHomePermission(home, userId, 'deleteHome')) {
+      return { success: false, error: "Hanya pemilik rumah yang dapat menghapus rumah" };
+    }
+
+    if (!isHomeInTrash(home)) {
+      return { success: false, error: "Hapus rumah terlebih dahulu sebelum menghapusnya permanen" };
+    }
+
+    // Hapus semua data rumah secara bertahap; jika sebelumnya terhenti, lanjutkan dari tahap terakhir
+    await cascadeDeleteHome(userId, home, onProgress);
 
     return { success: true, error: null };
   } catch (error: any) {
@@ -260,21 +366,14 @@ export const regenerateInviteCode = async (userId: string, homeId: string) => {
       return { success: false, error: error || "Rumah tidak ditemukan", inviteCode: null };
     }
 
-    // Cek apakah user adalah creator
-    if (home.createdBy !== userId) {
-      return { success: false, error: "Hanya pembuat rumah yang dapat mengubah kode undangan", inviteCode: null };
+    // Cek apakah user boleh mengubah pengaturan rumah
+    if (!hasHomePermission(home, userId, 'manageSettings')) {
+      return { success: false, error: "Anda tidak memiliki izin untuk mengubah kode undangan", inviteCode: null };
     }
 
     // Generate kode undangan baru
-    const generateCode = () => {
-      const segments = [];
-      for (let i = 0; i < 3; i++) {
-        segments.push(uuidv4().substring(0, 3).toUpperCase());
-      }
-      return segments.join("-");
-    };
-
-    const newInviteCode = generateCode();
+    const newInviteCode = generateInviteCode();
+    await saveHomeInviteCode(home, userId, newInviteCode);
 
     // Update kode undangan
     const homeRef = doc(firestore, "homes", homeId);
@@ -282,14 +381,30 @@ export const regenerateInviteCode = async (userId: string, homeId: string) => {
       inviteCode: newInviteCode
     });
 
+    // Kode lama tidak bisa dipakai lagi
+    const oldInviteRef = doc(firestore, "invites", home.inviteCode);
+    if (home.inviteCode && (await getDoc(oldInviteRef)).exists()) {
+      await updateDoc(oldInviteRef, {
+        revoked: true,
+        revokedAt: Timestamp.fromDate(new Date())
+      });
+    }
+
+    await logActivity({ homeId, actorId: userId, type: 'invite_code_regenerated' });
+
     return { success: true, error: null, inviteCode: newInviteCode };
   } catch (error: any) {
     return { success: false, error: error.message, inviteCode: null };
   }
 };
 
-// Transfer kepemilikan rumah
-export const transferHomeOwnership = async (currentOwnerId: string, newOwnerId: string, homeId: string) => {
+// Transfer kepemilikan rumah. 'succession' dipakai saat pemilik keluar atau menghapus akun.
+export const transferHomeOwnership = async (
+  currentOwnerId: string,
+  newOwnerId: string,
+  homeId: string,
+  reason: 'manual' | 'succession' = 'manual'
+) => {
   try {
     // Mendapatkan data rumah terlebih dahulu
     const { home, error } = await getHomeById(homeId);
@@ -307,10 +422,27 @@ export const transferHomeOwnership = async (currentOwnerId: string, newOwnerId:
       return { success: false, error: "Pemilik baru harus menjadi anggota rumah" };
     }
 
-    // Update pembuat rumah
+    if (getMemberRole(home, newOwnerId) === 'guest') {
+      return { success: false, error: "Tamu tidak dapat menjadi pemilik rumah" };
+    }
+
+    // Update pemilik rumah, pemilik lama menjadi admin. Pemilik baru tidak lagi menjadi penerus.
     const homeRef = doc(firestore, "homes", homeId);
     await updateDoc(homeRef, {
-      createdBy: newOwnerId
+      createdBy: newOwnerId,
+      [`roles.${newOwnerId}`]: 'owner',
+      [`roles.${currentOwnerId}`]: 'admin',
+      successors: arrayRemove(newOwnerId)
+    });
+    await transferPresenceMembers(homeId, newOwnerId);
+
+    await logActivity({
+      homeId,
+      actorId: currentOwnerId,
+      type: 'ownership_transferred',
+      targetId: newOwnerId,
+      targetName: await getUserDisplayName(newOwnerId),
+      details: { reason }
     });
 
     return { success: true, error: null };
@@ -319,39 +451,32 @@ export const transferHomeOwnership = async (currentOwnerId: string, newOwnerId:
   }
 };
 
-// Get home statistics
-export const getHomeStatistics = async (homeId: string) => {
+// Get home statistics. Note dihitung sebatas yang boleh dibaca user
+export const getHomeStatistics = async (homeId: string, userId: string) => {
   try {
-    // Get notes count
-    const notesQuery = query(collection(firestore, "notes"), where("homeId", "==", homeId));
-    const notesSnapshot = await getDocs(notesQuery);
-    const notesCount = notesSnapshot.size;
-
-    // Get wishlist count
-    const wishlistQuery = query(collection(firestore, "wishlist"), where("homeId", "==", homeId));
-    const wishlistSnapshot = await getDocs(wishlistQuery);
-    const wishlistCount = wishlistSnapshot.size;
-
-    // Get completed wishlist count
-    const completedWishlistCount = wishlistSnapshot.docs.filter(doc => 
-      doc.data().completed === true
-    ).length;
-
-    // Get messages count
-    const messagesQuery = query(collection(firestore, "messages"), where("homeId", "==", homeId));
-    const messagesSnapshot = await getDocs(messagesQuery);
-    const messagesCount = messagesSnapshot.size;
+    // Agregasi count di server: biayanya 1 read per 1000 dokumen, bukan 1 read per dokumen
+    const countWhere = async (collectionName: string, ...constraints: QueryConstraint[]) => {
+      const snapshot = await getCountFromServer(
+        query(collection(firestore, collectionName), where("homeId", "==", homeId), ...constraints)
+      );
+      return snapshot.data().count;
+    };
 
-    return {
-      success: true,
-      statistics: {
-        notesCount,
-        wishlistCount,
-        completedWishlistCount,
-        messagesCount
-      },
-      error: null
+    const [notesCount, wishlistCount, completedWishlistCount, messagesCount] = await Promise.all([
+      getCountFromServer(visibleNotesQuery(homeId, userId)).then(snapshot => snapshot.data().count),
+      countWhere("wishlist"),
+      countWhere("wishlist", where("completed", "==", true)),
+      countWhere("messages")
+    ]);
+
+    const statistics: HomeStatistics = {
+      notesCount,
+      wishlistCount,
+      completedWishlistCount,
+      messagesCount
     };
+
+    return { success: true, statistics, error: null };
   } catch (error: any) {
     return {
       success: false,
@@ -361,8 +486,13 @@ export const getHomeStatistics = async (homeId: string) => {
   }
 };
 
-// Remove member from home (owner only)
-export const removeMemberFromHome = async (ownerId: string, memberId: string, homeId: string) => {
+// Remove member from home (owner/admin only)
+export const removeMemberFromHome = async (
+  ownerId: string,
+  memberId: string,
+  homeId: string,
+  handover: MemberContentHandover
+) => {
   try {
     // Mendapatkan data rumah terlebih dahulu
     const { home, error } = await getHomeById(homeId);
@@ -370,9 +500,9 @@ export const removeMemberFromHome = async (ownerId: string, memberId: string, ho
       return { success: false, error: error || "Rumah tidak ditemukan" };
     }
 
-    // Cek apakah user adalah creator
-    if (home.createdBy !== ownerId) {
-      return { success: false, error: "Hanya pembuat rumah yang dapat mengeluarkan anggota" };
+    // Cek apakah user boleh mengeluarkan anggota
+    if (!hasHomePermission(home, ownerId, 'removeMembers')) {
+      return { success: false, error: "Anda tidak memiliki izin untuk mengeluarkan anggota" };
     }
 
     // Cek apakah yang akan dikeluarkan bukan owner sendiri
@@ -381,20 +511,161 @@ export const removeMemberFromHome = async (ownerId: string, memberId: string, ho
     }
 
     // Cek apakah member adalah anggota rumah
-    if (!home.members.includes(memberId)) {
+    const actorRole = getMemberRole(home, ownerId);
+    const memberRole = getMemberRole(home, memberId);
+    if (!memberRole) {
       return { success: false, error: "User bukan anggota rumah ini" };
     }
 
+    // Hanya bisa mengeluarkan anggota dengan peran di bawah peran sendiri
+    if (!actorRole || !outranks(actorRole, memberRole)) {
+      return { success: false, error: "Anda tidak dapat mengeluarkan anggota dengan peran yang sama atau lebih tinggi" };
+    }
+
+    const handoverError = validateMemberHandover(home, memberId, handover);
+    if (handoverError) {
+      return { success: false, error: handoverError };
+    }
+
+    // Konten diserahkan selagi anggota masih tercatat, agar namanya masih bisa dibaca
+    const { handedOver, senderName } = await handOverMemberContent(home, memberId, ownerId, handover);
+
     // Remove user dari members rumah
     const homeRef = doc(firestore, "homes", homeId);
     await updateDoc(homeRef, {
-      members: arrayRemove(memberId)
+      members: arrayRemove(memberId),
+      [`roles.${memberId}`]: deleteField()
     });
 
-    // Remove rumah dari daftar homes user
-    const userRef = doc(firestore, "users", memberId);
-    await updateDoc(userRef, {
-      homes: arrayRemove(homeId)
+    await logActivity({
+      homeId,
+      actorId: ownerId,
+      type: 'member_removed',
+      targetId: memberId,
+      targetName: senderName,
+      details: {
+        role: memberRole,
+        handover: handover.mode,
+        handoverTo: handover.mode === 'reassign' ? handover.toUserId : null,
+        handedOver
+      }
+    });
+
+    return { success: true, error: null };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+};
+
+// Mengubah peran anggota (owner only)
+export const updateMemberRole = async (actorId: string, memberId: string, homeId: string, role: HomeRole) => {
+  try {
+    // Mendapatkan data rumah terlebih dahulu
+    const { home, error } = await getHomeById(homeId);
+    if (error || !home) {
+      return { success: false, error: error || "Rumah tidak ditemukan" };
+    }
+
+    // Cek apakah user boleh mengatur peran
+    if (!hasHomePermission(home, actorId, 'manageRoles')) {
+      return { success: false, error: "Hanya pemilik rumah yang dapat mengubah peran anggota" };
+    }
+
+    // Kepemilikan hanya bisa dipindahkan melalui transferHomeOwnership
+    if (role === 'owner') {
+      return { success: false, error: "Gunakan transfer kepemilikan untuk menjadikan anggota sebagai pemilik" };
+    }
+
+    if (actorId === memberId) {
+      return { success: false, error: "Tidak dapat mengubah peran diri sendiri" };
+    }
+
+    if (!home.members.includes(memberId)) {
+      return { success: false, error: "User bukan anggota rumah ini" };
+    }
+
+    const homeRef = doc(firestore, "homes", homeId);
+    await updateDoc(homeRef, {
+      [`roles.${memberId}`]: role
+    });
+
+    await logActivity({
+      homeId,
+      actorId,
+      type: 'member_role_changed',
+      targetId: memberId,
+      targetName: await getUserDisplayName(memberId),
+      details: { role, previousRole: getMemberRole(home, memberId) }
+    });
+
+    return { success: true, error: null };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+};
+
+
+// Memperbarui pengaturan dan profil rumah (owner/admin)
+export const updateHomeSettings = async (
+  userId: string,
+  homeId: string,
+  settings: Partial<Pick<Home, 'requireApproval' | 'wishlistCategories'> & HomeProfile>
+) => {
+  try {
+    const { home, error } = await getHomeById(homeId);
+    if (error || !home) {
+      return { success: false, error: error || "Rumah tidak ditemukan" };
+    }
+
+    if (!hasHomePermission(home, userId, 'manageSettings')) {
+      return { success: false, error: "Anda tidak memiliki izin untuk mengubah pengaturan rumah" };
+    }
+
+    const validationError = validateHomeProfile(settings) ||
+      (settings.wishlistCategories ? validateWishlistCategories(settings.wishlistCategories) : null);
+    if (validationError) {
+      return { success: false, error: validationError };
+    }
+
+    // Teks dirapikan; field profil yang dikosongkan dihapus dari dokumen
+    const updates: { [field: string]: any } = {};
+    const details: { [field: string]: string | boolean } = {};
+    Object.entries(settings).forEach(([field, value]) => {
+      if (value === undefined) return;
+      if (Array.isArray(value)) {
+        updates[field] = normalizeWishlistCategories(value);
+        details[field] = updates[field].join(', ');
+        return;
+      }
+      const normalized = typeof value === 'string' ? value.trim() : value;
+      updates[field] = normalized === '' ? deleteField() : normalized;
+      details[field] = normalized;
+    });
+
+    const batch = writeBatch(firestore);
+    batch.update(doc(firestore, "homes", homeId), updates);
+
+    // Undangan menyimpan salinan nama rumah dan pengaturan persetujuan untuk calon anggota
+    const inviteUpdates: { [field: string]: any } = {};
+    if (settings.requireApproval !== undefined) inviteUpdates.requireApproval = settings.requireApproval;
+    if (updates.name !== undefined) inviteUpdates.homeName = updates.name;
+
+    if (Object.keys(inviteUpdates).length > 0) {
+      const invitesQuery = query(collection(firestore, "invites"), where("homeId", "==", homeId));
+      const invitesSnapshot = await getDocs(invitesQuery);
+      invitesSnapshot.forEach((inviteDoc) => {
+        batch.update(inviteDoc.ref, inviteUpdates);
+      });
+    }
+
+    await batch.commit();
+
+    await logActivity({
+      homeId,
+      actorId: userId,
+      type: 'home_settings_updated',
+      targetName: updates.name ?? null,
+      details
     });
 
     return { success: true, error: null };
@@ -0,0 +1,248 @@
+import {
+  collection,
+  doc,
+  getDocs,
+  query,
+  where,
+  limit,
+  updateDoc,
+  writeBatch,
+  serverTimestamp,
+  Timestamp,
+  DocumentReference
+} from "firebase/firestore";
+import { ref, remove } from "firebase/database";
+import { firestore, database } from "./config";
+import { deleteNoteAttachments } from "./noteAttachments";
+import { clearPresenceMembers } from "./notePresence";
+import { visibleNotesQuery } from "./notes";
+import { Home, HomeDeletionProgress, HomeDeletionStep } from "../../types/user";
+
+/**
+ * Penghapusan rumah beserta seluruh datanya secara bertahap.
+ * Setiap tahap menghapus dokumen per halaman dengan batch maksimal 500 tulisan,
+ * dan tahap yang sedang berjalan disimpan di dokumen rumah (`deletion`), sehingga
+ * proses bisa dilanjutkan jika tab tertutup di tengah jalan. Semua tahap aman
+ * diulang: query hanya mengembalikan dokumen yang belum terhapus.
+ * Daftar `users.homes` anggota tidak diubah di sini karena hanya pemiliknya yang boleh
+ * menulis dokumen user; setiap user membersihkannya sendiri saat memuat daftar rumah.
+ * Note pribadi/terbatas anggota lain tidak bisa dibaca pelaku, jadi dicatat lewat
+ * `deletedHomes/{homeId}` dan dipindahkan atau dihapus oleh purge job (kredensial admin).
+ */
+
+// Batas tulisan per batch Firestore
+const MAX_BATCH_WRITES = 500;
+
+// Dokumen rumah dihapus paling akhir karena security rules memeriksa peran dari rumah
+export const HOME_DELETION_STEPS: HomeDeletionStep[] = [
+  'pets',
+  'notes',
+  'noteFolders',
+  'wishlist',
+  'messages',
+  'invites',
+  'inviteUsages',
+  'joinRequests',
+  'activity',
+  'homeStats',
+  'homeMembers',
+  'ownershipClaims',
+  'signaling',
+  'notePresence',
+  'home',
+];
+
+export const HOME_DELETION_STEP_LABELS: Record<HomeDeletionStep, string> = {
+  pets: 'Menghapus peliharaan dan interaksi',
+  notes: 'Menghapus catatan dan riwayatnya',
+  noteFolders: 'Menghapus folder catatan',
+  wishlist: 'Menghapus wishlist',
+  messages: 'Menghapus pesan chat',
+  invites: 'Menghapus undangan',
+  inviteUsages: 'Menghapus riwayat undangan',
+  joinRequests: 'Menghapus permintaan bergabung',
+  activity: 'Menghapus riwayat aktivitas',
+  homeStats: 'Menghapus statistik',
+  homeMembers: 'Menghapus profil anggota',
+  ownershipClaims: 'Menghapus klaim kepemilikan',
+  signaling: 'Menghapus data panggilan video',
+  notePresence: 'Menghapus status kehadiran di catatan',
+  home: 'Menghapus rumah',
+};
+
+export type HomeDeletionProgressCallback = (progress: HomeDeletionProgress) => void;
+
+export const isHomeBeingDeleted = (home: Pick<Home, 'deletion'>): boolean => !!home.deletion;
+
+const deleteRefs = async (refs: DocumentReference[]) => {
+  for (let i = 0; i < refs.length; i += MAX_BATCH_WRITES) {
+    const batch = writeBatch(firestore);
+    refs.slice(i, i + MAX_BATCH_WRITES).forEach(docRef => batch.delete(docRef));
+    await batch.commit();
+  }
+};
+
+// Menghapus semua dokumen yang cocok dengan field == value, satu halaman per batch
+const deleteWhere = async (
+  collectionName: string,
+  field: string,
+  value: string,
+  onDeleted: (count: number) => void
+) => {
+  const q = query(collection(firestore, collectionName), where(field, "==", value), limit(MAX_BATCH_WRITES));
+
+  while (true) {
+    const snapshot = await getDocs(q);
+    if (snapshot.empty) break;
+
+    await deleteRefs(snapshot.docs.map(docSnap => docSnap.ref));
+    onDeleted(snapshot.size);
+
+    if (snapshot.size < MAX_BATCH_WRITES) break;
+  }
+};
+
+// Interaksi diperiksa terhadap pet-nya oleh security rules, jadi dihapus lebih dulu
+const deletePetsWithInteractions = async (homeId: string, onDeleted: (count: number) => void) => {
+  const petsQuery = query(collection(firestore, "pets"), where("homeId", "==", homeId), limit(MAX_BATCH_WRITES));
+
+  while (true) {
+    const petsSnapshot = await getDocs(petsQuery);
+    if (petsSnapshot.empty) break;
+
+    for (const petDoc of petsSnapshot.docs) {
+      await deleteWhere("petInteractions", "petId", petDoc.id, onDeleted);
+    }
+
+    await deleteRefs(petsSnapshot.docs.map(petDoc => petDoc.ref));
+    onDeleted(petsSnapshot.size);
+
+    if (petsSnapshot.size < MAX_BATCH_WRITES) break;
+  }
+};
+
+// Lampiran, revisi dan operasi diperiksa terhadap note-nya oleh security rules, jadi dihapus lebih dulu.
+// Hanya note yang bisa dibaca pelaku; sisanya ditangani purge job.
+const deleteNotesWithHistory = async (homeId: string, userId: string, onDeleted: (count: number) => void) => {
+  const notesQuery = visibleNotesQuery(homeId, userId, [], limit(MAX_BATCH_WRITES));
+
+  while (true) {
+    const notesSnapshot = await getDocs(notesQuery);
+    if (notesSnapshot.empty) break;
+
+    for (const noteDoc of notesSnapshot.docs) {
+      onDeleted(await deleteNoteAttachments(noteDoc.id));
+      for (const subcollection of ["revisions", "operations"]) {
+        const historyQuery = query(collection(noteDoc.ref, subcollection), limit(MAX_BATCH_WRITES));
+        while (true) {
+          const historySnapshot = await getDocs(historyQuery);
+          if (historySnapshot.empty) break;
+
+          await deleteRefs(historySnapshot.docs.map(historyDoc => historyDoc.ref));
+          onDeleted(historySnapshot.size);
+
+          if (historySnapshot.size < MAX_BATCH_WRITES) break;
+        }
+      }
+    }
+
+    await deleteRefs(notesSnapshot.docs.map(noteDoc => noteDoc.ref));
+    onDeleted(notesSnapshot.size);
+
+    if (notesSnapshot.size < MAX_BATCH_WRITES) break;
+  }
+};
+
+const runStep = async (
+  userId: string,
+  home: Home,
+  step: HomeDeletionStep,
+  onDeleted: (count: number) => void
+) => {
+  switch (step) {
+    case 'pets':
+      return deletePetsWithInteractions(home.id, onDeleted);
+    case 'notes':
+      return deleteNotesWithHistory(home.id, userId, onDeleted);
+    case 'noteFolders':
+    case 'wishlist':
+    case 'messages':
+    case 'invites':
+    case 'inviteUsages':
+    case 'joinRequests':
+    case 'activity':
+    case 'homeStats':
+    case 'homeMembers':
+    case 'ownershipClaims':
+      return deleteWhere(step, "homeId", home.id, onDeleted);
+    case 'signaling':
+      // Seluruh pohon signaling/{homeId} di Realtime Database
+      return remove(ref(database, `signaling/${home.id}`));
+    case 'notePresence':
+      // Daftar anggota dikosongkan; entri kehadiran dan homeOwners dihapus purge job
+      return clearPresenceMembers(home.id);
+    case 'home': {
+      // Penanda untuk purge job ditulis bersama penghapusan dokumen rumah
+      const batch = writeBatch(firestore);
+      batch.set(doc(firestore, "deletedHomes", home.id), {
+        homeId: home.id,
+        deletedBy: userId,
+        deletedAt: serverTimestamp(),
+        mergedInto: home.deletion?.mergedInto || null
+      });
+      batch.delete(doc(firestore, "homes", home.id));
+      await batch.commit();
+      onDeleted(1);
+      return;
+    }
+  }
+};
+
+// Menjalankan (atau melanjutkan) penghapusan bertahap. Izin dicek oleh pemanggil.
+// `mergedInto` diisi saat rumah dihapus sebagai bagian dari penggabungan.
+export const cascadeDeleteHome = async (
+  userId: string,
+  home: Home,
+  onProgress?: HomeDeletionProgressCallback,
+  mergedInto?: string
+) => {
+  const homeRef = doc(firestore, "homes", home.id);
+  // Tahap yang tidak dikenal lagi (misalnya 'members' dari versi lama) diulang dari awal
+  const startIndex = home.deletion ? Math.max(HOME_DELETION_STEPS.indexOf(home.deletion.step), 0) : 0;
+  const progress = { deletedCount: 0 };
+
+  if (!home.deletion) {
+    const deletion = {
+      startedBy: userId,
+      startedAt: Timestamp.fromDate(new Date()),
+      step: HOME_DELETION_STEPS[0],
+      mergedInto: mergedInto || null
+    };
+    await updateDoc(homeRef, { deletion });
+    home = { ...home, deletion: { ...deletion, startedAt: deletion.startedAt.toDate() } };
+  }
+
+  for (let stepIndex = startIndex; stepIndex < HOME_DELETION_STEPS.length; stepIndex++) {
+    const step = HOME_DELETION_STEPS[stepIndex];
+    const report = () => onProgress?.({
+      step,
+      stepIndex,
+      totalSteps: HOME_DELETION_STEPS.length,
+      deletedCount: progress.deletedCount
+    });
+
+    report();
+    await runStep(userId, home, step, (count) => {
+      progress.deletedCount += count;
+      report();
+    });
+
+    // Simpan tahap berikutnya agar proses bisa dilanjutkan dari sini
+    const nextStep = HOME_DELETION_STEPS[stepIndex + 1];
+    if (nextStep) {
+      await updateDoc(homeRef, { "deletion.step": nextStep });
+    }
+  }
+
+  return { deletedCount: progress.deletedCount };
+};
@@ -0,0 +1,197 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  orderBy,
+  limit,
+  startAfter,
+  documentId,
+  Timestamp,
+  Query,
+  QueryNonFilterConstraint,
+  QueryDocumentSnapshot,
+  QuerySnapshot,
+  DocumentData
+} from "firebase/firestore";
+import { firestore } from "./config";
+import { getUserProfile } from "./user";
+import { getHomeMemberProfilesMap } from "./homeMembers";
+import { visibleNotesQuery } from "./notes";
+import {
+  ArchiveDocument,
+  ArchiveMember,
+  ArchiveValue,
+  HomeArchive,
+  HomeExportProgress,
+  HOME_ARCHIVE_FORMAT,
+  HOME_ARCHIVE_VERSION
+} from "../../types/archive";
+import { hasHomePermission } from "../../utils/homePermissions";
+
+/**
+ * Ekspor seluruh isi rumah ke satu objek arsip.
+ * Setiap koleksi dibaca per halaman (urut berdasarkan ID dokumen) supaya rumah
+ * dengan ribuan pesan tidak dimuat dalam satu query besar.
+ */
+
+const EXPORT_PAGE_SIZE = 500;
+
+export type HomeExportProgressCallback = (progress: HomeExportProgress) => void;
+
+// Timestamp ditandai { $date } agar impor bisa mengembalikannya menjadi Timestamp
+const toArchiveValue = (value: unknown): ArchiveValue => {
+  if (value === undefined || value === null) return null;
+  if (value instanceof Timestamp) return { $date: value.toDate().toISOString() };
+  if (value instanceof Date) return { $date: value.toISOString() };
+  if (Array.isArray(value)) return value.map(toArchiveValue);
+  if (typeof value === 'object') {
+    const result: { [key: string]: ArchiveValue } = {};
+    Object.entries(value as Record<string, unknown>).forEach(([key, item]) => {
+      if (item !== undefined) result[key] = toArchiveValue(item);
+    });
+    return result;
+  }
+  return value as string | number | boolean;
+};
+
+const toArchiveDocument = (docSnap: QueryDocumentSnapshot<DocumentData>): ArchiveDocument => ({
+  ...(toArchiveValue(docSnap.data()) as ArchiveDocument),
+  id: docSnap.id
+});
+
+// Membaca semua dokumen dengan field == value, satu halaman per query
+// Mengambil semua dokumen sebuah query per halaman, berurutan menurut ID dokumen
+const fetchAll = async (
+  pageQuery: (...constraints: QueryNonFilterConstraint[]) => Query<DocumentData>,
+  onPage?: (count: number) => void
+) => {
+  const documents: ArchiveDocument[] = [];
+  let lastDoc: QueryDocumentSnapshot<DocumentData> | null = null;
+
+  while (true) {
+    const constraints: QueryNonFilterConstraint[] = [
+      orderBy(documentId()),
+      ...(lastDoc ? [startAfter(lastDoc)] : []),
+      limit(EXPORT_PAGE_SIZE)
+    ];
+    const snapshot: QuerySnapshot<DocumentData> = await getDocs(pageQuery(...constraints));
+
+    snapshot.docs.forEach(docSnap => documents.push(toArchiveDocument(docSnap)));
+    onPage?.(documents.length);
+
+    if (snapshot.size < EXPORT_PAGE_SIZE) break;
+    lastDoc = snapshot.docs[snapshot.docs.length - 1];
+  }
+
+  return documents;
+};
+
+const fetchAllWhere = (
+  collectionName: string,
+  field: string,
+  value: string,
+  onPage?: (count: number) => void
+) => fetchAll((...constraints) => query(collection(firestore, collectionName), where(field, "==", value), ...constraints), onPage);
+
+// Semua user yang muncul di arsip, termasuk mantan anggota yang pernah menulis sesuatu
+const collectUserIds = (archive: Omit<HomeArchive, 'members'>, memberIds: string[]) => {
+  const ids = new Set<string>(memberIds);
+  const add = (value: ArchiveValue | undefined) => {
+    if (typeof value === 'string' && value) ids.add(value);
+  };
+
+  archive.notes.forEach(note => add(note.createdBy));
+  archive.wishlist.forEach(item => {
+    add(item.createdBy);
+    add(item.completedBy);
+  });
+  archive.messages.forEach(message => add(message.senderId));
+  archive.pets.forEach(pet => add(pet.createdBy));
+  archive.petInteractions.forEach(interaction => add(interaction.userId));
+
+  return Array.from(ids);
+};
+
+export const exportHome = async (
+  userId: string,
+  homeId: string,
+  onProgress?: HomeExportProgressCallback
+): Promise<{ archive: HomeArchive | null; error: string | null }> => {
+  try {
+    const homeDoc = await getDoc(doc(firestore, "homes", homeId));
+    if (!homeDoc.exists()) {
+      return { archive: null, error: "Rumah tidak ditemukan" };
+    }
+
+    const homeData = homeDoc.data();
+    if (!hasHomePermission({
+      createdBy: homeData.createdBy,
+      members: homeData.members || [],
+      roles: homeData.roles
+    }, userId, 'exportHome')) {
+      return { archive: null, error: "Anda tidak memiliki izin untuk mengekspor rumah ini" };
+    }
+    onProgress?.({ collection: 'home', count: 1 });
+
+    // Note privat anggota lain tidak ikut diekspor
+    const notes = await fetchAll(
+      (...constraints) => visibleNotesQuery(homeId, userId, [], ...constraints),
+      count => onProgress?.({ collection: 'notes', count })
+    );
+    const wishlist = await fetchAllWhere("wishlist", "homeId", homeId, count => onProgress?.({ collection: 'wishlist', count }));
+    const messages = await fetchAllWhere("messages", "homeId", homeId, count => onProgress?.({ collection: 'messages', count }));
+    const pets = await fetchAllWhere("pets", "homeId", homeId, count => onProgress?.({ collection: 'pets', count }));
+
+    const petInteractions: ArchiveDocument[] = [];
+    for (const pet of pets) {
+      const interactions = await fetchAllWhere("petInteractions", "petId", pet.id as string);
+      petInteractions.push(...interactions);
+      onProgress?.({ collection: 'petInteractions', count: petInteractions.length });
+    }
+
+    // Pengaturan penghapusan bukan bagian dari isi rumah
+    const home = toArchiveValue(homeData) as ArchiveDocument;
+    delete home.deletion;
+    delete home.deletedAt;
+    delete home.deletedBy;
+
+    const content = {
+      format: HOME_ARCHIVE_FORMAT,
+      version: HOME_ARCHIVE_VERSION,
+      exportedAt: new Date().toISOString(),
+      exportedBy: userId,
+      home: { ...home, id: homeDoc.id },
+      notes,
+      wishlist,
+      messages,
+      pets,
+      petInteractions
+    } as const;
+
+    const memberProfiles = await getHomeMemberProfilesMap(homeId);
+    const members: ArchiveMember[] = [];
+    for (const memberId of collectUserIds(content, homeData.members || [])) {
+      const { profile } = await getUserProfile(memberId);
+      const homeProfile = memberProfiles[memberId];
+      members.push({
+        uid: memberId,
+        displayName: profile?.displayName || null,
+        email: profile?.email || null,
+        photoURL: profile?.photoURL || null,
+        ...(homeProfile?.nickname && { nickname: homeProfile.nickname }),
+        ...(homeProfile?.relationship && { relationship: homeProfile.relationship }),
+        ...(homeProfile?.birthday && { birthday: homeProfile.birthday }),
+        ...(homeProfile?.color && { color: homeProfile.color }),
+        ...(homeProfile?.joinedAt && { joinedAt: homeProfile.joinedAt.toISOString() })
+      });
+      onProgress?.({ collection: 'members', count: members.length });
+    }
+
+    return { archive: { ...content, members }, error: null };
+  } catch (error: any) {
+    return { archive: null, error: error.message };
+  }
+};
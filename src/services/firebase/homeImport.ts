@@ -0,0 +1,233 @@
+import { createHome, getHomeById } from "./home";
+import { createNote } from "./notes";
+import { createWishlistItem } from "./wishlist";
+import { sendChatMessage } from "./chat";
+import { createPet, createPetInteraction } from "./pets";
+import { logActivity } from "./activity";
+import { incrementHomeStat } from "./homeStats";
+import { Home, ChatMessage } from "../../types/user";
+import { PetMood, PetType, PetInteractionType } from "../../types/pet";
+import {
+  ArchiveAuthorMapping,
+  ArchiveCollection,
+  ArchiveDocument,
+  ArchiveValue,
+  HomeArchive,
+  HomeImportProgress,
+  HomeImportTarget
+} from "../../types/archive";
+import { archiveDate, validateHomeArchive } from "../../utils/homeArchive";
+import { hasHomePermission } from "../../utils/homePermissions";
+import { isHomeInTrash } from "../../utils/homeTrash";
+
+/**
+ * Impor arsip ekspor ke rumah baru atau ke rumah yang sudah ada.
+ * Setiap dokumen dibuat ulang lewat fungsi create masing-masing fitur sehingga
+ * mendapat ID baru; referensi antar dokumen (pet pada interaksi, balasan chat)
+ * dipetakan ke ID baru tersebut. Waktu asli dari arsip dipertahankan.
+ */
+
+export type HomeImportProgressCallback = (progress: HomeImportProgress) => void;
+
+type ImportCounts = Record<ArchiveCollection, number>;
+
+const optionalText = (value: ArchiveValue | undefined) => typeof value === 'string' && value ? value : undefined;
+
+const optionalDate = (value: ArchiveValue | undefined) => archiveDate(value) || undefined;
+
+const byDate = (field: string) => (a: ArchiveDocument, b: ArchiveDocument) =>
+  (archiveDate(a[field])?.getTime() || 0) - (archiveDate(b[field])?.getTime() || 0);
+
+// Fungsi create mengembalikan { error } alih-alih melempar; hentikan impor pada kegagalan pertama
+const ensure = <T extends { error: string | null }>(result: T, label: string): T => {
+  if (result.error) {
+    throw new Error(`${label}: ${result.error}`);
+  }
+  return result;
+};
+
+const resolveTargetHome = async (userId: string, archive: HomeArchive, target: HomeImportTarget) => {
+  if (target.mode === 'new') {
+    const name = target.homeName.trim() || String(archive.home.name);
+    const { home, error } = await createHome(userId, name);
+    return { home, error };
+  }
+
+  const { home, error } = await getHomeById(target.homeId);
+  if (error || !home) {
+    return { home: null, error: error || "Rumah tidak ditemukan" };
+  }
+  if (isHomeInTrash(home)) {
+    return { home: null, error: "Rumah ini sedang dihapus" };
+  }
+  if (!hasHomePermission(home, userId, 'importHome')) {
+    return { home: null, error: "Hanya pemilik atau admin yang dapat mengimpor ke rumah ini" };
+  }
+  return { home, error: null };
+};
+
+export const importHome = async (
+  userId: string,
+  archive: HomeArchive,
+  target: HomeImportTarget,
+  mapping: ArchiveAuthorMapping,
+  onProgress?: HomeImportProgressCallback
+): Promise<{ home: Home | null; imported: ImportCounts; error: string | null }> => {
+  const imported: ImportCounts = { notes: 0, wishlist: 0, messages: 0, pets: 0, petInteractions: 0 };
+  let home: Home | null = null;
+
+  try {
+    const { errors } = validateHomeArchive(archive);
+    if (errors.length > 0) {
+      return { home: null, imported, error: errors[0] };
+    }
+
+    const resolved = await resolveTargetHome(userId, archive, target);
+    if (resolved.error || !resolved.home) {
+      return { home: null, imported, error: resolved.error || "Rumah tujuan tidak ditemukan" };
+    }
+    const targetHome = resolved.home;
+    home = targetHome;
+
+    // Penulis yang tidak dipetakan ke anggota rumah tujuan menjadi milik pengimpor
+    const authorOf = (archiveUserId: ArchiveValue | undefined) => {
+      const mapped = mapping[String(archiveUserId)];
+      return mapped && targetHome.members.includes(mapped) ? mapped : userId;
+    };
+    const report = (collection: ArchiveCollection, total: number) =>
+      onProgress?.({ collection, done: imported[collection], total });
+
+    // Note terbatas tetap terbatas; pembaca yang tidak dipetakan ke anggota rumah tujuan dilewati
+    const notes = [...archive.notes].sort(byDate('createdAt'));
+    for (const note of notes) {
+      const visibility = note.visibility === 'private' || note.visibility === 'members' ? note.visibility : 'home';
+      const readers = Array.isArray(note.readers)
+        ? note.readers.map(reader => mapping[String(reader)]).filter(reader => !!reader && targetHome.members.includes(reader))
+        : [];
+      ensure(await createNote(targetHome.id, authorOf(note.createdBy), String(note.title), String(note.content), {
+        importedBy: userId,
+        createdAt: archiveDate(note.createdAt)!,
+        updatedAt: optionalDate(note.updatedAt)
+      }, {}, visibility, readers), `Catatan "${note.title}"`);
+      imported.notes++;
+      report('notes', notes.length);
+    }
+
+    const wishlist = [...archive.wishlist].sort(byDate('createdAt'));
+    for (const item of wishlist) {
+      ensure(await createWishlistItem(
+        targetHome.id,
+        authorOf(item.createdBy),
+        String(item.title),
+        optionalText(item.description),
+        optionalText(item.url),
+        optionalText(item.category),
+        {
+          importedBy: userId,
+          createdAt: archiveDate(item.createdAt)!,
+          updatedAt: optionalDate(item.updatedAt),
+          completed: item.completed === true,
+          completedBy: item.completedBy ? authorOf(item.completedBy) : undefined,
+          completedAt: optionalDate(item.completedAt),
+          rating: typeof item.rating === 'number' ? item.rating : undefined,
+          ratingComment: optionalText(item.ratingComment)
+        }
+      ), `Wishlist "${item.title}"`);
+      imported.wishlist++;
+      report('wishlist', wishlist.length);
+    }
+
+    const petIds: { [archivePetId: string]: string } = {};
+    const pets = [...archive.pets].sort(byDate('createdAt'));
+    for (const pet of pets) {
+      const { pet: created } = ensure(await createPet(
+        targetHome.id,
+        authorOf(pet.createdBy),
+        String(pet.name),
+        pet.type as PetType,
+        String(pet.personality),
+        optionalText(pet.imageUrl),
+        {
+          importedBy: userId,
+          createdAt: archiveDate(pet.createdAt)!,
+          updatedAt: optionalDate(pet.updatedAt),
+          mood: optionalText(pet.mood) as PetMood | undefined,
+          energy: typeof pet.energy === 'number' ? pet.energy : undefined,
+          lastInteraction: optionalDate(pet.lastInteraction),
+          lastFed: optionalDate(pet.lastFed),
+          lastCleaned: optionalDate(pet.lastCleaned)
+        }
+      ), `Peliharaan "${pet.name}"`);
+      petIds[String(pet.id)] = created!.id;
+      imported.pets++;
+      report('pets', pets.length);
+    }
+
+    // Interaksi untuk pet yang tidak ada di arsip dilewati (lihat previewHomeImport)
+    const interactions = archive.petInteractions
+      .filter(interaction => petIds[String(interaction.petId)])
+      .sort(byDate('timestamp'));
+    for (const interaction of interactions) {
+      const created = await createPetInteraction(
+        petIds[String(interaction.petId)],
+        authorOf(interaction.userId),
+        interaction.type as PetInteractionType,
+        optionalText(interaction.message),
+        optionalText(interaction.response),
+        { importedBy: userId, createdAt: archiveDate(interaction.timestamp)! }
+      );
+      // Pesan dan wishlist dihitung oleh fungsi create-nya; interaksi dihitung di sini
+      // karena createPetInteraction tidak mengetahui rumahnya
+      await incrementHomeStat(targetHome.id, created.userId, 'petInteractions', created.timestamp);
+      imported.petInteractions++;
+      report('petInteractions', interactions.length);
+    }
+
+    // Diurutkan dari yang terlama agar pesan yang dibalas sudah punya ID baru
+    const messageIds: { [archiveMessageId: string]: string } = {};
+    const messages = [...archive.messages].sort(byDate('timestamp'));
+    for (const message of messages) {
+      const replyTo = message.replyTo as ArchiveDocument | null | undefined;
+      const reactions = ((message.emoji as ArchiveDocument[] | null | undefined) || [])
+        .map(reaction => ({
+          type: String(reaction.type),
+          users: Array.from(new Set(((reaction.users as ArchiveValue[]) || []).map(authorOf)))
+        }))
+        .filter(reaction => reaction.users.length > 0);
+
+      const { message: created } = ensure(await sendChatMessage(
+        targetHome.id,
+        authorOf(message.senderId),
+        String(message.text),
+        replyTo ? {
+          id: messageIds[String(replyTo.id)] || String(replyTo.id),
+          text: String(replyTo.text || ''),
+          senderId: authorOf(replyTo.senderId)
+        } : undefined,
+        {
+          importedBy: userId,
+          createdAt: archiveDate(message.timestamp)!,
+          read: message.read === true,
+          readAt: optionalDate(message.readAt),
+          emoji: reactions as ChatMessage['emoji']
+        }
+      ), 'Pesan chat');
+      messageIds[String(message.id)] = created!.id;
+      imported.messages++;
+      report('messages', messages.length);
+    }
+
+    await logActivity({
+      homeId: targetHome.id,
+      actorId: userId,
+      type: 'home_imported',
+      targetName: String(archive.home.name),
+      details: { mode: target.mode, ...imported }
+    });
+
+    return { home: targetHome, imported, error: null };
+  } catch (error: any) {
+    // Konten yang sudah terimpor tetap ada; laporkan jumlahnya ke pemanggil
+    return { home, imported, error: error.message };
+  }
+};
@@ -0,0 +1,174 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  onSnapshot,
+  setDoc,
+  deleteField,
+  serverTimestamp,
+  Timestamp
+} from "firebase/firestore";
+import { firestore } from "./config";
+import { getHomeMemberProfiles } from "./user";
+import { Home, HomeMember, HomeMemberProfile, HomeMemberProfileUpdate } from "../../types/user";
+import { hasHomePermission } from "../../utils/homePermissions";
+import { validateMemberProfile } from "../../utils/memberProfile";
+
+/**
+ * Profil anggota per rumah (koleksi `homeMembers`, ID `${homeId}_${userId}`).
+ * Dokumen tetap ada setelah anggota keluar agar nama panggilannya masih
+ * tampil pada pesan dan riwayat lama.
+ */
+
+const getProfileId = (homeId: string, userId: string) => `${homeId}_${userId}`;
+
+const toHomeMemberProfile = (data: any): HomeMemberProfile => ({
+  ...data,
+  joinedAt: data.joinedAt ? data.joinedAt.toDate() : undefined,
+  // serverTimestamp masih null pada snapshot lokal sebelum tersimpan
+  lastLogin: data.lastLogin ? data.lastLogin.toDate() : undefined,
+  updatedAt: data.updatedAt ? data.updatedAt.toDate() : undefined,
+});
+
+// Mencatat tanggal bergabung. Kegagalan tidak boleh menggagalkan proses bergabung.
+export const recordMemberJoined = async (homeId: string, userId: string, joinedAt: Date = new Date()) => {
+  try {
+    const id = getProfileId(homeId, userId);
+    await setDoc(doc(firestore, "homeMembers", id), {
+      id,
+      homeId,
+      userId,
+      joinedAt: Timestamp.fromDate(joinedAt)
+    }, { merge: true });
+  } catch (error: any) {
+    console.warn("Gagal mencatat tanggal bergabung:", error.message);
+  }
+};
+
+// Waktu login disalin ke profil anggota di setiap rumah agar anggota lain bisa menilai
+// apakah pemilik tidak aktif, begitu juga nama tampilan untuk serah terima konten
+// anggota yang dikeluarkan. Rumah yang sudah tidak bisa diakses dilewati.
+export const recordMemberLogin = async (userId: string, homeIds: string[], displayName: string | null) => {
+  await Promise.all(homeIds.map(async homeId => {
+    try {
+      const id = getProfileId(homeId, userId);
+      await setDoc(doc(firestore, "homeMembers", id), {
+        id,
+        homeId,
+        userId,
+        lastLogin: serverTimestamp(),
+        displayName
+      }, { merge: true });
+    } catch (error: any) {
+      console.warn("Gagal mencatat waktu login:", error.message);
+    }
+  }));
+};
+
+export const getMemberLastLogin = async (homeId: string, userId: string) => {
+  try {
+    const profileDoc = await getDoc(doc(firestore, "homeMembers", getProfileId(homeId, userId)));
+    const profile = profileDoc.exists() ? toHomeMemberProfile(profileDoc.data()) : null;
+    return { lastLogin: profile?.lastLogin || null, error: null };
+  } catch (error: any) {
+    return { lastLogin: null, error: error.message };
+  }
+};
+
+export const getHomeMemberProfilesMap = async (homeId: string) => {
+  const snapshot = await getDocs(query(collection(firestore, "homeMembers"), where("homeId", "==", homeId)));
+  const profiles: { [userId: string]: HomeMemberProfile } = {};
+  snapshot.forEach(docSnap => {
+    const profile = toHomeMemberProfile(docSnap.data());
+    profiles[profile.userId] = profile;
+  });
+  return profiles;
+};
+
+// Anggota rumah saat ini beserta profilnya di rumah ini
+export const getHomeMembers = async (homeId: string) => {
+  try {
+    const [{ members, error }, profiles] = await Promise.all([
+      getHomeMemberProfiles(homeId),
+      getHomeMemberProfilesMap(homeId)
+    ]);
+
+    if (error) {
+      return { members: [] as HomeMember[], profiles, error };
+    }
+
+    return {
+      members: members.map(member => ({ ...member, homeProfile: profiles[member.uid] || null })) as HomeMember[],
+      profiles,
+      error: null
+    };
+  } catch (error: any) {
+    return { members: [] as HomeMember[], profiles: {}, error: error.message };
+  }
+};
+
+// Real-time listener profil anggota (termasuk mantan anggota)
+export const subscribeToHomeMemberProfiles = (
+  homeId: string,
+  callback: (profiles: { [userId: string]: HomeMemberProfile }) => void
+) => {
+  const q = query(collection(firestore, "homeMembers"), where("homeId", "==", homeId));
+
+  return onSnapshot(q, (snapshot) => {
+    const profiles: { [userId: string]: HomeMemberProfile } = {};
+    snapshot.forEach(docSnap => {
+      const profile = toHomeMemberProfile(docSnap.data());
+      profiles[profile.userId] = profile;
+    });
+    callback(profiles);
+  }, (error) => {
+    console.error("Error listening to home member profiles:", error);
+  });
+};
+
+// Anggota boleh mengubah profilnya sendiri; pengelola rumah boleh mengubah profil semua anggota
+export const updateHomeMemberProfile = async (
+  actorId: string,
+  home: Home,
+  userId: string,
+  changes: HomeMemberProfileUpdate
+) => {
+  try {
+    if (!home.members.includes(userId)) {
+      return { success: false, error: "Pengguna bukan anggota rumah ini" };
+    }
+
+    if (actorId !== userId && !hasHomePermission(home, actorId, 'manageSettings')) {
+      return { success: false, error: "Anda tidak memiliki izin untuk mengubah profil anggota lain" };
+    }
+
+    const validationError = validateMemberProfile(changes);
+    if (validationError) {
+      return { success: false, error: validationError };
+    }
+
+    // Nilai kosong berarti field dihapus
+    const updates: { [field: string]: any } = {};
+    (Object.keys(changes) as (keyof HomeMemberProfileUpdate)[]).forEach(field => {
+      const value = changes[field]?.trim();
+      updates[field] = value ? value : deleteField();
+    });
+
+    const id = getProfileId(home.id, userId);
+    await setDoc(doc(firestore, "homeMembers", id), {
+      ...updates,
+      id,
+      homeId: home.id,
+      userId,
+      updatedAt: Timestamp.fromDate(new Date()),
+      updatedBy: actorId
+    }, { merge: true });
+
+    return { success: true, error: null };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+};
@@ -0,0 +1,329 @@
+import {
+  collection,
+  doc,
+  getDocs,
+  getCountFromServer,
+  query,
+  where,
+  orderBy,
+  startAfter,
+  limit,
+  documentId,
+  updateDoc,
+  arrayUnion,
+  writeBatch,
+  increment,
+  QueryConstraint,
+  QueryNonFilterConstraint,
+  QueryDocumentSnapshot,
+  DocumentData
+} from "firebase/firestore";
+import { firestore } from "./config";
+import { getHomeById } from "./home";
+import { cascadeDeleteHome } from "./homeDeletion";
+import { logActivity } from "./activity";
+import { visibleNotesQuery } from "./notes";
+import {
+  Home,
+  HomeMergeCollection,
+  HomeMergeConflict,
+  HomeMergeConflictStrategy,
+  HomeMergePreview,
+  HomeMergeProgress
+} from "../../types/user";
+import { hasHomePermission } from "../../utils/homePermissions";
+import { isHomeInTrash } from "../../utils/homeTrash";
+import { getMergedRole, normalizeMergeName, resolveMergeName } from "../../utils/homeMerge";
+
+/**
+ * Menggabungkan rumah sumber ke rumah tujuan: anggota digabung, konten dipindahkan
+ * dengan mengganti `homeId` (ID dokumen tetap, sehingga interaksi peliharaan dan
+ * balasan chat ikut pindah), lalu rumah sumber dihapus permanen.
+ *
+ * Note pribadi atau terbatas anggota lain yang tidak dibagikan ke pemilik tidak
+ * bisa dibaca, sehingga dipindahkan belakangan oleh purge job lewat penanda
+ * `deletedHomes/{homeId}` yang menyimpan rumah tujuan.
+ */
+
+const MAX_BATCH_WRITES = 500;
+
+export type HomeMergeProgressCallback = (progress: HomeMergeProgress) => void;
+
+type NamedCollection = HomeMergeConflict['collection'];
+
+// Field nama yang dibandingkan untuk mendeteksi bentrok
+const NAME_FIELDS: Record<NamedCollection, string> = {
+  notes: 'title',
+  wishlist: 'title',
+  pets: 'name',
+};
+
+const NAMED_COLLECTIONS: NamedCollection[] = ['notes', 'wishlist', 'pets'];
+
+const MERGE_COLLECTIONS: HomeMergeCollection[] = ['notes', 'noteFolders', 'wishlist', 'pets', 'messages', 'activity'];
+
+const isNamedCollection = (collectionName: HomeMergeCollection): collectionName is NamedCollection =>
+  collectionName in NAME_FIELDS;
+
+const homeQuery = (collectionName: string, homeId: string, ...constraints: QueryConstraint[]) =>
+  query(collection(firestore, collectionName), where("homeId", "==", homeId), ...constraints);
+
+// Konten yang bisa dibaca pelaku penggabungan di sebuah rumah
+const contentQuery = (
+  collectionName: HomeMergeCollection,
+  homeId: string,
+  userId: string,
+  ...constraints: QueryNonFilterConstraint[]
+) => collectionName === 'notes'
+  ? visibleNotesQuery(homeId, userId, [], ...constraints)
+  : homeQuery(collectionName, homeId, ...constraints);
+
+const resolveHomes = async (userId: string, sourceHomeId: string, targetHomeId: string) => {
+  if (sourceHomeId === targetHomeId) {
+    return { source: null, target: null, error: "Pilih dua rumah yang berbeda" };
+  }
+
+  const [sourceResult, targetResult] = await Promise.all([getHomeById(sourceHomeId), getHomeById(targetHomeId)]);
+  const source = sourceResult.home;
+  const target = targetResult.home;
+  if (!source || !target) {
+    return { source: null, target: null, error: sourceResult.error || targetResult.error || "Rumah tidak ditemukan" };
+  }
+
+  if (isHomeInTrash(source) || isHomeInTrash(target)) {
+    return { source: null, target: null, error: "Rumah yang sedang dihapus tidak dapat digabungkan" };
+  }
+
+  if (!hasHomePermission(source, userId, 'mergeHomes') || !hasHomePermission(target, userId, 'mergeHomes')) {
+    return { source: null, target: null, error: "Anda harus menjadi pemilik kedua rumah untuk menggabungkannya" };
+  }
+
+  return { source, target, error: null };
+};
+
+// Nama yang sudah dipakai di rumah tujuan, per koleksi
+const getTakenNames = async (homeId: string, userId: string) => {
+  const taken = {} as Record<NamedCollection, Set<string>>;
+
+  for (const collectionName of NAMED_COLLECTIONS) {
+    const snapshot = await getDocs(contentQuery(collectionName, homeId, userId));
+    taken[collectionName] = new Set(
+      snapshot.docs.map(docSnap => normalizeMergeName(String(docSnap.data()[NAME_FIELDS[collectionName]] || '')))
+    );
+  }
+
+  return taken;
+};
+
+export const getHomeMergePreview = async (userId: string, sourceHomeId: string, targetHomeId: string) => {
+  try {
+    const { source, target, error } = await resolveHomes(userId, sourceHomeId, targetHomeId);
+    if (error || !source || !target) {
+      return { preview: null, error: error || "Rumah tidak ditemukan" };
+    }
+
+    const counts = {} as Record<HomeMergeCollection, number>;
+    for (const collectionName of MERGE_COLLECTIONS) {
+      counts[collectionName] = (await getCountFromServer(contentQuery(collectionName, source.id, userId))).data().count;
+    }
+
+    const taken = await getTakenNames(target.id, userId);
+    const conflicts: HomeMergeConflict[] = [];
+    for (const collectionName of NAMED_COLLECTIONS) {
+      const snapshot = await getDocs(contentQuery(collectionName, source.id, userId));
+      snapshot.docs.forEach(docSnap => {
+        const name = String(docSnap.data()[NAME_FIELDS[collectionName]] || '');
+        if (taken[collectionName].has(normalizeMergeName(name))) {
+          conflicts.push({ collection: collectionName, id: docSnap.id, name });
+        }
+      });
+    }
+
+    const preview: HomeMergePreview = {
+      counts,
+      newMembers: source.members.filter(memberId => !target.members.includes(memberId)),
+      conflicts
+    };
+
+    return { preview, error: null };
+  } catch (error: any) {
+    return { preview: null, error: error.message };
+  }
+};
+
+const mergeMembers = async (source: Home, target: Home) => {
+  const homeChanges: { [field: string]: any } = {};
+  const newMembers = source.members.filter(memberId => !target.members.includes(memberId));
+  if (newMembers.length > 0) {
+    homeChanges.members = arrayUnion(...newMembers);
+  }
+  source.members.forEach(memberId => {
+    if (memberId !== target.createdBy) {
+      homeChanges[`roles.${memberId}`] = getMergedRole(source, target, memberId);
+    }
+  });
+  if (Object.keys(homeChanges).length > 0) {
+    await updateDoc(doc(firestore, "homes", target.id), homeChanges);
+  }
+
+  // Profil per rumah (nama panggilan, warna, tanggal bergabung) ikut pindah
+  // untuk anggota yang belum punya profil di rumah tujuan
+  const [sourceProfiles, targetProfiles] = await Promise.all([
+    getDocs(homeQuery("homeMembers", source.id)),
+    getDocs(homeQuery("homeMembers", target.id))
+  ]);
+  const existing = new Set(targetProfiles.docs.map(docSnap => docSnap.data().userId));
+  const batch = writeBatch(firestore);
+  let copied = 0;
+  sourceProfiles.docs.forEach(docSnap => {
+    // Salinan waktu login dan nama tampilan hanya boleh ditulis anggota itu sendiri
+    const { lastLogin, displayName, ...profile } = docSnap.data();
+    if (existing.has(profile.userId) || !source.members.includes(profile.userId)) return;
+
+    const id = `${target.id}_${profile.userId}`;
+    batch.set(doc(firestore, "homeMembers", id), { ...profile, id, homeId: target.id });
+    copied++;
+  });
+  if (copied > 0) {
+    await batch.commit();
+  }
+};
+
+// Dokumen yang dipindahkan tidak lagi cocok dengan query, sehingga halaman
+// berikutnya dilanjutkan dari ID dokumen terakhir (bentrok yang dilewati tetap ada)
+const moveCollection = async (
+  collectionName: HomeMergeCollection,
+  userId: string,
+  source: Home,
+  target: Home,
+  strategy: HomeMergeConflictStrategy,
+  takenNames: Record<NamedCollection, Set<string>>,
+  total: number,
+  onProgress?: HomeMergeProgressCallback
+) => {
+  let lastDoc: QueryDocumentSnapshot<DocumentData> | null = null;
+  let moved = 0;
+  let processed = 0;
+
+  while (true) {
+    const constraints: QueryNonFilterConstraint[] = [orderBy(documentId()), limit(MAX_BATCH_WRITES)];
+    if (lastDoc) constraints.push(startAfter(lastDoc));
+
+    const snapshot = await getDocs(contentQuery(collectionName, source.id, userId, ...constraints));
+    if (snapshot.empty) break;
+
+    const batch = writeBatch(firestore);
+    let writes = 0;
+    snapshot.docs.forEach(docSnap => {
+      const changes: { [field: string]: string } = { homeId: target.id };
+
+      if (isNamedCollection(collectionName)) {
+        const field = NAME_FIELDS[collectionName];
+        const name = String(docSnap.data()[field] || '');
+        const taken = takenNames[collectionName];
+
+        if (taken.has(normalizeMergeName(name))) {
+          if (strategy === 'skip') return;
+          if (strategy === 'rename') {
+            changes[field] = resolveMergeName(name, source.name, taken);
+          }
+        }
+        taken.add(normalizeMergeName(changes[field] || name));
+      }
+
+      batch.update(docSnap.ref, changes);
+      writes++;
+    });
+    if (writes > 0) {
+      await batch.commit();
+    }
+
+    moved += writes;
+    processed += snapshot.size;
+    onProgress?.({ collection: collectionName, done: processed, total });
+
+    if (snapshot.size < MAX_BATCH_WRITES) break;
+    lastDoc = snapshot.docs[snapshot.docs.length - 1];
+  }
+
+  return moved;
+};
+
+// Penghitung mingguan rumah sumber dijumlahkan ke dokumen minggu yang sama di rumah tujuan
+const mergeWeeklyStats = async (source: Home, target: Home) => {
+  const snapshot = await getDocs(homeQuery("homeStats", source.id));
+
+  for (let i = 0; i < snapshot.docs.length; i += MAX_BATCH_WRITES) {
+    const batch = writeBatch(firestore);
+    snapshot.docs.slice(i, i + MAX_BATCH_WRITES).forEach(docSnap => {
+      const data = docSnap.data();
+      const weekKey = docSnap.id.slice(source.id.length + 1);
+      const members: { [userId: string]: { [metric: string]: ReturnType<typeof increment> } } = {};
+
+      Object.keys(data.members || {}).forEach(userId => {
+        members[userId] = {};
+        Object.keys(data.members[userId]).forEach(metric => {
+          members[userId][metric] = increment(data.members[userId][metric] || 0);
+        });
+      });
+
+      batch.set(doc(firestore, "homeStats", `${target.id}_${weekKey}`), {
+        homeId: target.id,
+        weekStart: data.weekStart,
+        members
+      }, { merge: true });
+    });
+    await batch.commit();
+  }
+};
+
+export const mergeHomes = async (
+  userId: string,
+  sourceHomeId: string,
+  targetHomeId: string,
+  strategy: HomeMergeConflictStrategy,
+  onProgress?: HomeMergeProgressCallback
+): Promise<{ home: Home | null; moved: Record<HomeMergeCollection, number>; error: string | null }> => {
+  const moved: Record<HomeMergeCollection, number> = { notes: 0, noteFolders: 0, wishlist: 0, messages: 0, pets: 0, activity: 0 };
+
+  try {
+    const { source, target, error } = await resolveHomes(userId, sourceHomeId, targetHomeId);
+    if (error || !source || !target) {
+      return { home: null, moved, error: error || "Rumah tidak ditemukan" };
+    }
+
+    // Anggota digabung lebih dulu agar penulis konten yang dipindahkan sudah menjadi anggota
+    await mergeMembers(source, target);
+
+    const takenNames = await getTakenNames(target.id, userId);
+    for (const collectionName of MERGE_COLLECTIONS) {
+      const total = (await getCountFromServer(contentQuery(collectionName, source.id, userId))).data().count;
+      moved[collectionName] = await moveCollection(
+        collectionName, userId, source, target, strategy, takenNames, total, onProgress
+      );
+    }
+
+    await mergeWeeklyStats(source, target);
+
+    await logActivity({
+      homeId: target.id,
+      actorId: userId,
+      type: 'home_merged',
+      targetId: source.id,
+      targetName: source.name,
+      details: { ...moved }
+    });
+
+    // Sisa data rumah sumber (undangan, bentrok yang dilewati, dll.) dihapus permanen
+    await cascadeDeleteHome(userId, source, (progress) => onProgress?.({
+      collection: 'cleanup',
+      done: progress.stepIndex,
+      total: progress.totalSteps
+    }), target.id);
+
+    const { home } = await getHomeById(target.id);
+    return { home, moved, error: null };
+  } catch (error: any) {
+    return { home: null, moved, error: error.message };
+  }
+};
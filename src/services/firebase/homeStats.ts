@@ -0,0 +1,69 @@
+import {
+  collection,
+  doc,
+  getDocs,
+  query,
+  where,
+  orderBy,
+  setDoc,
+  increment,
+  Timestamp
+} from "firebase/firestore";
+import { firestore } from "./config";
+import { HomeStatMetric, HomeWeeklyStats } from "../../types/stats";
+import { getRecentWeekStarts, getWeekKey, getWeekStart } from "../../utils/homeStats";
+
+/**
+ * Penghitung statistik mingguan per anggota (koleksi `homeStats`).
+ * Dinaikkan oleh service yang membuat konten, sehingga dashboard cukup membaca
+ * satu dokumen per minggu alih-alih seluruh pesan/catatan.
+ */
+
+// Kegagalan penghitung tidak boleh menggagalkan aksi utamanya
+export const incrementHomeStat = async (
+  homeId: string,
+  userId: string,
+  metric: HomeStatMetric,
+  at: Date = new Date(),
+  amount: number = 1
+) => {
+  try {
+    const weekStart = getWeekStart(at);
+    await setDoc(doc(firestore, "homeStats", `${homeId}_${getWeekKey(at)}`), {
+      homeId,
+      weekStart: Timestamp.fromDate(weekStart),
+      members: {
+        [userId]: { [metric]: increment(amount) }
+      }
+    }, { merge: true });
+  } catch (error: any) {
+    console.warn("Gagal memperbarui statistik rumah:", error.message);
+  }
+};
+
+export const getHomeWeeklyStats = async (homeId: string, weeks: number = 8) => {
+  try {
+    const [firstWeek] = getRecentWeekStarts(weeks);
+    const q = query(
+      collection(firestore, "homeStats"),
+      where("homeId", "==", homeId),
+      where("weekStart", ">=", Timestamp.fromDate(firstWeek)),
+      orderBy("weekStart", "asc")
+    );
+    const snapshot = await getDocs(q);
+
+    const stats: HomeWeeklyStats[] = snapshot.docs.map(docSnap => {
+      const data = docSnap.data();
+      return {
+        id: docSnap.id,
+        homeId: data.homeId,
+        weekStart: data.weekStart.toDate(),
+        members: data.members || {}
+      };
+    });
+
+    return { stats, error: null };
+  } catch (error: any) {
+    return { stats: [], error: error.message };
+  }
+};
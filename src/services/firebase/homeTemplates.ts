@@ -0,0 +1,179 @@
+import {
+  collection,
+  doc,
+  getDocs,
+  setDoc,
+  deleteDoc,
+  query,
+  where,
+  Timestamp
+} from "firebase/firestore";
+import { v4 as uuidv4 } from 'uuid';
+import { firestore } from "./config";
+import { createHome, getHomeById, updateHomeSettings } from "./home";
+import { createNote } from "./notes";
+import { createWishlistItem } from "./wishlist";
+import { createPet } from "./pets";
+import { sendChatMessage } from "./chat";
+import { Home } from "../../types/user";
+import { HomeTemplate, HomeTemplateOptions } from "../../types/template";
+import { hasHomePermission } from "../../utils/homePermissions";
+import { HOME_TEMPLATE_MAX_ITEMS, getWelcomeMessage, validateHomeTemplate } from "../../utils/homeTemplates";
+
+/**
+ * Membuat rumah dari template dan menyimpan struktur rumah sebagai template.
+ * Template buatan user disimpan di `homeTemplates/{templateId}` dan hanya
+ * terlihat oleh pembuatnya.
+ */
+
+const toHomeTemplate = (data: any): HomeTemplate => ({
+  ...data,
+  builtIn: false,
+  createdAt: data.createdAt?.toDate ? data.createdAt.toDate() : data.createdAt,
+} as HomeTemplate);
+
+// Membuat rumah lalu mengisi konten awal template. Jika sebagian isi gagal dibuat,
+// rumah tetap dikembalikan bersama pesan error agar user bisa melengkapinya sendiri
+export const createHomeFromTemplate = async (
+  userId: string,
+  homeName: string,
+  template: HomeTemplate,
+  options: HomeTemplateOptions
+): Promise<{ home: Home | null; error: string | null }> => {
+  const { home, error } = await createHome(userId, homeName);
+  if (error || !home) {
+    return { home: null, error: error || "Gagal membuat rumah" };
+  }
+
+  const failed: string[] = [];
+
+  const { error: settingsError } = await updateHomeSettings(userId, home.id, {
+    ...(template.avatar ? { avatar: template.avatar } : {}),
+    ...(template.accentColor ? { accentColor: template.accentColor } : {}),
+    wishlistCategories: template.wishlistCategories
+  });
+  if (settingsError) failed.push('pengaturan rumah');
+
+  for (const note of template.notes) {
+    const { error } = await createNote(home.id, userId, note.title, note.content);
+    if (error) failed.push(`catatan "${note.title}"`);
+  }
+
+  for (const item of template.wishlist) {
+    const { error } = await createWishlistItem(home.id, userId, item.title, item.description, undefined, item.category);
+    if (error) failed.push(`wishlist "${item.title}"`);
+  }
+
+  if (options.includePet && template.pet) {
+    const { error } = await createPet(home.id, userId, template.pet.name, template.pet.type, template.pet.personality);
+    if (error) failed.push(`peliharaan "${template.pet.name}"`);
+  }
+
+  const welcomeMessage = getWelcomeMessage(template, home.name);
+  if (welcomeMessage) {
+    const { error } = await sendChatMessage(home.id, userId, welcomeMessage);
+    if (error) failed.push('pesan sambutan');
+  }
+
+  const { home: updatedHome } = await getHomeById(home.id);
+  return {
+    home: updatedHome || home,
+    error: failed.length > 0 ? `Rumah dibuat, tetapi gagal menyiapkan ${failed.join(', ')}` : null
+  };
+};
+
+// Template yang disimpan oleh user
+export const getUserHomeTemplates = async (userId: string) => {
+  try {
+    const templatesQuery = query(collection(firestore, "homeTemplates"), where("createdBy", "==", userId));
+    const snapshot = await getDocs(templatesQuery);
+    const templates = snapshot.docs
+      .map(templateDoc => toHomeTemplate(templateDoc.data()))
+      .sort((a, b) => a.name.localeCompare(b.name, 'id-ID'));
+
+    return { templates, error: null };
+  } catch (error: any) {
+    return { templates: [] as HomeTemplate[], error: error.message };
+  }
+};
+
+// Menyimpan struktur rumah (catatan, wishlist yang belum tercapai, kategori,
+// peliharaan pertama dan tampilan) sebagai template baru
+export const saveHomeAsTemplate = async (userId: string, homeId: string, name: string, description: string) => {
+  try {
+    const validationError = validateHomeTemplate(name, description);
+    if (validationError) {
+      return { template: null, error: validationError };
+    }
+
+    const { home, error } = await getHomeById(homeId);
+    if (error || !home) {
+      return { template: null, error: error || "Rumah tidak ditemukan" };
+    }
+
+    if (!hasHomePermission(home, userId, 'exportHome')) {
+      return { template: null, error: "Anda tidak memiliki izin untuk menyimpan rumah ini sebagai template" };
+    }
+
+    const homeQuery = (collectionName: string) =>
+      query(collection(firestore, collectionName), where("homeId", "==", homeId));
+    // Template dipakai rumah lain, jadi hanya note untuk semua anggota yang ikut disimpan
+    const [notesSnapshot, wishlistSnapshot, petsSnapshot] = await Promise.all([
+      getDocs(query(homeQuery("notes"), where("visibility", "==", "home"))),
+      getDocs(homeQuery("wishlist")),
+      getDocs(homeQuery("pets"))
+    ]);
+
+    const template: HomeTemplate = {
+      id: uuidv4(),
+      name: name.trim(),
+      description: description.trim(),
+      notes: notesSnapshot.docs.slice(0, HOME_TEMPLATE_MAX_ITEMS).map(noteDoc => ({
+        title: noteDoc.data().title || '',
+        content: noteDoc.data().content || ''
+      })),
+      wishlistCategories: home.wishlistCategories || [],
+      wishlist: wishlistSnapshot.docs
+        .filter(itemDoc => !itemDoc.data().completed)
+        .slice(0, HOME_TEMPLATE_MAX_ITEMS)
+        .map(itemDoc => {
+          const item = itemDoc.data();
+          return {
+            title: item.title || '',
+            ...(item.description ? { description: item.description } : {}),
+            ...(item.category ? { category: item.category } : {})
+          };
+        }),
+      builtIn: false,
+      createdBy: userId,
+      createdAt: new Date(),
+      sourceHomeId: homeId
+    };
+
+    if (home.avatar) template.avatar = home.avatar;
+    if (home.accentColor) template.accentColor = home.accentColor;
+    if (!petsSnapshot.empty) {
+      const pet = petsSnapshot.docs[0].data();
+      template.pet = { name: pet.name, type: pet.type, personality: pet.personality || '' };
+    }
+
+    const { builtIn, ...templateData } = template;
+    await setDoc(doc(firestore, "homeTemplates", template.id), {
+      ...templateData,
+      createdAt: Timestamp.fromDate(template.createdAt as Date)
+    });
+
+    return { template, error: null };
+  } catch (error: any) {
+    return { template: null, error: error.message };
+  }
+};
+
+export const deleteHomeTemplate = async (templateId: string) => {
+  try {
+    await deleteDoc(doc(firestore, "homeTemplates", templateId));
+    return { success: true, error: null };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+};
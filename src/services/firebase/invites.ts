@@ -0,0 +1,306 @@
+import {
+  collection,
+  doc,
+  setDoc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  updateDoc,
+  arrayUnion,
+  runTransaction,
+  serverTimestamp,
+  Timestamp
+} from "firebase/firestore";
+import { firestore } from "./config";
+import { HomeInvite, HomeRole, InviteStatus, InviteUsage } from "../../types/user";
+import { generateInviteCode, getHomeById } from "./home";
+import { prepareJoinRequest } from "./joinRequests";
+import { logActivity } from "./activity";
+import { recordMemberJoined } from "./homeMembers";
+import { hasHomePermission } from "../../utils/homePermissions";
+
+export type InviteRole = Exclude<HomeRole, 'owner'>;
+
+export interface CreateInviteOptions {
+  role: InviteRole;
+  expiresInHours: number | null; // null = tidak pernah kedaluwarsa
+  maxUses: number | null; // null = tanpa batas
+}
+
+const INVITE_STATUS_ERRORS: Record<Exclude<InviteStatus, 'active'>, string> = {
+  expired: "Undangan sudah kedaluwarsa",
+  revoked: "Undangan sudah dibatalkan",
+  exhausted: "Undangan sudah mencapai batas penggunaan",
+};
+
+// Menerima kode atau link undangan (https://.../join/XXX-XXX-XXX)
+export const normalizeInviteCode = (input: string) => {
+  const trimmed = input.trim();
+  const match = trimmed.match(/\/join\/([^/?#]+)/);
+  return decodeURIComponent(match ? match[1] : trimmed).toUpperCase();
+};
+
+export const getInviteLink = (code: string) => {
+  return `${window.location.origin}/join/${encodeURIComponent(code)}`;
+};
+
+// Status undangan berdasarkan waktu sekarang
+export const getInviteStatus = (invite: HomeInvite, now: Date = new Date()): InviteStatus => {
+  if (invite.revoked) return 'revoked';
+  if (invite.expiresAt && invite.expiresAt.getTime() <= now.getTime()) return 'expired';
+  if (invite.maxUses !== null && invite.uses >= invite.maxUses) return 'exhausted';
+  return 'active';
+};
+
+const toInvite = (data: any): HomeInvite => ({
+  ...data,
+  createdAt: data.createdAt.toDate(),
+  expiresAt: data.expiresAt ? data.expiresAt.toDate() : null,
+  revokedAt: data.revokedAt ? data.revokedAt.toDate() : undefined,
+} as HomeInvite);
+
+// Membuat undangan baru untuk rumah
+export const createInvite = async (userId: string, homeId: string, options: CreateInviteOptions) => {
+  try {
+    const { home, error } = await getHomeById(homeId);
+    if (error || !home) {
+      return { invite: null, error: error || "Rumah tidak ditemukan" };
+    }
+
+    if (!hasHomePermission(home, userId, 'invite')) {
+      return { invite: null, error: "Anda tidak memiliki izin untuk mengundang anggota" };
+    }
+
+    // Undangan sebagai admin hanya boleh dibuat oleh pemilik
+    if (options.role === 'admin' && !hasHomePermission(home, userId, 'manageRoles')) {
+      return { invite: null, error: "Hanya pemilik rumah yang dapat mengundang admin" };
+    }
+
+    const now = new Date();
+    const inviteData: HomeInvite = {
+      id: generateInviteCode(),
+      homeId,
+      homeName: home.name,
+      role: options.role,
+      createdBy: userId,
+      createdAt: now,
+      expiresAt: options.expiresInHours ? new Date(now.getTime() + options.expiresInHours * 60 * 60 * 1000) : null,
+      maxUses: options.maxUses,
+      uses: 0,
+      revoked: false,
+      requireApproval: !!home.requireApproval,
+    };
+
+    const inviteRef = doc(firestore, "invites", inviteData.id);
+    await setDoc(inviteRef, {
+      ...inviteData,
+      createdAt: Timestamp.fromDate(inviteData.createdAt),
+      expiresAt: inviteData.expiresAt ? Timestamp.fromDate(inviteData.expiresAt) : null,
+    });
+
+    await logActivity({
+      homeId,
+      actorId: userId,
+      type: 'invite_created',
+      targetId: inviteData.id,
+      targetName: inviteData.id,
+      details: { role: inviteData.role, maxUses: inviteData.maxUses }
+    });
+
+    return { invite: inviteData, error: null };
+  } catch (error: any) {
+    return { invite: null, error: error.message };
+  }
+};
+
+// Mendapatkan undangan berdasarkan kode
+export const getInviteByCode = async (code: string) => {
+  try {
+    const inviteRef = doc(firestore, "invites", normalizeInviteCode(code));
+    const inviteDoc = await getDoc(inviteRef);
+
+    if (!inviteDoc.exists()) {
+      return { invite: null, error: "Undangan tidak ditemukan" };
+    }
+
+    return { invite: toInvite(inviteDoc.data()), error: null };
+  } catch (error: any) {
+    return { invite: null, error: error.message };
+  }
+};
+
+// Mendapatkan semua undangan sebuah rumah, kecuali kode undangan utama yang dikelola di pengaturan rumah
+export const getHomeInvites = async (homeId: string) => {
+  try {
+    const invitesRef = collection(firestore, "invites");
+    const q = query(invitesRef, where("homeId", "==", homeId));
+    const querySnapshot = await getDocs(q);
+
+    const invites: HomeInvite[] = [];
+    querySnapshot.forEach((doc) => {
+      const invite = toInvite(doc.data());
+      if (!invite.homeCode) invites.push(invite);
+    });
+
+    invites.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    return { invites, error: null };
+  } catch (error: any) {
+    return { invites: [], error: error.message };
+  }
+};
+
+// Membatalkan undangan
+export const revokeInvite = async (userId: string, inviteId: string) => {
+  try {
+    const { invite, error } = await getInviteByCode(inviteId);
+    if (error || !invite) {
+      return { success: false, error: error || "Undangan tidak ditemukan" };
+    }
+
+    const { home, error: homeError } = await getHomeById(invite.homeId);
+    if (homeError || !home) {
+      return { success: false, error: homeError || "Rumah tidak ditemukan" };
+    }
+
+    // Pembuat undangan atau admin rumah boleh membatalkan
+    if (invite.createdBy !== userId && !hasHomePermission(home, userId, 'manageSettings')) {
+      return { success: false, error: "Anda tidak memiliki izin untuk membatalkan undangan ini" };
+    }
+
+    const inviteRef = doc(firestore, "invites", inviteId);
+    await updateDoc(inviteRef, {
+      revoked: true,
+      revokedAt: Timestamp.fromDate(new Date())
+    });
+
+    await logActivity({
+      homeId: invite.homeId,
+      actorId: userId,
+      type: 'invite_revoked',
+      targetId: inviteId,
+      targetName: inviteId
+    });
+
+    return { success: true, error: null };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+};
+
+// Mendapatkan catatan penggunaan sebuah undangan
+export const getInviteUsages = async (inviteId: string) => {
+  try {
+    const usagesRef = collection(firestore, "inviteUsages");
+    const q = query(usagesRef, where("inviteId", "==", inviteId));
+    const querySnapshot = await getDocs(q);
+
+    const usages: InviteUsage[] = [];
+    querySnapshot.forEach((doc) => {
+      const data = doc.data();
+      usages.push({
+        ...data,
+        usedAt: data.usedAt ? data.usedAt.toDate() : new Date(),
+      } as InviteUsage);
+    });
+
+    usages.sort((a, b) => b.usedAt.getTime() - a.usedAt.getTime());
+    return { usages, error: null };
+  } catch (error: any) {
+    return { usages: [], error: error.message };
+  }
+};
+
+// Bergabung ke rumah dengan kode/link undangan, termasuk kode utama rumah yang juga
+// tersimpan sebagai undangan (lihat scripts/backfill-home-invite-codes.js untuk rumah lama).
+// Jika rumah mewajibkan persetujuan, hasilnya berupa permintaan bergabung (pending).
+export const redeemInviteCode = async (userId: string, input: string) => {
+  try {
+    const code = normalizeInviteCode(input);
+    const inviteRef = doc(firestore, "invites", code);
+    const inviteDoc = await getDoc(inviteRef);
+
+    if (!inviteDoc.exists()) {
+      return { success: false, home: null, pending: false, error: "Undangan tidak ditemukan" };
+    }
+
+    const invite = toInvite(inviteDoc.data());
+
+    // Jika sudah menjadi anggota, jangan ubah peran yang sudah ada
+    const { home: existingHome } = await getHomeById(invite.homeId);
+    if (existingHome && existingHome.members.includes(userId)) {
+      return { success: true, home: existingHome, pending: false, error: null };
+    }
+
+    const joinRequest = invite.requireApproval
+      ? await prepareJoinRequest(userId, {
+          homeId: invite.homeId,
+          homeName: invite.homeName,
+          role: invite.role,
+          inviteId: invite.id,
+        })
+      : null;
+
+    await runTransaction(firestore, async (transaction) => {
+      const freshInviteDoc = await transaction.get(inviteRef);
+      if (!freshInviteDoc.exists()) {
+        throw new Error("Undangan tidak ditemukan");
+      }
+
+      const freshInvite = toInvite(freshInviteDoc.data());
+      const status = getInviteStatus(freshInvite);
+      if (status !== 'active') {
+        throw new Error(INVITE_STATUS_ERRORS[status]);
+      }
+
+      transaction.update(inviteRef, {
+        uses: freshInvite.uses + 1
+      });
+
+      const usageId = `${freshInvite.homeId}_${userId}`;
+      transaction.set(doc(firestore, "inviteUsages", usageId), {
+        id: usageId,
+        inviteId: freshInvite.id,
+        homeId: freshInvite.homeId,
+        userId,
+        role: freshInvite.role,
+        usedAt: serverTimestamp(),
+      });
+
+      if (joinRequest) {
+        transaction.set(joinRequest.ref, joinRequest.data);
+        return;
+      }
+
+      transaction.update(doc(firestore, "homes", freshInvite.homeId), {
+        members: arrayUnion(userId),
+        [`roles.${userId}`]: freshInvite.role
+      });
+
+      transaction.update(doc(firestore, "users", userId), {
+        homes: arrayUnion(freshInvite.homeId)
+      });
+    });
+
+    if (joinRequest) {
+      return { success: true, home: null, pending: true, error: null };
+    }
+
+    const { home, error } = await getHomeById(invite.homeId);
+    if (error || !home) {
+      return { success: false, home: null, pending: false, error: error || "Rumah tidak ditemukan" };
+    }
+
+    await recordMemberJoined(home.id, userId);
+    await logActivity({
+      homeId: home.id,
+      actorId: userId,
+      type: 'member_joined',
+      details: { role: invite.role, inviteId: invite.id }
+    });
+
+    return { success: true, home, pending: false, error: null };
+  } catch (error: any) {
+    return { success: false, home: null, pending: false, error: error.message };
+  }
+};
@@ -0,0 +1,214 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  deleteDoc,
+  updateDoc,
+  query,
+  where,
+  onSnapshot,
+  arrayUnion,
+  writeBatch,
+  Timestamp
+} from "firebase/firestore";
+import { firestore } from "./config";
+import { JoinRequest } from "../../types/user";
+import { getHomeById } from "./home";
+import { getUserProfile } from "./user";
+import { hasHomePermission } from "../../utils/homePermissions";
+import { logActivity } from "./activity";
+import { recordMemberJoined } from "./homeMembers";
+
+export interface JoinRequestParams {
+  homeId: string;
+  homeName: string;
+  role: JoinRequest['role'];
+  inviteId: string;
+}
+
+const toJoinRequest = (data: any): JoinRequest => ({
+  ...data,
+  createdAt: data.createdAt.toDate(),
+  decidedAt: data.decidedAt ? data.decidedAt.toDate() : undefined,
+} as JoinRequest);
+
+// Menyiapkan dokumen permintaan bergabung beserta profil peminta.
+// Ditulis oleh pemanggil agar bisa digabung dengan transaksi undangan.
+export const prepareJoinRequest = async (userId: string, params: JoinRequestParams) => {
+  const { profile } = await getUserProfile(userId);
+  const requestId = `${params.homeId}_${userId}`;
+
+  const data = {
+    id: requestId,
+    homeId: params.homeId,
+    homeName: params.homeName,
+    userId,
+    displayName: profile?.displayName || null,
+    email: profile?.email || null,
+    photoURL: profile?.photoURL || null,
+    role: params.role,
+    inviteId: params.inviteId,
+    status: 'pending',
+    createdAt: Timestamp.fromDate(new Date()),
+  };
+
+  return { ref: doc(firestore, "joinRequests", requestId), data };
+};
+
+// Real-time listener untuk permintaan yang menunggu persetujuan di sebuah rumah
+export const subscribeToHomeJoinRequests = (homeId: string, callback: (requests: JoinRequest[]) => void) => {
+  const q = query(
+    collection(firestore, "joinRequests"),
+    where("homeId", "==", homeId),
+    where("status", "==", "pending")
+  );
+
+  return onSnapshot(q, (querySnapshot) => {
+    const requests: JoinRequest[] = [];
+    querySnapshot.forEach((doc) => {
+      requests.push(toJoinRequest(doc.data()));
+    });
+    requests.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    callback(requests);
+  });
+};
+
+// Real-time listener untuk permintaan milik user (ditampilkan di HomeSetup)
+export const subscribeToUserJoinRequests = (userId: string, callback: (requests: JoinRequest[]) => void) => {
+  const q = query(collection(firestore, "joinRequests"), where("userId", "==", userId));
+
+  return onSnapshot(q, (querySnapshot) => {
+    const requests: JoinRequest[] = [];
+    querySnapshot.forEach((doc) => {
+      requests.push(toJoinRequest(doc.data()));
+    });
+    requests.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    callback(requests);
+  });
+};
+
+const getJoinRequest = async (requestId: string) => {
+  const requestDoc = await getDoc(doc(firestore, "joinRequests", requestId));
+  if (!requestDoc.exists()) {
+    return null;
+  }
+  return toJoinRequest(requestDoc.data());
+};
+
+// Menyetujui permintaan bergabung (owner/admin)
+export const approveJoinRequest = async (actorId: string, requestId: string) => {
+  try {
+    const request = await getJoinRequest(requestId);
+    if (!request || request.status !== 'pending') {
+      return { success: false, error: "Permintaan tidak ditemukan atau sudah diproses" };
+    }
+
+    const { home, error } = await getHomeById(request.homeId);
+    if (error || !home) {
+      return { success: false, error: error || "Rumah tidak ditemukan" };
+    }
+
+    if (!hasHomePermission(home, actorId, 'approveMembers')) {
+      return { success: false, error: "Anda tidak memiliki izin untuk menyetujui anggota" };
+    }
+
+    const batch = writeBatch(firestore);
+    batch.update(doc(firestore, "homes", request.homeId), {
+      members: arrayUnion(request.userId),
+      [`roles.${request.userId}`]: request.role
+    });
+    batch.update(doc(firestore, "joinRequests", requestId), {
+      status: 'approved',
+      decidedAt: Timestamp.fromDate(new Date()),
+      decidedBy: actorId
+    });
+    await batch.commit();
+
+    await recordMemberJoined(request.homeId, request.userId);
+    await logActivity({
+      homeId: request.homeId,
+      actorId,
+      type: 'join_request_approved',
+      targetId: request.userId,
+      targetName: request.displayName || request.email,
+      details: { role: request.role }
+    });
+
+    return { success: true, error: null };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+};
+
+// Menolak permintaan bergabung (owner/admin)
+export const declineJoinRequest = async (actorId: string, requestId: string) => {
+  try {
+    const request = await getJoinRequest(requestId);
+    if (!request || request.status !== 'pending') {
+      return { success: false, error: "Permintaan tidak ditemukan atau sudah diproses" };
+    }
+
+    const { home, error } = await getHomeById(request.homeId);
+    if (error || !home) {
+      return { success: false, error: error || "Rumah tidak ditemukan" };
+    }
+
+    if (!hasHomePermission(home, actorId, 'approveMembers')) {
+      return { success: false, error: "Anda tidak memiliki izin untuk menolak anggota" };
+    }
+
+    await updateDoc(doc(firestore, "joinRequests", requestId), {
+      status: 'declined',
+      decidedAt: Timestamp.fromDate(new Date()),
+      decidedBy: actorId
+    });
+
+    await logActivity({
+      homeId: request.homeId,
+      actorId,
+      type: 'join_request_declined',
+      targetId: request.userId,
+      targetName: request.displayName || request.email
+    });
+
+    return { success: true, error: null };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+};
+
+// Dipanggil oleh peminta setelah permintaan diproses: melengkapi daftar rumah
+// milik user (admin tidak boleh menulis dokumen user lain) lalu menghapus permintaan
+export const acknowledgeJoinRequest = async (userId: string, request: JoinRequest) => {
+  try {
+    if (request.userId !== userId) {
+      return { success: false, error: "Permintaan ini bukan milik Anda" };
+    }
+
+    if (request.status === 'approved') {
+      await updateDoc(doc(firestore, "users", userId), {
+        homes: arrayUnion(request.homeId)
+      });
+    }
+
+    await deleteDoc(doc(firestore, "joinRequests", request.id));
+    return { success: true, error: null };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+};
+
+// Membatalkan permintaan yang masih menunggu (oleh peminta)
+export const cancelJoinRequest = async (userId: string, requestId: string) => {
+  try {
+    const request = await getJoinRequest(requestId);
+    if (!request || request.userId !== userId) {
+      return { success: false, error: "Permintaan tidak ditemukan" };
+    }
+
+    await deleteDoc(doc(firestore, "joinRequests", requestId));
+    return { success: true, error: null };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+};
@@ -0,0 +1,251 @@
+import {
+  collection,
+  getDocs,
+  getCountFromServer,
+  query,
+  where,
+  orderBy,
+  startAfter,
+  limit,
+  documentId,
+  writeBatch,
+  QueryConstraint,
+  QueryNonFilterConstraint,
+  QueryDocumentSnapshot,
+  DocumentData
+} from "firebase/firestore";
+import { firestore } from "./config";
+import { getHomeMemberProfilesMap } from "./homeMembers";
+import { visibleNotesQuery } from "./notes";
+import { deleteNoteAttachments } from "./noteAttachments";
+import { Home, MemberContentCounts, MemberContentHandover } from "../../types/user";
+import { FORMER_MEMBER_ID, FORMER_MEMBER_NAME, getMemberName } from "../../utils/memberProfile";
+import { isRestrictedNote } from "../../utils/noteVisibility";
+
+/**
+ * Serah terima konten anggota yang keluar atau dikeluarkan dari rumah.
+ * Catatan, wishlist dan peliharaan dialihkan ke anggota lain, dianonimkan atau
+ * dihapus; pesan chat tetap ada dengan salinan nama pengirim (`senderName`).
+ * Dijalankan sebelum anggota dihapus dari rumah, karena security rules
+ * memeriksa keanggotaan pelaku.
+ *
+ * Note pribadi atau terbatas hanya bisa diserahkan jika pelaku termasuk
+ * pembacanya; note yang tidak terlihat oleh pelaku tetap atas nama anggota lama
+ * dan tidak lagi bisa dibuka siapa pun.
+ */
+
+const MAX_BATCH_WRITES = 500;
+
+type OwnedCollection = 'notes' | 'wishlist' | 'pets';
+
+const OWNED_COLLECTIONS: OwnedCollection[] = ['notes', 'wishlist', 'pets'];
+
+const ownedQuery = (
+  collectionName: OwnedCollection,
+  homeId: string,
+  memberId: string,
+  actorId: string,
+  ...constraints: QueryNonFilterConstraint[]
+) => {
+  if (collectionName === 'notes') {
+    return visibleNotesQuery(homeId, actorId, [where("createdBy", "==", memberId)], ...constraints);
+  }
+  return query(
+    collection(firestore, collectionName),
+    where("homeId", "==", homeId),
+    where("createdBy", "==", memberId),
+    ...constraints
+  );
+};
+
+export const getMemberContentCounts = async (homeId: string, memberId: string, actorId: string) => {
+  try {
+    const [notes, wishlist, pets, messages] = await Promise.all([
+      ...OWNED_COLLECTIONS.map(collectionName =>
+        getCountFromServer(ownedQuery(collectionName, homeId, memberId, actorId))
+      ),
+      getCountFromServer(query(
+        collection(firestore, "messages"),
+        where("homeId", "==", homeId),
+        where("senderId", "==", memberId)
+      ))
+    ]);
+
+    const counts: MemberContentCounts = {
+      notes: notes.data().count,
+      wishlist: wishlist.data().count,
+      pets: pets.data().count,
+      messages: messages.data().count
+    };
+
+    return { counts, error: null };
+  } catch (error: any) {
+    return { counts: null, error: error.message };
+  }
+};
+
+// Interaksi diperiksa terhadap pet-nya oleh security rules, jadi dihapus lebih dulu
+const deletePetInteractions = async (petId: string) => {
+  const q = query(collection(firestore, "petInteractions"), where("petId", "==", petId), limit(MAX_BATCH_WRITES));
+
+  while (true) {
+    const snapshot = await getDocs(q);
+    if (snapshot.empty) break;
+
+    const batch = writeBatch(firestore);
+    snapshot.docs.forEach(docSnap => batch.delete(docSnap.ref));
+    await batch.commit();
+
+    if (snapshot.size < MAX_BATCH_WRITES) break;
+  }
+};
+
+// Revisi dan operasi diperiksa terhadap note-nya oleh security rules, jadi dihapus lebih dulu
+const deleteNoteHistory = async (noteId: string) => {
+  for (const subcollection of ["revisions", "operations"]) {
+    const q = query(collection(firestore, "notes", noteId, subcollection), limit(MAX_BATCH_WRITES));
+
+    while (true) {
+      const snapshot = await getDocs(q);
+      if (snapshot.empty) break;
+
+      const batch = writeBatch(firestore);
+      snapshot.docs.forEach(docSnap => batch.delete(docSnap.ref));
+      await batch.commit();
+
+      if (snapshot.size < MAX_BATCH_WRITES) break;
+    }
+  }
+};
+
+// Note terbatas tidak boleh terbuka untuk anggota yang tidak dibagikan: hanya
+// diserahkan ke penerima yang sudah termasuk pembacanya, selain itu dianonimkan.
+// Note yang tidak punya pembaca lain (note pribadi) dihapus.
+const handOverNote = (data: DocumentData, memberId: string, handover: MemberContentHandover) => {
+  if (!isRestrictedNote(data)) {
+    return { createdBy: handover.mode === 'reassign' ? handover.toUserId : FORMER_MEMBER_ID };
+  }
+
+  const readers: string[] = (data.readers || []).filter((userId: string) => userId !== memberId);
+  if (readers.length === 0) return null;
+
+  const keepsAccess = handover.mode === 'reassign' && readers.includes(handover.toUserId);
+  return { createdBy: keepsAccess ? handover.toUserId : FORMER_MEMBER_ID, readers };
+};
+
+// Setiap halaman mengubah `createdBy` atau menghapus dokumen, sehingga query
+// yang sama akhirnya kosong dan proses aman diulang jika terhenti
+const handOverCollection = async (
+  collectionName: OwnedCollection,
+  homeId: string,
+  memberId: string,
+  actorId: string,
+  handover: MemberContentHandover
+) => {
+  const q = ownedQuery(collectionName, homeId, memberId, actorId, limit(MAX_BATCH_WRITES));
+  let count = 0;
+
+  while (true) {
+    const snapshot = await getDocs(q);
+    if (snapshot.empty) break;
+
+    if (handover.mode === 'delete' && collectionName === 'pets') {
+      for (const petDoc of snapshot.docs) {
+        await deletePetInteractions(petDoc.id);
+      }
+    }
+    // Perubahan per note dihitung dulu agar riwayat note yang dihapus ikut dibersihkan
+    const noteUpdates = new Map<string, DocumentData | null>();
+    if (collectionName === 'notes' && handover.mode !== 'delete') {
+      snapshot.docs.forEach(noteDoc => noteUpdates.set(noteDoc.id, handOverNote(noteDoc.data(), memberId, handover)));
+    }
+    if (collectionName === 'notes') {
+      for (const noteDoc of snapshot.docs) {
+        if (handover.mode === 'delete' || noteUpdates.get(noteDoc.id) === null) {
+          await deleteNoteAttachments(noteDoc.id);
+          await deleteNoteHistory(noteDoc.id);
+        }
+      }
+    }
+
+    const batch = writeBatch(firestore);
+    snapshot.docs.forEach(docSnap => {
+      const noteUpdate = noteUpdates.get(docSnap.id);
+      if (handover.mode === 'delete' || noteUpdate === null) {
+        batch.delete(docSnap.ref);
+      } else {
+        batch.update(docSnap.ref, noteUpdate || {
+          createdBy: handover.mode === 'reassign' ? handover.toUserId : FORMER_MEMBER_ID
+        });
+      }
+    });
+    await batch.commit();
+    count += snapshot.size;
+
+    if (snapshot.size < MAX_BATCH_WRITES) break;
+  }
+
+  return count;
+};
+
+// Nama disalin ke setiap pesan agar chat lama tidak menampilkan pengirim kosong
+const cacheSenderName = async (homeId: string, memberId: string, senderName: string) => {
+  let lastDoc: QueryDocumentSnapshot<DocumentData> | null = null;
+
+  while (true) {
+    const constraints: QueryConstraint[] = [
+      where("homeId", "==", homeId),
+      where("senderId", "==", memberId),
+      orderBy(documentId()),
+      limit(MAX_BATCH_WRITES)
+    ];
+    if (lastDoc) constraints.push(startAfter(lastDoc));
+
+    const snapshot = await getDocs(query(collection(firestore, "messages"), ...constraints));
+    if (snapshot.empty) break;
+
+    const batch = writeBatch(firestore);
+    snapshot.docs.forEach(docSnap => batch.update(docSnap.ref, { senderName }));
+    await batch.commit();
+
+    if (snapshot.size < MAX_BATCH_WRITES) break;
+    lastDoc = snapshot.docs[snapshot.docs.length - 1];
+  }
+};
+
+export const validateMemberHandover = (home: Home, memberId: string, handover: MemberContentHandover): string | null => {
+  if (handover.mode !== 'reassign') return null;
+
+  if (handover.toUserId === memberId) {
+    return "Konten tidak bisa diserahkan ke anggota yang keluar";
+  }
+  if (!home.members.includes(handover.toUserId)) {
+    return "Penerima konten harus anggota rumah ini";
+  }
+  return null;
+};
+
+// Izin dan validasi dicek oleh pemanggil (leaveHome/removeMemberFromHome)
+export const handOverMemberContent = async (
+  home: Home,
+  memberId: string,
+  actorId: string,
+  handover: MemberContentHandover
+) => {
+  // Profil pengguna lain tidak bisa dibaca, jadi nama diambil dari salinan di profil anggota
+  const memberProfiles = await getHomeMemberProfilesMap(home.id);
+  const homeProfile = memberProfiles[memberId];
+  const senderName = getMemberName(
+    { displayName: homeProfile?.displayName ?? null, email: null, homeProfile },
+    FORMER_MEMBER_NAME
+  );
+
+  let handedOver = 0;
+  for (const collectionName of OWNED_COLLECTIONS) {
+    handedOver += await handOverCollection(collectionName, home.id, memberId, actorId, handover);
+  }
+
+  await cacheSenderName(home.id, memberId, senderName);
+
+  return { handedOver, senderName };
+};
@@ -0,0 +1,175 @@
+import {
+  collection,
+  doc,
+  getDocs,
+  setDoc,
+  deleteDoc,
+  query,
+  orderBy,
+  limit,
+  onSnapshot,
+  writeBatch,
+  Timestamp
+} from "firebase/firestore";
+import { ref, uploadBytesResumable, getDownloadURL, deleteObject } from "firebase/storage";
+import { firestore, storage } from "./config";
+import { v4 as uuidv4 } from 'uuid';
+import { NoteAttachment } from "../../types/user";
+import { compressImage } from "../../utils/imageCompression";
+import { MAX_ATTACHMENT_SIZE, formatFileSize, getAttachmentKind } from "../../utils/noteAttachments";
+
+/**
+ * Lampiran note. Berkas disimpan di Cloud Storage di bawah `notes/{noteId}/` dan
+ * datanya di subkoleksi `notes/{noteId}/attachments`, sehingga lampiran ikut
+ * berpindah saat rumah digabung dan dicek terhadap note-nya oleh security rules.
+ */
+
+const MAX_BATCH_WRITES = 500;
+
+const attachmentsRef = (noteId: string) => collection(firestore, "notes", noteId, "attachments");
+
+const attachmentPath = (noteId: string, attachmentId: string, file: 'original' | 'thumbnail') =>
+  `notes/${noteId}/attachments/${attachmentId}/${file}`;
+
+const toNoteAttachment = (data: any): NoteAttachment => ({
+  ...data,
+  uploadedAt: data.uploadedAt.toDate()
+} as NoteAttachment);
+
+// Berkas yang sudah hilang dari Storage dianggap sudah terhapus
+const deleteStorageFile = async (path: string | null | undefined) => {
+  if (!path) return;
+  try {
+    await deleteObject(ref(storage, path));
+  } catch (error: any) {
+    if (error.code !== 'storage/object-not-found') throw error;
+  }
+};
+
+const uploadFile = (path: string, blob: Blob, contentType: string, onProgress?: (transferred: number) => void) =>
+  new Promise<string>((resolve, reject) => {
+    const task = uploadBytesResumable(ref(storage, path), blob, { contentType });
+    task.on(
+      'state_changed',
+      snapshot => onProgress?.(snapshot.bytesTransferred),
+      reject,
+      () => getDownloadURL(task.snapshot.ref).then(resolve, reject)
+    );
+  });
+
+// Gambar dikompres dan dibuatkan thumbnail sebelum diunggah; `onProgress` menerima 0-1
+export const uploadNoteAttachment = async (
+  noteId: string,
+  userId: string,
+  file: File,
+  onProgress?: (progress: number) => void
+) => {
+  const id = uuidv4();
+  const path = attachmentPath(noteId, id, 'original');
+  const thumbnailPath = attachmentPath(noteId, id, 'thumbnail');
+
+  try {
+    const kind = getAttachmentKind(file.type);
+    const compressed = kind === 'image' ? await compressImage(file) : null;
+    const blob = compressed ? compressed.image.blob : file;
+    const contentType = blob.type || file.type || 'application/octet-stream';
+
+    if (blob.size > MAX_ATTACHMENT_SIZE) {
+      return {
+        attachment: null,
+        error: `"${file.name}" terlalu besar (maksimal ${formatFileSize(MAX_ATTACHMENT_SIZE)})`
+      };
+    }
+
+    const total = blob.size + (compressed ? compressed.thumbnail.blob.size : 0);
+    const url = await uploadFile(path, blob, contentType, transferred => onProgress?.(transferred / total));
+
+    let thumbnailUrl: string | null = null;
+    if (compressed) {
+      const thumbnail = compressed.thumbnail.blob;
+      thumbnailUrl = await uploadFile(thumbnailPath, thumbnail, thumbnail.type, transferred =>
+        onProgress?.((blob.size + transferred) / total)
+      );
+    }
+
+    const attachment: NoteAttachment = {
+      id,
+      noteId,
+      kind,
+      name: file.name || (kind === 'image' ? 'gambar' : 'berkas'),
+      contentType,
+      size: blob.size,
+      path,
+      url,
+      thumbnailPath: compressed ? thumbnailPath : null,
+      thumbnailUrl,
+      width: compressed ? compressed.image.width : null,
+      height: compressed ? compressed.image.height : null,
+      uploadedBy: userId,
+      uploadedAt: new Date()
+    };
+
+    await setDoc(doc(attachmentsRef(noteId), id), {
+      ...attachment,
+      uploadedAt: Timestamp.fromDate(attachment.uploadedAt)
+    });
+
+    return { attachment, error: null };
+  } catch (error: any) {
+    // Berkas yang sempat terunggah dibersihkan agar tidak menjadi sampah di Storage
+    await Promise.all([deleteStorageFile(path), deleteStorageFile(thumbnailPath)]).catch(() => undefined);
+    return { attachment: null, error: error.message };
+  }
+};
+
+export const subscribeToNoteAttachments = (
+  noteId: string,
+  callback: (attachments: NoteAttachment[]) => void
+) => {
+  const q = query(attachmentsRef(noteId), orderBy("uploadedAt", "asc"));
+
+  return onSnapshot(q, (snapshot) => {
+    callback(snapshot.docs.map(attachmentDoc => toNoteAttachment(attachmentDoc.data())));
+  }, (error) => {
+    console.error("Error subscribing to note attachments:", error);
+    callback([]);
+  });
+};
+
+export const deleteNoteAttachment = async (attachment: NoteAttachment) => {
+  try {
+    await deleteStorageFile(attachment.path);
+    await deleteStorageFile(attachment.thumbnailPath);
+    await deleteDoc(doc(attachmentsRef(attachment.noteId), attachment.id));
+    return { success: true, error: null };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+};
+
+// Semua lampiran sebuah note, dipanggil sebelum note dihapus. Berkas di Storage
+// dihapus lebih dulu karena aksesnya dicek terhadap note yang masih ada.
+export const deleteNoteAttachments = async (noteId: string) => {
+  const q = query(attachmentsRef(noteId), limit(MAX_BATCH_WRITES));
+  let deleted = 0;
+
+  while (true) {
+    const snapshot = await getDocs(q);
+    if (snapshot.empty) break;
+
+    for (const attachmentDoc of snapshot.docs) {
+      const data = attachmentDoc.data();
+      await deleteStorageFile(data.path);
+      await deleteStorageFile(data.thumbnailPath);
+    }
+
+    const batch = writeBatch(firestore);
+    snapshot.docs.forEach(attachmentDoc => batch.delete(attachmentDoc.ref));
+    await batch.commit();
+    deleted += snapshot.size;
+
+    if (snapshot.size < MAX_BATCH_WRITES) break;
+  }
+
+  return deleted;
+};
@@ -0,0 +1,168 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  setDoc,
+  updateDoc,
+  deleteDoc,
+  query,
+  where,
+  orderBy,
+  onSnapshot,
+  writeBatch,
+  Timestamp
+} from "firebase/firestore";
+import { v4 as uuidv4 } from 'uuid';
+import { firestore } from "./config";
+import { visibleNotesQuery } from "./notes";
+import { NoteFolder } from "../../types/user";
+import { canMoveFolder, validateNoteFolderName } from "../../utils/noteOrganization";
+
+/**
+ * Folder catatan per rumah (koleksi `noteFolders`). Note menyimpan `folderId`;
+ * folder yang dihapus memindahkan subfolder dan note-nya ke folder induk.
+ */
+
+// Batas tulisan per batch Firestore
+const MAX_BATCH_WRITES = 500;
+
+const toNoteFolder = (data: any): NoteFolder => ({
+  ...data,
+  parentId: data.parentId || null,
+  createdAt: data.createdAt.toDate(),
+  updatedAt: data.updatedAt.toDate(),
+} as NoteFolder);
+
+const getHomeFolders = async (homeId: string) => {
+  const snapshot = await getDocs(query(collection(firestore, "noteFolders"), where("homeId", "==", homeId)));
+  return snapshot.docs.map(folderDoc => toNoteFolder(folderDoc.data()));
+};
+
+const getFolder = async (folderId: string) => {
+  const folderDoc = await getDoc(doc(firestore, "noteFolders", folderId));
+  return folderDoc.exists() ? toNoteFolder(folderDoc.data()) : null;
+};
+
+export const createNoteFolder = async (homeId: string, userId: string, name: string, parentId: string | null = null) => {
+  try {
+    const validationError = validateNoteFolderName(name);
+    if (validationError) {
+      return { folder: null, error: validationError };
+    }
+
+    const now = new Date();
+    const folder: NoteFolder = {
+      id: uuidv4(),
+      homeId,
+      name: name.trim(),
+      parentId,
+      createdBy: userId,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await setDoc(doc(firestore, "noteFolders", folder.id), {
+      ...folder,
+      createdAt: Timestamp.fromDate(now),
+      updatedAt: Timestamp.fromDate(now),
+    });
+
+    return { folder, error: null };
+  } catch (error: any) {
+    return { folder: null, error: error.message };
+  }
+};
+
+export const renameNoteFolder = async (folderId: string, name: string) => {
+  try {
+    const validationError = validateNoteFolderName(name);
+    if (validationError) {
+      return { success: false, error: validationError };
+    }
+
+    await updateDoc(doc(firestore, "noteFolders", folderId), {
+      name: name.trim(),
+      updatedAt: Timestamp.fromDate(new Date()),
+    });
+
+    return { success: true, error: null };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+};
+
+// Memindahkan folder ke folder lain (null = tingkat teratas)
+export const moveNoteFolder = async (folderId: string, parentId: string | null) => {
+  try {
+    const folder = await getFolder(folderId);
+    if (!folder) {
+      return { success: false, error: "Folder tidak ditemukan" };
+    }
+
+    const folders = await getHomeFolders(folder.homeId);
+    if (parentId && !folders.some(candidate => candidate.id === parentId)) {
+      return { success: false, error: "Folder tujuan tidak ditemukan" };
+    }
+    if (!canMoveFolder(folderId, parentId, folders)) {
+      return { success: false, error: "Folder tidak bisa dipindahkan ke dalam subfoldernya sendiri" };
+    }
+
+    await updateDoc(doc(firestore, "noteFolders", folderId), {
+      parentId,
+      updatedAt: Timestamp.fromDate(new Date()),
+    });
+
+    return { success: true, error: null };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+};
+
+// Menghapus folder; subfolder dan note di dalamnya pindah ke folder induk. Note privat
+// anggota lain tidak terlihat dan tetap menyimpan folder lama (tampil di luar folder).
+export const deleteNoteFolder = async (folderId: string, userId: string) => {
+  try {
+    const folder = await getFolder(folderId);
+    if (!folder) {
+      return { success: false, error: "Folder tidak ditemukan" };
+    }
+
+    const [childFolders, notes] = await Promise.all([
+      getDocs(query(
+        collection(firestore, "noteFolders"),
+        where("homeId", "==", folder.homeId),
+        where("parentId", "==", folderId)
+      )),
+      getDocs(visibleNotesQuery(folder.homeId, userId, [where("folderId", "==", folderId)]))
+    ]);
+
+    const refs = [...childFolders.docs, ...notes.docs];
+    for (let i = 0; i < refs.length; i += MAX_BATCH_WRITES) {
+      const batch = writeBatch(firestore);
+      refs.slice(i, i + MAX_BATCH_WRITES).forEach(docSnap => {
+        const field = docSnap.ref.parent.id === "notes" ? "folderId" : "parentId";
+        batch.update(docSnap.ref, { [field]: folder.parentId });
+      });
+      await batch.commit();
+    }
+
+    await deleteDoc(doc(firestore, "noteFolders", folderId));
+
+    return { success: true, error: null };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+};
+
+export const subscribeToNoteFolders = (homeId: string, callback: (folders: NoteFolder[]) => void) => {
+  const q = query(
+    collection(firestore, "noteFolders"),
+    where("homeId", "==", homeId),
+    orderBy("name")
+  );
+
+  return onSnapshot(q, (snapshot) => {
+    callback(snapshot.docs.map(folderDoc => toNoteFolder(folderDoc.data())));
+  });
+};
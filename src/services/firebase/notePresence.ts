@@ -0,0 +1,214 @@
+import {
+  ref,
+  get,
+  set,
+  update,
+  remove,
+  onValue,
+  onDisconnect,
+  serverTimestamp,
+  DataSnapshot
+} from "firebase/database";
+import { database } from "./config";
+import { Home, NotePresence, NotePresenceUpdate } from "../../types/user";
+
+/**
+ * Kehadiran anggota di editor note lewat Realtime Database. Setiap tab menulis satu
+ * entri di notePresence/{homeId}/{noteId}/{userId}/{sessionId} yang dihapus server
+ * lewat `onDisconnect` saat koneksi terputus (tab ditutup, jaringan hilang).
+ *
+ * Security rules Realtime Database tidak bisa membaca Firestore, jadi anggota rumah
+ * disalin ke homeMembers/{homeId}/{userId}; hanya yang tercantum di sana yang boleh
+ * membaca dan menulis kehadiran rumah itu. Daftar hanya diisi pembuat/pemilik rumah
+ * (atau scripts/backfill-presence-members.js), anggota lain hanya bisa keluar darinya.
+ */
+
+// Entri diperbarui berkala agar entri yang tertinggal (misalnya onDisconnect gagal
+// terdaftar) bisa dikenali dan diabaikan
+export const NOTE_PRESENCE_HEARTBEAT_MS = 60 * 1000;
+export const NOTE_PRESENCE_STALE_MS = 3 * NOTE_PRESENCE_HEARTBEAT_MS;
+
+export interface NotePresenceSession {
+  update: (changes: NotePresenceUpdate) => void;
+  leave: () => Promise<void>;
+}
+
+const isFresh = (presence: NotePresence) =>
+  Date.now() - presence.updatedAt < NOTE_PRESENCE_STALE_MS;
+
+// Entri satu note: { [userId]: { [sessionId]: data } }
+const toNotePresences = (noteId: string, snapshot: DataSnapshot): NotePresence[] => {
+  const presences: NotePresence[] = [];
+
+  snapshot.forEach(userSnap => {
+    userSnap.forEach(sessionSnap => {
+      const data = sessionSnap.val() || {};
+      presences.push({
+        userId: data.userId || userSnap.key,
+        sessionId: sessionSnap.key as string,
+        noteId,
+        state: data.state === 'typing' ? 'typing' : 'viewing',
+        selectionStart: typeof data.selectionStart === 'number' ? data.selectionStart : null,
+        selectionEnd: typeof data.selectionEnd === 'number' ? data.selectionEnd : null,
+        updatedAt: typeof data.updatedAt === 'number' ? data.updatedAt : 0
+      });
+    });
+  });
+
+  return presences.filter(isFresh);
+};
+
+const presenceMembersRef = (homeId: string) => ref(database, `homeMembers/${homeId}`);
+
+// Saat rumah dibuat: pembuatnya dicatat sebagai pemilik daftar (homeOwners/{homeId}) dan
+// menjadi anggota pertama. Hanya pemilik daftar yang boleh menambah anggota lain.
+export const seedPresenceMembers = async (homeId: string, ownerId: string) => {
+  try {
+    await update(ref(database), {
+      [`homeOwners/${homeId}`]: ownerId,
+      [`homeMembers/${homeId}/${ownerId}`]: true
+    });
+  } catch (error) {
+    console.warn('Gagal menyiapkan daftar anggota kehadiran note:', error);
+  }
+};
+
+// Dipanggil pemilik rumah saat membuka rumah: menyamakan salinan anggota dengan `home.members`
+export const syncPresenceMembers = async (home: Pick<Home, 'id' | 'members'>) => {
+  try {
+    const snapshot = await get(presenceMembersRef(home.id));
+
+    const changes: { [memberId: string]: true | null } = {};
+    home.members.forEach(memberId => {
+      if (!snapshot.child(memberId).exists()) changes[memberId] = true;
+    });
+    snapshot.forEach(memberSnap => {
+      if (!home.members.includes(memberSnap.key as string)) changes[memberSnap.key as string] = null;
+    });
+
+    if (Object.keys(changes).length > 0) {
+      await update(presenceMembersRef(home.id), changes);
+    }
+  } catch (error) {
+    console.warn('Gagal menyamakan anggota untuk kehadiran note:', error);
+  }
+};
+
+// Pemilik lama menyerahkan pengelolaan daftar ke pemilik baru
+export const transferPresenceMembers = async (homeId: string, newOwnerId: string) => {
+  try {
+    await set(ref(database, `homeOwners/${homeId}`), newOwnerId);
+  } catch (error) {
+    console.warn('Gagal menyerahkan daftar anggota kehadiran note:', error);
+  }
+};
+
+// Anggota yang keluar menghapus entrinya sendiri; entri lain hanya diubah pemilik rumah
+export const leavePresenceMembers = async (homeId: string, userId: string) => {
+  try {
+    await remove(ref(database, `homeMembers/${homeId}/${userId}`));
+  } catch (error) {
+    console.warn('Gagal keluar dari daftar anggota kehadiran note:', error);
+  }
+};
+
+// Saat rumah dihapus permanen: setelah salinan anggota dihapus tidak ada lagi yang bisa
+// membaca kehadiran rumah itu, dan entri yang tersisa hilang sendiri lewat `onDisconnect`.
+// Dihapus per entri, karena security rules hanya mengizinkan tulisan per anggota. Jika gagal
+// (misalnya daftar masih dikelola pemilik sebelumnya), purge job yang menghapusnya.
+export const clearPresenceMembers = async (homeId: string) => {
+  try {
+    const snapshot = await get(presenceMembersRef(homeId));
+    const changes: { [memberId: string]: null } = {};
+    snapshot.forEach(memberSnap => {
+      changes[memberSnap.key as string] = null;
+    });
+
+    if (Object.keys(changes).length > 0) {
+      await update(presenceMembersRef(homeId), changes);
+    }
+  } catch (error) {
+    console.warn('Gagal menghapus daftar anggota kehadiran note:', error);
+  }
+};
+
+export const joinNotePresence = (
+  homeId: string,
+  noteId: string,
+  userId: string,
+  sessionId: string
+): NotePresenceSession => {
+  const presenceRef = ref(database, `notePresence/${homeId}/${noteId}/${userId}/${sessionId}`);
+  let current: Required<NotePresenceUpdate> = { state: 'viewing', selectionStart: null, selectionEnd: null };
+  let active = true;
+
+  const write = () => {
+    if (!active) return;
+    set(presenceRef, { userId, ...current, updatedAt: serverTimestamp() }).catch(error => {
+      console.warn('Gagal memperbarui kehadiran di note:', error);
+    });
+  };
+
+  // onDisconnect hanya berlaku untuk satu koneksi, jadi didaftarkan ulang (sebelum
+  // entri ditulis) setiap kali koneksi tersambung kembali
+  const unsubscribeConnection = onValue(ref(database, '.info/connected'), (snapshot) => {
+    if (snapshot.val() !== true || !active) return;
+
+    onDisconnect(presenceRef).remove()
+      .then(write)
+      .catch(error => console.warn('Gagal mendaftarkan onDisconnect kehadiran note:', error));
+  });
+
+  const heartbeat = setInterval(write, NOTE_PRESENCE_HEARTBEAT_MS);
+
+  return {
+    update: (changes) => {
+      current = { ...current, ...changes };
+      write();
+    },
+    leave: async () => {
+      active = false;
+      clearInterval(heartbeat);
+      unsubscribeConnection();
+      try {
+        await onDisconnect(presenceRef).cancel();
+        await remove(presenceRef);
+      } catch (error) {
+        console.warn('Gagal menghapus kehadiran di note:', error);
+      }
+    }
+  };
+};
+
+export const subscribeToNotePresence = (
+  homeId: string,
+  noteId: string,
+  callback: (presences: NotePresence[]) => void
+) => {
+  return onValue(ref(database, `notePresence/${homeId}/${noteId}`), (snapshot) => {
+    callback(toNotePresences(noteId, snapshot));
+  }, (error) => {
+    console.warn('Gagal memuat kehadiran di note:', error);
+    callback([]);
+  });
+};
+
+// Untuk daftar note: siapa saja yang sedang membuka tiap note di rumah ini
+export const subscribeToHomeNotePresence = (
+  homeId: string,
+  callback: (presences: { [noteId: string]: NotePresence[] }) => void
+) => {
+  return onValue(ref(database, `notePresence/${homeId}`), (snapshot) => {
+    const presences: { [noteId: string]: NotePresence[] } = {};
+    snapshot.forEach(noteSnap => {
+      const notePresences = toNotePresences(noteSnap.key as string, noteSnap);
+      if (notePresences.length > 0) {
+        presences[noteSnap.key as string] = notePresences;
+      }
+    });
+    callback(presences);
+  }, (error) => {
+    console.warn('Gagal memuat kehadiran di note:', error);
+    callback({});
+  });
+};
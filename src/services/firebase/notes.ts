@@ -2,21 +2,362 @@ import {
   collection, 
   doc, 
   setDoc, 
+  getDoc,
   getDocs, 
-  updateDoc, 
   deleteDoc, 
   query, 
   where, 
+  and,
+  or,
   orderBy, 
   onSnapshot,
-  Timestamp 
+  limit,
+  updateDoc,
+  writeBatch,
+  runTransaction,
+  Timestamp,
+  QueryFieldFilterConstraint,
+  QueryNonFilterConstraint
 } from "firebase/firestore";
 import { firestore } from "./config";
 import { v4 as uuidv4 } from 'uuid';
-import { Note } from "../../types/user";
+import {
+  Note,
+  NoteOperation,
+  NoteOrganization,
+  NoteReminder,
+  NoteRevision,
+  NoteRevisionReason,
+  NoteSortOrder,
+  NoteVisibility,
+  PendingNoteOperation
+} from "../../types/user";
+import { ImportedMetadata } from "../../types/archive";
+import { getHomeById } from "./home";
+import { canDeleteContent } from "../../utils/homePermissions";
+import { logActivity } from "./activity";
+import { incrementHomeStat } from "./homeStats";
+import { deleteNoteAttachments } from "./noteAttachments";
+import { getExpiredRevisions, getRevisionReason } from "../../utils/noteRevisions";
+import { applyOperation, isValidOperation, operationFromDiff } from "../../utils/textOperation";
+import { normalizeNoteTags } from "../../utils/noteOrganization";
+import { buildNoteReaders, isRestrictedNote } from "../../utils/noteVisibility";
+import { completeReminder, getReminderFireTime, snoozeReminder } from "../../utils/noteReminders";
+import { extractNoteLinks, isValidNoteLinkTitle, normalizeNoteLinkTitle, renameNoteLinks } from "../../utils/noteLinks";
 
-// Membuat note baru
-export const createNote = async (homeId: string, userId: string, title: string, content: string = "") => {
+// Auto-save berjalan tiap detik, jadi suntingan beruntun dihitung sebagai satu sesi edit
+const NOTE_EDIT_SESSION_MINUTES = 10;
+
+// Batas tulisan per batch Firestore
+const MAX_BATCH_WRITES = 500;
+
+// Log operasi dipangkas berkala; editor yang tertinggal lebih jauh memuat ulang isi note
+const NOTE_OPERATIONS_KEEP = 200;
+const NOTE_OPERATIONS_COMPACT_EVERY = 100;
+
+// Penanda operasi yang dibuat service (bukan editor kolaboratif), contoh pemulihan revisi
+const DIRECT_CLIENT_ID = 'direct';
+
+const NOTE_SUBCOLLECTIONS = ["revisions", "operations"];
+
+const toDateOrNull = (value: any): Date | null => (value ? value.toDate() : null);
+
+const toNoteReminder = (data: any): NoteReminder | null => data ? {
+  ...data,
+  startAt: data.startAt.toDate(),
+  dueAt: data.dueAt.toDate(),
+  snoozedUntil: toDateOrNull(data.snoozedUntil),
+  doneAt: toDateOrNull(data.doneAt),
+} : null;
+
+const toNote = (data: any): Note => {
+  const editedAt: { [userId: string]: Date } = {};
+  Object.keys(data.editedAt || {}).forEach(userId => {
+    if (data.editedAt[userId]) editedAt[userId] = data.editedAt[userId].toDate();
+  });
+
+  return {
+    ...data,
+    createdAt: data.createdAt.toDate(),
+    updatedAt: data.updatedAt.toDate(),
+    lastRevisionAt: data.lastRevisionAt ? data.lastRevisionAt.toDate() : undefined,
+    contentVersion: data.contentVersion || 0,
+    editedAt,
+    visibility: data.visibility || 'home',
+    readers: data.readers || [],
+    reminder: toNoteReminder(data.reminder),
+    reminderAt: toDateOrNull(data.reminderAt),
+  } as Note;
+};
+
+// Note yang boleh dibaca user: note untuk semua anggota atau yang mencantumkan user
+// sebagai pembaca. Security rules menolak query notes yang tidak dibatasi seperti ini.
+export const visibleNotesQuery = (
+  homeId: string,
+  userId: string,
+  filters: QueryFieldFilterConstraint[] = [],
+  ...constraints: QueryNonFilterConstraint[]
+) =>
+  query(
+    collection(firestore, "notes"),
+    and(
+      where("homeId", "==", homeId),
+      ...filters,
+      or(where("visibility", "==", "home"), where("readers", "array-contains", userId))
+    ),
+    ...constraints
+  );
+
+// Urutan dari server untuk setiap pilihan urutan; "terakhir saya edit" diurutkan di klien
+const NOTE_SORT_FIELDS: Record<NoteSortOrder, [string, 'asc' | 'desc']> = {
+  updated: ["updatedAt", "desc"],
+  title: ["title", "asc"],
+  created: ["createdAt", "desc"],
+  editedByMe: ["updatedAt", "desc"],
+};
+
+const toNoteRevision = (data: any): NoteRevision => ({
+  ...data,
+  savedAt: data.savedAt.toDate(),
+  createdAt: data.createdAt.toDate(),
+} as NoteRevision);
+
+const toNoteOperation = (data: any): NoteOperation => ({
+  ...data,
+  createdAt: data.createdAt ? data.createdAt.toDate() : new Date(),
+} as NoteOperation);
+
+const revisionsRef = (noteId: string) => collection(firestore, "notes", noteId, "revisions");
+const operationsRef = (noteId: string) => collection(firestore, "notes", noteId, "operations");
+
+// Salinan versi note sebelum ditimpa, ditulis dalam transaksi yang sama dengan perubahannya
+const buildRevision = (
+  noteId: string,
+  previous: any,
+  reason: NoteRevisionReason,
+  userId: string,
+  now: Date
+) => {
+  const id = uuidv4();
+  return {
+    ref: doc(revisionsRef(noteId), id),
+    data: {
+      id,
+      noteId,
+      title: previous.title || '',
+      content: previous.content || '',
+      authorId: previous.updatedBy || previous.createdBy,
+      savedAt: previous.updatedAt || previous.createdAt,
+      reason,
+      createdBy: userId,
+      createdAt: Timestamp.fromDate(now),
+    }
+  };
+};
+
+// Menjalankan kebijakan retensi revisi. Gagal memangkas tidak menggagalkan penyimpanan.
+const pruneNoteRevisions = async (noteId: string) => {
+  try {
+    const snapshot = await getDocs(query(revisionsRef(noteId), orderBy("createdAt", "desc")));
+    const revisions = snapshot.docs.map(revisionDoc => ({
+      ref: revisionDoc.ref,
+      createdAt: revisionDoc.data().createdAt.toDate() as Date
+    }));
+    const expired = getExpiredRevisions(revisions);
+    if (expired.length === 0) return;
+
+    const batch = writeBatch(firestore);
+    expired.slice(0, MAX_BATCH_WRITES).forEach(revision => batch.delete(revision.ref));
+    await batch.commit();
+  } catch (error) {
+    console.warn('Gagal memangkas revisi note:', error);
+  }
+};
+
+const compactNoteOperations = async (noteId: string, version: number) => {
+  try {
+    const snapshot = await getDocs(query(
+      operationsRef(noteId),
+      where("version", "<=", version - NOTE_OPERATIONS_KEEP),
+      limit(MAX_BATCH_WRITES)
+    ));
+    if (snapshot.empty) return;
+
+    const batch = writeBatch(firestore);
+    snapshot.docs.forEach(docSnap => batch.delete(docSnap.ref));
+    await batch.commit();
+  } catch (error) {
+    console.warn('Gagal memangkas operasi note:', error);
+  }
+};
+
+// Revisi dan operasi diperiksa terhadap note-nya oleh security rules, jadi dihapus lebih dulu
+const deleteNoteHistory = async (noteId: string) => {
+  for (const subcollection of NOTE_SUBCOLLECTIONS) {
+    const q = query(collection(firestore, "notes", noteId, subcollection), limit(MAX_BATCH_WRITES));
+
+    while (true) {
+      const snapshot = await getDocs(q);
+      if (snapshot.empty) break;
+
+      const batch = writeBatch(firestore);
+      snapshot.docs.forEach(docSnap => batch.delete(docSnap.ref));
+      await batch.commit();
+
+      if (snapshot.size < MAX_BATCH_WRITES) break;
+    }
+  }
+};
+
+interface NoteEdit {
+  title?: string;
+  content?: string; // Isi lengkap; diubah menjadi operasi dari isi saat ini
+  rewrite?: (content: string) => string; // Isi baru dihitung dari isi terbaru di dalam transaksi
+  operation?: PendingNoteOperation & { baseVersion: number }; // Dari editor kolaboratif
+  revisionReason?: NoteRevisionReason; // Paksa simpan revisi (pemulihan)
+}
+
+interface NoteEditResult {
+  conflict: boolean;
+  changed: boolean;
+  previous: any;
+  version: number;
+  revisionSaved: boolean;
+  operationSaved: boolean;
+}
+
+// Semua perubahan note melewati transaksi ini: setiap perubahan content menambah satu
+// operasi dengan versi berurutan, sehingga editor kolaboratif bisa mengikuti perubahan
+// dari mana pun. Operasi dari editor hanya diterima jika dibuat dari versi terbaru.
+const commitNoteEdit = (noteId: string, userId: string, edit: NoteEdit) => {
+  const noteRef = doc(firestore, "notes", noteId);
+
+  return runTransaction(firestore, async (transaction): Promise<NoteEditResult> => {
+    const noteDoc = await transaction.get(noteRef);
+    if (!noteDoc.exists()) {
+      throw new Error("Note tidak ditemukan");
+    }
+
+    const previous = noteDoc.data();
+    const currentVersion: number = previous.contentVersion || 0;
+    const previousContent: string = previous.content || '';
+    const result: NoteEditResult = {
+      conflict: false,
+      changed: false,
+      previous,
+      version: currentVersion,
+      revisionSaved: false,
+      operationSaved: false
+    };
+
+    if (edit.operation && edit.operation.baseVersion !== currentVersion) {
+      return { ...result, conflict: true };
+    }
+
+    const nextContent = edit.rewrite ? edit.rewrite(previousContent) : edit.content;
+    const operation = edit.operation || (
+      nextContent !== undefined && nextContent !== previousContent
+        ? { id: uuidv4(), ops: operationFromDiff(previousContent, nextContent), clientId: DIRECT_CLIENT_ID }
+        : null
+    );
+    const content = operation ? applyOperation(previousContent, operation.ops) : previousContent;
+    const titleChanged = edit.title !== undefined && edit.title !== previous.title;
+    if (!titleChanged && content === previousContent && !edit.revisionReason) {
+      return result;
+    }
+
+    const now = new Date();
+    const updateData: { [field: string]: any } = {
+      updatedAt: Timestamp.fromDate(now),
+      updatedBy: userId,
+      [`editedAt.${userId}`]: Timestamp.fromDate(now),
+    };
+    if (titleChanged) updateData.title = edit.title;
+
+    if (operation && content !== previousContent) {
+      const version = currentVersion + 1;
+      transaction.set(doc(operationsRef(noteId), String(version)), {
+        id: operation.id,
+        version,
+        ops: operation.ops,
+        authorId: userId,
+        clientId: operation.clientId,
+        createdAt: Timestamp.fromDate(now),
+      });
+      updateData.content = content;
+      updateData.contentVersion = version;
+      result.version = version;
+      result.operationSaved = true;
+    }
+
+    // Versi sebelumnya disalin sebagai revisi di awal sesi edit user ini atau secara berkala
+    const lastEditAt = previous.editedAt?.[userId];
+    const revisionReason = edit.revisionReason || getRevisionReason({
+      lastEditAt: lastEditAt ? lastEditAt.toDate() : null,
+      lastRevisionAt: previous.lastRevisionAt ? previous.lastRevisionAt.toDate() : null
+    }, now);
+    if (revisionReason) {
+      const revision = buildRevision(noteId, previous, revisionReason, userId, now);
+      transaction.set(revision.ref, revision.data);
+      updateData.lastRevisionAt = Timestamp.fromDate(now);
+      result.revisionSaved = true;
+    }
+
+    transaction.update(noteRef, updateData);
+    return { ...result, changed: true };
+  });
+};
+
+// Memangkas revisi dan operasi lama setelah perubahan tersimpan
+const maintainNoteHistory = async (noteId: string, result: NoteEditResult) => {
+  if (result.revisionSaved) {
+    await pruneNoteRevisions(noteId);
+  }
+  if (result.operationSaved && result.version % NOTE_OPERATIONS_COMPACT_EVERY === 0) {
+    await compactNoteOperations(noteId, result.version);
+  }
+};
+
+// Statistik sesi edit, aktivitas dan perawatan riwayat setelah perubahan tersimpan
+const recordNoteEdit = async (noteId: string, userId: string, result: NoteEditResult, title?: string) => {
+  const { previous } = result;
+  const now = new Date();
+
+  await maintainNoteHistory(noteId, result);
+
+  // Sesi baru jika user belum pernah menyunting atau jeda sejak suntingan terakhirnya cukup lama.
+  // Dihitung per user agar suntingan bersamaan anggota lain tidak memotong sesinya.
+  const lastEdit: Date | null = previous.editedAt?.[userId] ? previous.editedAt[userId].toDate() : null;
+  const isNewSession = !lastEdit ||
+    now.getTime() - lastEdit.getTime() > NOTE_EDIT_SESSION_MINUTES * 60 * 1000;
+  if (isNewSession) {
+    await incrementHomeStat(previous.homeId, userId, 'noteEdits', now);
+  }
+
+  // Feed aktivitas terlihat semua anggota, jadi note terbatas tidak dicatat di sana
+  if (isRestrictedNote(previous)) return;
+
+  await logActivity({
+    homeId: previous.homeId,
+    actorId: userId,
+    type: 'note_updated',
+    targetId: noteId,
+    targetName: title ?? previous.title,
+    coalesceMinutes: NOTE_EDIT_SESSION_MINUTES
+  });
+};
+
+// Membuat note baru. `imported` dipakai saat memulihkan dari arsip ekspor
+export const createNote = async (
+  homeId: string,
+  userId: string,
+  title: string,
+  content: string = "",
+  imported?: ImportedMetadata,
+  organization: NoteOrganization = {},
+  visibility: NoteVisibility = 'home',
+  sharedWith: string[] = []
+) => {
   try {
     const noteData: Note = {
       id: uuidv4(),
@@ -24,8 +365,14 @@ export const createNote = async (homeId: string, userId: string, title: string,
       title,
       content,
       createdBy: userId,
-      createdAt: new Date(),
-      updatedAt: new Date(),
+      createdAt: imported?.createdAt || new Date(),
+      updatedAt: imported?.updatedAt || imported?.createdAt || new Date(),
+      folderId: organization.folderId || null,
+      tags: normalizeNoteTags(organization.tags || []),
+      pinned: !!organization.pinned,
+      ...(organization.color && { color: organization.color }),
+      visibility,
+      readers: buildNoteReaders(visibility, userId, sharedWith),
     };
 
     const noteRef = doc(firestore, "notes", noteData.id);
@@ -33,6 +380,20 @@ export const createNote = async (homeId: string, userId: string, title: string,
       ...noteData,
       createdAt: Timestamp.fromDate(noteData.createdAt),
       updatedAt: Timestamp.fromDate(noteData.updatedAt),
+      ...(imported && { importedBy: imported.importedBy }),
+    });
+
+    // Impor dicatat sekali untuk seluruh arsip, bukan per note
+    if (imported || visibility !== 'home') {
+      return { note: noteData, error: null };
+    }
+
+    await logActivity({
+      homeId,
+      actorId: userId,
+      type: 'note_created',
+      targetId: noteData.id,
+      targetName: title
     });
 
     return { note: noteData, error: null };
@@ -41,25 +402,15 @@ export const createNote = async (homeId: string, userId: string, title: string,
   }
 };
 
-// Mendapatkan semua notes dari sebuah rumah
-export const getHomeNotes = async (homeId: string) => {
+// Mendapatkan semua notes dari sebuah rumah yang boleh dibaca user
+export const getHomeNotes = async (homeId: string, userId: string) => {
   try {
-    const notesRef = collection(firestore, "notes");
-    const q = query(
-      notesRef, 
-      where("homeId", "==", homeId),
-      orderBy("updatedAt", "desc")
-    );
+    const q = visibleNotesQuery(homeId, userId, [], orderBy("updatedAt", "desc"));
     const querySnapshot = await getDocs(q);
     
     const notes: Note[] = [];
     querySnapshot.forEach((doc) => {
-      const data = doc.data();
-      notes.push({
-        ...data,
-        createdAt: data.createdAt.toDate(),
-        updatedAt: data.updatedAt.toDate(),
-      } as Note);
+      notes.push(toNote(doc.data()));
     });
     
     return { notes, error: null };
@@ -68,71 +419,374 @@ export const getHomeNotes = async (homeId: string) => {
   }
 };
 
-// Update note (real-time collaborative editing)
-export const updateNote = async (noteId: string, updates: Partial<Note>) => {
+// Link [[judul lama]] di note lain diganti ke judul baru agar tidak putus saat note
+// diganti judulnya. Dipanggil sekali setelah judul selesai disunting (bukan setiap
+// auto-save), dengan judul dari awal suntingan. Hanya note yang bisa dibaca user yang
+// diperbarui, dan link dibiarkan jika masih ada note lain dengan judul lama. Perubahan
+// dikirim sebagai operasi biasa, jadi editor yang sedang membuka note tersebut ikut menerimanya.
+export const updateLinksToNote = async (noteId: string, homeId: string, oldTitle: string, newTitle: string, userId: string) => {
+  try {
+    if (!isValidNoteLinkTitle(oldTitle) || !isValidNoteLinkTitle(newTitle)) {
+      return { updated: 0, error: null };
+    }
+
+    const oldLink = normalizeNoteLinkTitle(oldTitle);
+    if (oldLink === normalizeNoteLinkTitle(newTitle)) {
+      return { updated: 0, error: null };
+    }
+
+    const { notes, error } = await getHomeNotes(homeId, userId);
+    if (error) {
+      return { updated: 0, error };
+    }
+    if (notes.some(note => note.id !== noteId && normalizeNoteLinkTitle(note.title) === oldLink)) {
+      return { updated: 0, error: null };
+    }
+
+    let updated = 0;
+    const linking = notes.filter(note => extractNoteLinks(note.content || '').includes(oldLink));
+    for (const note of linking) {
+      const result = await commitNoteEdit(note.id, userId, {
+        rewrite: content => renameNoteLinks(content, oldTitle, newTitle)
+      });
+      if (result.changed) {
+        await maintainNoteHistory(note.id, result);
+        updated++;
+      }
+    }
+
+    return { updated, error: null };
+  } catch (error: any) {
+    return { updated: 0, error: error.message };
+  }
+};
+
+// Update judul dan/atau isi lengkap note. Isi yang berubah dicatat sebagai operasi
+// sehingga editor kolaboratif yang sedang terbuka ikut menerima perubahannya.
+export const updateNote = async (noteId: string, updates: Partial<Pick<Note, 'title' | 'content'>>, userId: string) => {
+  try {
+    const result = await commitNoteEdit(noteId, userId, { title: updates.title, content: updates.content });
+    if (result.changed) {
+      await recordNoteEdit(noteId, userId, result, updates.title);
+    }
+
+    return { success: true, error: null };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+};
+
+// Mengatur folder, tag, pin dan warna note. Tidak dihitung sebagai suntingan,
+// jadi waktu diubah dan urutan note tidak berubah.
+export const updateNoteOrganization = async (noteId: string, changes: NoteOrganization) => {
+  try {
+    const updateData: { [field: string]: any } = {};
+    if (changes.folderId !== undefined) updateData.folderId = changes.folderId || null;
+    if (changes.tags !== undefined) updateData.tags = normalizeNoteTags(changes.tags);
+    if (changes.pinned !== undefined) updateData.pinned = changes.pinned;
+    if (changes.color !== undefined) updateData.color = changes.color || null;
+
+    if (Object.keys(updateData).length > 0) {
+      await updateDoc(doc(firestore, "notes", noteId), updateData);
+    }
+
+    return { success: true, error: null };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+};
+
+// `reminderAt` disalin dari pengingat agar pengingat aktif bisa di-query tanpa memuat semua note
+const reminderFields = (reminder: NoteReminder | null) => {
+  const toTimestamp = (date: Date | null | undefined) => (date ? Timestamp.fromDate(date) : null);
+  const fireTime = getReminderFireTime(reminder);
+
+  return {
+    reminder: reminder ? {
+      ...reminder,
+      startAt: Timestamp.fromDate(reminder.startAt),
+      dueAt: Timestamp.fromDate(reminder.dueAt),
+      snoozedUntil: toTimestamp(reminder.snoozedUntil),
+      doneAt: toTimestamp(reminder.doneAt),
+    } : null,
+    reminderAt: toTimestamp(fireTime),
+  };
+};
+
+// Memasang, mengubah atau menghapus (null) pengingat note. Penerima pengingat
+// note terbatas hanya boleh anggota yang bisa membuka note tersebut.
+export const updateNoteReminder = async (noteId: string, reminder: NoteReminder | null) => {
   try {
     const noteRef = doc(firestore, "notes", noteId);
-    const updateData = {
-      ...updates,
-      updatedAt: Timestamp.fromDate(new Date()),
-    };
-    
-    await updateDoc(noteRef, updateData);
+    const noteDoc = await getDoc(noteRef);
+    if (!noteDoc.exists()) {
+      return { success: false, error: "Note tidak ditemukan" };
+    }
+
+    const noteData = noteDoc.data();
+    let value = reminder;
+    if (reminder && isRestrictedNote(noteData)) {
+      const readers: string[] = noteData.readers || [];
+      value = { ...reminder, recipients: reminder.recipients.filter(userId => readers.includes(userId)) };
+    }
+
+    await updateDoc(noteRef, reminderFields(value));
+    return { success: true, error: null };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+};
+
+// Tunda dan selesai dijalankan dalam transaksi agar dua anggota yang menekan
+// tombol bersamaan tidak memajukan pengingat berulang dua kali
+const changeNoteReminder = async (noteId: string, change: (reminder: NoteReminder) => NoteReminder) => {
+  try {
+    const noteRef = doc(firestore, "notes", noteId);
+    await runTransaction(firestore, async (transaction) => {
+      const noteDoc = await transaction.get(noteRef);
+      const reminder = noteDoc.exists() ? toNoteReminder(noteDoc.data().reminder) : null;
+      if (!reminder) {
+        throw new Error("Pengingat tidak ditemukan");
+      }
+      transaction.update(noteRef, reminderFields(change(reminder)));
+    });
     return { success: true, error: null };
   } catch (error: any) {
     return { success: false, error: error.message };
   }
 };
 
-// Hapus note
-export const deleteNote = async (noteId: string) => {
+export const snoozeNoteReminder = (noteId: string, minutes: number, now: Date = new Date()) =>
+  changeNoteReminder(noteId, reminder => snoozeReminder(reminder, now, minutes));
+
+export const completeNoteReminder = (noteId: string, now: Date = new Date()) =>
+  changeNoteReminder(noteId, reminder => completeReminder(reminder, now));
+
+// Mengubah siapa yang bisa melihat note. Hanya pembuat note yang boleh mengubahnya,
+// dan anggota yang dipilih harus masih menjadi anggota rumah.
+export const updateNoteVisibility = async (
+  noteId: string,
+  userId: string,
+  visibility: NoteVisibility,
+  sharedWith: string[] = []
+) => {
   try {
     const noteRef = doc(firestore, "notes", noteId);
+    const noteDoc = await getDoc(noteRef);
+    if (!noteDoc.exists()) {
+      return { success: false, error: "Note tidak ditemukan" };
+    }
+
+    const noteData = noteDoc.data();
+    if (noteData.createdBy !== userId) {
+      return { success: false, error: "Hanya pembuat note yang dapat mengatur siapa yang bisa melihatnya" };
+    }
+
+    const { home, error } = await getHomeById(noteData.homeId);
+    if (error || !home) {
+      return { success: false, error: error || "Rumah tidak ditemukan" };
+    }
+
+    const members = sharedWith.filter(memberId => home.members.includes(memberId));
+    if (visibility === 'members' && members.filter(memberId => memberId !== userId).length === 0) {
+      return { success: false, error: "Pilih minimal satu anggota untuk berbagi note ini" };
+    }
+
+    await updateDoc(noteRef, {
+      visibility,
+      readers: buildNoteReaders(visibility, userId, members),
+    });
+
+    return { success: true, error: null };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+};
+
+// Mengirim operasi dari editor kolaboratif. `conflict` berarti ada operasi lain yang
+// tersimpan lebih dulu; editor perlu mentransformasi operasinya lalu mengirim ulang.
+export const submitNoteOperation = async (
+  noteId: string,
+  baseVersion: number,
+  operation: PendingNoteOperation,
+  userId: string
+) => {
+  try {
+    if (!isValidOperation(operation.ops)) {
+      return { version: null, conflict: false, error: "Operasi tidak valid" };
+    }
+
+    const result = await commitNoteEdit(noteId, userId, { operation: { ...operation, baseVersion } });
+    if (result.conflict) {
+      return { version: null, conflict: true, error: null };
+    }
+    if (result.changed) {
+      await recordNoteEdit(noteId, userId, result);
+    }
+
+    return { version: result.version, conflict: false, error: null };
+  } catch (error: any) {
+    return { version: null, conflict: false, error: error.message };
+  }
+};
+
+// Hapus note (pembuat note, admin, atau pemilik rumah)
+export const deleteNote = async (noteId: string, userId: string) => {
+  try {
+    const noteRef = doc(firestore, "notes", noteId);
+    const noteDoc = await getDoc(noteRef);
+    if (!noteDoc.exists()) {
+      return { success: false, error: "Note tidak ditemukan" };
+    }
+
+    const noteData = noteDoc.data();
+    const { home, error } = await getHomeById(noteData.homeId);
+    if (error || !home) {
+      return { success: false, error: error || "Rumah tidak ditemukan" };
+    }
+
+    if (!canDeleteContent(home, userId, noteData.createdBy, 'deleteNotes')) {
+      return { success: false, error: "Anda tidak memiliki izin untuk menghapus note ini" };
+    }
+
+    await deleteNoteAttachments(noteId);
+    await deleteNoteHistory(noteId);
     await deleteDoc(noteRef);
+
+    if (isRestrictedNote(noteData)) {
+      return { success: true, error: null };
+    }
+
+    await logActivity({
+      homeId: noteData.homeId,
+      actorId: userId,
+      type: 'note_deleted',
+      targetId: noteId,
+      targetName: noteData.title
+    });
+
     return { success: true, error: null };
   } catch (error: any) {
     return { success: false, error: error.message };
   }
 };
 
-// Real-time listener untuk notes
-export const subscribeToHomeNotes = (homeId: string, callback: (notes: Note[]) => void) => {
-  const notesRef = collection(firestore, "notes");
-  const q = query(
-    notesRef, 
-    where("homeId", "==", homeId),
-    orderBy("updatedAt", "desc")
-  );
+// Riwayat revisi sebuah note, terbaru lebih dulu
+export const getNoteRevisions = async (noteId: string) => {
+  try {
+    const snapshot = await getDocs(query(revisionsRef(noteId), orderBy("createdAt", "desc")));
+    return { revisions: snapshot.docs.map(revisionDoc => toNoteRevision(revisionDoc.data())), error: null };
+  } catch (error: any) {
+    return { revisions: [] as NoteRevision[], error: error.message };
+  }
+};
+
+// Memulihkan note ke sebuah revisi. Versi saat ini disimpan dulu sebagai revisi
+// sehingga pemulihan juga bisa dibatalkan dari riwayat.
+export const restoreNoteRevision = async (noteId: string, revisionId: string, userId: string) => {
+  try {
+    const revisionDoc = await getDoc(doc(revisionsRef(noteId), revisionId));
+    if (!revisionDoc.exists()) {
+      return { success: false, error: "Revisi tidak ditemukan" };
+    }
+
+    const revision = toNoteRevision(revisionDoc.data());
+    const result = await commitNoteEdit(noteId, userId, {
+      title: revision.title,
+      content: revision.content,
+      revisionReason: 'restore'
+    });
+
+    await pruneNoteRevisions(noteId);
+
+    if (isRestrictedNote(result.previous)) {
+      return { success: true, error: null };
+    }
+
+    await logActivity({
+      homeId: result.previous.homeId,
+      actorId: userId,
+      type: 'note_restored',
+      targetId: noteId,
+      targetName: revision.title,
+      details: { revisionSavedAt: revision.savedAt.toISOString() }
+    });
+
+    return { success: true, error: null };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+};
+
+// Real-time listener untuk notes yang boleh dibaca user, diurutkan sesuai pilihan urutan di daftar
+export const subscribeToHomeNotes = (
+  homeId: string,
+  userId: string,
+  callback: (notes: Note[]) => void,
+  order: NoteSortOrder = 'updated'
+) => {
+  const [field, direction] = NOTE_SORT_FIELDS[order];
+  const q = visibleNotesQuery(homeId, userId, [], orderBy(field, direction));
   
   return onSnapshot(q, (querySnapshot) => {
     const notes: Note[] = [];
     querySnapshot.forEach((doc) => {
-      const data = doc.data();
-      notes.push({
-        ...data,
-        createdAt: data.createdAt.toDate(),
-        updatedAt: data.updatedAt.toDate(),
-      } as Note);
+      notes.push(toNote(doc.data()));
     });
     callback(notes);
   });
 };
 
+// Note dengan pengingat aktif yang bisa dibuka user, dari yang paling dulu berbunyi
+export const subscribeToNoteReminders = (
+  homeId: string,
+  userId: string,
+  callback: (notes: Note[]) => void
+) => {
+  const q = visibleNotesQuery(
+    homeId,
+    userId,
+    [where("reminderAt", ">=", Timestamp.fromMillis(0))],
+    orderBy("reminderAt", "asc")
+  );
+
+  return onSnapshot(q, (querySnapshot) => {
+    callback(querySnapshot.docs.map(noteDoc => toNote(noteDoc.data())));
+  }, (error) => {
+    console.error("Error subscribing to note reminders:", error);
+    callback([]);
+  });
+};
+
 // Real-time listener untuk single note (untuk collaborative editing)
 export const subscribeToNote = (noteId: string, callback: (note: Note | null) => void) => {
   const noteRef = doc(firestore, "notes", noteId);
   
+  // Akses hilang (note dijadikan privat oleh pembuatnya) diperlakukan seperti note dihapus
   return onSnapshot(noteRef, (doc) => {
     if (doc.exists()) {
-      const data = doc.data();
-      const note: Note = {
-        ...data,
-        createdAt: data.createdAt.toDate(),
-        updatedAt: data.updatedAt.toDate(),
-      } as Note;
-      callback(note);
+      callback(toNote(doc.data()));
     } else {
       callback(null);
     }
-  });
+  }, () => callback(null));
+};
+
+// Real-time listener untuk operasi edit setelah versi tertentu, berurutan per versi
+export const subscribeToNoteOperations = (
+  noteId: string,
+  afterVersion: number,
+  callback: (operations: NoteOperation[]) => void,
+  onError?: (error: Error) => void
+) => {
+  const q = query(operationsRef(noteId), where("version", ">", afterVersion), orderBy("version"));
+
+  return onSnapshot(q, (snapshot) => {
+    const operations = snapshot.docChanges()
+      .filter(change => change.type === 'added')
+      .map(change => toNoteOperation(change.doc.data()));
+    if (operations.length > 0) {
+      callback(operations);
+    }
+  }, (error) => onError?.(error));
 };
@@ -0,0 +1,237 @@
+import {
+  doc,
+  getDoc,
+  setDoc,
+  updateDoc,
+  onSnapshot,
+  writeBatch,
+  arrayRemove,
+  serverTimestamp,
+  Timestamp
+} from "firebase/firestore";
+import { firestore } from "./config";
+import { OwnershipClaim } from "../../types/user";
+import { getHomeById } from "./home";
+import { getUserDisplayName } from "./user";
+import { getMemberLastLogin } from "./homeMembers";
+import { logActivity } from "./activity";
+import { getMemberRole, hasHomePermission } from "../../utils/homePermissions";
+import { canCompleteClaim, isClaimContested, isOwnerInactive } from "../../utils/ownership";
+
+/**
+ * Penerus pilihan pemilik dan klaim kepemilikan rumah.
+ * Satu rumah hanya punya satu dokumen klaim (`ownershipClaims/{homeId}`),
+ * yang dipakai ulang setiap kali klaim baru diajukan.
+ */
+
+const toDate = (value: any): Date | null => {
+  if (!value) return null;
+  return typeof value.toDate === 'function' ? value.toDate() : new Date(value);
+};
+
+const toOwnershipClaim = (data: any): OwnershipClaim => ({
+  ...data,
+  // serverTimestamp masih null pada snapshot lokal sebelum tersimpan
+  createdAt: toDate(data.createdAt) || new Date(),
+  decidedAt: toDate(data.decidedAt) || undefined,
+} as OwnershipClaim);
+
+const claimRef = (homeId: string) => doc(firestore, "ownershipClaims", homeId);
+
+const getOwnershipClaim = async (homeId: string) => {
+  const claimDoc = await getDoc(claimRef(homeId));
+  return claimDoc.exists() ? toOwnershipClaim(claimDoc.data()) : null;
+};
+
+// Waktu login terakhir pemilik, dasar penentuan pemilik tidak aktif. Dibaca dari profil
+// anggotanya di rumah ini karena dokumen `users` hanya bisa dibaca pemiliknya sendiri.
+export const getOwnerLastLogin = (homeId: string, ownerId: string) => getMemberLastLogin(homeId, ownerId);
+
+// Real-time listener untuk klaim kepemilikan sebuah rumah
+export const subscribeToOwnershipClaim = (homeId: string, callback: (claim: OwnershipClaim | null) => void) => {
+  return onSnapshot(claimRef(homeId), (claimDoc) => {
+    callback(claimDoc.exists() ? toOwnershipClaim(claimDoc.data()) : null);
+  }, () => callback(null));
+};
+
+// Menyimpan urutan penerus pilihan pemilik (hanya admin/anggota)
+export const setHomeSuccessors = async (ownerId: string, homeId: string, successors: string[]) => {
+  try {
+    const { home, error } = await getHomeById(homeId);
+    if (error || !home) {
+      return { success: false, error: error || "Rumah tidak ditemukan" };
+    }
+
+    if (!hasHomePermission(home, ownerId, 'manageSuccession')) {
+      return { success: false, error: "Hanya pemilik rumah yang dapat mengatur penerus" };
+    }
+
+    const invalid = successors.find(userId => {
+      const role = getMemberRole(home, userId);
+      return !home.members.includes(userId) || (role !== 'admin' && role !== 'member');
+    });
+    if (invalid) {
+      return { success: false, error: "Penerus harus admin atau anggota rumah" };
+    }
+
+    const unique = successors.filter((userId, index) => successors.indexOf(userId) === index);
+    await updateDoc(doc(firestore, "homes", homeId), { successors: unique });
+
+    await logActivity({
+      homeId,
+      actorId: ownerId,
+      type: 'home_settings_updated',
+      details: { successors: unique.length }
+    });
+
+    return { success: true, error: null };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+};
+
+// Mengajukan klaim kepemilikan saat pemilik tidak aktif
+export const requestOwnershipClaim = async (claimantId: string, homeId: string) => {
+  try {
+    const { home, error } = await getHomeById(homeId);
+    if (error || !home) {
+      return { success: false, error: error || "Rumah tidak ditemukan" };
+    }
+
+    const role = getMemberRole(home, claimantId);
+    if (role !== 'admin' && role !== 'member') {
+      return { success: false, error: "Hanya admin atau anggota yang dapat mengajukan klaim kepemilikan" };
+    }
+
+    const { lastLogin } = await getOwnerLastLogin(homeId, home.createdBy);
+    if (!isOwnerInactive(lastLogin)) {
+      return { success: false, error: "Pemilik rumah masih aktif" };
+    }
+
+    const existing = await getOwnershipClaim(homeId);
+    if (existing?.status === 'pending' && !isClaimContested(existing, lastLogin)) {
+      return { success: false, error: "Sudah ada klaim kepemilikan yang menunggu" };
+    }
+
+    await setDoc(claimRef(homeId), {
+      homeId,
+      claimantId,
+      ownerId: home.createdBy,
+      status: 'pending',
+      createdAt: serverTimestamp()
+    });
+
+    await logActivity({
+      homeId,
+      actorId: claimantId,
+      type: 'ownership_claim_requested',
+      targetId: home.createdBy,
+      targetName: await getUserDisplayName(home.createdBy)
+    });
+
+    return { success: true, error: null };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+};
+
+const decideClaim = async (actorId: string, homeId: string, status: 'rejected' | 'cancelled') => {
+  await updateDoc(claimRef(homeId), {
+    status,
+    decidedAt: Timestamp.fromDate(new Date()),
+    decidedBy: actorId
+  });
+};
+
+// Pemilik menolak klaim kepemilikan
+export const rejectOwnershipClaim = async (ownerId: string, homeId: string) => {
+  try {
+    const claim = await getOwnershipClaim(homeId);
+    if (!claim || claim.status !== 'pending') {
+      return { success: false, error: "Tidak ada klaim yang menunggu" };
+    }
+
+    if (claim.ownerId !== ownerId) {
+      return { success: false, error: "Hanya pemilik rumah yang dapat menolak klaim" };
+    }
+
+    await decideClaim(ownerId, homeId, 'rejected');
+    await logActivity({
+      homeId,
+      actorId: ownerId,
+      type: 'ownership_claim_rejected',
+      targetId: claim.claimantId,
+      targetName: await getUserDisplayName(claim.claimantId)
+    });
+
+    return { success: true, error: null };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+};
+
+// Pengaju membatalkan klaimnya sendiri
+export const cancelOwnershipClaim = async (claimantId: string, homeId: string) => {
+  try {
+    const claim = await getOwnershipClaim(homeId);
+    if (!claim || claim.status !== 'pending' || claim.claimantId !== claimantId) {
+      return { success: false, error: "Tidak ada klaim Anda yang menunggu" };
+    }
+
+    await decideClaim(claimantId, homeId, 'cancelled');
+    return { success: true, error: null };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+};
+
+// Mengambil alih kepemilikan setelah masa tunggu habis dan pemilik tetap tidak aktif
+export const completeOwnershipClaim = async (claimantId: string, homeId: string) => {
+  try {
+    const { home, error } = await getHomeById(homeId);
+    if (error || !home) {
+      return { success: false, error: error || "Rumah tidak ditemukan" };
+    }
+
+    const claim = await getOwnershipClaim(homeId);
+    if (!claim || claim.claimantId !== claimantId || claim.ownerId !== home.createdBy) {
+      return { success: false, error: "Klaim kepemilikan tidak ditemukan" };
+    }
+
+    const { lastLogin } = await getOwnerLastLogin(homeId, home.createdBy);
+    if (isClaimContested(claim, lastLogin)) {
+      return { success: false, error: "Pemilik rumah sudah aktif kembali, klaim tidak dapat dilanjutkan" };
+    }
+
+    if (!canCompleteClaim(claim, lastLogin)) {
+      return { success: false, error: "Masa tunggu klaim belum selesai" };
+    }
+
+    const previousOwnerId = home.createdBy;
+    const batch = writeBatch(firestore);
+    batch.update(doc(firestore, "homes", homeId), {
+      createdBy: claimantId,
+      [`roles.${claimantId}`]: 'owner',
+      [`roles.${previousOwnerId}`]: 'admin',
+      successors: arrayRemove(claimantId)
+    });
+    batch.update(claimRef(homeId), {
+      status: 'completed',
+      decidedAt: Timestamp.fromDate(new Date()),
+      decidedBy: claimantId
+    });
+    await batch.commit();
+
+    await logActivity({
+      homeId,
+      actorId: claimantId,
+      type: 'ownership_claimed',
+      targetId: previousOwnerId,
+      targetName: await getUserDisplayName(previousOwnerId)
+    });
+
+    return { success: true, error: null };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+};
@@ -16,32 +16,39 @@ import {
 import { firestore } from "./config";
 import { v4 as uuidv4 } from 'uuid';
 import { Pet, PetInteraction, PetMood, PetType, PetInteractionType } from "../../types/pet";
+import { ImportedMetadata } from "../../types/archive";
 import { GoogleGenerativeAI } from "@google/generative-ai";
+import { getHomeById } from "./home";
+import { canDeleteContent } from "../../utils/homePermissions";
+import { logActivity } from "./activity";
+import { incrementHomeStat } from "./homeStats";
 
-// Create new pet
+// Create new pet. `imported` membawa kondisi pet dari arsip ekspor
 export const createPet = async (
   homeId: string, 
   userId: string, 
   name: string, 
   type: PetType, 
   personality: string,
-  imageUrl?: string
+  imageUrl?: string,
+  imported?: ImportedMetadata & Partial<Pick<Pet, 'mood' | 'energy' | 'lastInteraction' | 'lastFed' | 'lastCleaned'>>
 ) => {
   try {
+    const createdAt = imported?.createdAt || new Date();
     const petData: Pet = {
       id: uuidv4(),
       homeId,
       name,
       type,
       personality,
-      mood: 'content',
-      energy: 100,
-      lastInteraction: new Date(),
-      lastFed: new Date(),
-      lastCleaned: new Date(),
+      mood: imported?.mood || 'content',
+      energy: imported?.energy ?? 100,
+      lastInteraction: imported?.lastInteraction || createdAt,
+      lastFed: imported?.lastFed || createdAt,
+      lastCleaned: imported?.lastCleaned || createdAt,
       createdBy: userId,
-      createdAt: new Date(),
-      updatedAt: new Date(),
+      createdAt,
+      updatedAt: imported?.updatedAt || createdAt,
       imageUrl
     };    // Prepare data for Firestore with proper handling of undefined values
     let firestoreData: any = {
@@ -57,10 +64,27 @@ export const createPet = async (
     if (firestoreData.imageUrl === undefined) {
       delete firestoreData.imageUrl;
     }
+    if (imported) {
+      firestoreData.importedBy = imported.importedBy;
+    }
 
     const petRef = doc(firestore, "pets", petData.id);
     await setDoc(petRef, firestoreData);
 
+    // Impor dicatat sekali untuk seluruh arsip, bukan per pet
+    if (imported) {
+      return { pet: petData, error: null };
+    }
+
+    await logActivity({
+      homeId,
+      actorId: userId,
+      type: 'pet_created',
+      targetId: petData.id,
+      targetName: name,
+      details: { petType: type }
+    });
+
     return { pet: petData, error: null };
   } catch (error: any) {
     return { pet: null, error: error.message };
@@ -151,19 +175,41 @@ export const updatePet = async (petId: string, updates: Partial<Pet>) => {
   }
 };
 
-// Delete pet
-export const deletePet = async (petId: string) => {
+// Delete pet (creator, admin, or home owner)
+export const deletePet = async (petId: string, userId: string) => {
   try {
-    const petRef = doc(firestore, "pets", petId);
-    await deleteDoc(petRef);
-    
-    // Also delete all interactions for this pet
+    const { pet, error } = await getPetById(petId);
+    if (error || !pet) {
+      return { success: false, error: error || "Pet tidak ditemukan" };
+    }
+
+    const { home, error: homeError } = await getHomeById(pet.homeId);
+    if (homeError || !home) {
+      return { success: false, error: homeError || "Rumah tidak ditemukan" };
+    }
+
+    if (!canDeleteContent(home, userId, pet.createdBy, 'deletePets')) {
+      return { success: false, error: "Anda tidak memiliki izin untuk menghapus peliharaan ini" };
+    }
+
+    // Delete all interactions first, security rules check them against the pet
     const interactionsRef = collection(firestore, "petInteractions");
     const q = query(interactionsRef, where("petId", "==", petId));
     const querySnapshot = await getDocs(q);
     
     const deletePromises = querySnapshot.docs.map(doc => deleteDoc(doc.ref));
     await Promise.all(deletePromises);
+
+    const petRef = doc(firestore, "pets", petId);
+    await deleteDoc(petRef);
+
+    await logActivity({
+      homeId: pet.homeId,
+      actorId: userId,
+      type: 'pet_deleted',
+      targetId: petId,
+      targetName: pet.name
+    });
     
     return { success: true, error: null };
   } catch (error: any) {
@@ -197,6 +243,57 @@ export const subscribeToHomePets = (homeId: string, callback: (pets: Pet[]) => v
   });
 };
 
+// Menyimpan catatan interaksi tanpa mengubah kondisi pet (dipakai juga oleh impor arsip)
+export const createPetInteraction = async (
+  petId: string,
+  userId: string,
+  interactionType: PetInteractionType,
+  message?: string,
+  response?: string,
+  imported?: ImportedMetadata
+) => {
+  const interactionId = uuidv4();
+  const timestamp = imported?.createdAt || new Date();
+
+  // Create interaction record with only required fields
+  const interactionData: PetInteraction = {
+    id: interactionId,
+    petId,
+    userId,
+    type: interactionType,
+    timestamp
+  };
+  
+  // Create the Firestore data object
+  const firestoreData: any = {
+    id: interactionId,
+    petId,
+    userId,
+    type: interactionType,
+    timestamp: Timestamp.fromDate(timestamp)
+  };
+  
+  // Only add optional properties if they are defined and not empty
+  if (message && message.trim() !== '') {
+    interactionData.message = message;
+    firestoreData.message = message;
+  }
+  
+  if (response) {
+    interactionData.response = response;
+    firestoreData.response = response;
+  }
+
+  if (imported) {
+    firestoreData.importedBy = imported.importedBy;
+  }
+  
+  const interactionRef = doc(firestore, "petInteractions", interactionId);
+  await setDoc(interactionRef, firestoreData);
+
+  return interactionData;
+};
+
 // Interact with pet
 export const interactWithPet = async (
   petId: string, 
@@ -205,10 +302,6 @@ export const interactWithPet = async (
   message?: string
 ) => {
   try {
-    // Create the interaction record
-    const interactionId = uuidv4();
-    const timestamp = new Date();
-    
     // Get the pet to update its state
     const { pet, error } = await getPetById(petId);
     if (error || !pet) {
@@ -235,37 +328,9 @@ export const interactWithPet = async (
       const options = fallbackResponses[interactionType];
       response = options[Math.floor(Math.random() * options.length)];
     }
-    // Create interaction record with only required fields
-    const interactionData: PetInteraction = {
-      id: interactionId,
-      petId,
-      userId,
-      type: interactionType,
-      timestamp
-    };
-    
-    // Create the Firestore data object
-    const firestoreData: any = {
-      id: interactionId,
-      petId,
-      userId,
-      type: interactionType,
-      timestamp: Timestamp.fromDate(timestamp)
-    };
-    
-    // Only add optional properties if they are defined and not empty
-    if (message && message.trim() !== '') {
-      interactionData.message = message;
-      firestoreData.message = message;
-    }
-    
-    if (response) {
-      interactionData.response = response;
-      firestoreData.response = response;
-    }
-    
-    const interactionRef = doc(firestore, "petInteractions", interactionId);
-    await setDoc(interactionRef, firestoreData);
+    // Create the interaction record
+    const interactionData = await createPetInteraction(petId, userId, interactionType, message, response);
+    const timestamp = interactionData.timestamp;
     
     // Update pet state based on interaction
     const updates: Partial<Pet> = {
@@ -300,6 +365,16 @@ export const interactWithPet = async (
     }
     
     await updatePet(petId, updates);
+    await incrementHomeStat(pet.homeId, userId, 'petInteractions', timestamp);
+
+    await logActivity({
+      homeId: pet.homeId,
+      actorId: userId,
+      type: 'pet_interaction',
+      targetId: petId,
+      targetName: pet.name,
+      details: { interactionType }
+    });
     
     return { 
       success: true, 
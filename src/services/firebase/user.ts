@@ -78,6 +78,12 @@ export const updateUserProfile = async (userId: string, profileData: Partial<Use
   }
 };
 
+// Nama tampilan user (untuk salinan nama di aktivitas)
+export const getUserDisplayName = async (userId: string) => {
+  const { profile } = await getUserProfile(userId);
+  return profile?.displayName || profile?.email || null;
+};
+
 // Get all member profiles for a specific home
 export const getHomeMemberProfiles = async (homeId: string) => {
   try {
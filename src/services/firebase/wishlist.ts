@@ -2,6 +2,7 @@ import {
   collection, 
   doc, 
   setDoc, 
+  getDoc,
   getDocs, 
   updateDoc, 
   deleteDoc, 
@@ -15,14 +16,21 @@ import {
 import { firestore } from "./config";
 import { v4 as uuidv4 } from 'uuid';
 import { WishlistItem } from "../../types/user";
+import { ImportedMetadata } from "../../types/archive";
+import { getHomeById } from "./home";
+import { canDeleteContent } from "../../utils/homePermissions";
+import { logActivity } from "./activity";
+import { incrementHomeStat } from "./homeStats";
 
-// Membuat wishlist item baru
+// Membuat wishlist item baru. `imported` membawa status selesai dan rating dari arsip ekspor
 export const createWishlistItem = async (
   homeId: string, 
   userId: string, 
   title: string, 
   description?: string, 
-  url?: string
+  url?: string,
+  category?: string,
+  imported?: ImportedMetadata & Partial<Pick<WishlistItem, 'completed' | 'completedBy' | 'completedAt' | 'rating' | 'ratingComment'>>
 ) => {
   try {
     const itemData: WishlistItem = {
@@ -31,10 +39,10 @@ export const createWishlistItem = async (
       title,
       description,
       url,
-      completed: false,
+      completed: !!imported?.completed,
       createdBy: userId,
-      createdAt: new Date(),
-      updatedAt: new Date(),
+      createdAt: imported?.createdAt || new Date(),
+      updatedAt: imported?.updatedAt || imported?.createdAt || new Date(),
     };
 
     // Prepare data for Firestore, excluding undefined values
@@ -55,10 +63,46 @@ export const createWishlistItem = async (
     if (url && url.trim()) {
       firestoreData.url = url.trim();
     }
+    if (category && category.trim()) {
+      itemData.category = firestoreData.category = category.trim();
+    }
+
+    if (imported) {
+      firestoreData.importedBy = imported.importedBy;
+      if (imported.completed && imported.completedBy) {
+        itemData.completedBy = firestoreData.completedBy = imported.completedBy;
+      }
+      if (imported.completed && imported.completedAt) {
+        itemData.completedAt = imported.completedAt;
+        firestoreData.completedAt = Timestamp.fromDate(imported.completedAt);
+      }
+      if (imported.rating) {
+        itemData.rating = firestoreData.rating = imported.rating;
+      }
+      if (imported.ratingComment) {
+        itemData.ratingComment = firestoreData.ratingComment = imported.ratingComment;
+      }
+    }
 
     const itemRef = doc(firestore, "wishlist", itemData.id);
     await setDoc(itemRef, firestoreData);
 
+    // Impor dicatat sekali untuk seluruh arsip, bukan per item
+    if (imported) {
+      if (itemData.completed && itemData.completedBy) {
+        await incrementHomeStat(homeId, itemData.completedBy, 'wishlistCompleted', itemData.completedAt || itemData.createdAt);
+      }
+      return { item: itemData, error: null };
+    }
+
+    await logActivity({
+      homeId,
+      actorId: userId,
+      type: 'wishlist_created',
+      targetId: itemData.id,
+      targetName: title
+    });
+
     return { item: itemData, error: null };
   } catch (error: any) {
     return { item: null, error: error.message };
@@ -151,29 +195,93 @@ export const updateWishlistItem = async (itemId: string, updates: Partial<Wishli
   }
 };
 
+// Catat aktivitas selesai/batal selesai setelah update berhasil
+const logCompletionActivity = async (
+  itemId: string,
+  userId: string,
+  type: 'wishlist_completed' | 'wishlist_uncompleted'
+) => {
+  const itemDoc = await getDoc(doc(firestore, "wishlist", itemId));
+  if (!itemDoc.exists()) return;
+
+  if (type === 'wishlist_completed') {
+    await incrementHomeStat(itemDoc.data().homeId, userId, 'wishlistCompleted');
+  }
+
+  await logActivity({
+    homeId: itemDoc.data().homeId,
+    actorId: userId,
+    type,
+    targetId: itemId,
+    targetName: itemDoc.data().title
+  });
+};
+
 // Tandai item sebagai completed
 export const completeWishlistItem = async (itemId: string, userId: string) => {
-  return updateWishlistItem(itemId, {
+  const result = await updateWishlistItem(itemId, {
     completed: true,
     completedBy: userId,
     completedAt: new Date(),
   });
+
+  if (result.success) {
+    await logCompletionActivity(itemId, userId, 'wishlist_completed');
+  }
+  return result;
 };
 
 // Tandai item sebagai uncompleted
-export const uncompleteWishlistItem = async (itemId: string) => {
-  return updateWishlistItem(itemId, {
+export const uncompleteWishlistItem = async (itemId: string, userId: string) => {
+  // Penyelesaian sebelumnya dikurangi dari statistik minggu saat item diselesaikan
+  const itemDoc = await getDoc(doc(firestore, "wishlist", itemId));
+  const previous = itemDoc.exists() ? itemDoc.data() : null;
+
+  const result = await updateWishlistItem(itemId, {
     completed: false,
     completedBy: undefined,
     completedAt: undefined,
   });
+
+  if (result.success) {
+    if (previous?.completed && previous.completedBy) {
+      const completedAt = previous.completedAt ? previous.completedAt.toDate() : new Date();
+      await incrementHomeStat(previous.homeId, previous.completedBy, 'wishlistCompleted', completedAt, -1);
+    }
+    await logCompletionActivity(itemId, userId, 'wishlist_uncompleted');
+  }
+  return result;
 };
 
-// Hapus wishlist item
-export const deleteWishlistItem = async (itemId: string) => {
+// Hapus wishlist item (pembuat item, admin, atau pemilik rumah)
+export const deleteWishlistItem = async (itemId: string, userId: string) => {
   try {
     const itemRef = doc(firestore, "wishlist", itemId);
+    const itemDoc = await getDoc(itemRef);
+    if (!itemDoc.exists()) {
+      return { success: false, error: "Item tidak ditemukan" };
+    }
+
+    const itemData = itemDoc.data();
+    const { home, error } = await getHomeById(itemData.homeId);
+    if (error || !home) {
+      return { success: false, error: error || "Rumah tidak ditemukan" };
+    }
+
+    if (!canDeleteContent(home, userId, itemData.createdBy, 'deleteWishlist')) {
+      return { success: false, error: "Anda tidak memiliki izin untuk menghapus item ini" };
+    }
+
     await deleteDoc(itemRef);
+
+    await logActivity({
+      homeId: itemData.homeId,
+      actorId: userId,
+      type: 'wishlist_deleted',
+      targetId: itemId,
+      targetName: itemData.title
+    });
+
     return { success: true, error: null };
   } catch (error: any) {
     return { success: false, error: error.message };
@@ -0,0 +1,93 @@
+import { NoteSearchEntry } from "../../types/search";
+
+/**
+ * Penyimpanan indeks pencarian note di IndexedDB, supaya rumah dengan ratusan
+ * note tidak perlu diindeks ulang setiap kali halaman Notes dibuka. Indeks
+ * hanya cache: jika IndexedDB tidak tersedia (mode privat), pencarian tetap
+ * berjalan dari indeks di memori.
+ */
+
+const DATABASE_NAME = "rumah-kita-search";
+const DATABASE_VERSION = 1;
+const STORE_NAME = "noteIndex";
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(new Error("IndexedDB tidak tersedia"));
+        return;
+      }
+
+      const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: "key" });
+        store.createIndex("homeId", "homeId");
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Percobaan berikutnya boleh membuka ulang jika kali ini gagal
+    databasePromise.catch(() => {
+      databasePromise = null;
+    });
+  }
+  return databasePromise;
+};
+
+const runTransaction = async (mode: IDBTransactionMode, run: (store: IDBObjectStore) => void) => {
+  const database = await openDatabase();
+  return new Promise<void>((resolve, reject) => {
+    const transaction = database.transaction(STORE_NAME, mode);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+    run(transaction.objectStore(STORE_NAME));
+  });
+};
+
+export const loadNoteSearchEntries = async (homeId: string) => {
+  try {
+    let entries: NoteSearchEntry[] = [];
+    await runTransaction("readonly", (store) => {
+      const request = store.index("homeId").getAll(homeId);
+      request.onsuccess = () => {
+        entries = request.result;
+      };
+    });
+    return { entries, error: null };
+  } catch (error: any) {
+    return { entries: [] as NoteSearchEntry[], error: error.message };
+  }
+};
+
+// Menyimpan entri yang berubah dan menghapus entri note yang sudah tidak ada
+export const saveNoteSearchEntries = async (entries: NoteSearchEntry[], removedKeys: string[] = []) => {
+  try {
+    if (entries.length === 0 && removedKeys.length === 0) {
+      return { success: true, error: null };
+    }
+
+    await runTransaction("readwrite", (store) => {
+      entries.forEach(entry => store.put(entry));
+      removedKeys.forEach(key => store.delete(key));
+    });
+    return { success: true, error: null };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+};
+
+// Dipanggil saat logout agar isi note tidak tertinggal di perangkat bersama
+export const clearNoteSearchIndex = async () => {
+  try {
+    await runTransaction("readwrite", (store) => {
+      store.clear();
+    });
+    return { success: true, error: null };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+};
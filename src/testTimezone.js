@@ -0,0 +1,5 @@
+// Tes dijalankan di zona waktu yang memakai waktu musim panas, agar perhitungan
+// pengingat berulang diuji melewati pergantian jam (Indonesia tidak memakainya)
+module.exports = async () => {
+  process.env.TZ = 'Europe/Berlin';
+};
@@ -0,0 +1,45 @@
+// Activity Types for the home activity feed and audit log
+export type ActivityType =
+  | 'note_created'
+  | 'note_updated'
+  | 'note_deleted'
+  | 'note_restored'
+  | 'wishlist_created'
+  | 'wishlist_completed'
+  | 'wishlist_uncompleted'
+  | 'wishlist_deleted'
+  | 'pet_created'
+  | 'pet_deleted'
+  | 'pet_interaction'
+  | 'member_joined'
+  | 'member_left'
+  | 'member_removed'
+  | 'member_role_changed'
+  | 'join_request_approved'
+  | 'join_request_declined'
+  | 'invite_created'
+  | 'invite_revoked'
+  | 'invite_code_regenerated'
+  | 'ownership_transferred'
+  | 'ownership_claim_requested'
+  | 'ownership_claim_rejected'
+  | 'ownership_claimed'
+  | 'home_settings_updated'
+  | 'home_deleted'
+  | 'home_restored'
+  | 'home_imported'
+  | 'home_merged';
+
+export type ActivityCategory = 'notes' | 'wishlist' | 'pets' | 'members' | 'settings';
+
+export interface Activity {
+  id: string;
+  homeId: string;
+  type: ActivityType;
+  actorId: string;
+  targetId: string | null; // ID note/item/pet/anggota yang terkait
+  targetName: string | null; // Salinan judul/nama saat aktivitas terjadi
+  details: { [key: string]: string | number | boolean | null };
+  audit: boolean; // Aksi administratif, hanya terlihat oleh owner/admin
+  createdAt: Date;
+}
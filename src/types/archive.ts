@@ -0,0 +1,86 @@
+// Home Archive Types for export/import
+export const HOME_ARCHIVE_FORMAT = 'rumah-kita-home-archive';
+export const HOME_ARCHIVE_VERSION = 1;
+
+// Timestamp Firestore disimpan sebagai { $date: ISO string } agar bisa dipulihkan tanpa ambigu
+export interface ArchiveDate {
+  $date: string;
+}
+
+export type ArchiveValue =
+  | string
+  | number
+  | boolean
+  | null
+  | ArchiveDate
+  | ArchiveValue[]
+  | { [key: string]: ArchiveValue };
+
+export type ArchiveDocument = { [key: string]: ArchiveValue };
+
+export interface ArchiveMember {
+  uid: string;
+  displayName: string | null;
+  email: string | null;
+  photoURL: string | null;
+  // Profil anggota di rumah ini (ada sejak profil anggota per rumah)
+  nickname?: string;
+  relationship?: string;
+  birthday?: string;
+  color?: string;
+  joinedAt?: string; // ISO
+}
+
+export type ArchiveCollection = 'notes' | 'wishlist' | 'messages' | 'pets' | 'petInteractions';
+
+export interface HomeArchive {
+  format: typeof HOME_ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string;
+  exportedBy: string;
+  home: ArchiveDocument;
+  members: ArchiveMember[];
+  notes: ArchiveDocument[];
+  wishlist: ArchiveDocument[];
+  messages: ArchiveDocument[];
+  pets: ArchiveDocument[];
+  petInteractions: ArchiveDocument[];
+}
+
+export interface HomeExportProgress {
+  collection: ArchiveCollection | 'home' | 'members';
+  count: number; // Jumlah dokumen yang sudah diambil dari koleksi ini
+}
+
+// Data asli dari arsip saat konten dibuat ulang lewat impor
+export interface ImportedMetadata {
+  importedBy: string; // User yang menjalankan impor (bisa berbeda dari penulis)
+  createdAt: Date;
+  updatedAt?: Date;
+}
+
+export type HomeImportTarget =
+  | { mode: 'new'; homeName: string }
+  | { mode: 'merge'; homeId: string };
+
+// ID penulis di arsip -> ID anggota rumah tujuan
+export type ArchiveAuthorMapping = { [archiveUserId: string]: string };
+
+export interface ArchiveAuthor {
+  archiveUserId: string;
+  name: string;
+  email: string | null;
+  contentCount: number;
+}
+
+export interface HomeImportPreview {
+  counts: Record<ArchiveCollection, number>;
+  authors: ArchiveAuthor[];
+  warnings: string[];
+}
+
+export interface HomeImportProgress {
+  collection: ArchiveCollection;
+  done: number;
+  total: number;
+}
@@ -1,6 +1,12 @@
 // Export all types from this module
 export * from './user';
 export * from './pet';
+export * from './activity';
+export * from './archive';
+export * from './stats';
+export * from './template';
+export * from './markdown';
+export * from './search';
 
 // Define TabType for Navbar and Dashboard
 export type TabType = 'dashboard' | 'notes' | 'wishlist' | 'call' | 'pets' | 'chat';
@@ -0,0 +1,53 @@
+// Markdown Types untuk tampilan isi note
+
+// Elemen dalam satu baris teks
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'strong' | 'em' | 'del'; children: MarkdownInline[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; children: MarkdownInline[] }
+  | { type: 'attachment'; id: string; image: boolean; label: string } // ![..](attachment:id) atau [..](attachment:id)
+  | { type: 'noteLink'; title: string } // [[Judul note]]
+  | { type: 'break' };
+
+export type MarkdownTableAlign = 'left' | 'center' | 'right' | null;
+
+export interface MarkdownListItem {
+  children: MarkdownInline[];
+  checked: boolean | null; // null = bukan item checklist
+  line: number; // Indeks baris item pada isi note, untuk mencentang dari pratinjau
+  blocks: MarkdownBlock[]; // Sub-daftar atau paragraf lanjutan di bawah item
+}
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; children: MarkdownInline[] }
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'code'; language: string; text: string }
+  | { type: 'quote'; children: MarkdownBlock[] }
+  | { type: 'list'; ordered: boolean; start: number; items: MarkdownListItem[] }
+  | { type: 'table'; align: MarkdownTableAlign[]; header: MarkdownInline[][]; rows: MarkdownInline[][][] }
+  | { type: 'rule' };
+
+// Tombol toolbar format di editor note
+export type MarkdownFormat =
+  | 'heading'
+  | 'bold'
+  | 'italic'
+  | 'strike'
+  | 'link'
+  | 'code'
+  | 'bulletList'
+  | 'orderedList'
+  | 'checklist'
+  | 'quote'
+  | 'codeBlock'
+  | 'table';
+
+// Hasil suntingan dari toolbar: isi baru beserta seleksi yang dipulihkan di textarea
+export interface MarkdownEdit {
+  text: string;
+  selectionStart: number;
+  selectionEnd: number;
+}
+
+export type NoteViewMode = 'edit' | 'preview' | 'split';
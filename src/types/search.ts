@@ -0,0 +1,34 @@
+// Search Types untuk pencarian isi note
+
+// Rentang karakter [start, end) pada teks asli
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+// Indeks satu note yang disimpan di IndexedDB
+export interface NoteSearchEntry {
+  key: string; // `${homeId}/${noteId}`
+  homeId: string;
+  noteId: string;
+  format: number; // Versi tokenizer; entri format lama diindeks ulang
+  version: string; // Berubah setiap judul atau isi note berubah
+  titleTerms: string[];
+  terms: { [term: string]: number }; // Kata di judul dan isi beserta jumlah kemunculannya
+  length: number; // Jumlah kata
+}
+
+export type NoteSearchMatchKind = 'exact' | 'prefix' | 'fuzzy';
+
+export interface NoteSearchResult {
+  noteId: string;
+  score: number;
+  titleHighlights: TextRange[];
+  snippet: {
+    text: string;
+    highlights: TextRange[]; // Relatif terhadap `text`
+    leading: boolean; // Ada teks terpotong sebelum cuplikan
+    trailing: boolean;
+  } | null;
+  match: TextRange | null; // Posisi kecocokan pertama di isi note
+}
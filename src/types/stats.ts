@@ -0,0 +1,19 @@
+// Home Statistics Types for counters and dashboard charts
+export type HomeStatMetric = 'messages' | 'noteEdits' | 'wishlistCompleted' | 'petInteractions';
+
+export type HomeStatCounts = Record<HomeStatMetric, number>;
+
+// Satu dokumen per rumah per minggu, berisi penghitung tiap anggota
+export interface HomeWeeklyStats {
+  id: string; // `${homeId}_${weekKey}`
+  homeId: string;
+  weekStart: Date; // Senin 00:00 UTC
+  members: { [userId: string]: Partial<HomeStatCounts> };
+}
+
+export interface HomeStatistics {
+  notesCount: number;
+  wishlistCount: number;
+  completedWishlistCount: number;
+  messagesCount: number;
+}
@@ -0,0 +1,41 @@
+// Home Template Types untuk membuat rumah dengan isi awal
+import { PetType } from './pet';
+
+export interface HomeTemplateNote {
+  title: string;
+  content: string;
+}
+
+export interface HomeTemplateWishlistItem {
+  title: string;
+  description?: string;
+  category?: string;
+}
+
+export interface HomeTemplatePet {
+  name: string;
+  type: PetType;
+  personality: string;
+}
+
+export interface HomeTemplate {
+  id: string;
+  name: string;
+  description: string;
+  avatar?: string; // Emoji atau URL gambar avatar rumah
+  accentColor?: string;
+  notes: HomeTemplateNote[];
+  wishlistCategories: string[];
+  wishlist: HomeTemplateWishlistItem[];
+  pet?: HomeTemplatePet; // Peliharaan awal opsional
+  welcomeMessage?: string; // {homeName} diganti dengan nama rumah
+  builtIn: boolean;
+  // Template buatan user (koleksi homeTemplates)
+  createdBy?: string;
+  createdAt?: Date;
+  sourceHomeId?: string;
+}
+
+export interface HomeTemplateOptions {
+  includePet: boolean;
+}
@@ -9,14 +9,216 @@ export interface UserProfile {
   lastLogin: Date;
 }
 
+// Peran anggota di dalam rumah
+export type HomeRole = 'owner' | 'admin' | 'member' | 'guest';
+
+// Aksi yang dibatasi berdasarkan peran
+export type HomePermission =
+  | 'invite'
+  | 'removeMembers'
+  | 'approveMembers'
+  | 'deleteNotes'
+  | 'deleteWishlist'
+  | 'deletePets'
+  | 'manageSettings'
+  | 'manageRoles'
+  | 'viewAuditLog'
+  | 'exportHome'
+  | 'importHome'
+  | 'manageSuccession'
+  | 'mergeHomes'
+  | 'deleteHome';
+
 // Home Type
 export interface Home {
   id: string;
   name: string;
   createdBy: string;
   members: string[];
+  roles?: { [userId: string]: HomeRole }; // Rumah lama belum memiliki map peran
   inviteCode: string;
+  requireApproval?: boolean; // Bergabung harus disetujui admin
+  successors?: string[]; // Penerus pilihan pemilik, urut prioritas
+  deletedAt?: Date | null; // Dipindahkan ke tempat sampah (bisa dipulihkan selama masa retensi)
+  deletedBy?: string;
+  deletion?: HomeDeletionState; // Ada jika penghapusan permanen sedang berjalan/terhenti
+  description?: string;
+  avatar?: string; // Emoji atau URL gambar
+  coverUrl?: string;
+  accentColor?: string; // Hex, contoh #8b5cf6
+  timezone?: string; // Zona waktu IANA untuk pengelompokan tanggal di chat
+  wishlistCategories?: string[]; // Pilihan kategori untuk item wishlist
+  createdAt: Date;
+}
+
+// Hubungan anggota dengan rumah (label bebas pilih, hanya untuk tampilan)
+export type HomeRelationship =
+  | 'partner'
+  | 'spouse'
+  | 'parent'
+  | 'child'
+  | 'sibling'
+  | 'roommate'
+  | 'friend'
+  | 'other';
+
+// Klaim kepemilikan saat pemilik tidak aktif (koleksi `ownershipClaims`, ID = homeId)
+export type OwnershipClaimStatus = 'pending' | 'rejected' | 'cancelled' | 'completed';
+
+export interface OwnershipClaim {
+  homeId: string;
+  claimantId: string;
+  ownerId: string; // Pemilik saat klaim diajukan
+  status: OwnershipClaimStatus;
+  createdAt: Date;
+  decidedAt?: Date;
+  decidedBy?: string;
+}
+
+// Profil anggota khusus per rumah (koleksi `homeMembers`, ID `${homeId}_${userId}`)
+export interface HomeMemberProfile {
+  id: string;
+  homeId: string;
+  userId: string;
+  nickname?: string; // Contoh "Ayah", "Sayang"
+  relationship?: HomeRelationship;
+  birthday?: string; // YYYY-MM-DD
+  color?: string; // Hex, contoh #3b82f6
+  joinedAt?: Date; // Rumah lama tidak memiliki tanggal bergabung
+  lastLogin?: Date; // Salinan dari profil pengguna, yang hanya bisa dibaca pemiliknya
+  displayName?: string | null; // Salinan dari profil pengguna, untuk nama anggota yang dikeluarkan
+  updatedAt?: Date;
+  updatedBy?: string;
+}
+
+// Nasib konten (catatan, wishlist, peliharaan) anggota yang keluar atau dikeluarkan
+export type MemberContentHandover =
+  | { mode: 'reassign'; toUserId: string }
+  | { mode: 'anonymize' }
+  | { mode: 'delete' };
+
+export type MemberHandoverMode = MemberContentHandover['mode'];
+
+export interface MemberContentCounts {
+  notes: number;
+  wishlist: number;
+  pets: number;
+  messages: number;
+}
+
+// Bagian profil anggota yang bisa diubah
+export type HomeMemberProfileUpdate = Partial<Pick<HomeMemberProfile, 'nickname' | 'relationship' | 'birthday' | 'color'>>;
+
+// Profil global pengguna digabung dengan profilnya di rumah tertentu
+export interface HomeMember extends UserProfile {
+  homeProfile: HomeMemberProfile | null;
+}
+
+// Bagian rumah yang bisa diubah dari pengaturan profil
+export type HomeProfile = Pick<Home, 'name' | 'description' | 'avatar' | 'coverUrl' | 'accentColor' | 'timezone'>;
+
+// Tahapan penghapusan rumah secara bertahap (urutan penting: dokumen rumah terakhir)
+export type HomeDeletionStep =
+  | 'pets'
+  | 'notes'
+  | 'noteFolders'
+  | 'wishlist'
+  | 'messages'
+  | 'invites'
+  | 'inviteUsages'
+  | 'joinRequests'
+  | 'activity'
+  | 'homeStats'
+  | 'homeMembers'
+  | 'ownershipClaims'
+  | 'signaling'
+  | 'notePresence'
+  | 'home';
+
+export interface HomeDeletionState {
+  startedBy: string;
+  startedAt: Date;
+  step: HomeDeletionStep; // Tahap yang sedang/akan dikerjakan saat dilanjutkan
+  mergedInto?: string | null; // Rumah tujuan jika dihapus karena penggabungan
+}
+
+export interface HomeDeletionProgress {
+  step: HomeDeletionStep;
+  stepIndex: number;
+  totalSteps: number;
+  deletedCount: number; // Total dokumen yang sudah dihapus pada proses ini
+}
+
+// Penggabungan rumah duplikat: konten rumah sumber dipindahkan ke rumah tujuan
+export type HomeMergeCollection = 'notes' | 'noteFolders' | 'wishlist' | 'messages' | 'pets' | 'activity';
+
+// Nasib catatan/wishlist/peliharaan sumber yang namanya sudah ada di rumah tujuan
+export type HomeMergeConflictStrategy = 'rename' | 'keep' | 'skip';
+
+export interface HomeMergeConflict {
+  collection: 'notes' | 'wishlist' | 'pets';
+  id: string;
+  name: string;
+}
+
+export interface HomeMergePreview {
+  counts: Record<HomeMergeCollection, number>;
+  newMembers: string[]; // Anggota rumah sumber yang belum ada di rumah tujuan
+  conflicts: HomeMergeConflict[];
+}
+
+export interface HomeMergeProgress {
+  collection: HomeMergeCollection | 'cleanup';
+  done: number;
+  total: number;
+}
+
+// Undangan rumah (ID dokumen = kode undangan)
+export interface HomeInvite {
+  id: string; // Sama dengan kode undangan
+  homeId: string;
+  homeName: string;
+  role: Exclude<HomeRole, 'owner'>;
+  createdBy: string;
   createdAt: Date;
+  expiresAt: Date | null; // null = tidak pernah kedaluwarsa
+  maxUses: number | null; // null = tanpa batas
+  uses: number;
+  revoked: boolean;
+  revokedAt?: Date;
+  requireApproval?: boolean; // Salinan pengaturan rumah, karena non-anggota tidak bisa membaca rumah
+  homeCode?: boolean; // Kode undangan utama rumah (`Home.inviteCode`)
+}
+
+export type InviteStatus = 'active' | 'expired' | 'revoked' | 'exhausted';
+
+// Catatan penggunaan undangan (ID dokumen = homeId_userId)
+export interface InviteUsage {
+  id: string;
+  inviteId: string;
+  homeId: string;
+  userId: string;
+  role: Exclude<HomeRole, 'owner'>;
+  usedAt: Date;
+}
+
+export type JoinRequestStatus = 'pending' | 'approved' | 'declined';
+
+// Permintaan bergabung (ID dokumen = homeId_userId)
+export interface JoinRequest {
+  id: string;
+  homeId: string;
+  homeName: string;
+  userId: string;
+  displayName: string | null;
+  email: string | null;
+  photoURL: string | null;
+  role: Exclude<HomeRole, 'owner'>;
+  inviteId: string; // Undangan yang dipakai (termasuk kode rumah)
+  status: JoinRequestStatus;
+  createdAt: Date;
+  decidedAt?: Date;
+  decidedBy?: string;
 }
 
 // Note Type
@@ -28,6 +230,133 @@ export interface Note {
   createdBy: string;
   createdAt: Date;
   updatedAt: Date;
+  updatedBy?: string; // Penyunting terakhir
+  lastRevisionAt?: Date; // Waktu revisi terakhir disimpan
+  contentVersion?: number; // Jumlah operasi yang sudah diterapkan ke `content` (note lama: 0)
+  folderId?: string | null; // null/tidak ada = di luar folder
+  tags?: string[];
+  pinned?: boolean;
+  color?: string | null; // Hex, contoh #3b82f6; null = tanpa warna
+  editedAt?: { [userId: string]: Date }; // Suntingan terakhir per anggota, untuk sesi edit dan urutan "terakhir saya edit"
+  visibility?: NoteVisibility; // Note lama tanpa field ini = 'home'
+  readers?: string[]; // Anggota yang boleh membuka note 'private'/'members', termasuk pembuatnya
+  reminder?: NoteReminder | null;
+  reminderAt?: Date | null; // Waktu pengingat berikutnya berbunyi, untuk query; null = tidak ada/selesai
+}
+
+// Siapa yang bisa melihat note: semua anggota, hanya pembuat, atau anggota tertentu
+export type NoteVisibility = 'home' | 'private' | 'members';
+
+// Pengingat/tenggat sebuah note. Pengingat berulang dihitung dari `startAt` agar
+// tanggal bulanan (misalnya tanggal 31) tidak bergeser setelah bulan pendek.
+export interface NoteReminder {
+  startAt: Date; // Kemunculan pertama
+  dueAt: Date; // Kemunculan yang sedang berjalan
+  recurrence: NoteReminderRecurrence;
+  recipients: string[]; // Kosong = semua anggota yang bisa membuka note
+  snoozedUntil?: Date | null;
+  doneAt?: Date | null; // Pengingat sekali yang sudah ditandai selesai
+  createdBy: string;
+}
+
+export type NoteReminderRecurrence = 'none' | 'daily' | 'weekly' | 'monthly';
+
+// Bagian note yang diatur dari daftar/editor tanpa mengubah isinya
+export type NoteOrganization = Pick<Note, 'folderId' | 'tags' | 'pinned' | 'color'>;
+
+// Folder catatan (koleksi `noteFolders`), bisa bersarang lewat parentId
+export interface NoteFolder {
+  id: string;
+  homeId: string;
+  name: string;
+  parentId: string | null; // null = folder teratas
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type NoteSortOrder = 'updated' | 'title' | 'created' | 'editedByMe';
+
+// Komponen operasi teks: angka positif = lewati, negatif = hapus, string = sisipkan
+export type TextOperationComponent = number | string;
+export type TextOperation = TextOperationComponent[];
+
+// Operasi edit note, disimpan di subkoleksi notes/{noteId}/operations dengan ID = versi
+export interface NoteOperation {
+  id: string;
+  version: number; // Versi content setelah operasi ini diterapkan
+  ops: TextOperation;
+  authorId: string;
+  clientId: string; // Editor yang mengirim, untuk mengenali operasi sendiri
+  createdAt: Date;
+}
+
+// Operasi yang sedang dikirim editor dan belum mendapat versi
+export type PendingNoteOperation = Pick<NoteOperation, 'id' | 'ops' | 'clientId'>;
+
+export type NotePresenceState = 'viewing' | 'typing';
+
+// Kehadiran di editor note, disimpan di Realtime Database
+// notePresence/{homeId}/{noteId}/{userId}/{sessionId} (satu entri per tab)
+export interface NotePresence {
+  userId: string;
+  sessionId: string;
+  noteId: string;
+  state: NotePresenceState;
+  selectionStart: number | null; // Posisi kursor pada isi note; null jika editor tidak fokus
+  selectionEnd: number | null;
+  updatedAt: number;
+}
+
+export type NotePresenceUpdate = Partial<Pick<NotePresence, 'state' | 'selectionStart' | 'selectionEnd'>>;
+
+// Revisi note, disimpan di subkoleksi notes/{noteId}/revisions
+export interface NoteRevision {
+  id: string;
+  noteId: string;
+  title: string;
+  content: string;
+  authorId: string; // Penulis versi ini (penyunting terakhir sebelum revisi disimpan)
+  savedAt: Date; // Waktu versi ini terakhir disunting
+  reason: NoteRevisionReason;
+  createdBy: string; // User yang menyimpan revisi
+  createdAt: Date;
+}
+
+// session: penyunting baru memulai sesi, interval: sesi panjang, restore: sebelum dipulihkan
+export type NoteRevisionReason = 'session' | 'interval' | 'restore';
+
+// Lampiran note (notes/{noteId}/attachments). Berkas disimpan di Cloud Storage
+// dan dirujuk dari isi note sebagai `![nama](attachment:id)` atau `[nama](attachment:id)`.
+export interface NoteAttachment {
+  id: string;
+  noteId: string;
+  kind: NoteAttachmentKind;
+  name: string;
+  contentType: string;
+  size: number; // Byte, setelah kompresi untuk gambar
+  path: string; // Path di Cloud Storage
+  url: string;
+  thumbnailPath?: string | null;
+  thumbnailUrl?: string | null;
+  width?: number | null; // Ukuran gambar dalam piksel
+  height?: number | null;
+  uploadedBy: string;
+  uploadedAt: Date;
+}
+
+export type NoteAttachmentKind = 'image' | 'file';
+
+// Unggahan yang sedang berjalan di editor
+export interface NoteAttachmentUpload {
+  id: string;
+  name: string;
+  progress: number; // 0-1
+}
+
+export interface NoteDiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
 }
 
 // Wishlist Item Type
@@ -37,6 +366,7 @@ export interface WishlistItem {
   title: string;
   description?: string;
   url?: string;
+  category?: string; // Salah satu dari Home.wishlistCategories
   completed: boolean;
   completedBy?: string;
   completedAt?: Date;
@@ -53,6 +383,7 @@ export interface ChatMessage {
   homeId: string;
   text: string;
   senderId: string;
+  senderName?: string; // Salinan nama pengirim, diisi saat pengirim keluar dari rumah
   timestamp: Date;
   read: boolean;
   readAt?: Date;
@@ -0,0 +1,170 @@
+import { Activity, ActivityCategory, ActivityType } from '../types/activity';
+import { HOME_ROLE_LABELS } from './homePermissions';
+
+/**
+ * Kategori, label dan teks untuk feed aktivitas rumah.
+ * Dipakai oleh service activity (menentukan entri audit) dan timeline di Dashboard.
+ */
+
+export const ACTIVITY_CATEGORIES: Record<ActivityType, ActivityCategory> = {
+  note_created: 'notes',
+  note_updated: 'notes',
+  note_deleted: 'notes',
+  note_restored: 'notes',
+  wishlist_created: 'wishlist',
+  wishlist_completed: 'wishlist',
+  wishlist_uncompleted: 'wishlist',
+  wishlist_deleted: 'wishlist',
+  pet_created: 'pets',
+  pet_deleted: 'pets',
+  pet_interaction: 'pets',
+  member_joined: 'members',
+  member_left: 'members',
+  member_removed: 'members',
+  member_role_changed: 'members',
+  join_request_approved: 'members',
+  join_request_declined: 'members',
+  invite_created: 'settings',
+  invite_revoked: 'settings',
+  invite_code_regenerated: 'settings',
+  ownership_transferred: 'settings',
+  ownership_claim_requested: 'settings',
+  ownership_claim_rejected: 'settings',
+  ownership_claimed: 'settings',
+  home_settings_updated: 'settings',
+  home_deleted: 'settings',
+  home_restored: 'settings',
+  home_imported: 'settings',
+  home_merged: 'settings',
+};
+
+export const ACTIVITY_CATEGORY_LABELS: Record<ActivityCategory, string> = {
+  notes: 'Catatan',
+  wishlist: 'Wishlist',
+  pets: 'Peliharaan',
+  members: 'Anggota',
+  settings: 'Pengaturan',
+};
+
+// Aksi administratif yang masuk log audit (hanya terlihat oleh owner/admin)
+export const AUDIT_ACTIVITY_TYPES: ActivityType[] = [
+  'member_removed',
+  'member_role_changed',
+  'join_request_approved',
+  'join_request_declined',
+  'invite_created',
+  'invite_revoked',
+  'invite_code_regenerated',
+  'ownership_transferred',
+  'ownership_claim_requested',
+  'ownership_claim_rejected',
+  'ownership_claimed',
+  'home_settings_updated',
+  'home_deleted',
+  'home_restored',
+  'home_imported',
+  'home_merged',
+];
+
+export const isAuditActivity = (type: ActivityType): boolean => AUDIT_ACTIVITY_TYPES.includes(type);
+
+const PET_INTERACTION_LABELS: { [type: string]: string } = {
+  feed: 'memberi makan',
+  clean: 'membersihkan',
+  play: 'bermain dengan',
+  pet: 'membelai',
+  talk: 'mengobrol dengan',
+};
+
+const roleLabel = (role: unknown) => {
+  return typeof role === 'string' && role in HOME_ROLE_LABELS
+    ? HOME_ROLE_LABELS[role as keyof typeof HOME_ROLE_LABELS]
+    : String(role);
+};
+
+const HANDOVER_NOTES: { [mode: string]: string } = {
+  reassign: 'konten diserahkan ke anggota lain',
+  anonymize: 'konten disimpan sebagai mantan anggota',
+  delete: 'konten dihapus',
+};
+
+// Keterangan serah terima konten; hanya jika ada konten yang diproses
+const handoverNote = (activity: Activity) => {
+  const { handover, handedOver } = activity.details;
+  return typeof handover === 'string' && typeof handedOver === 'number' && handedOver > 0 && HANDOVER_NOTES[handover]
+    ? ` (${handedOver} ${HANDOVER_NOTES[handover]})`
+    : '';
+};
+
+// Kalimat aktivitas tanpa nama pelaku, contoh: "mengedit catatan "Belanja""
+export const describeActivity = (activity: Activity, targetLabel?: string): string => {
+  const target = targetLabel || activity.targetName || '';
+  const quoted = target ? ` "${target}"` : '';
+
+  switch (activity.type) {
+    case 'note_created':
+      return `membuat catatan${quoted}`;
+    case 'note_updated':
+      return `mengedit catatan${quoted}`;
+    case 'note_deleted':
+      return `menghapus catatan${quoted}`;
+    case 'note_restored':
+      return `memulihkan catatan${quoted} ke versi sebelumnya`;
+    case 'wishlist_created':
+      return `menambahkan wishlist${quoted}`;
+    case 'wishlist_completed':
+      return `menyelesaikan wishlist${quoted}`;
+    case 'wishlist_uncompleted':
+      return `membatalkan status selesai wishlist${quoted}`;
+    case 'wishlist_deleted':
+      return `menghapus wishlist${quoted}`;
+    case 'pet_created':
+      return `menambahkan peliharaan${quoted}`;
+    case 'pet_deleted':
+      return `menghapus peliharaan${quoted}`;
+    case 'pet_interaction':
+      return `${PET_INTERACTION_LABELS[String(activity.details.interactionType)] || 'berinteraksi dengan'} ${target}`.trim();
+    case 'member_joined':
+      return 'bergabung ke rumah';
+    case 'member_left':
+      return `keluar dari rumah${handoverNote(activity)}`;
+    case 'member_removed':
+      return `mengeluarkan ${target || 'anggota'} dari rumah${handoverNote(activity)}`;
+    case 'member_role_changed':
+      return `mengubah peran ${target || 'anggota'} menjadi ${roleLabel(activity.details.role)}`;
+    case 'join_request_approved':
+      return `menyetujui permintaan bergabung ${target}`.trim();
+    case 'join_request_declined':
+      return `menolak permintaan bergabung ${target}`.trim();
+    case 'invite_created':
+      return `membuat link undangan sebagai ${roleLabel(activity.details.role)}`;
+    case 'invite_revoked':
+      return `membatalkan link undangan${quoted}`;
+    case 'invite_code_regenerated':
+      return 'membuat kode undangan baru';
+    case 'ownership_transferred':
+      return activity.details.reason === 'succession'
+        ? `digantikan sebagai pemilik rumah oleh ${target || 'penerus'}`
+        : `menyerahkan kepemilikan rumah kepada ${target || 'anggota lain'}`;
+    case 'ownership_claim_requested':
+      return 'mengajukan klaim kepemilikan rumah';
+    case 'ownership_claim_rejected':
+      return `menolak klaim kepemilikan ${target}`.trim();
+    case 'ownership_claimed':
+      return 'mengambil alih kepemilikan rumah';
+    case 'home_settings_updated':
+      if ('successors' in activity.details) return 'mengatur penerus pemilik rumah';
+      if ('wishlistCategories' in activity.details) return 'mengubah kategori wishlist';
+      return activity.targetName
+        ? `mengubah nama rumah menjadi "${activity.targetName}"`
+        : 'mengubah pengaturan rumah';
+    case 'home_deleted':
+      return 'menghapus rumah';
+    case 'home_restored':
+      return 'memulihkan rumah';
+    case 'home_imported':
+      return `mengimpor arsip${quoted}`;
+    case 'home_merged':
+      return `menggabungkan rumah${quoted} ke rumah ini`;
+  }
+};
@@ -0,0 +1,413 @@
+import {
+  ArchiveAuthor,
+  ArchiveAuthorMapping,
+  ArchiveCollection,
+  ArchiveDocument,
+  ArchiveValue,
+  HomeArchive,
+  HomeImportPreview,
+  HOME_ARCHIVE_FORMAT,
+  HOME_ARCHIVE_VERSION
+} from '../types/archive';
+import { readZip, ZipEntry } from './zip';
+import { HOME_ROLE_LABELS } from './homePermissions';
+import { HomeRelationship, HomeRole } from '../types/user';
+import { HOME_RELATIONSHIP_LABELS } from './memberProfile';
+
+/**
+ * Menyusun isi file arsip ekspor (home.json untuk dipulihkan kembali, ditambah
+ * Markdown dan CSV yang bisa dibaca tanpa aplikasi), serta memvalidasi dan
+ * membuat pratinjau arsip sebelum diimpor.
+ */
+
+const isArchiveDate = (value: ArchiveValue | undefined): value is { $date: string } =>
+  !!value && typeof value === 'object' && !Array.isArray(value) && typeof (value as any).$date === 'string';
+
+export const archiveDate = (value: ArchiveValue | undefined): Date | null =>
+  isArchiveDate(value) ? new Date(value.$date) : null;
+
+const text = (value: ArchiveValue | undefined) =>
+  value === null || value === undefined || typeof value === 'object' ? '' : String(value);
+
+const formatDateTime = (value: ArchiveValue | undefined) => {
+  const date = archiveDate(value);
+  return date ? date.toLocaleString('id-ID', { dateStyle: 'medium', timeStyle: 'short' }) : '';
+};
+
+const isoDate = (value: ArchiveValue | undefined) => archiveDate(value)?.toISOString() || '';
+
+const byDate = (field: string) => (a: ArchiveDocument, b: ArchiveDocument) =>
+  (archiveDate(a[field])?.getTime() || 0) - (archiveDate(b[field])?.getTime() || 0);
+
+// Nama file aman untuk semua sistem operasi
+const slugify = (value: string) =>
+  value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 50) || 'tanpa-judul';
+
+const escapeCsv = (value: string) => /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// BOM di awal agar Excel membaca UTF-8 dengan benar
+const toCsv = (headers: string[], rows: string[][]) =>
+  '\ufeff' + [headers, ...rows].map(row => row.map(escapeCsv).join(',')).join('\r\n') + '\r\n';
+
+const createNameResolver = (archive: HomeArchive) => {
+  const names: { [userId: string]: string } = {};
+  archive.members.forEach(member => {
+    names[member.uid] = member.displayName || member.email || 'Anggota';
+  });
+  return (userId: ArchiveValue | undefined) => names[text(userId)] || (userId ? 'Mantan anggota' : '');
+};
+
+const renderReadme = (archive: HomeArchive) => [
+  `# ${text(archive.home.name)}`,
+  '',
+  `Diekspor pada ${new Date(archive.exportedAt).toLocaleString('id-ID', { dateStyle: 'long', timeStyle: 'short' })}.`,
+  '',
+  '| Isi | Jumlah |',
+  '| --- | --- |',
+  `| Anggota | ${archive.members.length} |`,
+  `| Catatan | ${archive.notes.length} |`,
+  `| Wishlist | ${archive.wishlist.length} |`,
+  `| Pesan chat | ${archive.messages.length} |`,
+  `| Peliharaan | ${archive.pets.length} |`,
+  `| Interaksi peliharaan | ${archive.petInteractions.length} |`,
+  '',
+  '- `home.json` berisi seluruh data dan bisa dipakai untuk memulihkan rumah.',
+  '- `notes/` berisi setiap catatan dalam format Markdown.',
+  '- `chat.md` berisi transkrip chat per hari.',
+  '- File `.csv` bisa dibuka dengan spreadsheet.',
+  ''
+].join('\n');
+
+const renderNote = (note: ArchiveDocument, nameOf: (userId: ArchiveValue | undefined) => string) => [
+  `# ${text(note.title) || 'Tanpa judul'}`,
+  '',
+  `_Ditulis oleh ${nameOf(note.createdBy)} · dibuat ${formatDateTime(note.createdAt)} · diperbarui ${formatDateTime(note.updatedAt)}_`,
+  '',
+  text(note.content),
+  ''
+].join('\n');
+
+const renderChat = (archive: HomeArchive, nameOf: (userId: ArchiveValue | undefined) => string) => {
+  const lines = [`# Chat ${text(archive.home.name)}`, ''];
+  let currentDay = '';
+
+  [...archive.messages].sort(byDate('timestamp')).forEach(message => {
+    const date = archiveDate(message.timestamp);
+    const day = date ? date.toLocaleDateString('id-ID', { weekday: 'long', day: 'numeric', month: 'long', year: 'numeric' }) : '';
+    if (day !== currentDay) {
+      lines.push(`## ${day}`, '');
+      currentDay = day;
+    }
+
+    const replyTo = message.replyTo as ArchiveDocument | null | undefined;
+    if (replyTo) {
+      lines.push(`> ↪ ${nameOf(replyTo.senderId)}: ${text(replyTo.text).replace(/\n/g, ' ')}`);
+    }
+
+    const time = date ? date.toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit' }) : '';
+    lines.push(`**[${time}] ${nameOf(message.senderId)}:** ${text(message.text)}`);
+
+    const reactions = (message.emoji as ArchiveDocument[] | null | undefined) || [];
+    if (reactions.length > 0) {
+      lines.push(reactions
+        .map(reaction => `${text(reaction.type)} ${((reaction.users as ArchiveValue[]) || []).length}`)
+        .join(' · '));
+    }
+    lines.push('');
+  });
+
+  return lines.join('\n');
+};
+
+export const getArchiveFileName = (archive: HomeArchive) =>
+  `rumah-${slugify(text(archive.home.name))}-${archive.exportedAt.slice(0, 10)}.zip`;
+
+export const buildHomeArchiveFiles = (archive: HomeArchive): ZipEntry[] => {
+  const nameOf = createNameResolver(archive);
+  const petNames: { [petId: string]: string } = {};
+  archive.pets.forEach(pet => {
+    petNames[text(pet.id)] = text(pet.name);
+  });
+  const roles = (archive.home.roles || {}) as { [userId: string]: ArchiveValue };
+  const memberIds = (archive.home.members || []) as ArchiveValue[];
+
+  const usedNoteNames = new Set<string>();
+  const noteFiles = [...archive.notes].sort(byDate('createdAt')).map(note => {
+    let fileName = slugify(text(note.title));
+    for (let i = 2; usedNoteNames.has(fileName); i++) {
+      fileName = `${slugify(text(note.title))}-${i}`;
+    }
+    usedNoteNames.add(fileName);
+    return { path: `notes/${fileName}.md`, content: renderNote(note, nameOf) };
+  });
+
+  return [
+    { path: 'README.md', content: renderReadme(archive) },
+    { path: 'home.json', content: JSON.stringify(archive, null, 2) },
+    ...noteFiles,
+    { path: 'chat.md', content: renderChat(archive, nameOf) },
+    {
+      path: 'members.csv',
+      content: toCsv(['id', 'nama', 'nama panggilan', 'email', 'peran', 'hubungan', 'ulang tahun', 'bergabung'], archive.members.map(member => {
+        const isMember = memberIds.includes(member.uid);
+        const role = member.uid === text(archive.home.createdBy) ? 'owner' : text(roles[member.uid]) || 'member';
+        return [
+          member.uid,
+          member.displayName || '',
+          member.nickname || '',
+          member.email || '',
+          isMember ? HOME_ROLE_LABELS[role as HomeRole] || role : 'Mantan anggota',
+          HOME_RELATIONSHIP_LABELS[member.relationship as HomeRelationship] || member.relationship || '',
+          member.birthday || '',
+          member.joinedAt || ''
+        ];
+      }))
+    },
+    {
+      path: 'wishlist.csv',
+      content: toCsv(
+        ['id', 'judul', 'deskripsi', 'url', 'kategori', 'selesai', 'diselesaikan_oleh', 'diselesaikan_pada', 'rating', 'komentar_rating', 'dibuat_oleh', 'dibuat_pada'],
+        [...archive.wishlist].sort(byDate('createdAt')).map(item => [
+          text(item.id),
+          text(item.title),
+          text(item.description),
+          text(item.url),
+          text(item.category),
+          item.completed ? 'ya' : 'tidak',
+          nameOf(item.completedBy),
+          isoDate(item.completedAt),
+          text(item.rating),
+          text(item.ratingComment),
+          nameOf(item.createdBy),
+          isoDate(item.createdAt)
+        ])
+      )
+    },
+    {
+      path: 'messages.csv',
+      content: toCsv(
+        ['id', 'waktu', 'pengirim', 'pesan', 'balasan_untuk', 'reaksi'],
+        [...archive.messages].sort(byDate('timestamp')).map(message => [
+          text(message.id),
+          isoDate(message.timestamp),
+          nameOf(message.senderId),
+          text(message.text),
+          text((message.replyTo as ArchiveDocument | null)?.id),
+          ((message.emoji as ArchiveDocument[] | null) || [])
+            .map(reaction => `${text(reaction.type)}:${((reaction.users as ArchiveValue[]) || []).length}`)
+            .join(' ')
+        ])
+      )
+    },
+    {
+      path: 'pets.csv',
+      content: toCsv(
+        ['id', 'nama', 'jenis', 'kepribadian', 'mood', 'energi', 'dibuat_oleh', 'dibuat_pada'],
+        archive.pets.map(pet => [
+          text(pet.id),
+          text(pet.name),
+          text(pet.type),
+          text(pet.personality),
+          text(pet.mood),
+          text(pet.energy),
+          nameOf(pet.createdBy),
+          isoDate(pet.createdAt)
+        ])
+      )
+    },
+    {
+      path: 'pet-interactions.csv',
+      content: toCsv(
+        ['id', 'peliharaan', 'anggota', 'jenis', 'waktu', 'pesan', 'respon'],
+        [...archive.petInteractions].sort(byDate('timestamp')).map(interaction => [
+          text(interaction.id),
+          petNames[text(interaction.petId)] || text(interaction.petId),
+          nameOf(interaction.userId),
+          text(interaction.type),
+          isoDate(interaction.timestamp),
+          text(interaction.message),
+          text(interaction.response)
+        ])
+      )
+    }
+  ];
+};
+
+type ArchiveFieldType = 'string' | 'number' | 'boolean' | 'date';
+
+// Field wajib per koleksi agar dokumen bisa dibuat ulang lewat fungsi create
+const REQUIRED_FIELDS: Record<ArchiveCollection, { [field: string]: ArchiveFieldType }> = {
+  notes: { id: 'string', title: 'string', content: 'string', createdBy: 'string', createdAt: 'date' },
+  wishlist: { id: 'string', title: 'string', completed: 'boolean', createdBy: 'string', createdAt: 'date' },
+  messages: { id: 'string', text: 'string', senderId: 'string', timestamp: 'date' },
+  pets: { id: 'string', name: 'string', type: 'string', personality: 'string', createdBy: 'string', createdAt: 'date' },
+  petInteractions: { id: 'string', petId: 'string', userId: 'string', type: 'string', timestamp: 'date' },
+};
+
+const ALLOWED_VALUES: Partial<Record<ArchiveCollection, { [field: string]: string[] }>> = {
+  pets: { type: ['dog', 'cat', 'bird', 'rabbit', 'fish', 'hamster', 'turtle'] },
+  petInteractions: { type: ['feed', 'clean', 'play', 'talk', 'pet'] },
+};
+
+const ARCHIVE_COLLECTIONS = Object.keys(REQUIRED_FIELDS) as ArchiveCollection[];
+
+// Daftar kesalahan dibatasi agar pesan tetap terbaca
+const MAX_VALIDATION_ERRORS = 20;
+
+const hasFieldType = (value: ArchiveValue | undefined, type: ArchiveFieldType) => {
+  if (type === 'date') {
+    const date = archiveDate(value);
+    return !!date && !isNaN(date.getTime());
+  }
+  return typeof value === type;
+};
+
+export const validateHomeArchive = (data: unknown): { archive: HomeArchive | null; errors: string[] } => {
+  const errors: string[] = [];
+  const raw = data as { [key: string]: any } | null;
+
+  if (!raw || typeof raw !== 'object' || raw.format !== HOME_ARCHIVE_FORMAT) {
+    return { archive: null, errors: ['File ini bukan arsip ekspor Rumah Kita'] };
+  }
+  if (typeof raw.version !== 'number' || raw.version > HOME_ARCHIVE_VERSION) {
+    return { archive: null, errors: [`Versi arsip ${raw.version} belum didukung, perbarui aplikasi terlebih dahulu`] };
+  }
+  if (!raw.home || typeof raw.home !== 'object' || typeof raw.home.name !== 'string') {
+    errors.push('Data rumah tidak lengkap');
+  }
+  if (!Array.isArray(raw.members) || raw.members.some((member: any) => !member || typeof member.uid !== 'string')) {
+    errors.push('Daftar anggota tidak valid');
+  }
+
+  ARCHIVE_COLLECTIONS.forEach(collectionName => {
+    const documents = raw[collectionName];
+    if (!Array.isArray(documents)) {
+      errors.push(`Koleksi "${collectionName}" tidak ditemukan`);
+      return;
+    }
+
+    documents.forEach((document: any, index: number) => {
+      if (!document || typeof document !== 'object') {
+        errors.push(`${collectionName}[${index}] bukan objek`);
+        return;
+      }
+      Object.entries(REQUIRED_FIELDS[collectionName]).forEach(([field, type]) => {
+        if (!hasFieldType(document[field], type)) {
+          errors.push(`${collectionName}[${index}].${field} harus berupa ${type}`);
+        }
+      });
+      Object.entries(ALLOWED_VALUES[collectionName] || {}).forEach(([field, values]) => {
+        if (typeof document[field] === 'string' && !values.includes(document[field])) {
+          errors.push(`${collectionName}[${index}].${field} tidak dikenal: "${document[field]}"`);
+        }
+      });
+    });
+  });
+
+  if (errors.length > 0) {
+    const extra = errors.length - MAX_VALIDATION_ERRORS;
+    return {
+      archive: null,
+      errors: extra > 0 ? [...errors.slice(0, MAX_VALIDATION_ERRORS), `...dan ${extra} kesalahan lainnya`] : errors
+    };
+  }
+
+  return { archive: raw as HomeArchive, errors: [] };
+};
+
+// Menerima arsip .zip hasil ekspor atau file home.json di dalamnya
+export const parseHomeArchiveFile = (fileName: string, bytes: Uint8Array) => {
+  try {
+    let json: Uint8Array = bytes;
+    if (fileName.toLowerCase().endsWith('.zip')) {
+      const entry = readZip(bytes).find(file => file.path === 'home.json');
+      if (!entry) {
+        return { archive: null, errors: ['home.json tidak ditemukan di dalam arsip'] };
+      }
+      json = entry.content as Uint8Array;
+    }
+
+    return validateHomeArchive(JSON.parse(new TextDecoder().decode(json)));
+  } catch (error: any) {
+    return { archive: null, errors: [`Arsip tidak bisa dibaca: ${error.message}`] };
+  }
+};
+
+// Penulis konten di arsip beserta jumlah konten yang ditulisnya
+export const getArchiveAuthors = (archive: HomeArchive): ArchiveAuthor[] => {
+  const counts: { [userId: string]: number } = {};
+  const count = (userId: ArchiveValue | undefined) => {
+    if (typeof userId === 'string' && userId) counts[userId] = (counts[userId] || 0) + 1;
+  };
+
+  archive.notes.forEach(note => count(note.createdBy));
+  archive.wishlist.forEach(item => count(item.createdBy));
+  archive.messages.forEach(message => count(message.senderId));
+  archive.pets.forEach(pet => count(pet.createdBy));
+  archive.petInteractions.forEach(interaction => count(interaction.userId));
+
+  const nameOf = createNameResolver(archive);
+  return Object.keys(counts).map(userId => ({
+    archiveUserId: userId,
+    name: nameOf(userId),
+    email: archive.members.find(member => member.uid === userId)?.email || null,
+    contentCount: counts[userId]
+  })).sort((a, b) => b.contentCount - a.contentCount);
+};
+
+// Cocokkan penulis dengan anggota rumah tujuan: ID yang sama, lalu email, sisanya ke pengimpor
+export const suggestAuthorMapping = (
+  authors: ArchiveAuthor[],
+  targetMembers: { uid: string; email: string | null }[],
+  fallbackUserId: string
+): ArchiveAuthorMapping => {
+  const mapping: ArchiveAuthorMapping = {};
+  authors.forEach(author => {
+    const sameUser = targetMembers.find(member => member.uid === author.archiveUserId);
+    const sameEmail = author.email
+      ? targetMembers.find(member => member.email?.toLowerCase() === author.email?.toLowerCase())
+      : undefined;
+    mapping[author.archiveUserId] = (sameUser || sameEmail)?.uid || fallbackUserId;
+  });
+  return mapping;
+};
+
+export const previewHomeImport = (
+  archive: HomeArchive,
+  mapping: ArchiveAuthorMapping,
+  targetMemberIds: string[]
+): HomeImportPreview => {
+  const warnings: string[] = [];
+  const petIds = archive.pets.map(pet => pet.id);
+  const messageIds = archive.messages.map(message => message.id);
+  const orphanInteractions = archive.petInteractions.filter(interaction => !petIds.includes(interaction.petId)).length;
+  const authors = getArchiveAuthors(archive);
+
+  const unmapped = authors.filter(author => !targetMemberIds.includes(mapping[author.archiveUserId]));
+  if (unmapped.length > 0) {
+    warnings.push(`${unmapped.length} penulis belum dipetakan ke anggota rumah ini`);
+  }
+  if (orphanInteractions > 0) {
+    warnings.push(`${orphanInteractions} interaksi peliharaan dilewati karena peliharaannya tidak ada di arsip`);
+  }
+
+  const brokenReplies = archive.messages.filter(message => {
+    const replyTo = message.replyTo as ArchiveDocument | null | undefined;
+    return replyTo && !messageIds.includes(replyTo.id);
+  }).length;
+  if (brokenReplies > 0) {
+    warnings.push(`${brokenReplies} balasan chat merujuk pesan yang tidak ada di arsip; kutipannya tetap disimpan`);
+  }
+
+  return {
+    counts: {
+      notes: archive.notes.length,
+      wishlist: archive.wishlist.length,
+      messages: archive.messages.length,
+      pets: archive.pets.length,
+      petInteractions: archive.petInteractions.length - orphanInteractions
+    },
+    authors,
+    warnings
+  };
+};
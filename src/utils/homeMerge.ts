@@ -0,0 +1,43 @@
+import { Home, HomeMergeCollection, HomeMergeConflictStrategy, HomeRole } from '../types/user';
+import { HOME_ROLES, getMemberRole } from './homePermissions';
+
+/**
+ * Penggabungan dua rumah milik user yang sama (misalnya rumah duplikat yang
+ * dibuat masing-masing pasangan sebelum salah satunya memakai kode undangan).
+ */
+
+export const HOME_MERGE_COLLECTION_LABELS: Record<HomeMergeCollection, string> = {
+  notes: 'Catatan',
+  noteFolders: 'Folder catatan',
+  wishlist: 'Wishlist',
+  messages: 'Pesan chat',
+  pets: 'Peliharaan',
+  activity: 'Riwayat aktivitas',
+};
+
+export const HOME_MERGE_CONFLICT_LABELS: Record<HomeMergeConflictStrategy, string> = {
+  rename: 'Tambahkan nama rumah asal pada nama yang bentrok',
+  keep: 'Biarkan nama yang sama',
+  skip: 'Jangan pindahkan (ikut terhapus bersama rumah asal)',
+};
+
+export const normalizeMergeName = (name: string) => name.trim().toLocaleLowerCase('id-ID');
+
+// Nama baru untuk item yang bentrok, contoh "Milo (Rumah Budi)" atau "Milo (Rumah Budi 2)"
+export const resolveMergeName = (name: string, sourceHomeName: string, takenNames: Set<string>) => {
+  let candidate = `${name} (${sourceHomeName})`;
+  for (let i = 2; takenNames.has(normalizeMergeName(candidate)); i++) {
+    candidate = `${name} (${sourceHomeName} ${i})`;
+  }
+  return candidate;
+};
+
+// Peran di rumah tujuan: anggota yang sudah ada mendapat peran tertinggi dari kedua rumah,
+// pemilik rumah sumber menjadi admin karena rumah tujuan hanya punya satu pemilik
+export const getMergedRole = (source: Home, target: Home, userId: string): HomeRole => {
+  const roles = [getMemberRole(source, userId), getMemberRole(target, userId)]
+    .map(role => (role === 'owner' && target.createdBy !== userId ? 'admin' : role))
+    .filter((role): role is HomeRole => !!role);
+
+  return roles.sort((a, b) => HOME_ROLES.indexOf(a) - HOME_ROLES.indexOf(b))[0] || 'member';
+};
@@ -0,0 +1,80 @@
+import { Home, HomePermission, HomeRole } from '../types/user';
+
+/**
+ * Role-based permission helpers for home membership.
+ * Dipakai oleh service Firebase dan komponen UI agar aturan aksesnya sama.
+ */
+
+// Urutan peran dari yang paling tinggi ke paling rendah
+export const HOME_ROLES: HomeRole[] = ['owner', 'admin', 'member', 'guest'];
+
+export const HOME_ROLE_LABELS: Record<HomeRole, string> = {
+  owner: 'Pemilik',
+  admin: 'Admin',
+  member: 'Anggota',
+  guest: 'Tamu',
+};
+
+// Matriks izin: peran mana yang boleh melakukan aksi apa
+export const HOME_PERMISSIONS: Record<HomePermission, HomeRole[]> = {
+  invite: ['owner', 'admin', 'member'],
+  removeMembers: ['owner', 'admin'],
+  approveMembers: ['owner', 'admin'],
+  deleteNotes: ['owner', 'admin'],
+  deleteWishlist: ['owner', 'admin'],
+  deletePets: ['owner', 'admin'],
+  manageSettings: ['owner', 'admin'],
+  manageRoles: ['owner'],
+  viewAuditLog: ['owner', 'admin'],
+  exportHome: ['owner', 'admin', 'member'],
+  importHome: ['owner', 'admin'],
+  manageSuccession: ['owner'],
+  mergeHomes: ['owner'],
+  deleteHome: ['owner'],
+};
+
+// Mendapatkan peran user di rumah (rumah lama tanpa map peran tetap didukung)
+export const getMemberRole = (home: Pick<Home, 'createdBy' | 'members' | 'roles'>, userId: string): HomeRole | null => {
+  if (!home.members.includes(userId)) {
+    return null;
+  }
+
+  if (home.createdBy === userId) {
+    return 'owner';
+  }
+
+  const role = home.roles?.[userId];
+  // Pemilik hanya ditentukan oleh createdBy, bukan dari map peran
+  if (!role || role === 'owner') {
+    return 'member';
+  }
+
+  return role;
+};
+
+export const hasHomePermission = (
+  home: Pick<Home, 'createdBy' | 'members' | 'roles'>,
+  userId: string,
+  permission: HomePermission
+): boolean => {
+  const role = getMemberRole(home, userId);
+  return !!role && HOME_PERMISSIONS[permission].includes(role);
+};
+
+// Cek apakah peran A lebih tinggi dari peran B
+export const outranks = (a: HomeRole, b: HomeRole): boolean => {
+  return HOME_ROLES.indexOf(a) < HOME_ROLES.indexOf(b);
+};
+
+// Konten milik sendiri selalu boleh dihapus, kecuali oleh tamu
+export const canDeleteContent = (
+  home: Pick<Home, 'createdBy' | 'members' | 'roles'>,
+  userId: string,
+  contentOwnerId: string,
+  permission: HomePermission
+): boolean => {
+  const role = getMemberRole(home, userId);
+  if (!role) return false;
+  if (contentOwnerId === userId && role !== 'guest') return true;
+  return HOME_PERMISSIONS[permission].includes(role);
+};
@@ -0,0 +1,107 @@
+import { Home, HomeProfile } from '../types/user';
+
+/**
+ * Profil rumah: warna aksen, avatar, sampul dan zona waktu.
+ * Dipakai oleh service (validasi sebelum disimpan) dan komponen (tampilan).
+ */
+
+export const HOME_NAME_MAX_LENGTH = 50;
+export const HOME_DESCRIPTION_MAX_LENGTH = 280;
+
+export const HOME_ACCENT_COLORS = [
+  { value: '#8b5cf6', label: 'Ungu' },
+  { value: '#3b82f6', label: 'Biru' },
+  { value: '#06b6d4', label: 'Toska' },
+  { value: '#10b981', label: 'Hijau' },
+  { value: '#f59e0b', label: 'Kuning' },
+  { value: '#f97316', label: 'Oranye' },
+  { value: '#ef4444', label: 'Merah' },
+  { value: '#ec4899', label: 'Merah muda' },
+];
+
+// Warna bawaan sama dengan gradasi ungu yang dipakai sebelum ada profil rumah
+export const DEFAULT_ACCENT_COLOR = HOME_ACCENT_COLORS[0].value;
+
+export const HOME_AVATAR_EMOJIS = ['🏠', '🏡', '❤️', '👨‍👩‍👧‍👦', '🐶', '🐱', '🌻', '☕', '🎮', '✈️', '🌙', '⭐'];
+
+export const HOME_TIMEZONES = [
+  { value: 'Asia/Jakarta', label: 'WIB (Jakarta)' },
+  { value: 'Asia/Makassar', label: 'WITA (Makassar)' },
+  { value: 'Asia/Jayapura', label: 'WIT (Jayapura)' },
+  { value: 'Asia/Singapore', label: 'Singapura / Kuala Lumpur' },
+  { value: 'Asia/Tokyo', label: 'Tokyo / Seoul' },
+  { value: 'Australia/Sydney', label: 'Sydney' },
+  { value: 'Europe/London', label: 'London' },
+  { value: 'Europe/Amsterdam', label: 'Amsterdam / Berlin' },
+  { value: 'America/New_York', label: 'New York' },
+  { value: 'America/Los_Angeles', label: 'Los Angeles' },
+  { value: 'UTC', label: 'UTC' },
+];
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+export const getHomeAccentColor = (home?: Pick<Home, 'accentColor'> | null): string =>
+  home?.accentColor && HEX_COLOR.test(home.accentColor) ? home.accentColor : DEFAULT_ACCENT_COLOR;
+
+// Warna hex dengan transparansi, contoh withAlpha('#8b5cf6', 0.2)
+export const withAlpha = (hex: string, alpha: number) =>
+  `${hex}${Math.round(Math.min(Math.max(alpha, 0), 1) * 255).toString(16).padStart(2, '0')}`;
+
+// Avatar bisa berupa emoji atau URL gambar
+export const isImageAvatar = (avatar?: string) => !!avatar && /^https?:\/\//i.test(avatar);
+
+export const getBrowserTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+export const isValidTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Menggeser waktu agar komponen lokalnya (jam, tanggal) sama dengan jam dinding di zona rumah.
+ * Hasilnya hanya untuk tampilan dan pengelompokan tanggal, jangan disimpan.
+ */
+export const toHomeTime = (date: Date, timeZone?: string): Date => {
+  if (!timeZone || !isValidTimeZone(timeZone)) return date;
+
+  const parts: { [type: string]: number } = {};
+  new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(date).forEach(part => {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  });
+
+  return new Date(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second, date.getMilliseconds());
+};
+
+export const validateHomeProfile = (profile: Partial<HomeProfile>): string | null => {
+  if (profile.name !== undefined) {
+    const name = profile.name.trim();
+    if (!name) return 'Nama rumah tidak boleh kosong';
+    if (name.length > HOME_NAME_MAX_LENGTH) return `Nama rumah maksimal ${HOME_NAME_MAX_LENGTH} karakter`;
+  }
+  if (profile.description && profile.description.length > HOME_DESCRIPTION_MAX_LENGTH) {
+    return `Deskripsi maksimal ${HOME_DESCRIPTION_MAX_LENGTH} karakter`;
+  }
+  if (profile.accentColor && !HEX_COLOR.test(profile.accentColor)) {
+    return 'Warna aksen tidak valid';
+  }
+  if (profile.coverUrl && !/^https?:\/\//i.test(profile.coverUrl)) {
+    return 'URL gambar sampul harus diawali http:// atau https://';
+  }
+  if (profile.timezone && !isValidTimeZone(profile.timezone)) {
+    return 'Zona waktu tidak dikenal';
+  }
+  return null;
+};
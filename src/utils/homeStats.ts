@@ -0,0 +1,69 @@
+import { HomeStatCounts, HomeStatMetric, HomeWeeklyStats } from '../types/stats';
+
+/**
+ * Helper minggu dan agregasi untuk statistik rumah.
+ * Minggu dihitung dari Senin 00:00 UTC supaya semua anggota menulis ke dokumen yang sama
+ * apa pun zona waktunya.
+ */
+
+export const HOME_STAT_METRICS: HomeStatMetric[] = ['messages', 'noteEdits', 'wishlistCompleted', 'petInteractions'];
+
+export const HOME_STAT_METRIC_LABELS: Record<HomeStatMetric, string> = {
+  messages: 'Pesan terkirim',
+  noteEdits: 'Catatan diedit',
+  wishlistCompleted: 'Wishlist selesai',
+  petInteractions: 'Interaksi peliharaan',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const getWeekStart = (date: Date): Date => {
+  const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  // getUTCDay: Minggu = 0, jadi Senin digeser ke indeks 0
+  const daysSinceMonday = (start.getUTCDay() + 6) % 7;
+  return new Date(start.getTime() - daysSinceMonday * DAY_MS);
+};
+
+export const getWeekKey = (date: Date): string => getWeekStart(date).toISOString().slice(0, 10);
+
+// Awal minggu untuk `count` minggu terakhir, dari yang terlama
+export const getRecentWeekStarts = (count: number, now: Date = new Date()): Date[] => {
+  const current = getWeekStart(now).getTime();
+  return Array.from({ length: count }, (_, index) => new Date(current - (count - 1 - index) * 7 * DAY_MS));
+};
+
+export const emptyStatCounts = (): HomeStatCounts => ({
+  messages: 0,
+  noteEdits: 0,
+  wishlistCompleted: 0,
+  petInteractions: 0,
+});
+
+// Total per anggota untuk semua minggu yang dimuat
+export const sumStatsByMember = (weeks: HomeWeeklyStats[]) => {
+  const totals: { [userId: string]: HomeStatCounts } = {};
+  weeks.forEach(week => {
+    Object.entries(week.members).forEach(([userId, counts]) => {
+      const total = totals[userId] || (totals[userId] = emptyStatCounts());
+      HOME_STAT_METRICS.forEach(metric => {
+        total[metric] += counts[metric] || 0;
+      });
+    });
+  });
+  return totals;
+};
+
+// Nilai satu metrik per minggu per anggota; minggu tanpa dokumen bernilai nol
+export const getWeeklySeries = (weeks: HomeWeeklyStats[], weekStarts: Date[], metric: HomeStatMetric) =>
+  weekStarts.map(weekStart => {
+    const week = weeks.find(item => item.weekStart.getTime() === weekStart.getTime());
+    const byMember: { [userId: string]: number } = {};
+    Object.entries(week?.members || {}).forEach(([userId, counts]) => {
+      if (counts[metric]) byMember[userId] = counts[metric] || 0;
+    });
+    return {
+      weekStart,
+      byMember,
+      total: Object.values(byMember).reduce((sum, value) => sum + value, 0)
+    };
+  });
@@ -0,0 +1,133 @@
+import { HomeTemplate } from '../types/template';
+
+/**
+ * Template rumah bawaan. Isi awal dibuat lewat fungsi create yang sama dengan
+ * yang dipakai anggota, sehingga hasilnya tidak berbeda dari konten biasa.
+ */
+
+export const HOME_TEMPLATE_NAME_MAX_LENGTH = 40;
+export const HOME_TEMPLATE_DESCRIPTION_MAX_LENGTH = 140;
+// Batas isi template buatan user agar dokumennya tetap kecil
+export const HOME_TEMPLATE_MAX_ITEMS = 20;
+
+const GROCERY_NOTE = {
+  title: 'Daftar Belanja',
+  content: '- Beras\n- Telur\n- Minyak goreng\n- Sabun cuci piring\n- Air galon\n\nCoret yang sudah dibeli, tambahkan yang habis.'
+};
+
+export const BUILT_IN_HOME_TEMPLATES: HomeTemplate[] = [
+  {
+    id: 'couple',
+    name: 'Pasangan',
+    description: 'Untuk berdua: aturan rumah, daftar belanja dan wishlist kencan.',
+    avatar: '❤️',
+    accentColor: '#ec4899',
+    notes: [
+      {
+        title: 'Aturan Rumah',
+        content: '1. Selesaikan masalah sebelum tidur.\n2. Gantian cuci piring.\n3. Satu malam kencan setiap minggu.\n4. Kabari kalau pulang terlambat.'
+      },
+      GROCERY_NOTE
+    ],
+    wishlistCategories: ['Kencan', 'Liburan', 'Rumah', 'Hadiah'],
+    wishlist: [
+      { title: 'Makan malam di tempat baru', category: 'Kencan' },
+      { title: 'Liburan akhir pekan berdua', category: 'Liburan' }
+    ],
+    pet: { name: 'Mochi', type: 'cat', personality: 'Manja, suka tidur di pangkuan dan minta dielus' },
+    welcomeMessage: 'Selamat datang di {homeName}! Rumah kecil kita berdua ❤️',
+    builtIn: true
+  },
+  {
+    id: 'family',
+    name: 'Keluarga',
+    description: 'Untuk keluarga: jadwal piket, daftar belanja dan rencana liburan.',
+    avatar: '👨‍👩‍👧‍👦',
+    accentColor: '#10b981',
+    notes: [
+      {
+        title: 'Aturan Rumah',
+        content: '1. Makan malam bersama setiap hari.\n2. Rapikan mainan setelah dipakai.\n3. Waktu layar selesai jam 8 malam.\n4. Saling bantu pekerjaan rumah.'
+      },
+      GROCERY_NOTE,
+      {
+        title: 'Jadwal Piket',
+        content: 'Senin: \nSelasa: \nRabu: \nKamis: \nJumat: \nSabtu: \nMinggu: '
+      }
+    ],
+    wishlistCategories: ['Liburan', 'Rumah', 'Sekolah', 'Hadiah'],
+    wishlist: [
+      { title: 'Liburan keluarga', category: 'Liburan' },
+      { title: 'Perlengkapan sekolah baru', category: 'Sekolah' }
+    ],
+    pet: { name: 'Bruno', type: 'dog', personality: 'Setia, ceria dan senang bermain dengan anak-anak' },
+    welcomeMessage: 'Selamat datang di {homeName}! Semua kabar keluarga ada di sini.',
+    builtIn: true
+  },
+  {
+    id: 'roommates',
+    name: 'Teman Serumah',
+    description: 'Untuk kos atau kontrakan: aturan bersama, belanja patungan dan kebutuhan rumah.',
+    avatar: '🏡',
+    accentColor: '#3b82f6',
+    notes: [
+      {
+        title: 'Aturan Rumah',
+        content: '1. Tamu menginap dikabari dulu.\n2. Jam tenang mulai pukul 22.00.\n3. Bersihkan dapur setelah masak.\n4. Tagihan dibagi rata setiap tanggal 1.'
+      },
+      GROCERY_NOTE,
+      {
+        title: 'Tagihan Bersama',
+        content: 'Listrik: \nAir: \nInternet: \nSewa: \n\nCatat siapa yang sudah bayar bulan ini.'
+      }
+    ],
+    wishlistCategories: ['Dapur', 'Perabot', 'Kebersihan'],
+    wishlist: [
+      { title: 'Rak sepatu', category: 'Perabot' },
+      { title: 'Alat pel baru', category: 'Kebersihan' }
+    ],
+    welcomeMessage: 'Selamat datang di {homeName}! Pakai chat ini untuk urusan rumah bersama.',
+    builtIn: true
+  },
+  {
+    id: 'longDistance',
+    name: 'Jarak Jauh',
+    description: 'Untuk pasangan LDR: rencana bertemu, ide kencan online dan hitungan hari.',
+    avatar: '✈️',
+    accentColor: '#8b5cf6',
+    notes: [
+      {
+        title: 'Aturan Rumah',
+        content: '1. Video call minimal seminggu sekali.\n2. Kabari perbedaan jadwal dan zona waktu.\n3. Jujur kalau sedang rindu atau lelah.\n4. Selalu ada rencana pertemuan berikutnya.'
+      },
+      GROCERY_NOTE,
+      {
+        title: 'Ide Kencan Online',
+        content: '- Nonton film bersama\n- Masak menu yang sama\n- Main game online\n- Baca buku yang sama'
+      }
+    ],
+    wishlistCategories: ['Pertemuan', 'Kencan Online', 'Hadiah'],
+    wishlist: [
+      { title: 'Tiket untuk bertemu', category: 'Pertemuan' },
+      { title: 'Kirim paket kejutan', category: 'Hadiah' }
+    ],
+    pet: { name: 'Kiwi', type: 'bird', personality: 'Cerewet dan suka menyampaikan pesan rindu' },
+    welcomeMessage: 'Selamat datang di {homeName}! Jauh di mata, dekat di sini ✈️',
+    builtIn: true
+  }
+];
+
+export const getWelcomeMessage = (template: HomeTemplate, homeName: string) =>
+  template.welcomeMessage ? template.welcomeMessage.replace(/\{homeName\}/g, homeName) : '';
+
+export const validateHomeTemplate = (name: string, description: string): string | null => {
+  const trimmed = name.trim();
+  if (!trimmed) return 'Nama template tidak boleh kosong';
+  if (trimmed.length > HOME_TEMPLATE_NAME_MAX_LENGTH) {
+    return `Nama template maksimal ${HOME_TEMPLATE_NAME_MAX_LENGTH} karakter`;
+  }
+  if (description.trim().length > HOME_TEMPLATE_DESCRIPTION_MAX_LENGTH) {
+    return `Deskripsi template maksimal ${HOME_TEMPLATE_DESCRIPTION_MAX_LENGTH} karakter`;
+  }
+  return null;
+};
@@ -0,0 +1,33 @@
+import { Home } from '../types/user';
+
+/**
+ * Tempat sampah rumah: rumah yang dihapus disimpan selama masa retensi
+ * dan masih bisa dipulihkan pemiliknya sebelum dihapus permanen oleh purge job.
+ * Nilai retensi ini juga dipakai oleh scripts/purge-deleted-homes.js.
+ */
+
+export const HOME_TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Rumah yang sedang dihapus permanen (tahap cascade) juga dianggap di tempat sampah
+export const isHomeInTrash = (home: Pick<Home, 'deletedAt' | 'deletion'>): boolean => {
+  return !!home.deletedAt || !!home.deletion;
+};
+
+export const getHomePurgeDate = (home: Pick<Home, 'deletedAt'>): Date | null => {
+  if (!home.deletedAt) return null;
+  return new Date(home.deletedAt.getTime() + HOME_TRASH_RETENTION_DAYS * DAY_MS);
+};
+
+export const isHomePurgeDue = (home: Pick<Home, 'deletedAt'>, now: Date = new Date()): boolean => {
+  const purgeDate = getHomePurgeDate(home);
+  return !!purgeDate && purgeDate.getTime() <= now.getTime();
+};
+
+// Sisa hari sebelum rumah dihapus permanen (minimal 0)
+export const getDaysUntilPurge = (home: Pick<Home, 'deletedAt'>, now: Date = new Date()): number => {
+  const purgeDate = getHomePurgeDate(home);
+  if (!purgeDate) return 0;
+  return Math.max(0, Math.ceil((purgeDate.getTime() - now.getTime()) / DAY_MS));
+};
@@ -0,0 +1,79 @@
+/**
+ * Kompresi gambar di browser sebelum diunggah: foto dari kamera ponsel diperkecil
+ * agar note cepat dimuat, dan thumbnail kecil dibuat untuk daftar lampiran.
+ * GIF tidak diubah agar animasinya tetap ada.
+ */
+
+const MAX_IMAGE_DIMENSION = 1920;
+const THUMBNAIL_DIMENSION = 320;
+const JPEG_QUALITY = 0.82;
+
+export interface CompressedImage {
+  blob: Blob;
+  width: number;
+  height: number;
+}
+
+const loadImage = (blob: Blob) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const url = URL.createObjectURL(blob);
+  const image = new Image();
+  image.onload = () => {
+    URL.revokeObjectURL(url);
+    resolve(image);
+  };
+  image.onerror = () => {
+    URL.revokeObjectURL(url);
+    reject(new Error('Gambar tidak dapat dibaca'));
+  };
+  image.src = url;
+});
+
+const scaleToFit = (width: number, height: number, maxDimension: number) => {
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  return { width: Math.round(width * scale), height: Math.round(height * scale) };
+};
+
+// PNG dan WebP tetap PNG agar transparansinya tidak hilang; lainnya menjadi JPEG
+const outputType = (contentType: string) =>
+  contentType === 'image/png' || contentType === 'image/webp' ? 'image/png' : 'image/jpeg';
+
+const drawImage = (image: HTMLImageElement, maxDimension: number, type: string) =>
+  new Promise<CompressedImage>((resolve, reject) => {
+    const { width, height } = scaleToFit(image.naturalWidth, image.naturalHeight, maxDimension);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+
+    const context = canvas.getContext('2d');
+    if (!context) {
+      reject(new Error('Browser tidak mendukung kompresi gambar'));
+      return;
+    }
+    context.drawImage(image, 0, 0, width, height);
+
+    canvas.toBlob(blob => {
+      if (blob) {
+        resolve({ blob, width, height });
+      } else {
+        reject(new Error('Gambar gagal dikompres'));
+      }
+    }, type, JPEG_QUALITY);
+  });
+
+// Gambar utama beserta thumbnail-nya. Hasil kompresi dipakai hanya jika lebih kecil
+// dari aslinya atau ukurannya memang perlu diperkecil.
+export const compressImage = async (file: File) => {
+  const image = await loadImage(file);
+  const original = { blob: file as Blob, width: image.naturalWidth, height: image.naturalHeight };
+  const type = outputType(file.type);
+
+  let compressed: CompressedImage = original;
+  if (file.type !== 'image/gif') {
+    const result = await drawImage(image, MAX_IMAGE_DIMENSION, type);
+    const resized = result.width !== original.width;
+    if (resized || result.blob.size < file.size) compressed = result;
+  }
+
+  const thumbnail = await drawImage(image, THUMBNAIL_DIMENSION, type);
+  return { image: compressed, thumbnail };
+};
@@ -0,0 +1,63 @@
+// Tes ini sengaja memakai URL javascript: untuk memastikan URL itu ditolak
+/* eslint-disable no-script-url */
+import { parseMarkdown, sanitizeUrl } from './markdown';
+
+describe('sanitizeUrl', () => {
+  it('keeps http, https, mailto and tel links', () => {
+    expect(sanitizeUrl('https://example.com/a?b=c')).toBe('https://example.com/a?b=c');
+    expect(sanitizeUrl('http://example.com')).toBe('http://example.com');
+    expect(sanitizeUrl('mailto:rumah@example.com')).toBe('mailto:rumah@example.com');
+    expect(sanitizeUrl('tel:+6281234567')).toBe('tel:+6281234567');
+  });
+
+  it('keeps relative links and anchors', () => {
+    expect(sanitizeUrl('/notes/abc')).toBe('/notes/abc');
+    expect(sanitizeUrl('#bagian-2')).toBe('#bagian-2');
+    expect(sanitizeUrl('folder/berkas.txt')).toBe('folder/berkas.txt');
+  });
+
+  it('rejects javascript: and data: URLs', () => {
+    expect(sanitizeUrl('javascript:alert(1)')).toBeNull();
+    expect(sanitizeUrl('data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==')).toBeNull();
+    expect(sanitizeUrl('vbscript:msgbox(1)')).toBeNull();
+  });
+
+  it('rejects schemes regardless of case', () => {
+    expect(sanitizeUrl('JavaScript:alert(1)')).toBeNull();
+    expect(sanitizeUrl('JAVASCRIPT:alert(1)')).toBeNull();
+    expect(sanitizeUrl('DaTa:text/html,<script>alert(1)</script>')).toBeNull();
+    expect(sanitizeUrl('HTTPS://example.com')).toBe('HTTPS://example.com');
+  });
+
+  it('rejects dangerous schemes hidden behind whitespace or control characters', () => {
+    expect(sanitizeUrl('  javascript:alert(1)')).toBeNull();
+    expect(sanitizeUrl('\n\tjavascript:alert(1)')).toBeNull();
+    expect(sanitizeUrl('\u0000javascript:alert(1)')).toBeNull();
+    expect(sanitizeUrl('java\tscript:alert(1)')).toBeNull();
+    expect(sanitizeUrl('java\nscript:alert(1)')).toBeNull();
+    expect(sanitizeUrl(' data:text/html,x')).toBeNull();
+  });
+
+  it('trims surrounding whitespace from safe links', () => {
+    expect(sanitizeUrl('  https://example.com  ')).toBe('https://example.com');
+  });
+
+  it('rejects empty links', () => {
+    expect(sanitizeUrl('')).toBeNull();
+    expect(sanitizeUrl(' \t ')).toBeNull();
+  });
+});
+
+describe('parseMarkdown links', () => {
+  it('renders links with unsafe schemes as plain text', () => {
+    expect(parseMarkdown('[klik](JavaScript:alert%281%29)')).toEqual([
+      { type: 'paragraph', children: [{ type: 'text', text: 'klik' }] },
+    ]);
+  });
+
+  it('keeps safe links', () => {
+    expect(parseMarkdown('[situs](https://example.com)')).toEqual([
+      { type: 'paragraph', children: [{ type: 'link', href: 'https://example.com', children: [{ type: 'text', text: 'situs' }] }] },
+    ]);
+  });
+});
@@ -0,0 +1,447 @@
+import { MarkdownBlock, MarkdownInline, MarkdownListItem, MarkdownTableAlign } from '../types/markdown';
+import { getAttachmentId } from './noteAttachments';
+import { isValidNoteLinkTitle } from './noteLinks';
+
+/**
+ * Parser Markdown sederhana untuk isi note (heading, tebal/miring/coret, link, kode,
+ * tabel, kutipan, daftar, checklist `- [ ]`, rujukan lampiran `attachment:` dan link note `[[Judul]]`). Hasilnya berupa pohon yang dirender
+ * sebagai elemen React, bukan HTML: HTML mentah di note ditampilkan sebagai teks biasa,
+ * dan link hanya memakai skema yang aman, sehingga note dari anggota lain tidak bisa
+ * menyisipkan script.
+ */
+
+interface SourceLine {
+  text: string;
+  line: number; // Indeks baris pada isi note
+}
+
+const FENCE = /^\s{0,3}(`{3,}|~{3,})\s*([\w+#.-]*)\s*$/;
+const HEADING = /^\s{0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const RULE = /^\s{0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const QUOTE = /^\s{0,3}>\s?(.*)$/;
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const CHECKBOX = /^\[([ xX])\](?:\s+(.*))?$/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)*\|?\s*$/;
+
+// Skema link yang boleh dibuka dari note
+const SAFE_URL_SCHEMES = ['http', 'https', 'mailto', 'tel'];
+
+const isBlank = (text: string) => text.trim() === '';
+
+const getIndent = (text: string) => {
+  const match = text.match(/^\s*/);
+  return match ? match[0].replace(/\t/g, '    ').length : 0;
+};
+
+// URL yang aman dipakai sebagai href, atau null (misalnya javascript: atau data:)
+export const sanitizeUrl = (url: string): string | null => {
+  const trimmed = url.trim();
+  // Karakter kontrol dan spasi diabaikan browser saat membaca skema ("java\tscript:")
+  // eslint-disable-next-line no-control-regex
+  const normalized = trimmed.replace(/[\u0000- \u007f-\u009f]/g, '');
+  if (!normalized) return null;
+
+  const scheme = normalized.match(/^([a-z][a-z0-9+.-]*):/i);
+  if (scheme) {
+    return SAFE_URL_SCHEMES.includes(scheme[1].toLowerCase()) ? trimmed : null;
+  }
+
+  // Tanpa skema: link relatif atau anchor
+  return trimmed;
+};
+
+const splitTableRow = (text: string): string[] => {
+  let row = text.trim();
+  if (row.startsWith('|')) row = row.slice(1);
+  if (row.endsWith('|') && !row.endsWith('\\|')) row = row.slice(0, -1);
+
+  const cells: string[] = [];
+  let cell = '';
+  for (let i = 0; i < row.length; i++) {
+    if (row[i] === '\\' && row[i + 1] === '|') {
+      cell += '|';
+      i++;
+    } else if (row[i] === '|') {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += row[i];
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+};
+
+const isTableStart = (lines: SourceLine[], index: number) =>
+  index + 1 < lines.length &&
+  lines[index].text.includes('|') &&
+  lines[index + 1].text.includes('-') &&
+  TABLE_SEPARATOR.test(lines[index + 1].text);
+
+const startsBlock = (lines: SourceLine[], index: number) => {
+  const text = lines[index].text;
+  return FENCE.test(text) || HEADING.test(text) || RULE.test(text) || QUOTE.test(text) ||
+    LIST_ITEM.test(text) || isTableStart(lines, index);
+};
+
+// Bagian inline
+
+const pushText = (nodes: MarkdownInline[], text: string) => {
+  if (!text) return;
+  const last = nodes[nodes.length - 1];
+  if (last && last.type === 'text') {
+    last.text += text;
+  } else {
+    nodes.push({ type: 'text', text });
+  }
+};
+
+const isWordChar = (char: string | undefined) => !!char && /[A-Za-z0-9\u00c0-\u024f]/.test(char);
+
+// Posisi penutup delimiter (contoh ** atau _), melewati kode inline dan escape
+const findClosing = (text: string, delimiter: string, from: number) => {
+  for (let i = from; i < text.length; i++) {
+    const char = text[i];
+    if (char === '\\') {
+      i++;
+    } else if (char === '`') {
+      const end = text.indexOf('`', i + 1);
+      if (end !== -1) i = end;
+    } else if (text.startsWith(delimiter, i) && i > from && text[i - 1] !== ' ') {
+      // Penutup * tunggal tidak boleh menjadi bagian dari **
+      if (delimiter.length === 1 && (text[i + 1] === char || text[i - 1] === char)) continue;
+      // _ di tengah kata (snake_case) bukan penutup
+      if (delimiter === '_' && isWordChar(text[i + 1])) continue;
+      return i;
+    }
+  }
+  return -1;
+};
+
+// Link [teks](url): posisi kurung tutup teks dan url, atau null
+const matchLink = (text: string, start: number) => {
+  let depth = 0;
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+    } else if (text[i] === '[') {
+      depth++;
+    } else if (text[i] === ']') {
+      depth--;
+      if (depth === 0) {
+        const target = text.slice(i + 1).match(/^\(\s*<?([^\s()<>]*)>?(?:\s+"[^"]*")?\s*\)/);
+        if (!target) return null;
+        return { labelEnd: i, url: target[1], end: i + 1 + target[0].length };
+      }
+    }
+  }
+  return null;
+};
+
+export const parseInline = (text: string): MarkdownInline[] => {
+  const nodes: MarkdownInline[] = [];
+  let i = 0;
+
+  while (i < text.length) {
+    const char = text[i];
+
+    if (char === '\\' && i + 1 < text.length && /[!-/:-@[-`{-~]/.test(text[i + 1])) {
+      pushText(nodes, text[i + 1]);
+      i += 2;
+      continue;
+    }
+
+    if (char === '\n') {
+      nodes.push({ type: 'break' });
+      i++;
+      continue;
+    }
+
+    if (char === '`') {
+      let ticks = '`';
+      while (text[i + ticks.length] === '`') ticks += '`';
+      const end = text.indexOf(ticks, i + ticks.length);
+      if (end !== -1) {
+        nodes.push({ type: 'code', text: text.slice(i + ticks.length, end).trim() });
+        i = end + ticks.length;
+        continue;
+      }
+      pushText(nodes, ticks);
+      i += ticks.length;
+      continue;
+    }
+
+    const double = text.substr(i, 2);
+    if ((double === '**' || double === '__' || double === '~~') && text[i + 2] && text[i + 2] !== ' ') {
+      const end = findClosing(text, double, i + 2);
+      if (end !== -1 && (double !== '__' || !isWordChar(text[i - 1]))) {
+        nodes.push({ type: double === '~~' ? 'del' : 'strong', children: parseInline(text.slice(i + 2, end)) });
+        i = end + 2;
+        continue;
+      }
+    }
+
+    if ((char === '*' || char === '_') && text[i + 1] && text[i + 1] !== ' ' && text[i + 1] !== char) {
+      const end = findClosing(text, char, i + 1);
+      if (end !== -1 && (char === '*' || !isWordChar(text[i - 1]))) {
+        nodes.push({ type: 'em', children: parseInline(text.slice(i + 1, end)) });
+        i = end + 1;
+        continue;
+      }
+    }
+
+    // Link ke note lain: [[Judul note]]
+    if (text.startsWith('[[', i)) {
+      const end = text.indexOf(']]', i + 2);
+      const title = end !== -1 ? text.slice(i + 2, end) : '';
+      if (isValidNoteLinkTitle(title)) {
+        nodes.push({ type: 'noteLink', title: title.trim() });
+        i = end + 2;
+        continue;
+      }
+    }
+
+    // Lampiran note: gambar `![nama](attachment:id)` atau berkas `[nama](attachment:id)`
+    const image = char === '!' && text[i + 1] === '[';
+    if (image || char === '[') {
+      const start = image ? i + 1 : i;
+      const link = matchLink(text, start);
+      const attachmentId = link && getAttachmentId(link.url);
+      if (link && attachmentId) {
+        nodes.push({ type: 'attachment', id: attachmentId, image, label: text.slice(start + 1, link.labelEnd) });
+        i = link.end;
+        continue;
+      }
+    }
+
+    if (char === '[') {
+      const link = matchLink(text, i);
+      if (link) {
+        const children = parseInline(text.slice(i + 1, link.labelEnd));
+        const href = sanitizeUrl(link.url);
+        if (href) {
+          nodes.push({ type: 'link', href, children });
+        } else {
+          // Link dengan skema berbahaya hanya ditampilkan teksnya
+          children.forEach(child => {
+            if (child.type === 'text') {
+              pushText(nodes, child.text);
+            } else {
+              nodes.push(child);
+            }
+          });
+        }
+        i = link.end;
+        continue;
+      }
+    }
+
+    // Autolink <https://...> dan URL biasa di dalam teks
+    const autolink = char === '<' && text.slice(i).match(/^<((?:https?:\/\/|mailto:)[^\s<>]+)>/i);
+    if (autolink) {
+      nodes.push({ type: 'link', href: autolink[1], children: [{ type: 'text', text: autolink[1] }] });
+      i += autolink[0].length;
+      continue;
+    }
+
+    const url = (char === 'h' || char === 'H') && !isWordChar(text[i - 1]) && text.slice(i).match(/^https?:\/\/[^\s<]+/i);
+    if (url) {
+      // Tanda baca di akhir kalimat bukan bagian dari URL
+      const href = url[0].replace(/[.,;:!?'")\]]+$/, '');
+      nodes.push({ type: 'link', href, children: [{ type: 'text', text: href }] });
+      i += href.length;
+      continue;
+    }
+
+    pushText(nodes, char);
+    i++;
+  }
+
+  return nodes;
+};
+
+// Bagian blok
+
+const parseList = (lines: SourceLine[], start: number): { block: MarkdownBlock; next: number } => {
+  const first = lines[start].text.match(LIST_ITEM)!;
+  const baseIndent = getIndent(first[1]);
+  const ordered = /\d/.test(first[2]);
+  const items: MarkdownListItem[] = [];
+  let i = start;
+
+  while (i < lines.length) {
+    const { text, line } = lines[i];
+    const match = text.match(LIST_ITEM);
+
+    if (!match || getIndent(match[1]) > baseIndent + 1) break;
+    if (/\d/.test(match[2]) !== ordered) break;
+
+    const checkbox = match[3].match(CHECKBOX);
+    const item: MarkdownListItem = {
+      children: parseInline(checkbox ? checkbox[2] || '' : match[3]),
+      checked: checkbox ? checkbox[1] !== ' ' : null,
+      line,
+      blocks: []
+    };
+    items.push(item);
+    i++;
+
+    // Baris yang menjorok lebih dalam (sub-daftar, lanjutan teks) milik item ini
+    const nested: SourceLine[] = [];
+    while (i < lines.length) {
+      const current = lines[i];
+      if (isBlank(current.text)) {
+        const following = lines.slice(i + 1).find(next => !isBlank(next.text));
+        if (!following || getIndent(following.text) <= baseIndent + 1) break;
+      } else if (getIndent(current.text) <= baseIndent + 1) {
+        break;
+      }
+      nested.push(current);
+      i++;
+    }
+
+    if (nested.length > 0) {
+      const indent = Math.min(...nested.filter(entry => !isBlank(entry.text)).map(entry => getIndent(entry.text)));
+      item.blocks = parseBlockLines(nested.map(entry => ({
+        text: entry.text.replace(/\t/g, '    ').slice(indent),
+        line: entry.line
+      })));
+    }
+
+    // Baris kosong di antara item tidak memutus daftar
+    while (i < lines.length && isBlank(lines[i].text)) {
+      const following = lines.slice(i + 1).find(next => !isBlank(next.text));
+      const followingItem = following && following.text.match(LIST_ITEM);
+      if (!followingItem || getIndent(followingItem[1]) > baseIndent + 1) break;
+      i++;
+    }
+  }
+
+  return {
+    block: { type: 'list', ordered, start: ordered ? parseInt(first[2], 10) : 1, items },
+    next: i
+  };
+};
+
+const parseTable = (lines: SourceLine[], start: number): { block: MarkdownBlock; next: number } => {
+  const header = splitTableRow(lines[start].text);
+  const align: MarkdownTableAlign[] = splitTableRow(lines[start + 1].text).map(cell => {
+    const left = cell.startsWith(':');
+    const right = cell.endsWith(':');
+    if (left && right) return 'center';
+    if (right) return 'right';
+    if (left) return 'left';
+    return null;
+  });
+
+  const rows: MarkdownInline[][][] = [];
+  let i = start + 2;
+  while (i < lines.length && !isBlank(lines[i].text) && lines[i].text.includes('|')) {
+    const cells = splitTableRow(lines[i].text);
+    rows.push(header.map((_, column) => parseInline(cells[column] || '')));
+    i++;
+  }
+
+  return {
+    block: {
+      type: 'table',
+      align: header.map((_, column) => align[column] || null),
+      header: header.map(cell => parseInline(cell)),
+      rows
+    },
+    next: i
+  };
+};
+
+const parseBlockLines = (lines: SourceLine[]): MarkdownBlock[] => {
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const { text } = lines[i];
+
+    if (isBlank(text)) {
+      i++;
+      continue;
+    }
+
+    const fence = text.match(FENCE);
+    if (fence) {
+      const marker = fence[1];
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !(lines[i].text.trim().startsWith(marker) && lines[i].text.trim().replace(/[`~]/g, '') === '')) {
+        code.push(lines[i].text);
+        i++;
+      }
+      blocks.push({ type: 'code', language: fence[2], text: code.join('\n') });
+      i++; // Pagar penutup (atau akhir isi)
+      continue;
+    }
+
+    const heading = text.match(HEADING);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2]) });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(text)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(text)) {
+      const quoted: SourceLine[] = [];
+      while (i < lines.length && QUOTE.test(lines[i].text)) {
+        quoted.push({ text: lines[i].text.match(QUOTE)![1], line: lines[i].line });
+        i++;
+      }
+      blocks.push({ type: 'quote', children: parseBlockLines(quoted) });
+      continue;
+    }
+
+    if (LIST_ITEM.test(text)) {
+      const { block, next } = parseList(lines, i);
+      blocks.push(block);
+      i = next;
+      continue;
+    }
+
+    if (isTableStart(lines, i)) {
+      const { block, next } = parseTable(lines, i);
+      blocks.push(block);
+      i = next;
+      continue;
+    }
+
+    // Paragraf: baris berurutan sampai baris kosong atau awal blok lain.
+    // Pindah baris tetap ditampilkan seperti saat menulis.
+    const paragraph: string[] = [text.trim()];
+    i++;
+    while (i < lines.length && !isBlank(lines[i].text) && !startsBlock(lines, i)) {
+      paragraph.push(lines[i].text.trim());
+      i++;
+    }
+    blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) });
+  }
+
+  return blocks;
+};
+
+export const parseMarkdown = (content: string): MarkdownBlock[] =>
+  parseBlockLines(content.replace(/\r\n?/g, '\n').split('\n').map((text, line) => ({ text, line })));
+
+// Mencentang atau menghapus centang item checklist pada baris tertentu
+export const toggleChecklistItem = (content: string, line: number): string => {
+  const lines = content.split('\n');
+  const target = lines[line];
+  if (target === undefined) return content;
+
+  lines[line] = target.replace(
+    /^((?:\s{0,3}>\s?)*\s*(?:[-*+]|\d{1,9}[.)])\s+)\[([ xX])\]/,
+    (_, prefix: string, mark: string) => `${prefix}[${mark === ' ' ? 'x' : ' '}]`
+  );
+  return lines.join('\n');
+};
@@ -0,0 +1,223 @@
+import { MarkdownEdit, MarkdownFormat } from '../types/markdown';
+
+/**
+ * Suntingan Markdown dari toolbar dan pintasan keyboard editor note. Setiap fungsi
+ * mengembalikan isi baru beserta seleksinya, sehingga perubahan tetap dikirim lewat
+ * sinkronisasi biasa seperti ketikan.
+ */
+
+type InlineFormat = 'bold' | 'italic' | 'strike' | 'code';
+type LineFormat = 'heading' | 'bulletList' | 'orderedList' | 'checklist' | 'quote';
+
+const INLINE_MARKERS: Record<InlineFormat, string> = {
+  bold: '**',
+  italic: '*',
+  strike: '~~',
+  code: '`',
+};
+
+const INLINE_PLACEHOLDERS: Record<InlineFormat, string> = {
+  bold: 'teks tebal',
+  italic: 'teks miring',
+  strike: 'teks dicoret',
+  code: 'kode',
+};
+
+// Awalan yang sudah ada pada baris untuk setiap format baris
+const LINE_PATTERNS: Record<LineFormat, RegExp> = {
+  heading: /^#{1,6}\s+/,
+  bulletList: /^[-*+]\s+(?!\[[ xX]\])/,
+  orderedList: /^\d{1,9}[.)]\s+/,
+  checklist: /^[-*+]\s+\[[ xX]\]\s*/,
+  quote: /^>\s?/,
+};
+
+// Awalan daftar jenis lain diganti saat baris diubah menjadi daftar
+const LIST_PREFIX = /^(?:[-*+]\s+\[[ xX]\]\s*|[-*+]\s+|\d{1,9}[.)]\s+)/;
+
+// Item daftar pada baris: indentasi/kutipan, penanda, nomor dan isi
+const LIST_LINE = /^(\s*(?:>\s?)*)([-*+]\s+\[[ xX]\]\s+|[-*+]\s+|(\d{1,9})([.)])\s+)(.*)$/;
+
+const TABLE_TEMPLATE = '| Kolom 1 | Kolom 2 |\n| --- | --- |\n|  |  |';
+
+const isInlineFormat = (format: MarkdownFormat): format is InlineFormat => format in INLINE_MARKERS;
+const isLineFormat = (format: MarkdownFormat): format is LineFormat => format in LINE_PATTERNS;
+
+// Rentang baris penuh yang tersentuh seleksi
+const getLineRange = (text: string, start: number, end: number) => {
+  const lineStart = text.lastIndexOf('\n', start - 1) + 1;
+  // Seleksi yang berakhir tepat setelah pindah baris tidak menyertakan baris berikutnya
+  const lastIndex = end > start && text[end - 1] === '\n' ? end - 1 : end;
+  const newline = text.indexOf('\n', lastIndex);
+  return { lineStart, lineEnd: newline === -1 ? text.length : newline };
+};
+
+const replaceRange = (text: string, start: number, end: number, value: string) =>
+  text.slice(0, start) + value + text.slice(end);
+
+const toggleInline = (text: string, start: number, end: number, format: InlineFormat): MarkdownEdit => {
+  const marker = INLINE_MARKERS[format];
+  const length = marker.length;
+  const selected = text.slice(start, end);
+
+  // Sudah diapit penanda (di luar atau di dalam seleksi): penanda dilepas
+  if (text.slice(start - length, start) === marker && text.slice(end, end + length) === marker) {
+    return {
+      text: text.slice(0, start - length) + selected + text.slice(end + length),
+      selectionStart: start - length,
+      selectionEnd: end - length
+    };
+  }
+  if (selected.length > length * 2 && selected.startsWith(marker) && selected.endsWith(marker)) {
+    const inner = selected.slice(length, -length);
+    return { text: replaceRange(text, start, end, inner), selectionStart: start, selectionEnd: start + inner.length };
+  }
+
+  const value = selected || INLINE_PLACEHOLDERS[format];
+  return {
+    text: replaceRange(text, start, end, marker + value + marker),
+    selectionStart: start + length,
+    selectionEnd: start + length + value.length
+  };
+};
+
+const insertLink = (text: string, start: number, end: number): MarkdownEdit => {
+  const selected = text.slice(start, end);
+  const label = selected || 'teks link';
+  const url = 'https://';
+  const value = `[${label}](${url})`;
+
+  // Dengan teks terpilih, URL yang langsung dipilih untuk diganti; tanpa itu, labelnya
+  const urlStart = start + label.length + 3;
+  return {
+    text: replaceRange(text, start, end, value),
+    selectionStart: selected ? urlStart : start + 1,
+    selectionEnd: selected ? urlStart + url.length : start + 1 + label.length
+  };
+};
+
+const toggleLinePrefix = (text: string, start: number, end: number, format: LineFormat): MarkdownEdit => {
+  const { lineStart, lineEnd } = getLineRange(text, start, end);
+  const lines = text.slice(lineStart, lineEnd).split('\n');
+  const pattern = LINE_PATTERNS[format];
+  const filled = lines.filter(line => line.trim() !== '');
+  const remove = filled.length > 0 && filled.every(line => pattern.test(line));
+
+  let number = 0;
+  const updated = lines.map(line => {
+    if (remove) return line.replace(pattern, '');
+    if (line.trim() === '' && lines.length > 1) return line;
+
+    number++;
+    switch (format) {
+      case 'heading':
+        return '## ' + line.replace(pattern, '');
+      case 'quote':
+        return '> ' + line;
+      case 'bulletList':
+        return '- ' + line.replace(LIST_PREFIX, '');
+      case 'orderedList':
+        return `${number}. ` + line.replace(LIST_PREFIX, '');
+      case 'checklist':
+        return '- [ ] ' + line.replace(LIST_PREFIX, '');
+    }
+    return line;
+  });
+
+  const block = updated.join('\n');
+  const newText = replaceRange(text, lineStart, lineEnd, block);
+
+  // Kursor tanpa seleksi pindah ke akhir baris, seleksi mencakup seluruh baris
+  if (start === end && lines.length === 1) {
+    return { text: newText, selectionStart: lineStart + block.length, selectionEnd: lineStart + block.length };
+  }
+  return { text: newText, selectionStart: lineStart, selectionEnd: lineStart + block.length };
+};
+
+const toggleCodeBlock = (text: string, start: number, end: number): MarkdownEdit => {
+  const { lineStart, lineEnd } = getLineRange(text, start, end);
+  const block = text.slice(lineStart, lineEnd);
+  const lines = block.split('\n');
+
+  if (lines.length >= 2 && /^(`{3,}|~{3,})/.test(lines[0]) && /^(`{3,}|~{3,})\s*$/.test(lines[lines.length - 1])) {
+    const inner = lines.slice(1, -1).join('\n');
+    return {
+      text: replaceRange(text, lineStart, lineEnd, inner),
+      selectionStart: lineStart,
+      selectionEnd: lineStart + inner.length
+    };
+  }
+
+  const fenced = '```\n' + block + '\n```';
+  return {
+    text: replaceRange(text, lineStart, lineEnd, fenced),
+    selectionStart: lineStart + 4,
+    selectionEnd: lineStart + 4 + block.length
+  };
+};
+
+// Tabel disisipkan sebagai blok baru setelah baris kursor
+const insertTable = (text: string, end: number): MarkdownEdit => {
+  const { lineStart, lineEnd } = getLineRange(text, end, end);
+  const before = text.slice(lineStart, lineEnd).trim() === '' ? '' : '\n\n';
+  const after = lineEnd < text.length ? '\n' : '';
+  const value = before + TABLE_TEMPLATE + after;
+  const headerStart = lineEnd + before.length + 2;
+
+  return {
+    text: replaceRange(text, lineEnd, lineEnd, value),
+    selectionStart: headerStart,
+    selectionEnd: headerStart + 'Kolom 1'.length
+  };
+};
+
+export const applyMarkdownFormat = (
+  text: string,
+  selectionStart: number,
+  selectionEnd: number,
+  format: MarkdownFormat
+): MarkdownEdit => {
+  if (isInlineFormat(format)) return toggleInline(text, selectionStart, selectionEnd, format);
+  if (isLineFormat(format)) return toggleLinePrefix(text, selectionStart, selectionEnd, format);
+  if (format === 'link') return insertLink(text, selectionStart, selectionEnd);
+  if (format === 'codeBlock') return toggleCodeBlock(text, selectionStart, selectionEnd);
+  return insertTable(text, selectionEnd);
+};
+
+// Enter di item daftar: lanjutkan dengan penanda yang sama (checklist baru belum dicentang,
+// nomor bertambah). Enter di item kosong mengakhiri daftar. null = Enter biasa.
+export const continueMarkdownList = (text: string, selectionStart: number, selectionEnd: number): MarkdownEdit | null => {
+  if (selectionStart !== selectionEnd) return null;
+
+  const { lineStart, lineEnd } = getLineRange(text, selectionStart, selectionStart);
+  const match = text.slice(lineStart, lineEnd).match(LIST_LINE);
+  if (!match) return null;
+
+  const [, indent, marker, number, delimiter, content] = match;
+  if (selectionStart < lineStart + indent.length + marker.length) return null;
+
+  if (content.trim() === '') {
+    return {
+      text: replaceRange(text, lineStart, lineEnd, indent),
+      selectionStart: lineStart + indent.length,
+      selectionEnd: lineStart + indent.length
+    };
+  }
+
+  const nextMarker = number
+    ? `${parseInt(number, 10) + 1}${delimiter} `
+    : marker.replace(/\[[xX]\]/, '[ ]');
+  const insertion = '\n' + indent + nextMarker;
+  return {
+    text: replaceRange(text, selectionStart, selectionStart, insertion),
+    selectionStart: selectionStart + insertion.length,
+    selectionEnd: selectionStart + insertion.length
+  };
+};
+
+// Pintasan keyboard (Ctrl/Cmd + tombol) untuk format di editor
+export const MARKDOWN_SHORTCUTS: { [key: string]: MarkdownFormat } = {
+  b: 'bold',
+  i: 'italic',
+  k: 'link',
+};
@@ -0,0 +1,94 @@
+import {
+  HomeMemberProfile,
+  HomeMemberProfileUpdate,
+  HomeRelationship,
+  MemberHandoverMode,
+  UserProfile
+} from '../types/user';
+import { HOME_ACCENT_COLORS } from './homeProfile';
+
+/**
+ * Nama panggilan, hubungan, ulang tahun dan warna anggota di dalam satu rumah.
+ * Nama panggilan didahulukan di semua tempat nama anggota ditampilkan.
+ */
+
+export const MEMBER_NICKNAME_MAX_LENGTH = 30;
+
+// Pengganti `createdBy` untuk konten yang dianonimkan saat pembuatnya keluar
+export const FORMER_MEMBER_ID = 'former-member';
+export const FORMER_MEMBER_NAME = 'Mantan anggota';
+
+export const MEMBER_HANDOVER_LABELS: Record<MemberHandoverMode, string> = {
+  reassign: 'Serahkan ke anggota lain',
+  anonymize: 'Simpan sebagai "Mantan anggota"',
+  delete: 'Hapus',
+};
+
+export const HOME_RELATIONSHIP_LABELS: Record<HomeRelationship, string> = {
+  partner: 'Pasangan',
+  spouse: 'Suami/Istri',
+  parent: 'Orang tua',
+  child: 'Anak',
+  sibling: 'Saudara',
+  roommate: 'Teman serumah',
+  friend: 'Teman',
+  other: 'Lainnya',
+};
+
+// Palet yang sama dengan warna aksen rumah
+export const MEMBER_COLORS = HOME_ACCENT_COLORS;
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+const BIRTHDAY = /^\d{4}-\d{2}-\d{2}$/;
+
+// Warna bawaan diturunkan dari ID agar tetap sama di semua perangkat
+export const getDefaultMemberColor = (userId: string) => {
+  const index = userId.split('').reduce((acc, char) => acc + char.charCodeAt(0), 0) % MEMBER_COLORS.length;
+  return MEMBER_COLORS[index].value;
+};
+
+export const getMemberColor = (userId: string, profile?: Pick<HomeMemberProfile, 'color'> | null) =>
+  profile?.color && HEX_COLOR.test(profile.color) ? profile.color : getDefaultMemberColor(userId);
+
+type NamedMember = Pick<UserProfile, 'displayName' | 'email'> & { homeProfile?: Pick<HomeMemberProfile, 'nickname'> | null };
+
+export const getMemberName = (member: NamedMember | null | undefined, fallback = 'Anggota') =>
+  member?.homeProfile?.nickname || member?.displayName || member?.email || fallback;
+
+export const getMemberInitials = (name: string) => {
+  const words = name.trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return '?';
+  if (words.length === 1) return words[0].charAt(0).toUpperCase();
+  return `${words[0].charAt(0)}${words[1].charAt(0)}`.toUpperCase();
+};
+
+// Contoh "12 Maret"; tahun lahir tidak ditampilkan
+export const formatBirthday = (birthday: string) => {
+  const [year, month, day] = birthday.split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString('id-ID', { day: 'numeric', month: 'long' });
+};
+
+export const isBirthdayToday = (birthday: string | undefined, now: Date = new Date()) => {
+  if (!birthday || !BIRTHDAY.test(birthday)) return false;
+  const [, month, day] = birthday.split('-').map(Number);
+  return now.getMonth() + 1 === month && now.getDate() === day;
+};
+
+export const validateMemberProfile = (profile: HomeMemberProfileUpdate): string | null => {
+  if (profile.nickname && profile.nickname.trim().length > MEMBER_NICKNAME_MAX_LENGTH) {
+    return `Nama panggilan maksimal ${MEMBER_NICKNAME_MAX_LENGTH} karakter`;
+  }
+  if (profile.relationship && !(profile.relationship in HOME_RELATIONSHIP_LABELS)) {
+    return 'Hubungan tidak dikenal';
+  }
+  if (profile.birthday) {
+    const date = new Date(`${profile.birthday}T00:00:00`);
+    if (!BIRTHDAY.test(profile.birthday) || isNaN(date.getTime()) || date > new Date()) {
+      return 'Tanggal ulang tahun tidak valid';
+    }
+  }
+  if (profile.color && !HEX_COLOR.test(profile.color)) {
+    return 'Warna harus dalam format hex, contoh #3b82f6';
+  }
+  return null;
+};
@@ -0,0 +1,60 @@
+import { NoteAttachment, NoteAttachmentKind } from '../types/user';
+import { MarkdownEdit } from '../types/markdown';
+
+/**
+ * Lampiran dirujuk dari isi note dengan skema `attachment:`, sehingga isi note
+ * tetap berupa teks biasa dan lampiran ikut tersalin saat note disunting bersama.
+ */
+
+export const ATTACHMENT_URL_SCHEME = 'attachment:';
+
+// Batas ukuran berkas setelah kompresi (samakan dengan storage.rules)
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+
+// Gambar yang bisa dikompres dan ditampilkan langsung di note
+export const IMAGE_CONTENT_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
+
+export const getAttachmentKind = (contentType: string): NoteAttachmentKind =>
+  IMAGE_CONTENT_TYPES.includes(contentType) ? 'image' : 'file';
+
+export const getAttachmentId = (url: string) =>
+  url.startsWith(ATTACHMENT_URL_SCHEME) ? url.slice(ATTACHMENT_URL_SCHEME.length) : null;
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1).replace('.', ',')} MB`;
+};
+
+// Label jenis berkas dari ekstensi nama, atau dari tipe MIME jika tanpa ekstensi
+export const getAttachmentTypeLabel = (attachment: Pick<NoteAttachment, 'name' | 'contentType'>) => {
+  const extension = attachment.name.includes('.') ? attachment.name.split('.').pop() : '';
+  if (extension && extension.length <= 5) return extension.toUpperCase();
+  const subtype = attachment.contentType.split('/')[1];
+  return subtype ? subtype.split(/[.+-]/)[0].toUpperCase() : 'FILE';
+};
+
+// Karakter yang memutus sintaks link dibuang dari nama yang ditampilkan
+const escapeLabel = (name: string) => name.replace(/[[\]\\\n]/g, ' ').trim() || 'lampiran';
+
+export const buildAttachmentMarkdown = (attachment: Pick<NoteAttachment, 'id' | 'kind' | 'name'>) =>
+  `${attachment.kind === 'image' ? '!' : ''}[${escapeLabel(attachment.name)}](${ATTACHMENT_URL_SCHEME}${attachment.id})`;
+
+// Rujukan lampiran disisipkan di posisi kursor, masing-masing di barisnya sendiri
+export const insertAttachmentMarkdown = (
+  content: string,
+  position: number,
+  attachments: Pick<NoteAttachment, 'id' | 'kind' | 'name'>[]
+): MarkdownEdit => {
+  const at = Math.min(Math.max(position, 0), content.length);
+  const before = at > 0 && content[at - 1] !== '\n' ? '\n' : '';
+  const after = at < content.length && content[at] !== '\n' ? '\n' : '';
+  const inserted = before + attachments.map(buildAttachmentMarkdown).join('\n') + after;
+  const cursor = at + inserted.length - after.length;
+
+  return {
+    text: content.slice(0, at) + inserted + content.slice(at),
+    selectionStart: cursor,
+    selectionEnd: cursor,
+  };
+};
@@ -0,0 +1,87 @@
+import { Note } from '../types/user';
+import { MarkdownEdit } from '../types/markdown';
+
+/**
+ * Link antar note ala wiki: `[[Judul note]]` di isi note merujuk ke note lain di rumah
+ * yang sama berdasarkan judulnya (tanpa membedakan huruf besar/kecil dan spasi ganda).
+ */
+
+const NOTE_LINK = /\[\[([^[\]\n]+?)\]\]/g;
+
+// Teks setelah [[ yang sedang diketik, sampai ke kursor
+const OPEN_NOTE_LINK = /\[\[([^[\]\n]*)$/;
+
+const MAX_NOTE_LINK_SUGGESTIONS = 8;
+
+export const normalizeNoteLinkTitle = (title: string) => title.trim().replace(/\s+/g, ' ').toLowerCase();
+
+// Judul yang bisa ditulis sebagai link (tidak kosong dan tidak mengandung kurung siku atau baris baru)
+export const isValidNoteLinkTitle = (title: string) => !!title.trim() && !/[[\]\n]/.test(title);
+
+// Judul-judul yang dirujuk sebuah isi note (sudah dinormalisasi, tanpa duplikat)
+export const extractNoteLinks = (content: string) => {
+  const titles = new Set<string>();
+  Array.from(content.matchAll(NOTE_LINK)).forEach(match => {
+    if (isValidNoteLinkTitle(match[1])) titles.add(normalizeNoteLinkTitle(match[1]));
+  });
+  return Array.from(titles);
+};
+
+// Note yang dituju sebuah link. Jika ada beberapa note berjudul sama, yang paling lama dibuat dipakai.
+export const findNoteByLinkTitle = <T extends Pick<Note, 'title' | 'createdAt'>>(notes: T[], title: string) => {
+  const normalized = normalizeNoteLinkTitle(title);
+  return notes
+    .filter(note => normalizeNoteLinkTitle(note.title) === normalized)
+    .reduce<T | null>((oldest, note) => (!oldest || note.createdAt < oldest.createdAt ? note : oldest), null);
+};
+
+// Note lain yang memuat link ke `target`
+export const getNoteBacklinks = (notes: Note[], target: Pick<Note, 'id' | 'title'>) => {
+  if (!isValidNoteLinkTitle(target.title)) return [];
+
+  const normalized = normalizeNoteLinkTitle(target.title);
+  if (findNoteByLinkTitle(notes, target.title)?.id !== target.id) return [];
+
+  return notes.filter(note => note.id !== target.id && extractNoteLinks(note.content || '').includes(normalized));
+};
+
+// Mengganti semua link ke `oldTitle` dengan `newTitle`; isi dikembalikan apa adanya jika tidak ada link
+export const renameNoteLinks = (content: string, oldTitle: string, newTitle: string) => {
+  const normalized = normalizeNoteLinkTitle(oldTitle);
+  return content.replace(NOTE_LINK, (link, title: string) =>
+    normalizeNoteLinkTitle(title) === normalized ? `[[${newTitle.trim()}]]` : link);
+};
+
+// Link yang sedang diketik di posisi kursor, untuk saran judul
+export const getNoteLinkQuery = (content: string, cursor: number) => {
+  const match = content.slice(0, cursor).match(OPEN_NOTE_LINK);
+  return match ? { start: cursor - match[1].length, query: match[1] } : null;
+};
+
+export const getNoteLinkSuggestions = (notes: Note[], query: string, excludeId: string) => {
+  const normalized = normalizeNoteLinkTitle(query);
+  return notes
+    .filter(note => note.id !== excludeId && isValidNoteLinkTitle(note.title))
+    .filter(note => normalizeNoteLinkTitle(note.title).includes(normalized))
+    .sort((a, b) => {
+      // Judul yang diawali kata kunci didahulukan
+      const aStarts = normalizeNoteLinkTitle(a.title).startsWith(normalized) ? 0 : 1;
+      const bStarts = normalizeNoteLinkTitle(b.title).startsWith(normalized) ? 0 : 1;
+      return aStarts - bStarts || a.title.localeCompare(b.title, 'id');
+    })
+    .slice(0, MAX_NOTE_LINK_SUGGESTIONS);
+};
+
+// Melengkapi link yang sedang diketik (dari `start` sampai kursor) dengan judul note
+export const completeNoteLink = (content: string, start: number, cursor: number, title: string): MarkdownEdit => {
+  const closed = content.startsWith(']]', cursor);
+  const inserted = `${title.trim()}]]`;
+  const end = cursor + (closed ? 2 : 0);
+  const position = start + inserted.length;
+
+  return {
+    text: content.slice(0, start) + inserted + content.slice(end),
+    selectionStart: position,
+    selectionEnd: position,
+  };
+};
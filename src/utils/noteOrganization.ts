@@ -0,0 +1,135 @@
+import { Note, NoteFolder, NoteSortOrder } from '../types/user';
+import { HOME_ACCENT_COLORS } from './homeProfile';
+
+/**
+ * Pengaturan daftar note: folder bersarang, tag, pin, warna dan urutan.
+ */
+
+export const NOTE_FOLDER_NAME_MAX_LENGTH = 40;
+export const NOTE_TAG_MAX_LENGTH = 24;
+export const NOTE_MAX_TAGS = 10;
+
+export const NOTE_COLORS = HOME_ACCENT_COLORS;
+
+// Pilihan filter sidebar untuk note yang tidak berada di folder mana pun
+export const UNFILED_FOLDER = 'unfiled';
+
+export const NOTE_SORT_LABELS: Record<NoteSortOrder, string> = {
+  updated: 'Terakhir diubah',
+  title: 'Judul (A-Z)',
+  created: 'Tanggal dibuat',
+  editedByMe: 'Terakhir saya edit',
+};
+
+// Tag disimpan tanpa "#", huruf kecil, spasi menjadi tanda hubung
+export const normalizeNoteTag = (tag: string) =>
+  tag
+    .trim()
+    .replace(/^#+/, '')
+    .toLocaleLowerCase('id-ID')
+    .replace(/\s+/g, '-')
+    .slice(0, NOTE_TAG_MAX_LENGTH);
+
+export const normalizeNoteTags = (tags: string[]) =>
+  Array.from(new Set(tags.map(normalizeNoteTag).filter(Boolean))).slice(0, NOTE_MAX_TAGS);
+
+export const validateNoteFolderName = (name: string): string | null => {
+  if (!name.trim()) return 'Nama folder tidak boleh kosong';
+  if (name.trim().length > NOTE_FOLDER_NAME_MAX_LENGTH) {
+    return `Nama folder maksimal ${NOTE_FOLDER_NAME_MAX_LENGTH} karakter`;
+  }
+  return null;
+};
+
+// Folder yang sudah dihapus (atau dari rumah lain) dianggap di luar folder
+export const getNoteFolderId = (note: Pick<Note, 'folderId'>, folders: NoteFolder[]) =>
+  note.folderId && folders.some(folder => folder.id === note.folderId) ? note.folderId : null;
+
+// ID folder beserta seluruh subfoldernya
+export const getFolderWithDescendants = (folderId: string, folders: NoteFolder[]): Set<string> => {
+  const ids = new Set([folderId]);
+  const queue = [folderId];
+  while (queue.length > 0) {
+    const parentId = queue.shift();
+    folders.forEach(folder => {
+      if (folder.parentId === parentId && !ids.has(folder.id)) {
+        ids.add(folder.id);
+        queue.push(folder.id);
+      }
+    });
+  }
+  return ids;
+};
+
+// Folder tidak boleh dipindahkan ke dalam dirinya sendiri atau subfoldernya
+export const canMoveFolder = (folderId: string, parentId: string | null, folders: NoteFolder[]) =>
+  parentId === null || !getFolderWithDescendants(folderId, folders).has(parentId);
+
+// Jalur folder untuk ditampilkan, contoh "Liburan / Bali"
+export const getFolderPath = (folderId: string, folders: NoteFolder[]) => {
+  const names: string[] = [];
+  const visited = new Set<string>();
+  let current = folders.find(folder => folder.id === folderId);
+  while (current && !visited.has(current.id)) {
+    visited.add(current.id);
+    names.unshift(current.name);
+    const parentId = current.parentId;
+    current = parentId ? folders.find(folder => folder.id === parentId) : undefined;
+  }
+  return names.join(' / ');
+};
+
+// Folder berurutan seperti pohon (induk lalu anak-anaknya) beserta kedalamannya
+export const flattenFolderTree = (folders: NoteFolder[]) => {
+  const result: { folder: NoteFolder; depth: number }[] = [];
+  const byName = (a: NoteFolder, b: NoteFolder) => a.name.localeCompare(b.name, 'id-ID');
+  const visit = (parentId: string | null, depth: number) => {
+    folders
+      .filter(folder => (folder.parentId || null) === parentId)
+      .sort(byName)
+      .forEach(folder => {
+        result.push({ folder, depth });
+        visit(folder.id, depth + 1);
+      });
+  };
+
+  visit(null, 0);
+  // Folder yang induknya sudah tidak ada ditampilkan di tingkat teratas
+  const shown = new Set(result.map(entry => entry.folder.id));
+  folders.filter(folder => !shown.has(folder.id)).sort(byName).forEach(folder => {
+    result.push({ folder, depth: 0 });
+  });
+  return result;
+};
+
+// Tag yang dipakai di rumah beserta jumlah note-nya, terbanyak lebih dulu
+export const getNoteTagCounts = (notes: Note[]) => {
+  const counts: { [tag: string]: number } = {};
+  notes.forEach(note => (note.tags || []).forEach(tag => {
+    counts[tag] = (counts[tag] || 0) + 1;
+  }));
+  return Object.keys(counts)
+    .sort((a, b) => counts[b] - counts[a] || a.localeCompare(b, 'id-ID'))
+    .map(tag => ({ tag, count: counts[tag] }));
+};
+
+// Note yang dipin selalu di atas; selebihnya mengikuti urutan pilihan
+export const sortNotes = (notes: Note[], order: NoteSortOrder, userId?: string) => {
+  const time = (date?: Date) => (date ? date.getTime() : 0);
+  const compare = (a: Note, b: Note) => {
+    switch (order) {
+      case 'title':
+        return a.title.localeCompare(b.title, 'id-ID', { sensitivity: 'base' });
+      case 'created':
+        return time(b.createdAt) - time(a.createdAt);
+      case 'editedByMe':
+        // Note yang belum pernah saya edit diurutkan setelahnya menurut waktu diubah
+        return (userId ? time(b.editedAt?.[userId]) - time(a.editedAt?.[userId]) : 0) ||
+          time(b.updatedAt) - time(a.updatedAt);
+      default:
+        return time(b.updatedAt) - time(a.updatedAt);
+    }
+  };
+
+  return [...notes].sort((a, b) => Number(!!b.pinned) - Number(!!a.pinned) || compare(a, b));
+};
@@ -0,0 +1,113 @@
+import { NoteReminder } from '../types/user';
+import { addRecurrence, completeReminder, getNextOccurrence, getReminderFireTime } from './noteReminders';
+
+// Tes berjalan di Europe/Berlin (lihat src/testTimezone.js): jam musim panas mulai
+// 31 Maret 2024 pukul 02:00 dan berakhir 27 Oktober 2024 pukul 03:00
+const HOUR = 60 * 60 * 1000;
+
+const makeReminder = (overrides: Partial<NoteReminder> = {}): NoteReminder => ({
+  startAt: new Date(2024, 0, 10, 9, 0),
+  dueAt: new Date(2024, 0, 10, 9, 0),
+  recurrence: 'daily',
+  recipients: [],
+  snoozedUntil: null,
+  doneAt: null,
+  createdBy: 'user-1',
+  ...overrides,
+});
+
+describe('getNextOccurrence', () => {
+  it('returns null for one-off reminders', () => {
+    const reminder = makeReminder({ recurrence: 'none' });
+    expect(getNextOccurrence(reminder, new Date(2024, 0, 1))).toBeNull();
+  });
+
+  it('returns the start when it is still ahead', () => {
+    const reminder = makeReminder();
+    expect(getNextOccurrence(reminder, new Date(2024, 0, 10, 8, 59))).toEqual(reminder.startAt);
+  });
+
+  it('skips to the first occurrence strictly after the given time', () => {
+    const reminder = makeReminder();
+    expect(getNextOccurrence(reminder, new Date(2024, 0, 10, 9, 0))).toEqual(new Date(2024, 0, 11, 9, 0));
+    expect(getNextOccurrence(reminder, new Date(2024, 5, 3, 12, 0))).toEqual(new Date(2024, 5, 4, 9, 0));
+  });
+
+  it('repeats weekly on the same weekday', () => {
+    const reminder = makeReminder({ recurrence: 'weekly' });
+    expect(getNextOccurrence(reminder, new Date(2024, 1, 1))).toEqual(new Date(2024, 1, 7, 9, 0));
+  });
+
+  it('moves monthly reminders to the last day of shorter months', () => {
+    const start = new Date(2024, 0, 31, 9, 0);
+    const reminder = makeReminder({ startAt: start, dueAt: start, recurrence: 'monthly' });
+
+    expect(getNextOccurrence(reminder, start)).toEqual(new Date(2024, 1, 29, 9, 0));
+    expect(getNextOccurrence(reminder, new Date(2024, 1, 29, 9, 0))).toEqual(new Date(2024, 2, 31, 9, 0));
+    expect(getNextOccurrence(reminder, new Date(2024, 3, 1))).toEqual(new Date(2024, 3, 30, 9, 0));
+  });
+
+  it('keeps the wall-clock time when daylight saving time starts', () => {
+    const start = new Date(2024, 2, 30, 9, 0);
+    const reminder = makeReminder({ startAt: start, dueAt: start });
+
+    const next = getNextOccurrence(reminder, start) as Date;
+    expect(next).toEqual(new Date(2024, 2, 31, 9, 0));
+    expect(next.getTime() - start.getTime()).toBe(23 * HOUR);
+  });
+
+  it('keeps the wall-clock time when daylight saving time ends', () => {
+    const start = new Date(2024, 9, 26, 9, 0);
+    const reminder = makeReminder({ startAt: start, dueAt: start });
+
+    const next = getNextOccurrence(reminder, start) as Date;
+    expect(next).toEqual(new Date(2024, 9, 27, 9, 0));
+    expect(next.getTime() - start.getTime()).toBe(25 * HOUR);
+  });
+
+  it('counts occurrences from the start across several DST changes', () => {
+    const start = new Date(2023, 11, 1, 7, 30);
+    const reminder = makeReminder({ startAt: start, dueAt: start, recurrence: 'weekly' });
+
+    expect(getNextOccurrence(reminder, new Date(2024, 10, 1))).toEqual(addRecurrence(start, 'weekly', 48));
+    expect(getNextOccurrence(reminder, new Date(2024, 10, 1))?.getHours()).toBe(7);
+  });
+});
+
+describe('completeReminder', () => {
+  it('finishes one-off reminders', () => {
+    const reminder = makeReminder({ recurrence: 'none', snoozedUntil: new Date(2024, 0, 10, 9, 10) });
+    const now = new Date(2024, 0, 10, 9, 15);
+
+    const completed = completeReminder(reminder, now);
+    expect(completed.doneAt).toEqual(now);
+    expect(completed.snoozedUntil).toBeNull();
+    expect(getReminderFireTime(completed)).toBeNull();
+  });
+
+  it('moves a repeating reminder to the next occurrence without replaying missed ones', () => {
+    const reminder = makeReminder({ snoozedUntil: new Date(2024, 0, 10, 9, 10) });
+
+    const completed = completeReminder(reminder, new Date(2024, 0, 13, 20, 0));
+    expect(completed.dueAt).toEqual(new Date(2024, 0, 14, 9, 0));
+    expect(completed.startAt).toEqual(reminder.startAt);
+    expect(completed.snoozedUntil).toBeNull();
+    expect(completed.doneAt).toBeNull();
+  });
+
+  it('moves past the current occurrence when completed before it fires', () => {
+    const reminder = makeReminder({ dueAt: new Date(2024, 0, 12, 9, 0) });
+
+    const completed = completeReminder(reminder, new Date(2024, 0, 11, 18, 0));
+    expect(completed.dueAt).toEqual(new Date(2024, 0, 13, 9, 0));
+  });
+
+  it('lands on the same wall-clock time after daylight saving time starts', () => {
+    const start = new Date(2024, 2, 30, 9, 0);
+    const reminder = makeReminder({ startAt: start, dueAt: start });
+
+    const completed = completeReminder(reminder, new Date(2024, 2, 30, 9, 5));
+    expect(completed.dueAt).toEqual(new Date(2024, 2, 31, 9, 0));
+    expect(completed.dueAt.getHours()).toBe(9);
+  });
+});
@@ -0,0 +1,117 @@
+import { Note, NoteReminder, NoteReminderRecurrence } from '../types/user';
+
+/**
+ * Perhitungan pengingat note. Semua fungsi menerima waktu sekarang sebagai
+ * parameter (tidak memanggil `Date.now()` sendiri), sehingga bisa diuji dengan jam palsu.
+ */
+
+export const NOTE_REMINDER_RECURRENCE_LABELS: Record<NoteReminderRecurrence, string> = {
+  none: 'Sekali',
+  daily: 'Setiap hari',
+  weekly: 'Setiap minggu',
+  monthly: 'Setiap bulan',
+};
+
+export const NOTE_REMINDER_SNOOZE_OPTIONS: { minutes: number; label: string }[] = [
+  { minutes: 10, label: '10 menit' },
+  { minutes: 60, label: '1 jam' },
+  { minutes: 24 * 60, label: 'Besok' },
+];
+
+// Kemunculan ke-n dari `start` dengan jam yang sama (mengikuti pergantian waktu musim panas)
+export const addRecurrence = (start: Date, recurrence: NoteReminderRecurrence, count: number) => {
+  const date = new Date(start.getTime());
+  if (recurrence === 'daily') {
+    date.setDate(date.getDate() + count);
+  } else if (recurrence === 'weekly') {
+    date.setDate(date.getDate() + count * 7);
+  } else if (recurrence === 'monthly') {
+    // Tanggal yang tidak ada di bulan tujuan dipindah ke hari terakhir bulan itu
+    date.setDate(1);
+    date.setMonth(date.getMonth() + count);
+    const lastDay = new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate();
+    date.setDate(Math.min(start.getDate(), lastDay));
+  }
+  return date;
+};
+
+// Kemunculan pertama setelah `after`, atau null untuk pengingat sekali
+export const getNextOccurrence = (reminder: Pick<NoteReminder, 'startAt' | 'recurrence'>, after: Date) => {
+  if (reminder.recurrence === 'none') return null;
+  if (reminder.startAt > after) return reminder.startAt;
+
+  // Perkiraan jumlah kemunculan yang sudah lewat, lalu dikoreksi maju
+  const days = (after.getTime() - reminder.startAt.getTime()) / (24 * 60 * 60 * 1000);
+  const perOccurrence = reminder.recurrence === 'daily' ? 1 : reminder.recurrence === 'weekly' ? 7 : 31;
+  let count = Math.max(0, Math.floor(days / perOccurrence) - 1);
+  let next = addRecurrence(reminder.startAt, reminder.recurrence, count);
+  while (next <= after) {
+    count++;
+    next = addRecurrence(reminder.startAt, reminder.recurrence, count);
+  }
+  return next;
+};
+
+// Waktu pengingat berbunyi berikutnya, atau null jika sudah selesai
+export const getReminderFireTime = (reminder: NoteReminder | null | undefined) => {
+  if (!reminder || reminder.doneAt) return null;
+  return reminder.snoozedUntil && reminder.snoozedUntil > reminder.dueAt ? reminder.snoozedUntil : reminder.dueAt;
+};
+
+export const isReminderDue = (reminder: NoteReminder | null | undefined, now: Date) => {
+  const fireTime = getReminderFireTime(reminder);
+  return !!fireTime && fireTime <= now;
+};
+
+export const isReminderRecipient = (reminder: Pick<NoteReminder, 'recipients'>, userId: string) =>
+  reminder.recipients.length === 0 || reminder.recipients.includes(userId);
+
+// Menandai selesai: pengingat sekali berhenti, pengingat berulang maju ke kemunculan
+// berikutnya setelah sekarang (kemunculan yang terlewat tidak diulang)
+export const completeReminder = (reminder: NoteReminder, now: Date): NoteReminder => {
+  const after = reminder.dueAt > now ? reminder.dueAt : now;
+  const next = getNextOccurrence(reminder, after);
+  return next
+    ? { ...reminder, dueAt: next, snoozedUntil: null, doneAt: null }
+    : { ...reminder, snoozedUntil: null, doneAt: now };
+};
+
+export const snoozeReminder = (reminder: NoteReminder, now: Date, minutes: number): NoteReminder => ({
+  ...reminder,
+  snoozedUntil: new Date(now.getTime() + minutes * 60 * 1000),
+});
+
+export const createReminder = (
+  dueAt: Date,
+  recurrence: NoteReminderRecurrence,
+  recipients: string[],
+  createdBy: string
+): NoteReminder => ({
+  startAt: dueAt,
+  dueAt,
+  recurrence,
+  recipients,
+  snoozedUntil: null,
+  doneAt: null,
+  createdBy,
+});
+
+// Pengingat aktif untuk user, diurutkan dari yang paling dulu berbunyi
+export const getUpcomingReminders = (notes: Note[], userId: string) =>
+  notes
+    .filter(note => note.reminder && getReminderFireTime(note.reminder) && isReminderRecipient(note.reminder, userId))
+    .sort((a, b) => getReminderFireTime(a.reminder)!.getTime() - getReminderFireTime(b.reminder)!.getTime());
+
+// Nilai untuk <input type="datetime-local"> dalam zona waktu perangkat
+export const toDateTimeLocalValue = (date: Date) => {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` +
+    `T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+export const formatReminderTime = (date: Date, now: Date) => {
+  const sameDay = date.toDateString() === now.toDateString();
+  return date.toLocaleString('id-ID', sameDay
+    ? { hour: '2-digit', minute: '2-digit' }
+    : { weekday: 'short', day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+};
@@ -0,0 +1,121 @@
+import { NoteDiffLine, NoteRevision } from '../types/user';
+
+/**
+ * Riwayat revisi note. Auto-save berjalan tiap detik, jadi revisi tidak dibuat
+ * per simpan: versi sebelumnya disalin saat seorang anggota memulai sesi edit
+ * (belum pernah menyunting atau setelah jeda panjang), atau setiap beberapa menit
+ * selama sesi yang panjang. Sesi dihitung per anggota, sehingga beberapa anggota
+ * yang menyunting bersamaan tidak memicu revisi di setiap operasi.
+ */
+
+// Samakan dengan NOTE_EDIT_SESSION_MINUTES di service notes
+export const NOTE_REVISION_SESSION_MINUTES = 10;
+// Sesi panjang tetap menyimpan revisi secara berkala
+export const NOTE_REVISION_INTERVAL_MINUTES = 30;
+
+// Kebijakan retensi: maksimal 50 revisi per note, revisi lebih dari 90 hari dihapus
+// kecuali 5 revisi terbaru yang selalu disimpan
+export const NOTE_REVISION_MAX_COUNT = 50;
+export const NOTE_REVISION_RETENTION_DAYS = 90;
+export const NOTE_REVISION_MIN_KEEP = 5;
+
+export const NOTE_REVISION_REASON_LABELS: Record<NoteRevision['reason'], string> = {
+  session: 'Sesi edit',
+  interval: 'Simpanan berkala',
+  restore: 'Sebelum dipulihkan',
+};
+
+const MINUTE = 60 * 1000;
+
+interface RevisionState {
+  lastEditAt?: Date | null; // Suntingan terakhir user ini (`Note.editedAt[userId]`)
+  lastRevisionAt?: Date | null;
+}
+
+// Alasan menyimpan revisi untuk suntingan ini, atau null jika masih sesi yang sama
+export const getRevisionReason = (
+  previous: RevisionState,
+  now: Date = new Date()
+): NoteRevision['reason'] | null => {
+  const lastEdit = previous.lastEditAt;
+  if (!lastEdit || now.getTime() - lastEdit.getTime() > NOTE_REVISION_SESSION_MINUTES * MINUTE) {
+    return 'session';
+  }
+
+  const lastRevision = previous.lastRevisionAt;
+  if (!lastRevision || now.getTime() - lastRevision.getTime() > NOTE_REVISION_INTERVAL_MINUTES * MINUTE) {
+    return 'interval';
+  }
+
+  return null;
+};
+
+// Revisi yang dihapus oleh kebijakan retensi; `revisions` diurutkan dari yang terbaru
+export const getExpiredRevisions = <T extends Pick<NoteRevision, 'createdAt'>>(revisions: T[], now: Date = new Date()) => {
+  const cutoff = now.getTime() - NOTE_REVISION_RETENTION_DAYS * 24 * 60 * MINUTE;
+  return revisions.filter((revision, index) =>
+    index >= NOTE_REVISION_MAX_COUNT ||
+    (index >= NOTE_REVISION_MIN_KEEP && revision.createdAt.getTime() < cutoff)
+  );
+};
+
+// Batas sel tabel LCS agar note yang sangat panjang tidak membekukan browser
+const MAX_DIFF_CELLS = 1000000;
+
+// Diff per baris dari `before` ke `after` (longest common subsequence).
+// Awalan dan akhiran yang sama dilewati dulu agar tabel LCS tetap kecil.
+export const diffLines = (before: string, after: string): NoteDiffLine[] => {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const head: NoteDiffLine[] = a.slice(0, start).map(text => ({ type: 'same', text }));
+  const tail: NoteDiffLine[] = a.slice(endA).map(text => ({ type: 'same', text }));
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+
+  if (midA.length * midB.length > MAX_DIFF_CELLS) {
+    return [
+      ...head,
+      ...midA.map((text): NoteDiffLine => ({ type: 'removed', text })),
+      ...midB.map((text): NoteDiffLine => ({ type: 'added', text })),
+      ...tail
+    ];
+  }
+
+  // lcs[i][j] = panjang LCS dari midA[i..] dan midB[j..]
+  const lcs: number[][] = Array.from({ length: midA.length + 1 }, () => new Array(midB.length + 1).fill(0));
+  for (let i = midA.length - 1; i >= 0; i--) {
+    for (let j = midB.length - 1; j >= 0; j--) {
+      lcs[i][j] = midA[i] === midB[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const middle: NoteDiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < midA.length && j < midB.length) {
+    if (midA[i] === midB[j]) {
+      middle.push({ type: 'same', text: midA[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      middle.push({ type: 'removed', text: midA[i++] });
+    } else {
+      middle.push({ type: 'added', text: midB[j++] });
+    }
+  }
+  while (i < midA.length) middle.push({ type: 'removed', text: midA[i++] });
+  while (j < midB.length) middle.push({ type: 'added', text: midB[j++] });
+
+  return [...head, ...middle, ...tail];
+};
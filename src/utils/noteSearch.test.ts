@@ -0,0 +1,154 @@
+import { Note } from '../types/user';
+import {
+  buildNoteSearchEntry,
+  buildNoteSearchVocabulary,
+  isNoteSearchEntryCurrent,
+  parseSearchQuery,
+  searchNotes,
+  stemTerm,
+  tokenize,
+} from './noteSearch';
+
+const makeNote = (id: string, title: string, content: string, updatedAt = new Date(2024, 0, 1)): Note => ({
+  id,
+  homeId: 'home-1',
+  title,
+  content,
+  createdBy: 'user-1',
+  createdAt: new Date(2024, 0, 1),
+  updatedAt,
+});
+
+// Menjalankan pencarian seperti hook pencarian: indeks dan kosakata dibuat dari semua note
+const search = (query: string, notes: Note[]) => {
+  const entries = new Map(notes.map(note => [note.id, buildNoteSearchEntry(note)]));
+  return searchNotes(query, notes, entries, buildNoteSearchVocabulary(Array.from(entries.values())));
+};
+
+const ids = (query: string, notes: Note[]) => search(query, notes).map(result => result.noteId);
+
+describe('tokenize', () => {
+  it('lowercases words, strips diacritics and keeps positions in the original text', () => {
+    expect(tokenize('Café Ümah, 2 kali!')).toEqual([
+      { term: 'cafe', start: 0, end: 4 },
+      { term: 'umah', start: 5, end: 9 },
+      { term: '2', start: 11, end: 12 },
+      { term: 'kali', start: 13, end: 17 },
+    ]);
+  });
+});
+
+describe('stemTerm', () => {
+  it('drops Indonesian particles and possessives', () => {
+    expect(stemTerm('rumahnya')).toBe('rumah');
+    expect(stemTerm('bukuku')).toBe('buku');
+    expect(stemTerm('ayolah')).toBe('ayolah');
+  });
+
+  it('drops English plural and verb endings but keeps short words and numbers', () => {
+    expect(stemTerm('groceries')).toBe('groceri');
+    expect(stemTerm('cooking')).toBe('cook');
+    expect(stemTerm('class')).toBe('class');
+    expect(stemTerm('bus')).toBe('bus');
+    expect(stemTerm('2024')).toBe('2024');
+  });
+});
+
+describe('parseSearchQuery', () => {
+  it('removes stopwords and duplicates', () => {
+    expect(parseSearchQuery('resep dan resep untuk kue')).toEqual(['resep', 'kue']);
+  });
+
+  it('keeps stopwords when the query has nothing else', () => {
+    expect(parseSearchQuery('yang itu')).toEqual(['yang', 'itu']);
+  });
+});
+
+describe('isNoteSearchEntryCurrent', () => {
+  it('is outdated once the title or content changes', () => {
+    const note = makeNote('a', 'Belanja', 'telur');
+    const entry = buildNoteSearchEntry(note);
+
+    expect(isNoteSearchEntryCurrent(entry, note)).toBe(true);
+    expect(isNoteSearchEntryCurrent(entry, { ...note, content: 'telur dan susu', updatedAt: new Date(2024, 0, 2) })).toBe(false);
+    expect(isNoteSearchEntryCurrent(undefined, note)).toBe(false);
+  });
+});
+
+describe('searchNotes', () => {
+  const notes = [
+    makeNote('shopping', 'Daftar belanja', 'Telur, susu, roti tawar dan kopi.'),
+    makeNote('recipe', 'Resep kue', 'Campur telur dengan gula, lalu panggang kue selama 30 menit.'),
+    makeNote('house', 'Perbaikan rumahnya', 'Genteng bocor di kamar belakang.'),
+  ];
+
+  it('returns nothing for an empty query', () => {
+    expect(search('  ', notes)).toEqual([]);
+  });
+
+  it('requires every query word to match', () => {
+    expect(ids('telur', notes).sort()).toEqual(['recipe', 'shopping']);
+    expect(ids('telur gula', notes)).toEqual(['recipe']);
+    expect(ids('telur genteng', notes)).toEqual([]);
+  });
+
+  it('matches word stems, prefixes and small typos', () => {
+    expect(ids('rumah', notes)).toEqual(['house']);
+    expect(ids('panggan', notes)).toEqual(['recipe']);
+    expect(ids('belnaja', notes)).toEqual(['shopping']);
+  });
+
+  it('ranks title matches above content matches', () => {
+    const ranked = [
+      makeNote('content', 'Catatan', 'Jangan lupa beli kopi.'),
+      makeNote('title', 'Kopi favorit', 'Arabika dari Toraja.'),
+    ];
+    expect(ids('kopi', ranked)).toEqual(['title', 'content']);
+  });
+
+  it('boosts notes that contain the whole phrase', () => {
+    const ranked = [
+      makeNote('apart', 'Catatan', 'Roti di lemari, tawar menawar harga di pasar.'),
+      makeNote('phrase', 'Catatan', 'Beli roti tawar di pasar.'),
+    ];
+    expect(ids('roti tawar', ranked)).toEqual(['phrase', 'apart']);
+  });
+
+  it('breaks ties by the most recently updated note', () => {
+    const ranked = [
+      makeNote('old', 'Kopi', '', new Date(2024, 0, 1)),
+      makeNote('new', 'Kopi', '', new Date(2024, 5, 1)),
+    ];
+    expect(ids('kopi', ranked)).toEqual(['new', 'old']);
+  });
+
+  it('skips notes that are not indexed yet', () => {
+    const entries = new Map([[notes[0].id, buildNoteSearchEntry(notes[0])]]);
+    const results = searchNotes('telur', notes, entries, buildNoteSearchVocabulary(Array.from(entries.values())));
+    expect(results.map(result => result.noteId)).toEqual(['shopping']);
+  });
+
+  it('highlights matches in the title and content snippet', () => {
+    const [result] = search('kue', [notes[1]]);
+    const start = notes[1].content.indexOf('kue');
+
+    expect(result.titleHighlights).toEqual([{ start: 6, end: 9 }]);
+    expect(result.match).toEqual({ start, end: start + 3 });
+    expect(result.snippet?.text).toBe(notes[1].content);
+    expect(result.snippet?.highlights).toEqual([{ start, end: start + 3 }]);
+    expect(result.snippet?.leading).toBe(false);
+    expect(result.snippet?.trailing).toBe(false);
+  });
+
+  it('cuts long content into a snippet around the first match', () => {
+    const filler = 'lorem ipsum dolor sit amet '.repeat(20);
+    const note = makeNote('long', 'Catatan', `${filler}kunci cadangan ada di pot bunga. ${filler}`);
+    const [result] = search('kunci', [note]);
+
+    expect(result.snippet?.leading).toBe(true);
+    expect(result.snippet?.trailing).toBe(true);
+    expect(result.snippet?.text.length).toBeLessThanOrEqual(140);
+    const highlight = result.snippet?.highlights[0];
+    expect(highlight && result.snippet?.text.slice(highlight.start, highlight.end)).toBe('kunci');
+  });
+});
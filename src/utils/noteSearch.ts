@@ -0,0 +1,278 @@
+import { Note } from '../types/user';
+import { NoteSearchEntry, NoteSearchMatchKind, NoteSearchResult, TextRange } from '../types/search';
+
+/**
+ * Pencarian teks penuh untuk note, sepenuhnya di sisi klien.
+ *
+ * Judul dan isi dipecah menjadi kata (huruf kecil, tanpa diakritik). Kata di
+ * query cocok dengan kata di note jika bentuk dasarnya sama (imbuhan -nya/-ku/
+ * -lah dan jamak/-ing bahasa Inggris diabaikan), jika kata note diawali kata
+ * query, atau jika hanya berbeda satu-dua huruf (salah ketik). Semua kata query
+ * harus cocok; skor memakai bobot TF-IDF dengan bonus untuk judul dan frasa utuh.
+ */
+
+// Naikkan jika tokenizer berubah agar indeks yang tersimpan dibuat ulang
+export const NOTE_SEARCH_FORMAT = 1;
+
+export const NOTE_SEARCH_MAX_RESULTS = 30;
+const SNIPPET_LENGTH = 140;
+
+const MATCH_WEIGHTS: Record<NoteSearchMatchKind, number> = {
+  exact: 1,
+  prefix: 0.7,
+  fuzzy: 0.45,
+};
+const TITLE_BOOST = 2.5;
+const PHRASE_BOOST = 1.5;
+
+// Kata sambung yang diabaikan di query kecuali query hanya berisi kata tersebut
+const STOPWORDS = new Set([
+  'yang', 'dan', 'di', 'ke', 'dari', 'untuk', 'dengan', 'ini', 'itu', 'atau',
+  'pada', 'adalah', 'juga', 'akan', 'dalam', 'oleh', 'sebagai',
+  'the', 'a', 'an', 'and', 'or', 'of', 'to', 'in', 'on', 'for', 'is', 'are',
+  'with', 'at', 'by', 'from', 'it', 'this', 'that',
+]);
+
+const MIN_STEM_LENGTH = 4;
+const INDONESIAN_SUFFIXES = ['lah', 'kah', 'tah', 'pun', 'nya', 'ku', 'mu'];
+const ENGLISH_SUFFIXES = ['ing', 'ed', 'es', 's'];
+
+interface Token extends TextRange {
+  term: string;
+}
+
+// Satu karakter dalam bentuk pencarian: huruf kecil tanpa tanda diakritik
+const foldChar = (char: string) => {
+  if (char.charCodeAt(0) < 128) return char.toLowerCase();
+  return char.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+};
+
+// Memecah teks menjadi kata beserta posisinya di teks asli
+export const tokenize = (text: string): Token[] => {
+  const tokens: Token[] = [];
+  let term = '';
+  let start = 0;
+
+  for (let i = 0; i <= text.length; i++) {
+    const folded = i < text.length ? foldChar(text[i]) : '';
+    if (/^[a-z0-9]+$/.test(folded)) {
+      if (!term) start = i;
+      term += folded;
+    } else if (term) {
+      tokens.push({ term, start, end: i });
+      term = '';
+    }
+  }
+
+  return tokens;
+};
+
+// Bentuk dasar sederhana: partikel dan kata ganti milik (ID), jamak dan -ing/-ed (EN)
+export const stemTerm = (term: string) => {
+  if (/^\d+$/.test(term)) return term;
+
+  for (const suffix of INDONESIAN_SUFFIXES) {
+    if (term.endsWith(suffix) && term.length - suffix.length >= MIN_STEM_LENGTH) {
+      return term.slice(0, -suffix.length);
+    }
+  }
+  for (const suffix of ENGLISH_SUFFIXES) {
+    if (term.endsWith(suffix) && !term.endsWith('ss') && term.length - suffix.length >= MIN_STEM_LENGTH) {
+      return term.slice(0, -suffix.length);
+    }
+  }
+  return term;
+};
+
+// Jarak edit (termasuk pertukaran dua huruf bersebelahan), berhenti jika melebihi batas
+const editDistance = (a: string, b: string, max: number) => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let prevPrev: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(prev[j] + 1, current[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, prevPrev[j - 2] + 1);
+      }
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+    prevPrev = prev;
+    prev = current;
+  }
+  return prev[b.length];
+};
+
+// Kata pendek harus tepat; salah ketik ditoleransi sesuai panjang kata
+const maxTypos = (term: string) => (term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0);
+
+// Versi berubah setiap judul atau isi berubah (pengaturan folder/tag tidak)
+export const getNoteSearchVersion = (note: Note) =>
+  `${note.updatedAt.getTime()}:${note.title.length}:${note.content.length}`;
+
+export const getNoteSearchKey = (homeId: string, noteId: string) => `${homeId}/${noteId}`;
+
+export const buildNoteSearchEntry = (note: Note): NoteSearchEntry => {
+  const titleTokens = tokenize(note.title);
+  const contentTokens = tokenize(note.content);
+  const terms: { [term: string]: number } = {};
+  titleTokens.concat(contentTokens).forEach(({ term }) => {
+    terms[term] = (terms[term] || 0) + 1;
+  });
+
+  return {
+    key: getNoteSearchKey(note.homeId, note.id),
+    homeId: note.homeId,
+    noteId: note.id,
+    format: NOTE_SEARCH_FORMAT,
+    version: getNoteSearchVersion(note),
+    titleTerms: Array.from(new Set(titleTokens.map(token => token.term))),
+    terms,
+    length: titleTokens.length + contentTokens.length,
+  };
+};
+
+export const isNoteSearchEntryCurrent = (entry: NoteSearchEntry | undefined, note: Note) =>
+  !!entry && entry.format === NOTE_SEARCH_FORMAT && entry.version === getNoteSearchVersion(note);
+
+// Kata-kata query; kata sambung dibuang jika masih ada kata lain
+export const parseSearchQuery = (query: string) => {
+  const terms = Array.from(new Set(tokenize(query).map(token => token.term)));
+  const meaningful = terms.filter(term => !STOPWORDS.has(term));
+  return meaningful.length > 0 ? meaningful : terms;
+};
+
+// Kosakata seluruh note di rumah: jumlah note per kata dan bentuk dasarnya
+export interface NoteSearchVocabulary {
+  documentFrequency: Map<string, number>;
+  stems: Map<string, string>;
+  documentCount: number;
+}
+
+export const buildNoteSearchVocabulary = (entries: NoteSearchEntry[]): NoteSearchVocabulary => {
+  const documentFrequency = new Map<string, number>();
+  const stems = new Map<string, string>();
+  entries.forEach(entry => Object.keys(entry.terms).forEach(term => {
+    documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+    if (!stems.has(term)) stems.set(term, stemTerm(term));
+  }));
+  return { documentFrequency, stems, documentCount: entries.length };
+};
+
+// Kata di kosakata yang cocok dengan satu kata query beserta jenis kecocokannya
+const expandQueryTerm = (queryTerm: string, vocabulary: NoteSearchVocabulary) => {
+  const matches = new Map<string, NoteSearchMatchKind>();
+  const queryStem = stemTerm(queryTerm);
+  const typos = maxTypos(queryTerm);
+
+  vocabulary.stems.forEach((stem, term) => {
+    if (term === queryTerm || stem === queryStem) {
+      matches.set(term, 'exact');
+    } else if (queryTerm.length >= 2 && term.startsWith(queryTerm)) {
+      matches.set(term, 'prefix');
+    } else if (typos > 0 && (editDistance(queryTerm, term, typos) <= typos || editDistance(queryStem, stem, typos) <= typos)) {
+      matches.set(term, 'fuzzy');
+    }
+  });
+
+  return matches;
+};
+
+const containsPhrase = (text: string, phrase: string) =>
+  text.split('').map(foldChar).join('').indexOf(phrase) !== -1;
+
+const highlightTokens = (tokens: Token[], matched: Set<string>) =>
+  tokens.filter(token => matched.has(token.term)).map(({ start, end }) => ({ start, end }));
+
+// Cuplikan isi di sekitar kecocokan pertama, dipotong di batas kata
+const buildSnippet = (content: string, contentTokens: Token[], matched: Set<string>, match: TextRange) => {
+  let start = Math.max(0, match.start - Math.floor(SNIPPET_LENGTH / 3));
+  let end = Math.min(content.length, start + SNIPPET_LENGTH);
+  start = Math.max(0, Math.min(start, end - SNIPPET_LENGTH));
+
+  if (start > 0) {
+    const space = content.indexOf(' ', start);
+    if (space !== -1 && space < match.start) start = space + 1;
+  }
+  if (end < content.length) {
+    const space = content.lastIndexOf(' ', end);
+    if (space > match.end) end = space;
+  }
+
+  return {
+    text: content.slice(start, end).replace(/\s/g, ' '),
+    highlights: contentTokens
+      .filter(token => token.start >= start && token.end <= end && matched.has(token.term))
+      .map(token => ({ start: token.start - start, end: token.end - start })),
+    leading: start > 0,
+    trailing: end < content.length,
+  };
+};
+
+export const searchNotes = (
+  query: string,
+  notes: Note[],
+  entries: Map<string, NoteSearchEntry>,
+  vocabulary: NoteSearchVocabulary
+): NoteSearchResult[] => {
+  const queryTerms = parseSearchQuery(query);
+  if (queryTerms.length === 0) return [];
+
+  const expansions = queryTerms.map(term => expandQueryTerm(term, vocabulary));
+  const idf = (term: string) =>
+    Math.log(1 + vocabulary.documentCount / (vocabulary.documentFrequency.get(term) || 1));
+  const phrase = queryTerms.length > 1 ? tokenize(query).map(token => token.term).join(' ') : '';
+
+  const scored: { note: Note; score: number; matched: Set<string> }[] = [];
+  notes.forEach(note => {
+    const entry = entries.get(note.id);
+    if (!entry) return;
+
+    let score = 0;
+    const matched = new Set<string>();
+    const allMatched = expansions.every(expansion => {
+      let best = 0;
+      Object.keys(entry.terms).forEach(term => {
+        const kind = expansion.get(term);
+        if (!kind) return;
+        matched.add(term);
+        const weight = MATCH_WEIGHTS[kind] * idf(term) * (1 + Math.log(entry.terms[term])) *
+          (entry.titleTerms.includes(term) ? TITLE_BOOST : 1);
+        best = Math.max(best, weight);
+      });
+      score += best;
+      return best > 0;
+    });
+    if (!allMatched) return;
+
+    // Note panjang sedikit diturunkan agar note yang fokus pada topiknya naik
+    score /= 1 + Math.log(1 + entry.length / 200);
+    if (phrase && (containsPhrase(note.title, phrase) || containsPhrase(note.content, phrase))) {
+      score *= PHRASE_BOOST;
+    }
+    scored.push({ note, score, matched });
+  });
+
+  return scored
+    .sort((a, b) => b.score - a.score || b.note.updatedAt.getTime() - a.note.updatedAt.getTime())
+    .slice(0, NOTE_SEARCH_MAX_RESULTS)
+    .map(({ note, score, matched }) => {
+      const contentTokens = tokenize(note.content);
+      const first = contentTokens.find(token => matched.has(token.term));
+      const match = first ? { start: first.start, end: first.end } : null;
+
+      return {
+        noteId: note.id,
+        score,
+        titleHighlights: highlightTokens(tokenize(note.title), matched),
+        snippet: match ? buildSnippet(note.content, contentTokens, matched, match) : null,
+        match,
+      };
+    });
+};
@@ -0,0 +1,37 @@
+import { Note, NoteVisibility } from '../types/user';
+
+/**
+ * Visibilitas note: 'home' terlihat semua anggota, 'private' hanya pembuatnya,
+ * 'members' pembuat dan anggota yang dipilih. Yang boleh membuka disimpan di
+ * `readers` agar bisa dipakai di query dan security rules.
+ */
+
+export const NOTE_VISIBILITY_OPTIONS: { value: NoteVisibility; label: string; description: string }[] = [
+  { value: 'home', label: 'Semua anggota', description: 'Semua anggota rumah bisa melihat dan menyunting' },
+  { value: 'members', label: 'Anggota tertentu', description: 'Hanya Anda dan anggota yang dipilih' },
+  { value: 'private', label: 'Hanya saya', description: 'Tidak terlihat oleh anggota lain' },
+];
+
+export const NOTE_VISIBILITY_ICONS: Record<NoteVisibility, string> = {
+  home: '🏠',
+  members: '👥',
+  private: '🔒',
+};
+
+export const getNoteVisibility = (note: Pick<Note, 'visibility'>): NoteVisibility => note.visibility || 'home';
+
+export const isRestrictedNote = (note: Pick<Note, 'visibility'>) => getNoteVisibility(note) !== 'home';
+
+export const canViewNote = (note: Pick<Note, 'visibility' | 'readers'>, userId: string) =>
+  !isRestrictedNote(note) || (note.readers || []).includes(userId);
+
+// Pembuat selalu termasuk pembaca note terbatas; note 'home' tidak memakai daftar pembaca
+export const buildNoteReaders = (visibility: NoteVisibility, creatorId: string, memberIds: string[] = []) => {
+  if (visibility === 'home') return [];
+  if (visibility === 'private') return [creatorId];
+  return Array.from(new Set([creatorId, ...memberIds]));
+};
+
+// Anggota selain pembuat yang dibagikan note 'members'
+export const getNoteSharedMembers = (note: Pick<Note, 'visibility' | 'readers' | 'createdBy'>) =>
+  getNoteVisibility(note) === 'members' ? (note.readers || []).filter(userId => userId !== note.createdBy) : [];
@@ -0,0 +1,69 @@
+import { Home, HomeMemberProfile, OwnershipClaim } from '../types/user';
+import { getMemberRole } from './homePermissions';
+
+/**
+ * Suksesi kepemilikan rumah dan klaim kepemilikan saat pemilik tidak aktif.
+ * Nilai hari di sini juga dipakai oleh firestore.rules (klaim kepemilikan).
+ */
+
+// Pemilik dianggap tidak aktif jika tidak login selama ini
+export const OWNER_INACTIVITY_DAYS = 30;
+
+// Masa tunggu sejak klaim diajukan; pemilik bisa menolak atau cukup login kembali
+export const OWNERSHIP_CLAIM_WAITING_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Urutan bergabung: tanggal dari profil anggota, lalu urutan daftar anggota
+// (arrayUnion menambahkan anggota baru di akhir)
+const byJoinOrder = (home: Home, profiles: { [userId: string]: HomeMemberProfile }) =>
+  (a: string, b: string) => {
+    const joinedA = profiles[a]?.joinedAt?.getTime() ?? Infinity;
+    const joinedB = profiles[b]?.joinedAt?.getTime() ?? Infinity;
+    if (joinedA !== joinedB) return joinedA - joinedB;
+    return home.members.indexOf(a) - home.members.indexOf(b);
+  };
+
+// Calon pemilik berikutnya: penerus pilihan pemilik, admin terlama, lalu anggota terlama.
+// Tamu tidak pernah menjadi pemilik.
+export const getSuccessionOrder = (
+  home: Home,
+  profiles: { [userId: string]: HomeMemberProfile } = {}
+): string[] => {
+  const eligible = home.members.filter(userId => {
+    const role = getMemberRole(home, userId);
+    return role === 'admin' || role === 'member';
+  });
+
+  const designated = (home.successors || []).filter(userId => eligible.includes(userId));
+  const rest = eligible.filter(userId => !designated.includes(userId));
+  const admins = rest.filter(userId => getMemberRole(home, userId) === 'admin').sort(byJoinOrder(home, profiles));
+  const members = rest.filter(userId => getMemberRole(home, userId) === 'member').sort(byJoinOrder(home, profiles));
+
+  return [...designated, ...admins, ...members];
+};
+
+export const pickSuccessor = (home: Home, profiles?: { [userId: string]: HomeMemberProfile }): string | null =>
+  getSuccessionOrder(home, profiles)[0] || null;
+
+export const getDaysInactive = (lastLogin: Date, now: Date = new Date()) =>
+  Math.max(0, Math.floor((now.getTime() - lastLogin.getTime()) / DAY_MS));
+
+export const isOwnerInactive = (lastLogin: Date | null, now: Date = new Date()) =>
+  !!lastLogin && getDaysInactive(lastLogin, now) >= OWNER_INACTIVITY_DAYS;
+
+export const getClaimAvailableAt = (claim: Pick<OwnershipClaim, 'createdAt'>) =>
+  new Date(claim.createdAt.getTime() + OWNERSHIP_CLAIM_WAITING_DAYS * DAY_MS);
+
+// Klaim gugur jika pemilik login lagi setelah klaim diajukan
+export const isClaimContested = (claim: Pick<OwnershipClaim, 'createdAt'>, ownerLastLogin: Date | null) =>
+  !!ownerLastLogin && ownerLastLogin.getTime() > claim.createdAt.getTime();
+
+export const canCompleteClaim = (
+  claim: OwnershipClaim,
+  ownerLastLogin: Date | null,
+  now: Date = new Date()
+) =>
+  claim.status === 'pending' &&
+  !isClaimContested(claim, ownerLastLogin) &&
+  getClaimAvailableAt(claim).getTime() <= now.getTime();
@@ -0,0 +1,24 @@
+/**
+ * Menyimpan kode undangan dari link /join/:code selama user login atau mendaftar,
+ * supaya setelah autentikasi user langsung diarahkan kembali ke halaman gabung.
+ */
+
+const PENDING_INVITE_KEY = 'RUMAH_KITA_PENDING_INVITE';
+
+export const setPendingInvite = (code: string) => {
+  localStorage.setItem(PENDING_INVITE_KEY, code);
+};
+
+export const getPendingInvite = (): string | null => {
+  return localStorage.getItem(PENDING_INVITE_KEY);
+};
+
+export const clearPendingInvite = () => {
+  localStorage.removeItem(PENDING_INVITE_KEY);
+};
+
+// Tujuan setelah login/daftar: halaman gabung jika ada undangan tertunda
+export const getPostAuthPath = (): string => {
+  const code = getPendingInvite();
+  return code ? `/join/${encodeURIComponent(code)}` : '/dashboard';
+};
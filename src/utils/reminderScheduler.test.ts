@@ -0,0 +1,163 @@
+import { Note, NoteReminder } from '../types/user';
+import { completeReminder, createReminder } from './noteReminders';
+import { getReminderOccurrenceKey, MAX_REMINDER_TIMER_MS, ReminderClock, scheduleReminders } from './reminderScheduler';
+
+// Jam palsu: timer hanya berjalan saat jam dimajukan lewat `advanceTo`
+const createFakeClock = (start: Date) => {
+  let now = start.getTime();
+  let nextId = 1;
+  let timers: { id: number; at: number; callback: () => void }[] = [];
+
+  const clock: ReminderClock = {
+    now: () => now,
+    setTimeout: (callback, delay) => {
+      const id = nextId++;
+      timers.push({ id, at: now + delay, callback });
+      return id;
+    },
+    clearTimeout: (handle) => {
+      timers = timers.filter(timer => timer.id !== handle);
+    },
+  };
+
+  const advanceTo = (time: Date) => {
+    while (true) {
+      const [due] = timers.filter(timer => timer.at <= time.getTime()).sort((a, b) => a.at - b.at);
+      if (!due) break;
+
+      timers = timers.filter(timer => timer !== due);
+      now = due.at;
+      due.callback();
+    }
+    now = time.getTime();
+  };
+
+  return { clock, advanceTo, pendingTimers: () => timers.length };
+};
+
+const makeNote = (id: string, reminder: NoteReminder | null): Note => ({
+  id,
+  homeId: 'home-1',
+  title: id,
+  content: '',
+  createdBy: 'user-1',
+  createdAt: new Date(2024, 0, 1),
+  updatedAt: new Date(2024, 0, 1),
+  reminder,
+});
+
+describe('scheduleReminders', () => {
+  it('reports reminders that are already due right away', () => {
+    const { clock } = createFakeClock(new Date(2024, 0, 10, 10, 0));
+    const onDue = jest.fn();
+
+    scheduleReminders([makeNote('a', createReminder(new Date(2024, 0, 10, 9, 0), 'none', [], 'user-1'))], clock, onDue);
+
+    expect(onDue).toHaveBeenCalledTimes(1);
+    expect(onDue.mock.calls[0][0].map((note: Note) => note.id)).toEqual(['a']);
+  });
+
+  it('fires a future reminder when the clock reaches it, in chunks of at most a minute', () => {
+    const { clock, advanceTo } = createFakeClock(new Date(2024, 0, 10, 8, 0, 30));
+    const setTimeoutSpy = jest.spyOn(clock, 'setTimeout');
+    const onDue = jest.fn();
+
+    scheduleReminders([makeNote('a', createReminder(new Date(2024, 0, 10, 9, 0), 'none', [], 'user-1'))], clock, onDue);
+    expect(onDue).not.toHaveBeenCalled();
+    expect(setTimeoutSpy).toHaveBeenLastCalledWith(expect.any(Function), MAX_REMINDER_TIMER_MS);
+
+    advanceTo(new Date(2024, 0, 10, 8, 59, 59));
+    expect(onDue).not.toHaveBeenCalled();
+
+    advanceTo(new Date(2024, 0, 10, 9, 0));
+    expect(onDue).toHaveBeenCalledTimes(1);
+    expect(setTimeoutSpy).toHaveBeenLastCalledWith(expect.any(Function), 30 * 1000);
+  });
+
+  it('fires reminders in order and ignores notes without an active reminder', () => {
+    const { clock, advanceTo, pendingTimers } = createFakeClock(new Date(2024, 0, 10, 8, 0));
+    const done = { ...createReminder(new Date(2024, 0, 10, 8, 30), 'none', [], 'user-1'), doneAt: new Date(2024, 0, 10, 7, 0) };
+    const notes = [
+      makeNote('later', createReminder(new Date(2024, 0, 10, 8, 20), 'none', [], 'user-1')),
+      makeNote('sooner', createReminder(new Date(2024, 0, 10, 8, 10), 'none', [], 'user-1')),
+      makeNote('done', done),
+      makeNote('none', null),
+    ];
+    const fired: string[][] = [];
+
+    scheduleReminders(notes, clock, due => fired.push(due.map(note => note.id)));
+    advanceTo(new Date(2024, 0, 10, 8, 10));
+    advanceTo(new Date(2024, 0, 10, 8, 20));
+
+    expect(fired[0]).toEqual(['sooner']);
+    expect(fired[fired.length - 1]).toEqual(['later', 'sooner']);
+    expect(pendingTimers()).toBe(0);
+  });
+
+  it('uses the snooze time instead of the due time', () => {
+    const { clock, advanceTo } = createFakeClock(new Date(2024, 0, 10, 9, 5));
+    const reminder = {
+      ...createReminder(new Date(2024, 0, 10, 9, 0), 'none', [], 'user-1'),
+      snoozedUntil: new Date(2024, 0, 10, 9, 15),
+    };
+    const onDue = jest.fn();
+
+    scheduleReminders([makeNote('a', reminder)], clock, onDue);
+    expect(onDue).not.toHaveBeenCalled();
+
+    advanceTo(new Date(2024, 0, 10, 9, 15));
+    expect(onDue).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops firing once cancelled', () => {
+    const { clock, advanceTo, pendingTimers } = createFakeClock(new Date(2024, 0, 10, 8, 0));
+    const onDue = jest.fn();
+
+    const stop = scheduleReminders([makeNote('a', createReminder(new Date(2024, 0, 10, 9, 0), 'none', [], 'user-1'))], clock, onDue);
+    stop();
+    advanceTo(new Date(2024, 0, 10, 10, 0));
+
+    expect(onDue).not.toHaveBeenCalled();
+    expect(pendingTimers()).toBe(0);
+  });
+
+  it('fires each occurrence of a repeating reminder once it is rescheduled', () => {
+    const { clock, advanceTo } = createFakeClock(new Date(2024, 0, 10, 8, 0));
+    let note = makeNote('a', createReminder(new Date(2024, 0, 10, 9, 0), 'daily', [], 'user-1'));
+    const keys: string[] = [];
+    const onDue = (due: Note[]) => due.forEach(dueNote => {
+      const key = getReminderOccurrenceKey(dueNote);
+      if (key && !keys.includes(key)) keys.push(key);
+    });
+
+    let stop = scheduleReminders([note], clock, onDue);
+    advanceTo(new Date(2024, 0, 10, 9, 0));
+
+    // Ditandai selesai, lalu daftar note yang berubah dijadwalkan ulang
+    stop();
+    note = { ...note, reminder: completeReminder(note.reminder as NoteReminder, new Date(clock.now())) };
+    stop = scheduleReminders([note], clock, onDue);
+    advanceTo(new Date(2024, 0, 11, 9, 0));
+    stop();
+
+    expect(keys).toEqual([
+      `a:${new Date(2024, 0, 10, 9, 0).getTime()}`,
+      `a:${new Date(2024, 0, 11, 9, 0).getTime()}`,
+    ]);
+  });
+
+  it('fires at the same wall-clock time across a daylight saving time change', () => {
+    // Europe/Berlin (lihat src/testTimezone.js): jam maju satu jam pada 31 Maret 2024 pukul 02:00
+    const { clock, advanceTo } = createFakeClock(new Date(2024, 2, 30, 9, 30));
+    const reminder = completeReminder(createReminder(new Date(2024, 2, 30, 9, 0), 'daily', [], 'user-1'), new Date(clock.now()));
+    const firedAt: number[] = [];
+
+    scheduleReminders([makeNote('a', reminder)], clock, () => firedAt.push(clock.now()));
+    advanceTo(new Date(2024, 2, 31, 8, 59));
+    expect(firedAt).toEqual([]);
+
+    advanceTo(new Date(2024, 2, 31, 9, 0));
+    expect(firedAt).toEqual([new Date(2024, 2, 31, 9, 0).getTime()]);
+    expect(new Date(firedAt[0]).getHours()).toBe(9);
+  });
+});
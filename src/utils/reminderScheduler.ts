@@ -0,0 +1,69 @@
+import { Note } from '../types/user';
+import { getReminderFireTime } from './noteReminders';
+
+/**
+ * Penjadwal pengingat di tab yang terbuka. Jam dan timer disuntikkan lewat
+ * `ReminderClock`, sehingga penjadwalan bisa diuji dengan jam palsu tanpa menunggu.
+ */
+
+export interface ReminderClock {
+  now: () => number;
+  setTimeout: (callback: () => void, delay: number) => unknown;
+  clearTimeout: (handle: unknown) => void;
+}
+
+export const systemClock: ReminderClock = {
+  now: () => Date.now(),
+  setTimeout: (callback, delay) => window.setTimeout(callback, delay),
+  clearTimeout: (handle) => window.clearTimeout(handle as number),
+};
+
+// Timer dipecah agar pengingat tetap berbunyi tepat setelah perangkat bangun dari
+// sleep (timer browser ikut berhenti selama sleep)
+export const MAX_REMINDER_TIMER_MS = 60 * 1000;
+
+// Key unik per kemunculan, agar satu kemunculan hanya diberitahukan sekali
+export const getReminderOccurrenceKey = (note: Note) => {
+  const fireTime = getReminderFireTime(note.reminder);
+  return fireTime ? `${note.id}:${fireTime.getTime()}` : null;
+};
+
+/**
+ * Memanggil `onDue` dengan note yang pengingatnya sudah berbunyi, segera dan
+ * setiap kali ada pengingat berikutnya yang jatuh tempo. Mengembalikan fungsi
+ * untuk menghentikan penjadwalan (dipanggil saat daftar note berubah).
+ */
+export const scheduleReminders = (notes: Note[], clock: ReminderClock, onDue: (due: Note[]) => void) => {
+  let handle: unknown = null;
+  let stopped = false;
+
+  const check = () => {
+    handle = null;
+    if (stopped) return;
+
+    const now = clock.now();
+    const due: Note[] = [];
+    let next = Infinity;
+    notes.forEach(note => {
+      const fireTime = getReminderFireTime(note.reminder);
+      if (!fireTime) return;
+      if (fireTime.getTime() <= now) {
+        due.push(note);
+      } else {
+        next = Math.min(next, fireTime.getTime());
+      }
+    });
+
+    if (due.length > 0) onDue(due);
+    if (next !== Infinity) {
+      handle = clock.setTimeout(check, Math.min(next - now, MAX_REMINDER_TIMER_MS));
+    }
+  };
+
+  check();
+
+  return () => {
+    stopped = true;
+    if (handle !== null) clock.clearTimeout(handle);
+  };
+};
@@ -0,0 +1,133 @@
+import { TextOperation } from '../types/user';
+import {
+  applyOperation,
+  composeOperations,
+  isNoopOperation,
+  operationFromDiff,
+  transformIndex,
+  transformOperations,
+} from './textOperation';
+
+// a lalu b' dan b lalu a' harus menghasilkan teks yang sama
+const expectConverges = (text: string, a: TextOperation, b: TextOperation) => {
+  const [aPrime, bPrime] = transformOperations(a, b);
+  const viaA = applyOperation(applyOperation(text, a), bPrime);
+  const viaB = applyOperation(applyOperation(text, b), aPrime);
+  expect(viaA).toBe(viaB);
+  return viaA;
+};
+
+describe('applyOperation', () => {
+  it('retains, inserts and deletes from the start of the text', () => {
+    expect(applyOperation('hello world', [6, 'dear ', -5, 'there'])).toBe('hello dear there');
+  });
+
+  it('rejects operations made for a different text length', () => {
+    expect(() => applyOperation('abc', [2, 'x'])).toThrow();
+  });
+});
+
+describe('operationFromDiff', () => {
+  it('turns a single edited range into an operation', () => {
+    const operation = operationFromDiff('shopping list', 'shopping wish list');
+    expect(operation).toEqual([9, 'wish ', 4]);
+    expect(applyOperation('shopping list', operation)).toBe('shopping wish list');
+  });
+
+  it('produces a no-op for unchanged text', () => {
+    expect(isNoopOperation(operationFromDiff('same', 'same'))).toBe(true);
+  });
+});
+
+describe('transformOperations', () => {
+  it('orders concurrent inserts at the same position with the first operation first', () => {
+    const a = operationFromDiff('abc', 'aXbc');
+    const b = operationFromDiff('abc', 'aYbc');
+    expect(expectConverges('abc', a, b)).toBe('aXYbc');
+  });
+
+  it('keeps an insert made where the other side deleted', () => {
+    const insert = operationFromDiff('abc', 'aXbc');
+    const remove = operationFromDiff('abc', 'ac');
+    expect(expectConverges('abc', insert, remove)).toBe('aXc');
+    expect(expectConverges('abc', remove, insert)).toBe('aXc');
+  });
+
+  it('deletes overlapping ranges only once', () => {
+    const a = operationFromDiff('abcdef', 'aef');
+    const b = operationFromDiff('abcdef', 'abf');
+    expect(expectConverges('abcdef', a, b)).toBe('af');
+  });
+
+  it('handles both sides deleting the same text', () => {
+    const remove = operationFromDiff('abcdef', 'abef');
+    const [aPrime, bPrime] = transformOperations(remove, remove);
+    expect(isNoopOperation(aPrime)).toBe(true);
+    expect(isNoopOperation(bPrime)).toBe(true);
+  });
+
+  it('replaces text at the same position on both sides', () => {
+    const a = operationFromDiff('the cat sat', 'the dog sat');
+    const b = operationFromDiff('the cat sat', 'the bird sat');
+    expect(expectConverges('the cat sat', a, b)).toBe('the dogbird sat');
+  });
+
+  it('rejects operations based on different texts', () => {
+    expect(() => transformOperations([3], [4])).toThrow();
+  });
+});
+
+describe('composeOperations', () => {
+  it('equals applying both operations in turn', () => {
+    const a = operationFromDiff('note', 'my note');
+    const b = operationFromDiff('my note', 'my old note!');
+    const composed = composeOperations(a, b);
+    expect(applyOperation('note', composed)).toBe('my old note!');
+  });
+
+  it('cancels text that is inserted and then deleted', () => {
+    const a = operationFromDiff('ab', 'aXYZb');
+    const b = operationFromDiff('aXYZb', 'ab');
+    expect(isNoopOperation(composeOperations(a, b))).toBe(true);
+  });
+
+  it('rejects operations whose lengths do not line up', () => {
+    expect(() => composeOperations([2, 'x'], [2])).toThrow();
+  });
+
+  it('transforms a composed batch of local edits the same as the edits one by one', () => {
+    const base = 'buy milk';
+    const local1 = operationFromDiff(base, 'buy oat milk');
+    const local2 = operationFromDiff('buy oat milk', 'buy oat milk and eggs');
+    const remote = operationFromDiff(base, 'buy milk today');
+
+    // Sekaligus: gabungan suntingan lokal ditransformasi terhadap operasi server
+    const [localPrime, remotePrime] = transformOperations(composeOperations(local1, local2), remote);
+    const batched = applyOperation(applyOperation(base, remote), localPrime);
+    expect(applyOperation(applyOperation(base, composeOperations(local1, local2)), remotePrime)).toBe(batched);
+
+    // Satu per satu: operasi server ditransformasi melewati setiap suntingan lokal
+    const [local1Prime, remoteAfter1] = transformOperations(local1, remote);
+    const [local2Prime] = transformOperations(local2, remoteAfter1);
+    const stepwise = applyOperation(applyOperation(applyOperation(base, remote), local1Prime), local2Prime);
+
+    expect(batched).toBe(stepwise);
+    expect(batched).toBe('buy oat milk and eggs today');
+  });
+});
+
+describe('transformIndex', () => {
+  it('moves the cursor past text inserted before it', () => {
+    expect(transformIndex([2, 'XYZ', 3], 4)).toBe(7);
+  });
+
+  it('keeps the cursor in front of an insert at its position unless asked otherwise', () => {
+    expect(transformIndex([2, 'XYZ', 3], 2)).toBe(2);
+    expect(transformIndex([2, 'XYZ', 3], 2, true)).toBe(5);
+  });
+
+  it('pulls the cursor back to the start of a deleted range that contains it', () => {
+    expect(transformIndex([1, -3, 2], 3)).toBe(1);
+    expect(transformIndex([1, -3, 2], 5)).toBe(2);
+  });
+});
@@ -0,0 +1,247 @@
+import { TextOperation, TextOperationComponent } from '../types/user';
+
+/**
+ * Operational transform untuk teks note. Sebuah operasi adalah daftar komponen
+ * yang dibaca dari awal teks: angka positif = lewati (retain) n karakter,
+ * angka negatif = hapus n karakter, string = sisipkan teks.
+ * Disimpan apa adanya di Firestore sebagai array angka/string.
+ */
+
+const isRetain = (component: TextOperationComponent | undefined): component is number =>
+  typeof component === 'number' && component > 0;
+const isDelete = (component: TextOperationComponent | undefined): component is number =>
+  typeof component === 'number' && component < 0;
+const isInsert = (component: TextOperationComponent | undefined): component is string =>
+  typeof component === 'string';
+
+// Penyusun operasi yang menggabungkan komponen berurutan sejenis. Sisipan selalu
+// ditaruh sebelum penghapusan di posisi yang sama agar bentuk operasinya kanonis.
+const createBuilder = () => {
+  const ops: TextOperation = [];
+
+  const retain = (n: number) => {
+    if (n <= 0) return;
+    const last = ops[ops.length - 1];
+    if (isRetain(last)) {
+      ops[ops.length - 1] = last + n;
+    } else {
+      ops.push(n);
+    }
+  };
+
+  const insert = (text: string) => {
+    if (!text) return;
+    const last = ops[ops.length - 1];
+    if (isInsert(last)) {
+      ops[ops.length - 1] = last + text;
+    } else if (isDelete(last)) {
+      const beforeLast = ops[ops.length - 2];
+      if (isInsert(beforeLast)) {
+        ops[ops.length - 2] = beforeLast + text;
+      } else {
+        ops[ops.length - 1] = text;
+        ops.push(last);
+      }
+    } else {
+      ops.push(text);
+    }
+  };
+
+  const remove = (n: number) => {
+    const count = Math.abs(n);
+    if (count === 0) return;
+    const last = ops[ops.length - 1];
+    if (isDelete(last)) {
+      ops[ops.length - 1] = last - count;
+    } else {
+      ops.push(-count);
+    }
+  };
+
+  return { ops, retain, insert, remove };
+};
+
+// Panjang teks yang dibutuhkan operasi
+export const getBaseLength = (operation: TextOperation) =>
+  operation.reduce<number>((length, component) =>
+    length + (isInsert(component) ? 0 : Math.abs(component)), 0);
+
+// Panjang teks setelah operasi diterapkan
+export const getTargetLength = (operation: TextOperation) =>
+  operation.reduce<number>((length, component) =>
+    length + (isInsert(component) ? component.length : isRetain(component) ? component : 0), 0);
+
+export const isNoopOperation = (operation: TextOperation) =>
+  operation.every(component => isRetain(component));
+
+export const isValidOperation = (value: unknown): value is TextOperation =>
+  Array.isArray(value) && value.every(component =>
+    (typeof component === 'string' && component.length > 0) ||
+    (typeof component === 'number' && Number.isInteger(component) && component !== 0)
+  );
+
+export const applyOperation = (text: string, operation: TextOperation): string => {
+  if (getBaseLength(operation) !== text.length) {
+    throw new Error('Operasi tidak cocok dengan panjang teks');
+  }
+
+  let index = 0;
+  let result = '';
+  operation.forEach(component => {
+    if (isInsert(component)) {
+      result += component;
+    } else if (isRetain(component)) {
+      result += text.slice(index, index + component);
+      index += component;
+    } else {
+      index -= component;
+    }
+  });
+
+  return result;
+};
+
+// Operasi dari `before` ke `after`. Perubahan dari textarea selalu satu rentang,
+// jadi cukup membandingkan awalan dan akhiran yang sama.
+export const operationFromDiff = (before: string, after: string): TextOperation => {
+  let start = 0;
+  while (start < before.length && start < after.length && before[start] === after[start]) start++;
+
+  let endBefore = before.length;
+  let endAfter = after.length;
+  while (endBefore > start && endAfter > start && before[endBefore - 1] === after[endAfter - 1]) {
+    endBefore--;
+    endAfter--;
+  }
+
+  const builder = createBuilder();
+  builder.retain(start);
+  builder.insert(after.slice(start, endAfter));
+  builder.remove(endBefore - start);
+  builder.retain(before.length - endBefore);
+  return builder.ops;
+};
+
+// Satu operasi yang sama dengan menerapkan `a` lalu `b`
+export const composeOperations = (a: TextOperation, b: TextOperation): TextOperation => {
+  if (getTargetLength(a) !== getBaseLength(b)) {
+    throw new Error('Operasi tidak bisa digabungkan: panjang tidak cocok');
+  }
+
+  const builder = createBuilder();
+  let i1 = 0;
+  let i2 = 0;
+  let op1: TextOperationComponent | undefined = a[i1++];
+  let op2: TextOperationComponent | undefined = b[i2++];
+
+  while (op1 !== undefined || op2 !== undefined) {
+    if (isDelete(op1)) {
+      builder.remove(op1);
+      op1 = a[i1++];
+      continue;
+    }
+    if (isInsert(op2)) {
+      builder.insert(op2);
+      op2 = b[i2++];
+      continue;
+    }
+    if (op1 === undefined || op2 === undefined) {
+      throw new Error('Operasi tidak bisa digabungkan: komponen tersisa');
+    }
+
+    if (isRetain(op1) && isRetain(op2)) {
+      const length = Math.min(op1, op2);
+      builder.retain(length);
+      op1 = op1 > length ? op1 - length : a[i1++];
+      op2 = op2 > length ? op2 - length : b[i2++];
+    } else if (isInsert(op1) && isDelete(op2)) {
+      const length = Math.min(op1.length, -op2);
+      op1 = op1.length > length ? op1.slice(length) : a[i1++];
+      op2 = -op2 > length ? op2 + length : b[i2++];
+    } else if (isInsert(op1) && isRetain(op2)) {
+      const length = Math.min(op1.length, op2);
+      builder.insert(op1.slice(0, length));
+      op1 = op1.length > length ? op1.slice(length) : a[i1++];
+      op2 = op2 > length ? op2 - length : b[i2++];
+    } else if (isRetain(op1) && isDelete(op2)) {
+      const length = Math.min(op1, -op2);
+      builder.remove(length);
+      op1 = op1 > length ? op1 - length : a[i1++];
+      op2 = -op2 > length ? op2 + length : b[i2++];
+    }
+  }
+
+  return builder.ops;
+};
+
+// Mengubah dua operasi serentak dari teks yang sama menjadi [a', b'] sehingga
+// a lalu b' sama dengan b lalu a'. Sisipan di posisi yang sama: `a` lebih dulu.
+export const transformOperations = (a: TextOperation, b: TextOperation): [TextOperation, TextOperation] => {
+  if (getBaseLength(a) !== getBaseLength(b)) {
+    throw new Error('Operasi tidak bisa ditransformasi: panjang tidak cocok');
+  }
+
+  const aPrime = createBuilder();
+  const bPrime = createBuilder();
+  let i1 = 0;
+  let i2 = 0;
+  let op1: TextOperationComponent | undefined = a[i1++];
+  let op2: TextOperationComponent | undefined = b[i2++];
+
+  while (op1 !== undefined || op2 !== undefined) {
+    if (isInsert(op1)) {
+      aPrime.insert(op1);
+      bPrime.retain(op1.length);
+      op1 = a[i1++];
+      continue;
+    }
+    if (isInsert(op2)) {
+      aPrime.retain(op2.length);
+      bPrime.insert(op2);
+      op2 = b[i2++];
+      continue;
+    }
+    if (op1 === undefined || op2 === undefined) {
+      throw new Error('Operasi tidak bisa ditransformasi: komponen tersisa');
+    }
+
+    const length = Math.min(Math.abs(op1), Math.abs(op2));
+    if (isRetain(op1) && isRetain(op2)) {
+      aPrime.retain(length);
+      bPrime.retain(length);
+    } else if (isDelete(op1) && isRetain(op2)) {
+      aPrime.remove(length);
+    } else if (isRetain(op1) && isDelete(op2)) {
+      bPrime.remove(length);
+    }
+    // Keduanya menghapus teks yang sama: tidak ada yang perlu dihapus lagi
+
+    op1 = Math.abs(op1) > length ? op1 + (op1 > 0 ? -length : length) : a[i1++];
+    op2 = Math.abs(op2) > length ? op2 + (op2 > 0 ? -length : length) : b[i2++];
+  }
+
+  return [aPrime.ops, bPrime.ops];
+};
+
+// Posisi kursor setelah operasi diterapkan. Sisipan tepat di posisi kursor
+// mendorong kursor ke belakang hanya jika `insertBefore` true.
+export const transformIndex = (operation: TextOperation, index: number, insertBefore = false) => {
+  let position = 0;
+  let result = index;
+
+  for (const component of operation) {
+    if (position > index) break;
+    if (isRetain(component)) {
+      position += component;
+    } else if (isInsert(component)) {
+      if (position < index || insertBefore) {
+        result += component.length;
+      }
+    } else {
+      result -= Math.min(index - position, -component);
+      position -= component;
+    }
+  }
+
+  return result;
+};
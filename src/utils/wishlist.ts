@@ -0,0 +1,30 @@
+/**
+ * Kategori wishlist dipilih dari daftar milik rumah (Home.wishlistCategories),
+ * diisi dari template rumah dan bisa diubah oleh pemilik/admin.
+ */
+
+export const WISHLIST_CATEGORY_MAX_LENGTH = 30;
+export const WISHLIST_CATEGORIES_MAX = 12;
+
+// Rapikan spasi dan buang duplikat (tidak peka huruf besar/kecil), urutan dipertahankan
+export const normalizeWishlistCategories = (categories: string[]): string[] => {
+  const seen = new Set<string>();
+  return categories
+    .map(category => category.trim())
+    .filter(category => {
+      const key = category.toLocaleLowerCase('id-ID');
+      if (!category || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+};
+
+export const validateWishlistCategories = (categories: string[]): string | null => {
+  if (categories.length > WISHLIST_CATEGORIES_MAX) {
+    return `Maksimal ${WISHLIST_CATEGORIES_MAX} kategori wishlist`;
+  }
+  if (categories.some(category => category.trim().length > WISHLIST_CATEGORY_MAX_LENGTH)) {
+    return `Nama kategori maksimal ${WISHLIST_CATEGORY_MAX_LENGTH} karakter`;
+  }
+  return null;
+};